@@ -1,6 +1,10 @@
 import mongoose from 'mongoose';
 import { Audit } from '@dbModels/shared/Audit';
 import {BaseSchema} from "@dbModels/shared/Base";
+import {runWithContext} from "@_shared/context/requestContext";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {registerRetentionPolicy} from "@dbModels/shared/Retention";
+import {getTrashPolicy, purgeDocument, purgeExpiredDocuments} from "@services/retention/retention.service";
 
 // Test interface extending Audit
 interface TestDocument extends Audit {
@@ -26,6 +30,33 @@ const TestModel = mongoose.model<TestDocument>('Test', TestSchema) as any & {
     bulkRestore(filter: any, restoredBy?: any): Promise<void>;
 };
 
+// Models referencing each other with every onDelete rule (see Cascade.ts)
+const CascadeParentModel = mongoose.model<any>('CascadeParent', new BaseSchema({
+    name: { type: String, required: true }
+})) as any;
+const CascadeChildModel = mongoose.model<any>('CascadeChild', new BaseSchema({
+    name: { type: String, required: true },
+    parent: { type: mongoose.Schema.Types.ObjectId, ref: 'CascadeParent', onDelete: 'cascade' }
+})) as any;
+const CascadeLockModel = mongoose.model<any>('CascadeLock', new BaseSchema({
+    name: { type: String, required: true },
+    parent: { type: mongoose.Schema.Types.ObjectId, ref: 'CascadeParent', onDelete: 'restrict' }
+})) as any;
+const CascadeTaggedModel = mongoose.model<any>('CascadeTagged', new BaseSchema({
+    name: { type: String, required: true },
+    owner: { type: mongoose.Schema.Types.ObjectId, ref: 'CascadeParent', onDelete: 'setNull' },
+    parents: [{ type: mongoose.Schema.Types.ObjectId, ref: 'CascadeParent', onDelete: 'setNull' }]
+})) as any;
+const cascadeModels = [CascadeParentModel, CascadeChildModel, CascadeLockModel, CascadeTaggedModel];
+
+// Kept per storefront (see Tenant.ts)
+const TenantTestModel = mongoose.model<any>('TenantTest', new BaseSchema({
+    name: { type: String, required: true }
+}, { tenantScoped: true })) as any;
+
+// Soft-deleted test documents are kept for 30 days
+registerRetentionPolicy(TestModel, 30);
+
 // Test user IDs
 const testUserId1 = new mongoose.Types.ObjectId();
 const testUserId2 = new mongoose.Types.ObjectId();
@@ -60,6 +91,16 @@ class AuditTestSuite {
         }
     }
 
+    // Like assertThrows, for the CustomServerException of the given message code
+    private async assertFailsWith(fn: () => Promise<any>, extraMessageCode: string, message: string): Promise<void> {
+        try {
+            await fn();
+            this.assert(false, message);
+        } catch (error: any) {
+            this.assert(error instanceof CustomServerException && error.extraMessageCode === extraMessageCode, message);
+        }
+    }
+
     private async assertCount(model: any, filter: any, expectedCount: number, options?: any): Promise<void> {
         let query = model.countDocuments(filter);
         if (options?.includeDeleted) {
@@ -97,6 +138,18 @@ class AuditTestSuite {
         await this.testErrorCases();
         await TestModel.deleteMany({}).setOptions({justDelete: true});
         await this.testIncludeDeletedOption();
+        await TestModel.deleteMany({}).setOptions({justDelete: true});
+        await this.testActorStamping();
+        await TestModel.deleteMany({}).setOptions({justDelete: true});
+        await this.testExpectedVersion();
+        await TestModel.deleteMany({}).setOptions({justDelete: true});
+        await this.testRetentionPurge();
+        await this.clearCascadeModels();
+        await this.testCascade();
+        await this.clearCascadeModels();
+        await TenantTestModel.collection.deleteMany({});
+        await this.testTenantIsolation();
+        await TenantTestModel.collection.deleteMany({});
 
         // Print summary
         console.log('\n📊 Test Summary:');
@@ -183,6 +236,7 @@ class AuditTestSuite {
         });
 
         await doc.softDelete(testUserId2);
+        this.assert(doc.version === 2, 'Version should be incremented after soft delete');
 
         // Test restore
         await doc.restore(testUserId1);
@@ -190,7 +244,7 @@ class AuditTestSuite {
         this.assert(doc.deletedBy === null, 'deletedBy should be null after restore');
         this.assert(doc.restoredBy?.equals(testUserId1), 'restoredBy should be set');
         this.assert(doc.isDeleted === false, 'isDeleted virtual should be false');
-        this.assert(doc.version === 2, 'Version should be incremented after restore');
+        this.assert(doc.version === 3, 'Version should be incremented after restore');
 
         // Test bulk restore
         const doc3 = await TestModel.create({
@@ -468,13 +522,14 @@ class AuditTestSuite {
         await updatedDoc?.softDelete(testUserId1);
         this.assert(updatedDoc?.deletedAt instanceof Date, 'Document should have deletedAt after soft delete');
         this.assert(updatedDoc?.deletedBy?.equals(testUserId1), 'Document should have deletedBy');
+        this.assert(updatedDoc?.version === 3, 'Document should have incremented version after soft delete');
 
         // Restore and test audit fields
         await updatedDoc?.restore(testUserId2);
         this.assert(updatedDoc?.deletedAt === null, 'Document should not have deletedAt after restore');
         this.assert(updatedDoc?.deletedBy === null, 'Document should not have deletedBy after restore');
         this.assert(updatedDoc?.restoredBy?.equals(testUserId2), 'Document should have restoredBy');
-        this.assert(updatedDoc?.version === 3, 'Document should have incremented version after restore');
+        this.assert(updatedDoc?.version === 4, 'Document should have incremented version after restore');
     }
 
     private async testErrorCases(): Promise<void> {
@@ -559,6 +614,207 @@ class AuditTestSuite {
         this.assert(countWithoutOption === 0, 'Count should be 0 without includeDeleted option');
         this.assert(countWithOption === 1, 'Count should be 1 with includeDeleted option');
     }
+
+    private async testActorStamping(): Promise<void> {
+        console.log('\n👤 Testing Actor Stamping...');
+
+        // The actor of the request context fills the audit fields the caller leaves empty
+        const doc = await runWithContext({ actorId: testUserId1 }, () => TestModel.create({
+            name: 'ActorTest',
+            email: 'actor@example.com',
+            age: 20
+        }));
+        this.assert(doc.createdBy?.equals(testUserId1), 'createdBy should be the actor of the context');
+        this.assert(doc.updatedBy?.equals(testUserId1), 'updatedBy should be the actor of the context');
+
+        const updated = await runWithContext({ actorId: testUserId2 }, async () => await TestModel.findOneAndUpdate(
+            { name: 'ActorTest' },
+            { age: 21 },
+            { new: true }
+        ));
+        this.assert(updated?.updatedBy?.equals(testUserId2), 'An update should stamp the actor of its context');
+        this.assert(updated?.createdBy?.equals(testUserId1), 'An update should keep createdBy');
+
+        const saved = await runWithContext({ actorId: testUserId1 }, async () => {
+            const loaded = await TestModel.findOne({ name: 'ActorTest' });
+            loaded.age = 22;
+            await loaded.save();
+            return loaded;
+        });
+        this.assert(saved.updatedBy?.equals(testUserId1), 'A save should stamp the actor of its context');
+
+        const explicit = await runWithContext({ actorId: testUserId1 }, async () => await TestModel.findOneAndUpdate(
+            { name: 'ActorTest' },
+            { age: 23, updatedBy: testUserId2 },
+            { new: true }
+        ));
+        this.assert(explicit?.updatedBy?.equals(testUserId2), 'An explicit updatedBy should win over the context');
+
+        await runWithContext({ actorId: testUserId2 }, () => saved.softDelete());
+        this.assert(saved.deletedBy?.equals(testUserId2), 'A soft delete without deletedBy should stamp the actor of its context');
+
+        // Without a context nobody is stamped
+        const anonymous = await TestModel.create({ name: 'AnonymousTest', email: 'anonymous@example.com', age: 30 });
+        this.assert(anonymous.createdBy === undefined, 'createdBy should stay empty outside of a request context');
+    }
+
+    private async testExpectedVersion(): Promise<void> {
+        console.log('\n🔐 Testing Expected Versions...');
+
+        const doc = await TestModel.create({ name: 'VersionTest', email: 'version@example.com', age: 40 });
+        this.assert(doc.version === 1, 'Document should start at version 1');
+
+        // Writes expecting the stored version go through
+        const updated = await TestModel.findOneAndUpdate({ _id: doc._id }, { age: 41 }, { new: true, expectedVersion: 1 });
+        this.assert(updated?.age === 41 && updated?.version === 2, 'A write expecting the current version should apply');
+        const result = await TestModel.updateOne({ _id: doc._id }, { age: 42 }, { expectedVersion: 2 });
+        this.assert(result.modifiedCount === 1, 'updateOne expecting the current version should apply');
+
+        // Writes expecting an older version conflict and change nothing
+        await this.assertFailsWith(
+            () => TestModel.findOneAndUpdate({ _id: doc._id }, { age: 50 }, { new: true, expectedVersion: 1 }),
+            'versionConflict',
+            'findOneAndUpdate expecting a stale version should conflict'
+        );
+        await this.assertFailsWith(
+            () => TestModel.updateOne({ _id: doc._id }, { age: 50 }, { expectedVersion: 2 }),
+            'versionConflict',
+            'updateOne expecting a stale version should conflict'
+        );
+        await this.assertFailsWith(
+            () => TestModel.replaceOne({ _id: doc._id }, { name: 'VersionTest', email: 'version@example.com', age: 50 }, { expectedVersion: 1 }),
+            'versionConflict',
+            'replaceOne expecting a stale version should conflict'
+        );
+        const unchanged = await TestModel.findById(doc._id);
+        this.assert(unchanged?.age === 42 && unchanged?.version === 3, 'Conflicting writes should leave the document as it was');
+
+        // A missing document is told apart from a stale one
+        await this.assertFailsWith(
+            () => TestModel.updateOne({ _id: new mongoose.Types.ObjectId() }, { age: 50 }, { expectedVersion: 1 }),
+            'doesNotExist',
+            'A write expecting a version of a missing document should not exist'
+        );
+
+        // saveIfVersion checks the version atomically with the save
+        const first = await TestModel.findById(doc._id);
+        const second = await TestModel.findById(doc._id);
+        first.age = 43;
+        await first.saveIfVersion(3);
+        this.assert(first.version === 4, 'saveIfVersion should save the expected version');
+        second.age = 44;
+        await this.assertFailsWith(() => second.saveIfVersion(3), 'versionConflict', 'saveIfVersion should conflict once someone else saved');
+        await this.assertFailsWith(() => first.saveIfVersion(1), 'versionConflict', 'saveIfVersion should refuse a version the document is not at');
+    }
+
+    private async testRetentionPurge(): Promise<void> {
+        console.log('\n🧹 Testing Retention Purge...');
+
+        const kept = await TestModel.create({ name: 'KeptTest', email: 'kept@example.com', age: 60 });
+        const recent = await TestModel.create({ name: 'RecentTest', email: 'recent@example.com', age: 61 });
+        const expired = await TestModel.create({ name: 'ExpiredTest', email: 'expired@example.com', age: 62 });
+        await recent.softDelete(testUserId1);
+        await expired.softDelete(testUserId1);
+        // Deleted longer ago than the retention window
+        await TestModel.collection.updateOne({ _id: expired._id }, { $set: { deletedAt: new Date(Date.now() - 40 * 24 * 60 * 60 * 1000) } });
+
+        const reports = await purgeExpiredDocuments();
+        const report = reports.find(report => report.model === 'Test');
+        this.assert(report?.purged === 1 && report?.retentionDays === 30, 'The purge should report the one expired document');
+        this.assert(await TestModel.collection.countDocuments({ _id: expired._id }) === 0, 'The expired document should be hard-deleted');
+        this.assert(await TestModel.collection.countDocuments({ _id: recent._id }) === 1, 'A document deleted within the window should stay in the trash');
+        this.assert(await TestModel.collection.countDocuments({ _id: kept._id }) === 1, 'A document that is not deleted should never be purged');
+
+        // Erasing a single document right away
+        await purgeDocument('Test', recent._id.toString());
+        this.assert(await TestModel.collection.countDocuments({ _id: recent._id }) === 0, 'purgeDocument should erase a deleted document right away');
+        await this.assertFailsWith(() => purgeDocument('Test', kept._id.toString()), 'doesNotExist', 'purgeDocument should refuse a document that is not deleted');
+        await this.assertFailsWith(async () => getTrashPolicy('Unknown'), 'unknownModel', 'A model without a retention policy should be unknown');
+    }
+
+    private async clearCascadeModels(): Promise<void> {
+        for (let model of cascadeModels) {
+            await model.collection.deleteMany({});
+        }
+    }
+
+    private async testCascade(): Promise<void> {
+        console.log('\n🌊 Testing Cascade, Restrict and SetNull...');
+
+        const parentA = await CascadeParentModel.create({ name: 'ParentA' });
+        const parentB = await CascadeParentModel.create({ name: 'ParentB' });
+        const child1 = await CascadeChildModel.create({ name: 'Child1', parent: parentA._id });
+        const child2 = await CascadeChildModel.create({ name: 'Child2', parent: parentA._id });
+        const earlier = await CascadeChildModel.create({ name: 'EarlierChild', parent: parentA._id });
+        const tagged = await CascadeTaggedModel.create({ name: 'Tagged', owner: parentA._id, parents: [parentA._id, parentB._id] });
+        await earlier.softDelete(testUserId2);
+
+        // cascade and setNull
+        await parentA.softDelete(testUserId1);
+        const children = await CascadeChildModel.find({ _id: { $in: [child1._id, child2._id] } }).setOptions({ includeDeleted: true });
+        this.assert(children.length === 2 && children.every((child: any) => child.deletedAt?.getTime() === parentA.deletedAt.getTime()),
+            'Children should be soft-deleted together with their parent, with its deletedAt');
+        this.assert(children.every((child: any) => child.deletedBy?.equals(testUserId1)), 'Children should be deleted by the actor of the parent');
+        const untagged = await CascadeTaggedModel.findById(tagged._id);
+        this.assert(untagged?.owner === null, 'A setNull reference should be cleared');
+        this.assert(untagged?.parents.length === 1 && untagged?.parents[0].equals(parentB._id), 'A setNull reference in an array should be pulled');
+
+        // restore brings back only what was deleted together
+        await parentA.restore(testUserId1);
+        await this.assertCount(CascadeChildModel, { parent: parentA._id }, 2);
+        const stillDeleted = await CascadeChildModel.findById(earlier._id).setOptions({ includeDeleted: true });
+        this.assert(stillDeleted?.deletedAt instanceof Date, 'A child deleted on its own before should stay deleted');
+        const retagged = await CascadeTaggedModel.findById(tagged._id);
+        this.assert(retagged?.owner === null, 'setNull references should not be brought back by a restore');
+
+        // restrict
+        await CascadeLockModel.create({ name: 'Lock', parent: parentB._id });
+        await this.assertFailsWith(() => parentB.softDelete(testUserId1), 'restrictedDelete', 'A referenced parent with a restrict rule should not be deleted');
+        const lockedParent = await CascadeParentModel.findById(parentB._id);
+        this.assert(lockedParent !== null, 'The restricted parent should stay');
+        const stillTagged = await CascadeTaggedModel.findById(tagged._id);
+        this.assert(stillTagged?.parents.length === 1, 'A refused delete should not clear any reference');
+
+        // the static softDelete walks the same rules
+        const parentC = await CascadeParentModel.create({ name: 'ParentC' });
+        const child3 = await CascadeChildModel.create({ name: 'Child3', parent: parentC._id });
+        await CascadeParentModel.softDelete({ name: 'ParentC' }, testUserId1);
+        const deletedChild = await CascadeChildModel.findById(child3._id).setOptions({ includeDeleted: true });
+        this.assert(deletedChild?.deletedAt instanceof Date, 'The static softDelete should cascade as well');
+    }
+
+    private async testTenantIsolation(): Promise<void> {
+        console.log('\n🏬 Testing Tenant Isolation...');
+
+        const inTenant = (tenantId: string, fn: () => any): Promise<any> => runWithContext({ tenantId, actorId: testUserId1 }, async () => await fn());
+        const docA = await inTenant('tenant-a', () => TenantTestModel.create({ name: 'StoreA' }));
+        const docB = await inTenant('tenant-b', () => TenantTestModel.create({ name: 'StoreB' }));
+        this.assert(docA.tenantId === 'tenant-a' && docB.tenantId === 'tenant-b', 'Documents should belong to the tenant they were created in');
+
+        // Reads only see the own tenant
+        const seenByA = await inTenant('tenant-a', () => TenantTestModel.find({}));
+        this.assert(seenByA.length === 1 && seenByA[0].name === 'StoreA', 'A tenant should only find its own documents');
+        this.assert(await inTenant('tenant-a', () => TenantTestModel.findById(docB._id)) === null, 'A tenant should not find the document of another by its id');
+        this.assert(await inTenant('tenant-b', () => TenantTestModel.countDocuments({})) === 1, 'A tenant should only count its own documents');
+
+        // Writes only reach the own tenant
+        const result = await inTenant('tenant-a', () => TenantTestModel.updateOne({ _id: docB._id }, { name: 'Hijacked' }));
+        this.assert(result.matchedCount === 0, 'A tenant should not update the document of another');
+        await inTenant('tenant-a', () => TenantTestModel.deleteOne({ _id: docB._id }));
+        const untouched = await inTenant('tenant-b', () => TenantTestModel.findById(docB._id));
+        this.assert(untouched?.name === 'StoreB' && !untouched?.deletedAt, 'The document of another tenant should stay untouched');
+
+        await this.assertFailsWith(() => inTenant('tenant-a', () => TenantTestModel.create({ name: 'Smuggled', tenantId: 'tenant-b' })),
+            'crossTenant', 'A document should not be created for another tenant');
+        await this.assertFailsWith(() => inTenant('tenant-a', () => TenantTestModel.updateOne({ _id: docA._id }, { $set: { tenantId: 'tenant-b' } })),
+            'crossTenant', 'A document should not be moved to another tenant');
+        const inserted = await inTenant('tenant-a', () => TenantTestModel.insertMany([{ name: 'BulkA' }]));
+        this.assert(inserted[0].tenantId === 'tenant-a', 'insertMany should stamp the tenant of the context');
+
+        // Without a tenant nothing is read, unless every tenant is asked for on purpose
+        await this.assertFailsWith(() => TenantTestModel.find({}), 'missingTenant', 'A query without a tenant should be refused');
+        this.assert(await TenantTestModel.countDocuments({}).setOptions({ allTenants: true }) === 3, 'allTenants should see the documents of every tenant');
+    }
 }
 
 // Run the test suite
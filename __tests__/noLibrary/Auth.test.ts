@@ -0,0 +1,196 @@
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import {Request, Response} from 'express';
+import {SECURITY} from "@environment";
+import {UserModel} from "@dbModels/user/User";
+import {getCurrentActor, runWithContext} from "@_shared/context/requestContext";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {RefreshTokenPayload} from "@_shared/types/auth.types";
+import {authenticate} from "@_shared/middlewares/authenticate";
+import {login, logout, refresh, verifyAccessToken} from "@services/auth/auth.service";
+
+const EMAIL = 'auth.test@example.com';
+const PASSWORD = 'correct horse battery staple';
+
+// Runs the authenticate middleware on a request with the given Authorization header and returns what it passed on
+function runAuthenticate(authorization?: string): { req: Request, error: any, actor: any } {
+    const req = { headers: authorization ? { authorization } : {} } as Request;
+    let error: any = null;
+    let actor: any = null;
+    runWithContext({}, () => {
+        authenticate()(req, {} as Response, (failure?: any) => {
+            error = failure || null;
+            actor = getCurrentActor();
+        });
+    });
+    return { req, error, actor };
+}
+
+class AuthTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    private async assertFailsWith(fn: () => Promise<any>, extraMessageCode: string, message: string): Promise<void> {
+        try {
+            await fn();
+            this.assert(false, message);
+        } catch (error: any) {
+            this.assert(error instanceof CustomServerException && error.extraMessageCode === extraMessageCode, message);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Auth Test Suite...\n');
+
+        // Clear test data
+        await this.clear();
+        const userId = await this.createUser();
+        await this.testLogin(userId);
+        await this.testRotation();
+        await this.testReuse();
+        await this.testExpiry(userId);
+        await this.testLogout();
+        this.testAuthenticate(userId);
+        await this.clear();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private async clear(): Promise<void> {
+        await UserModel.collection.deleteMany({ email: EMAIL });
+    }
+
+    private async createUser(): Promise<string> {
+        const user = await UserModel.create({
+            email: EMAIL,
+            password: await bcrypt.hash(PASSWORD, 4),
+            firstName: 'Test',
+            lastName: 'User',
+            phoneNumber: { prefix: '+355', number: '691234567' },
+            birthDate: new Date('1990-01-01'),
+            timezone: 'Europe/Tirane',
+            languageCode: 'sq-AL'
+        });
+        return user._id.toString();
+    }
+
+    private async testLogin(userId: string): Promise<void> {
+        console.log('\n🔑 Testing login...');
+
+        const tokens = await login(` ${EMAIL.toUpperCase()} `, PASSWORD);
+        const user = verifyAccessToken(tokens.accessToken);
+        this.assert(user.id === userId && user.email === EMAIL && user.languageCode === 'sq-AL', 'The access token should carry the user');
+        this.assert(tokens.expiresIn === SECURITY.ACCESS_TOKEN_TTL, 'The access token should expire after SECURITY.ACCESS_TOKEN_TTL');
+        const payload = jwt.decode(tokens.refreshToken) as RefreshTokenPayload;
+        this.assert(payload.sub === userId && !!payload.fam && !!payload.jti, 'The refresh token should belong to a new family');
+
+        await this.assertFailsWith(() => login(EMAIL, 'wrong password'), 'invalidCredentials', 'A wrong password should be refused');
+        await this.assertFailsWith(() => login('nobody@example.com', PASSWORD), 'invalidCredentials', 'An unknown email should be refused the same way');
+    }
+
+    private async testRotation(): Promise<void> {
+        console.log('\n🔄 Testing rotation...');
+
+        const first = await login(EMAIL, PASSWORD);
+        const second = await refresh(first.refreshToken);
+        const firstPayload = jwt.decode(first.refreshToken) as RefreshTokenPayload;
+        const secondPayload = jwt.decode(second.refreshToken) as RefreshTokenPayload;
+        this.assert(secondPayload.fam === firstPayload.fam && secondPayload.jti !== firstPayload.jti, 'Refreshing should rotate the token within its family');
+        this.assert(verifyAccessToken(second.accessToken).email === EMAIL, 'Refreshing should issue a new access token');
+
+        const third = await refresh(second.refreshToken);
+        this.assert((jwt.decode(third.refreshToken) as RefreshTokenPayload).fam === firstPayload.fam, 'The rotated token should be refreshed in turn');
+
+        const otherDevice = await login(EMAIL, PASSWORD);
+        this.assert((jwt.decode(otherDevice.refreshToken) as RefreshTokenPayload).fam !== firstPayload.fam, 'Every login should start a family of its own');
+    }
+
+    private async testReuse(): Promise<void> {
+        console.log('\n🕵️ Testing reuse of a rotated token...');
+
+        const stolen = await login(EMAIL, PASSWORD);
+        const rotated = await refresh(stolen.refreshToken);
+        const otherDevice = await login(EMAIL, PASSWORD);
+
+        await this.assertFailsWith(() => refresh(stolen.refreshToken), 'tokenReused', 'Presenting a rotated token should be detected as reuse');
+        await this.assertFailsWith(() => refresh(rotated.refreshToken), 'invalidToken', 'The reuse should revoke the whole family, the current token included');
+        await this.assertFailsWith(() => refresh(stolen.refreshToken), 'invalidToken', 'The revoked family should stay revoked');
+        this.assert(!!(await refresh(otherDevice.refreshToken)).refreshToken, 'The families of other logins should be left alone');
+    }
+
+    private async testExpiry(userId: string): Promise<void> {
+        console.log('\n⌛ Testing expiry...');
+
+        const tokens = await login(EMAIL, PASSWORD);
+        const payload = jwt.decode(tokens.refreshToken) as RefreshTokenPayload;
+        const expiredRefresh = jwt.sign({ sub: userId, fam: payload.fam, exp: Math.floor(Date.now() / 1000) - 10 }, SECURITY.REFRESH_TOKEN_SECRET, { jwtid: payload.jti });
+        await this.assertFailsWith(() => refresh(expiredRefresh), 'invalidToken', 'An expired refresh token should be refused');
+
+        const expiredAccess = jwt.sign({ sub: userId, email: EMAIL, exp: Math.floor(Date.now() / 1000) - 10 }, SECURITY.ACCESS_TOKEN_SECRET);
+        let failure: any = null;
+        try {
+            verifyAccessToken(expiredAccess);
+        } catch (error) {
+            failure = error;
+        }
+        this.assert(failure instanceof CustomServerException && failure.extraMessageCode === 'invalidToken', 'An expired access token should be refused');
+
+        const forged = jwt.sign({ sub: userId, fam: payload.fam }, SECURITY.ACCESS_TOKEN_SECRET, { jwtid: payload.jti });
+        await this.assertFailsWith(() => refresh(forged), 'invalidToken', 'A refresh token signed with another secret should be refused');
+        this.assert(!!(await refresh(tokens.refreshToken)).refreshToken, 'Refused tokens should leave the family usable');
+    }
+
+    private async testLogout(): Promise<void> {
+        console.log('\n🚪 Testing logout...');
+
+        const tokens = await login(EMAIL, PASSWORD);
+        const rotated = await refresh(tokens.refreshToken);
+        await logout(rotated.refreshToken);
+        await this.assertFailsWith(() => refresh(rotated.refreshToken), 'invalidToken', 'Logging out should revoke the refresh token');
+        await this.assertFailsWith(() => refresh(tokens.refreshToken), 'invalidToken', 'Logging out should revoke the whole family');
+        await this.assertFailsWith(() => logout('not a token'), 'invalidToken', 'Logging out with an invalid token should be refused');
+    }
+
+    private testAuthenticate(userId: string): void {
+        console.log('\n🛂 Testing the authenticate middleware...');
+
+        const missing = runAuthenticate();
+        this.assert(missing.error instanceof CustomServerException && missing.error.extraMessageCode === 'missingToken', 'A request without a token should be refused');
+        const basic = runAuthenticate('Basic dXNlcjpwYXNz');
+        this.assert(basic.error?.extraMessageCode === 'missingToken', 'A header that is no bearer token should count as missing');
+
+        const invalid = runAuthenticate('Bearer not-a-token');
+        this.assert(invalid.error instanceof CustomServerException && invalid.error.extraMessageCode === 'invalidToken', 'An invalid token should be refused');
+        const expired = jwt.sign({ sub: userId, email: EMAIL, exp: Math.floor(Date.now() / 1000) - 10 }, SECURITY.ACCESS_TOKEN_SECRET);
+        this.assert(runAuthenticate(`Bearer ${expired}`).error?.extraMessageCode === 'invalidToken', 'An expired token should be refused');
+
+        const valid = jwt.sign({ sub: userId, email: EMAIL }, SECURITY.ACCESS_TOKEN_SECRET, { expiresIn: 60 });
+        const authenticated = runAuthenticate(`Bearer ${valid}`);
+        this.assert(authenticated.error === null && authenticated.req.user?.id === userId, 'A valid token should attach the user to the request');
+        this.assert(authenticated.actor?.toString() === userId, 'The user should become the actor of the request context');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new AuthTestSuite();
+    await testSuite.runAllTests();
+}
@@ -0,0 +1,190 @@
+import mongoose from 'mongoose';
+import {Request, Response} from 'express';
+import {UserModel} from "@dbModels/user/User";
+import {RoleModel, RoleName} from "@dbModels/auth/Role";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {requirePermission, requireRole} from "@_shared/middlewares/authorize";
+import {
+    assignRoles,
+    DEFAULT_ROLES,
+    getUserPermissions,
+    hasPermission,
+    invalidatePermissionCache,
+    setRolePermissions
+} from "@services/auth/authorization.service";
+
+const EMAIL = 'authorization.test@example.com';
+const PACKER = 'test-packer';
+const AUDITOR = 'test-auditor';
+
+// Runs a guard for the user and returns what it passed on, null when the request was let through
+async function runGuard(guard: ReturnType<typeof requirePermission>, userId?: string): Promise<any> {
+    const req = { headers: {}, user: userId ? { id: userId, email: EMAIL } : undefined } as Request;
+    let passed: any = undefined;
+    await guard(req, {} as Response, (error?: any) => {
+        passed = error || null;
+    });
+    return passed;
+}
+
+class AuthorizationTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    private assertDenied(error: any, errorCode: string, extraMessageCode: string, message: string): void {
+        this.assert(error instanceof CustomServerException && error.errorCode === errorCode && error.extraMessageCode === extraMessageCode, message);
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Authorization Test Suite...\n');
+
+        this.testWildcards();
+        this.testOwn();
+        this.testDefaultRoles();
+
+        // Clear test data
+        await this.clear();
+        const userId = await this.createUser();
+        await this.testRoleResolution(userId);
+        await this.testRoleChanges(userId);
+        await this.testGuards(userId);
+        await this.clear();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private async clear(): Promise<void> {
+        await UserModel.collection.deleteMany({ email: EMAIL });
+        await RoleModel.collection.deleteMany({ name: { $in: [PACKER, AUDITOR] } });
+        await invalidatePermissionCache();
+    }
+
+    private async createUser(): Promise<string> {
+        await RoleModel.create({ name: PACKER, permissions: ["inventory:read", "orders:update"] });
+        await RoleModel.create({ name: AUDITOR, permissions: ["orders:read", "inventory:read", "audit:*"] });
+        const user = await UserModel.create({
+            email: EMAIL,
+            password: 'not a real hash',
+            firstName: 'Test',
+            lastName: 'User',
+            phoneNumber: { prefix: '+355', number: '691234567' },
+            birthDate: new Date('1990-01-01'),
+            timezone: 'Europe/Tirane',
+            roles: [PACKER]
+        });
+        return user._id.toString();
+    }
+
+    private testWildcards(): void {
+        console.log('\n✳️ Testing wildcards...');
+
+        this.assert(hasPermission(["*"], "orders:refund") && hasPermission(["*"], "orders:read:own"), '"*" should cover every permission');
+        this.assert(hasPermission(["orders:*"], "orders:refund") && hasPermission(["orders:*"], "orders:read:own"), '"orders:*" should cover every orders permission');
+        this.assert(!hasPermission(["orders:*"], "catalog:read"), '"orders:*" should not cover another resource');
+        this.assert(!hasPermission(["orders:*"], "ordersArchive:read"), '"orders:*" should not cover a resource that only starts the same');
+        this.assert(hasPermission(["catalog:read", "orders:refund"], "orders:refund"), 'A permission should cover itself');
+        this.assert(!hasPermission(["orders:refund"], "orders:read") && !hasPermission([], "orders:read"), 'Other permissions should not cover it');
+    }
+
+    private testOwn(): void {
+        console.log('\n🙋 Testing permissions on the own resources...');
+
+        this.assert(hasPermission(["orders:read:own"], "orders:read:own"), '":own" should cover itself');
+        this.assert(!hasPermission(["orders:read:own"], "orders:read"), '":own" should not cover the resources of others');
+        this.assert(hasPermission(["orders:read"], "orders:read:own"), 'A permission should cover the own resources too');
+        this.assert(!hasPermission(["orders:read"], "orders:read:all") && !hasPermission(["orders"], "orders:read:own"), 'A permission should cover nothing else below it');
+    }
+
+    private testDefaultRoles(): void {
+        console.log('\n👥 Testing the default roles...');
+
+        const permissionsOf = (role: RoleName) => DEFAULT_ROLES[role].permissions;
+        this.assert(hasPermission(permissionsOf(RoleName.ADMIN), "roles:update"), 'An admin should be allowed everything');
+        this.assert(hasPermission(permissionsOf(RoleName.MERCHANT), "catalog:update") && !hasPermission(permissionsOf(RoleName.MERCHANT), "roles:update"),
+            'A merchant should manage the store but not the roles');
+        this.assert(hasPermission(permissionsOf(RoleName.SUPPORT), "orders:refund") && !hasPermission(permissionsOf(RoleName.SUPPORT), "catalog:update"),
+            'Support should help with orders but not change the catalog');
+        this.assert(hasPermission(permissionsOf(RoleName.CUSTOMER), "orders:read:own") && !hasPermission(permissionsOf(RoleName.CUSTOMER), "orders:read"),
+            'A customer should read only their own orders');
+    }
+
+    private async testRoleResolution(userId: string): Promise<void> {
+        console.log('\n🧩 Testing role resolution...');
+
+        this.assert((await getUserPermissions(userId)).sort().join(",") === "inventory:read,orders:update", 'The user should get the permissions of their role');
+
+        await assignRoles(userId, [PACKER, AUDITOR]);
+        const permissions = await getUserPermissions(userId);
+        this.assert(permissions.sort().join(",") === "audit:*,inventory:read,orders:read,orders:update", 'The user should get the permissions of every role, once each');
+        this.assert(hasPermission(permissions, "audit:export") && hasPermission(permissions, "orders:read:own"), 'The permissions of every role should be resolved together');
+
+        let failure: any = null;
+        try {
+            await assignRoles(userId, [PACKER, "no-such-role"]);
+        } catch (error) {
+            failure = error;
+        }
+        this.assertDenied(failure, "authorization", "unknownRole", 'An unknown role should not be assigned');
+        this.assert((await UserModel.findById(userId)).roles.join(",") === `${PACKER},${AUDITOR}`, 'A refused assignment should leave the roles as they were');
+
+        this.assert((await getUserPermissions(new mongoose.Types.ObjectId().toString())).length === 0, 'An unknown user should get no permission');
+    }
+
+    private async testRoleChanges(userId: string): Promise<void> {
+        console.log('\n♻️ Testing role changes...');
+
+        await assignRoles(userId, [PACKER]);
+        await getUserPermissions(userId);
+        await RoleModel.updateOne({ name: PACKER }, { $set: { permissions: ["inventory:*"] } });
+        this.assert(!(await getUserPermissions(userId)).includes("inventory:*"), 'The permissions should be served from the cache');
+
+        await setRolePermissions(PACKER, ["inventory:*", "orders:update"]);
+        const permissions = await getUserPermissions(userId);
+        this.assert(permissions.sort().join(",") === "inventory:*,orders:update", 'Changing a role should reach every user with the role');
+
+        let failure: any = null;
+        try {
+            await setRolePermissions("no-such-role", ["*"]);
+        } catch (error) {
+            failure = error;
+        }
+        this.assertDenied(failure, "authorization", "unknownRole", 'An unknown role should not be changed');
+    }
+
+    private async testGuards(userId: string): Promise<void> {
+        console.log('\n🛡️ Testing the guards...');
+
+        this.assert(await runGuard(requirePermission("inventory:update"), userId) === null, 'A user with the permission should be let through');
+        this.assert(await runGuard(requirePermission("inventory:update", "orders:update"), userId) === null, 'A user with every permission should be let through');
+        this.assertDenied(await runGuard(requirePermission("inventory:update", "orders:refund"), userId), "authorization", "missingPermission",
+            'A user missing one of the permissions should be denied');
+        this.assertDenied(await runGuard(requirePermission("inventory:update")), "auth", "missingToken", 'A request without a user should be refused');
+
+        this.assert(await runGuard(requireRole(RoleName.ADMIN, PACKER), userId) === null, 'A user with one of the roles should be let through');
+        this.assertDenied(await runGuard(requireRole(RoleName.ADMIN), userId), "authorization", "missingRole", 'A user without the role should be denied');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new AuthorizationTestSuite();
+    await testSuite.runAllTests();
+}
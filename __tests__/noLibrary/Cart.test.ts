@@ -0,0 +1,208 @@
+import mongoose from 'mongoose';
+import {CART} from "@environment";
+import {CartModel} from "@dbModels/cart/Cart";
+import {ProductModel, ProductStatus} from "@dbModels/catalog/Product";
+import {ProductVariantModel} from "@dbModels/catalog/ProductVariant";
+import {runWithContext} from "@_shared/context/requestContext";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {CartOwner} from "@_shared/types/cart.types";
+import {addItem, clearCart, getCart, mergeAnonymousCart, removeItem, setItemQuantity, setStockResolver} from "@services/cart/cart.service";
+
+const TENANT = 'tenant-cart';
+const OTHER_TENANT = 'tenant-cart-other';
+const testUserId = new mongoose.Types.ObjectId();
+
+// Runs the work for the storefront; the queries are awaited inside, so they run with its context
+function inTenant(fn: () => any, tenantId = TENANT): Promise<any> {
+    return runWithContext({ tenantId, actorId: testUserId }, async () => await fn());
+}
+
+// An active product with one variant at the price, in EUR unless told otherwise
+async function variantAt(amount: number, currency = 'EUR'): Promise<string> {
+    const product = await inTenant(() => ProductModel.create({ name: `Product ${amount}`, slug: `product-${new mongoose.Types.ObjectId()}`, status: ProductStatus.ACTIVE }));
+    const variant = await inTenant(() => ProductVariantModel.create({ product: product._id, sku: `SKU-${new mongoose.Types.ObjectId()}`, price: { amount, currency } }));
+    return variant._id.toString();
+}
+
+function anonymous(): CartOwner {
+    return { cartId: new mongoose.Types.ObjectId().toString() };
+}
+
+function quantityOf(cart: any, variantId: string): number | undefined {
+    return cart.lines.find((line: any) => line.variantId === variantId)?.quantity;
+}
+
+class CartTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    private async assertFailsWith(fn: () => Promise<any>, errorCode: string, extraMessageCode: string | null, message: string): Promise<void> {
+        try {
+            await fn();
+            this.assert(false, message);
+        } catch (error: any) {
+            this.assert(error instanceof CustomServerException && error.errorCode === errorCode && error.extraMessageCode === extraMessageCode, message);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Cart Test Suite...\n');
+
+        // Clear test data
+        await this.clear();
+        await this.testAnonymousCart();
+        await this.clear();
+        await this.testCaps();
+        await this.clear();
+        await this.testFlags();
+        await this.clear();
+        await this.testMerge();
+        await this.clear();
+        await this.testMergeCaps();
+        await this.clear();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private async clear(): Promise<void> {
+        setStockResolver(null);
+        await CartModel.collection.deleteMany({});
+        await ProductModel.collection.deleteMany({});
+        await ProductVariantModel.collection.deleteMany({});
+    }
+
+    private async testAnonymousCart(): Promise<void> {
+        console.log('\n🛒 Testing an anonymous cart...');
+        const mug = await variantAt(500);
+        const plate = await variantAt(1200);
+        const owner = anonymous();
+
+        await inTenant(() => addItem(owner, { variantId: mug, quantity: 2 }));
+        await inTenant(() => addItem(owner, { variantId: plate, quantity: 1 }));
+        const cart = await inTenant(() => addItem(owner, { variantId: mug, quantity: 1 }));
+        this.assert(cart.cartId === owner.cartId && quantityOf(cart, mug) === 3 && quantityOf(cart, plate) === 1, 'Adding a variant again should add up its quantity');
+        this.assert(cart.lines[0].variantId === mug, 'Lines should keep the order they were added in');
+        this.assert(cart.subtotals.length === 1 && cart.subtotals[0].amount === 2700 && cart.lines[0].lineTotal.amount === 1500, 'Lines should be priced with the catalog prices');
+
+        this.assert(quantityOf(await inTenant(() => setItemQuantity(owner, mug, 1)), mug) === 1, 'Setting the quantity should replace it');
+        this.assert((await inTenant(() => removeItem(owner, plate))).lines.length === 1, 'Removing a line should leave the others');
+        await this.assertFailsWith(() => inTenant(() => removeItem(owner, plate)), 'cart', 'lineNotFound', 'Removing a missing line should fail');
+        await this.assertFailsWith(() => inTenant(() => setItemQuantity(owner, plate, 2)), 'cart', 'lineNotFound', 'Changing a missing line should fail');
+
+        this.assert((await inTenant(() => getCart(owner), OTHER_TENANT)).lines.length === 0, 'The cart id should name no cart in another storefront');
+        await inTenant(() => clearCart(owner));
+        this.assert((await inTenant(() => getCart(owner))).lines.length === 0, 'Clearing should empty the cart');
+    }
+
+    private async testCaps(): Promise<void> {
+        console.log('\n🧢 Testing the caps...');
+        const mug = await variantAt(500);
+        const owner = anonymous();
+
+        await inTenant(() => addItem(owner, { variantId: mug, quantity: CART.MAX_QUANTITY - 1 }));
+        await this.assertFailsWith(() => inTenant(() => addItem(owner, { variantId: mug, quantity: 2 })), 'formNotCorrect', null,
+            'A line should not go over CART.MAX_QUANTITY');
+        await this.assertFailsWith(() => inTenant(() => setItemQuantity(owner, mug, 0)), 'formNotCorrect', null, 'A line should hold at least one unit');
+        this.assert(quantityOf(await inTenant(() => getCart(owner)), mug) === CART.MAX_QUANTITY - 1, 'A refused change should leave the line as it was');
+
+        const draft = await inTenant(() => ProductModel.create({ name: 'Draft', slug: 'draft' }));
+        const hidden = await inTenant(() => ProductVariantModel.create({ product: draft._id, sku: 'DRAFT-1', price: { amount: 100, currency: 'EUR' } }));
+        await this.assertFailsWith(() => inTenant(() => addItem(owner, { variantId: hidden._id.toString(), quantity: 1 })), 'cart', 'unknownVariant',
+            'A variant of a product that is not active should not be added');
+
+        const full = Array.from({ length: CART.MAX_LINES }, () => ({ variant: new mongoose.Types.ObjectId(), quantity: 1, addedAt: new Date() }));
+        await inTenant(() => CartModel.create({ user: testUserId, items: full }));
+        await this.assertFailsWith(() => inTenant(() => addItem({ userId: testUserId.toString() }, { variantId: mug, quantity: 1 })), 'formNotCorrect', null,
+            'A cart should not hold more than CART.MAX_LINES lines');
+    }
+
+    private async testFlags(): Promise<void> {
+        console.log('\n🚩 Testing the flags...');
+        const mug = await variantAt(500);
+        const plate = await variantAt(1200);
+        const dollars = await variantAt(900, 'USD');
+        const owner = { userId: testUserId.toString() };
+        for (let variantId of [mug, plate, dollars]) {
+            await inTenant(() => addItem(owner, { variantId, quantity: 2 }));
+        }
+
+        setStockResolver(async () => ({ [plate]: 1 }));
+        const archived = await inTenant(() => ProductVariantModel.findById(mug).lean());
+        await inTenant(() => ProductModel.updateOne({ _id: archived.product }, { $set: { status: ProductStatus.ARCHIVED } }));
+        const cart = await inTenant(() => getCart(owner));
+        const flagsOf = (variantId: string) => cart.lines.find((line: any) => line.variantId === variantId)?.flags.join(',');
+        this.assert(flagsOf(mug) === 'unavailable' && flagsOf(plate) === 'outOfStock' && flagsOf(dollars) === '', 'Lines should be flagged by what keeps them from being bought');
+        this.assert(cart.lines.find((line: any) => line.variantId === plate)?.available === 1, 'An out of stock line should tell how much is available');
+        this.assert(cart.hasIssues && cart.subtotals.length === 1 && cart.subtotals[0].currency === 'USD' && cart.subtotals[0].amount === 1800,
+            'Flagged lines should be left out of the subtotals');
+        this.assert(cart.pricing.lines.length === 1 && cart.pricing.lines[0].variantId === dollars, 'Flagged lines should be left out of the pricing');
+    }
+
+    private async testMerge(): Promise<void> {
+        console.log('\n🔀 Testing the merge...');
+        const mug = await variantAt(500);
+        const plate = await variantAt(1200);
+        const user = { userId: testUserId.toString() };
+        const owner = anonymous();
+
+        await inTenant(() => addItem(user, { variantId: mug, quantity: 1 }));
+        await inTenant(() => addItem(owner, { variantId: mug, quantity: 2 }));
+        await inTenant(() => addItem(owner, { variantId: plate, quantity: 3 }));
+        await inTenant(() => mergeAnonymousCart(user.userId, owner.cartId));
+
+        const merged = await inTenant(() => getCart(user));
+        this.assert(quantityOf(merged, mug) === 3 && quantityOf(merged, plate) === 3, 'Lines of the same variant should add up and the others move over');
+        this.assert((await inTenant(() => getCart(owner))).lines.length === 0, 'The anonymous cart should be gone after the merge');
+
+        await inTenant(() => mergeAnonymousCart(user.userId, owner.cartId));
+        this.assert(quantityOf(await inTenant(() => getCart(user)), mug) === 3, 'Merging again should change nothing');
+
+        const newUser = new mongoose.Types.ObjectId().toString();
+        const other = anonymous();
+        await inTenant(() => addItem(other, { variantId: plate, quantity: 1 }));
+        await inTenant(() => mergeAnonymousCart(newUser, other.cartId));
+        this.assert(quantityOf(await inTenant(() => getCart({ userId: newUser })), plate) === 1, 'A user without a cart should get the anonymous one');
+    }
+
+    private async testMergeCaps(): Promise<void> {
+        console.log('\n📏 Testing the caps of the merge...');
+        const mug = await variantAt(500);
+        const plate = await variantAt(1200);
+        const owner = anonymous();
+        const full = Array.from({ length: CART.MAX_LINES - 1 }, () => ({ variant: new mongoose.Types.ObjectId(), quantity: 1, addedAt: new Date() }));
+        await inTenant(() => CartModel.create({ user: testUserId, items: [...full, { variant: new mongoose.Types.ObjectId(mug), quantity: CART.MAX_QUANTITY - 1, addedAt: new Date() }] }));
+
+        await inTenant(() => addItem(owner, { variantId: mug, quantity: 5 }));
+        await inTenant(() => addItem(owner, { variantId: plate, quantity: 1 }));
+        await inTenant(() => mergeAnonymousCart(testUserId.toString(), owner.cartId));
+
+        const cart = await inTenant(() => CartModel.findOne({ user: testUserId }).lean());
+        this.assert(cart.items.find((item: any) => item.variant.toString() === mug)?.quantity === CART.MAX_QUANTITY, 'Merged quantities should be capped at CART.MAX_QUANTITY');
+        this.assert(cart.items.length === CART.MAX_LINES && !cart.items.some((item: any) => item.variant.toString() === plate),
+            'Lines beyond CART.MAX_LINES should be dropped');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new CartTestSuite();
+    await testSuite.runAllTests();
+}
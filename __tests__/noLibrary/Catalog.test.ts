@@ -0,0 +1,210 @@
+import mongoose from 'mongoose';
+import {Attribute, AttributeModel, AttributeType} from "@dbModels/catalog/Attribute";
+import {CategoryModel} from "@dbModels/catalog/Category";
+import {ProductModel, ProductStatus} from "@dbModels/catalog/Product";
+import {ProductVariantModel} from "@dbModels/catalog/ProductVariant";
+import {OutboxEventModel} from "@dbModels/outbox/OutboxEvent";
+import {runWithContext} from "@_shared/context/requestContext";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {EVENT_TOPICS} from "@_shared/kafka/topics";
+import {assertAttributeValues, createAttribute, isValidAttributeValue} from "@services/catalog/attribute.service";
+import {createCategory, getCategoryBranchIds, getCategoryTree, updateCategory} from "@services/catalog/category.service";
+import {createProduct, createVariant, deleteProduct, getProduct, listProducts, updateProduct} from "@services/catalog/product.service";
+
+const TENANT = 'tenant-catalog';
+const OTHER_TENANT = 'tenant-catalog-other';
+const testUserId = new mongoose.Types.ObjectId();
+
+// Runs the work for the storefront; the queries are awaited inside, so they run with its context
+function inTenant(fn: () => any, tenantId = TENANT): Promise<any> {
+    return runWithContext({ tenantId, actorId: testUserId }, async () => await fn());
+}
+
+function attribute(type: AttributeType, values: string[] = []): Attribute {
+    return { code: type, name: type, type, values } as Attribute;
+}
+
+// The outbox events of the product, oldest first
+async function productEvents(productId: string): Promise<any[]> {
+    return OutboxEventModel.find({ key: productId }).sort({ createdAt: 1, _id: 1 }).lean();
+}
+
+class CatalogTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    private async assertFailsWith(fn: () => Promise<any>, extraMessageCode: string, message: string): Promise<void> {
+        try {
+            await fn();
+            this.assert(false, message);
+        } catch (error: any) {
+            this.assert(error instanceof CustomServerException && error.extraMessageCode === extraMessageCode, message);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Catalog Test Suite...\n');
+
+        this.testAttributeValues();
+
+        // Clear test data
+        await this.clear();
+        await this.testAttributes();
+        await this.clear();
+        await this.testCategoryTree();
+        await this.clear();
+        await this.testProducts();
+        await this.clear();
+        await this.testVariants();
+        await this.clear();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private async clear(): Promise<void> {
+        await AttributeModel.collection.deleteMany({});
+        await CategoryModel.collection.deleteMany({});
+        await ProductModel.collection.deleteMany({});
+        await ProductVariantModel.collection.deleteMany({});
+        await OutboxEventModel.collection.deleteMany({});
+    }
+
+    private testAttributeValues(): void {
+        console.log('\n🏷️ Testing attribute values...');
+
+        this.assert(isValidAttributeValue(attribute(AttributeType.TEXT), "Cotton") && !isValidAttributeValue(attribute(AttributeType.TEXT), "  "),
+            'A text attribute should take non-empty text');
+        this.assert(isValidAttributeValue(attribute(AttributeType.NUMBER), 42.5) && !isValidAttributeValue(attribute(AttributeType.NUMBER), "42")
+            && !isValidAttributeValue(attribute(AttributeType.NUMBER), Infinity), 'A number attribute should take finite numbers only');
+        this.assert(isValidAttributeValue(attribute(AttributeType.BOOLEAN), false) && !isValidAttributeValue(attribute(AttributeType.BOOLEAN), "true"),
+            'A boolean attribute should take booleans only');
+        const color = attribute(AttributeType.SELECT, ["red", "blue"]);
+        this.assert(isValidAttributeValue(color, "red") && !isValidAttributeValue(color, "green"), 'A select attribute should take one of its values only');
+    }
+
+    private async testAttributes(): Promise<void> {
+        console.log('\n🎨 Testing attributes...');
+
+        const color = await inTenant(() => createAttribute({ code: 'Color', name: 'Color', type: AttributeType.SELECT, values: ['red', 'blue'] }));
+        const material = await inTenant(() => createAttribute({ code: 'material', name: 'Material', type: AttributeType.TEXT, values: ['ignored'] }));
+        this.assert(color.code === 'color' && color.values.join(',') === 'red,blue', 'A select attribute should keep its values');
+        this.assert(material.values.length === 0, 'Only select attributes should keep values');
+        await this.assertFailsWith(() => inTenant(() => createAttribute({ code: 'color', name: 'Colour', type: AttributeType.TEXT })), 'codeTaken',
+            'An attribute code should be unique within the storefront');
+        const elsewhere = await inTenant(() => createAttribute({ code: 'color', name: 'Color', type: AttributeType.TEXT }), OTHER_TENANT);
+        this.assert(!!elsewhere, 'Another storefront should have an attribute of its own with the same code');
+
+        const accepted = await inTenant(() => assertAttributeValues([{ attribute: color._id.toString(), value: 'red' }, { attribute: material._id.toString(), value: 'Cotton' }]))
+            .then(() => true, () => false);
+        this.assert(accepted, 'Valid values should be accepted');
+        await this.assertFailsWith(() => inTenant(() => assertAttributeValues([{ attribute: color._id.toString(), value: 'green' }])), 'invalidAttributeValue',
+            'A value outside the attribute should be refused');
+        await this.assertFailsWith(() => inTenant(() => assertAttributeValues([{ attribute: elsewhere._id.toString(), value: 'red' }])), 'unknownAttribute',
+            'The attribute of another storefront should be unknown');
+    }
+
+    private async testCategoryTree(): Promise<void> {
+        console.log('\n🌳 Testing the category tree...');
+
+        const clothing = await inTenant(() => createCategory({ name: 'Clothing', slug: 'clothing' }));
+        const shirts = await inTenant(() => createCategory({ name: 'Shirts', slug: 'shirts', parent: clothing._id.toString() }));
+        const polos = await inTenant(() => createCategory({ name: 'Polos', slug: 'polos', parent: shirts._id.toString() }));
+        const sale = await inTenant(() => createCategory({ name: 'Sale', slug: 'sale' }));
+        this.assert(polos.path === `/${clothing._id}/${shirts._id}/${polos._id}/` && polos.depth === 2, 'A category should keep the path down to it and its depth');
+
+        const tree = await inTenant(() => getCategoryTree());
+        const clothingNode = tree.find((node: any) => node._id.equals(clothing._id));
+        this.assert(tree.length === 2 && clothingNode?.children[0]?.children[0]?._id.equals(polos._id), 'The tree should nest every category under its parent');
+        const branch = (await inTenant(() => getCategoryBranchIds(clothing._id.toString()))).map((id: any) => id.toString()).sort();
+        this.assert(branch.join(',') === [clothing._id, shirts._id, polos._id].map(id => id.toString()).sort().join(','), 'A branch should hold the category and every category below it');
+
+        await inTenant(() => updateCategory(shirts._id.toString(), { parent: sale._id.toString() }));
+        const moved = await inTenant(() => CategoryModel.findById(polos._id).lean());
+        this.assert(moved.path === `/${sale._id}/${shirts._id}/${polos._id}/` && moved.depth === 2, 'Moving a category should move its subtree along');
+        await this.assertFailsWith(() => inTenant(() => updateCategory(sale._id.toString(), { parent: polos._id.toString() })), 'categoryCycle',
+            'A category should not move below itself');
+        await this.assertFailsWith(() => inTenant(() => createCategory({ name: 'Shirts', slug: 'shirts' })), 'slugTaken', 'A category slug should be unique');
+        await this.assertFailsWith(() => inTenant(() => createCategory({ name: 'Hats', slug: 'hats', parent: new mongoose.Types.ObjectId().toString() })), 'unknownCategory',
+            'A category should not be created under an unknown parent');
+    }
+
+    private async testProducts(): Promise<void> {
+        console.log('\n🛍️ Testing products...');
+
+        const clothing = await inTenant(() => createCategory({ name: 'Clothing', slug: 'clothing' }));
+        const shirts = await inTenant(() => createCategory({ name: 'Shirts', slug: 'shirts', parent: clothing._id.toString() }));
+        const shirt = await inTenant(() => createProduct({ name: 'Linen shirt', slug: 'Linen-Shirt', categories: [shirts._id.toString()] }));
+        this.assert(shirt.status === ProductStatus.DRAFT && shirt.slug === 'linen-shirt', 'A new product should be a draft');
+        await this.assertFailsWith(() => inTenant(() => createProduct({ name: 'Hat', slug: 'hat', categories: [new mongoose.Types.ObjectId().toString()] })), 'unknownCategory',
+            'A product should not be filed under an unknown category');
+        await this.assertFailsWith(() => inTenant(() => createProduct({ name: 'Other shirt', slug: 'linen-shirt' })), 'slugTaken', 'A product slug should be unique');
+
+        const page = { includeHidden: false, page: 1, limit: 10 };
+        this.assert((await inTenant(() => listProducts(page))).total === 0, 'Drafts should be hidden from the storefront');
+        await this.assertFailsWith(() => inTenant(() => getProduct(shirt._id.toString(), false)), 'doesNotExist', 'A draft should not be found by shoppers');
+        await inTenant(() => updateProduct(shirt._id.toString(), { status: ProductStatus.ACTIVE }));
+        const inBranch = await inTenant(() => listProducts({ ...page, category: clothing._id.toString() }));
+        this.assert(inBranch.total === 1 && inBranch.items[0]._id.equals(shirt._id), 'A product should be listed under every category above its own');
+        this.assert((await inTenant(() => listProducts(page), OTHER_TENANT)).total === 0, 'Another storefront should not see the product');
+
+        await inTenant(() => deleteProduct(shirt._id.toString()));
+        this.assert((await inTenant(() => listProducts({ ...page, includeHidden: true }))).total === 0, 'A deleted product should be gone');
+
+        const events = await productEvents(shirt._id.toString());
+        this.assert(events.map(event => event.topic).join(',') === [EVENT_TOPICS.CATALOG_PRODUCT_CREATED, EVENT_TOPICS.CATALOG_PRODUCT_UPDATED, EVENT_TOPICS.CATALOG_PRODUCT_DELETED]
+            .map(topic => topic.name).join(','), 'Every change should write its event to the outbox, keyed by the product');
+        this.assert(events[1].payload.payload.product?.status === ProductStatus.ACTIVE && events[1].payload.tenantId === TENANT,
+            'An update should carry the product as it is now, for its storefront');
+        this.assert(events[2].payload.payload.product === undefined && events[2].payload.payload.version > events[1].payload.payload.version,
+            'The deletion should carry no snapshot and a later version');
+    }
+
+    private async testVariants(): Promise<void> {
+        console.log('\n👕 Testing variants...');
+
+        const size = await inTenant(() => createAttribute({ code: 'size', name: 'Size', type: AttributeType.SELECT, values: ['S', 'M'] }));
+        const product = await inTenant(() => createProduct({ name: 'Tee', slug: 'tee' }));
+        const variant = await inTenant(() => createVariant(product._id.toString(), {
+            sku: 'tee-s', options: [{ attribute: size._id.toString(), value: 'S' }], price: { amount: 1500, currency: 'EUR' }
+        }));
+        this.assert(variant.sku === 'TEE-S', 'A SKU should be stored upper-cased');
+        const { product: bumped, variants } = await inTenant(() => getProduct(product._id.toString(), true));
+        this.assert(bumped.version > product.version && variants.length === 1, 'A new variant should make a new version of its product');
+        const events = await productEvents(product._id.toString());
+        this.assert(events[events.length - 1].topic === EVENT_TOPICS.CATALOG_PRODUCT_UPDATED.name && events[events.length - 1].payload.payload.product.variants.length === 1,
+            'A variant change should be published as an update of the product, with its variants');
+
+        await this.assertFailsWith(() => inTenant(() => createVariant(product._id.toString(), { sku: 'TEE-S', price: { amount: 1500, currency: 'EUR' } })), 'skuTaken',
+            'A SKU should be unique');
+        await this.assertFailsWith(() => inTenant(() => createVariant(product._id.toString(), {
+            sku: 'tee-xl', options: [{ attribute: size._id.toString(), value: 'XL' }], price: { amount: 1500, currency: 'EUR' }
+        })), 'invalidAttributeValue', 'A variant option should be one of the values of its attribute');
+
+        await inTenant(() => deleteProduct(product._id.toString()));
+        this.assert(await inTenant(() => ProductVariantModel.countDocuments({ product: product._id })) === 0, 'Deleting a product should delete its variants');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new CatalogTestSuite();
+    await testSuite.runAllTests();
+}
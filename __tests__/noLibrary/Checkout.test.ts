@@ -0,0 +1,153 @@
+import mongoose from 'mongoose';
+import {OrderModel, OrderStatus} from "@dbModels/order/Order";
+import {StockItemModel} from "@dbModels/inventory/StockItem";
+import {ReservationModel, ReservationStatus} from "@dbModels/inventory/Reservation";
+import {SagaModel, SagaStatus} from "@dbModels/saga/Saga";
+import {runWithContext} from "@_shared/context/requestContext";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {SagaCommand} from "@_shared/types/saga.types";
+import {reserveStock} from "@services/inventory/inventory.service";
+import {createOrder, getOrder, transitionOrder} from "@services/order/order.service";
+import {handleConfirmOrder} from "@services/order/order.consumer";
+import {cancelCheckoutOrder, CHECKOUT_SAGA} from "@services/checkout/checkout.service";
+
+const TENANT = 'tenant-checkout';
+const testUserId = new mongoose.Types.ObjectId();
+
+// Runs the work for the test storefront; the queries are awaited inside, so they run with its context
+function inTenant(fn: () => any): Promise<any> {
+    return runWithContext({ tenantId: TENANT, actorId: testUserId }, async () => await fn());
+}
+
+// A pending order of two units of a variant with 5 in stock, and the reservation of its checkout
+async function orderWithReservation() {
+    const variant = new mongoose.Types.ObjectId();
+    await inTenant(() => StockItemModel.create({ variant, sku: `SKU-${variant}`, warehouse: 'north', onHand: 5, reserved: 0 }));
+    const order = await inTenant(() => createOrder(testUserId.toString(), [{
+        variant,
+        product: new mongoose.Types.ObjectId(),
+        sku: `SKU-${variant}`,
+        name: 'Mug',
+        quantity: 2,
+        unitPrice: { amount: 500, currency: 'EUR' },
+        lineTotal: { amount: 1000, currency: 'EUR' }
+    }]));
+    const orderId = order._id.toString();
+    const reservation = await inTenant(() => reserveStock(orderId, [{ variantId: variant.toString(), quantity: 2 }]));
+    const command: SagaCommand = {
+        sagaId: 'saga-1', type: CHECKOUT_SAGA, step: 'confirmOrder', compensation: false,
+        context: { orderId, userId: testUserId.toString(), reservationId: reservation._id.toString() }
+    };
+    return { orderId, variant, reservationId: reservation._id.toString(), command };
+}
+
+function compensatedSaga(orderId: string) {
+    return new SagaModel({
+        type: CHECKOUT_SAGA,
+        status: SagaStatus.COMPENSATED,
+        steps: [],
+        context: { orderId, userId: testUserId.toString(), couponCodes: [] },
+        failureReason: '[authorizePayment] failed: payment/declined'
+    });
+}
+
+class CheckoutTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Checkout Test Suite...\n');
+
+        // Clear test data
+        await this.clear();
+        await this.testConfirm();
+        await this.clear();
+        await this.testConfirmCancelled();
+        await this.clear();
+        await this.testCompensation();
+        await this.clear();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private async clear(): Promise<void> {
+        await OrderModel.collection.deleteMany({});
+        await StockItemModel.collection.deleteMany({});
+        await ReservationModel.collection.deleteMany({});
+    }
+
+    private async testConfirm(): Promise<void> {
+        console.log('\n✅ Testing confirmation...');
+        const { orderId, variant, reservationId, command } = await orderWithReservation();
+
+        await inTenant(() => handleConfirmOrder(command));
+        const order = await inTenant(() => getOrder(orderId));
+        const reservation = await inTenant(() => ReservationModel.findById(reservationId).lean());
+        const stock = await inTenant(() => StockItemModel.findOne({ variant }).lean());
+        this.assert(order.status === OrderStatus.PAID, 'The order should be paid');
+        this.assert(reservation.status === ReservationStatus.COMMITTED && stock.onHand === 3 && stock.reserved === 0, 'Its stock should be sold');
+
+        await inTenant(() => handleConfirmOrder(command));
+        const again = await inTenant(() => StockItemModel.findOne({ variant }).lean());
+        this.assert(again.onHand === 3, 'A redelivered command should not sell the stock twice');
+    }
+
+    private async testConfirmCancelled(): Promise<void> {
+        console.log('\n🛑 Testing confirmation of a cancelled order...');
+        const { orderId, variant, reservationId, command } = await orderWithReservation();
+        await inTenant(() => transitionOrder(orderId, OrderStatus.CANCELLED, { reason: 'Changed my mind' }));
+
+        let failure: any = null;
+        try {
+            await inTenant(() => handleConfirmOrder(command));
+        } catch (error) {
+            failure = error;
+        }
+        this.assert(failure instanceof CustomServerException && failure.extraMessageCode === 'illegalTransition', 'A cancelled order should fail the step');
+        const reservation = await inTenant(() => ReservationModel.findById(reservationId).lean());
+        const stock = await inTenant(() => StockItemModel.findOne({ variant }).lean());
+        this.assert(reservation.status === ReservationStatus.HELD && stock.onHand === 5 && stock.reserved === 2,
+            'The stock should stay held for the compensation to release, not be sold');
+    }
+
+    private async testCompensation(): Promise<void> {
+        console.log('\n↩️ Testing the compensation...');
+        const pending = await orderWithReservation();
+        await inTenant(() => cancelCheckoutOrder(compensatedSaga(pending.orderId)));
+        const cancelled = await inTenant(() => getOrder(pending.orderId));
+        this.assert(cancelled.status === OrderStatus.CANCELLED && cancelled.transitions[cancelled.transitions.length - 1].reason === '[authorizePayment] failed: payment/declined',
+            'A pending order should be cancelled with the reason of the failure');
+
+        await inTenant(() => cancelCheckoutOrder(compensatedSaga(pending.orderId)));
+        this.assert((await inTenant(() => getOrder(pending.orderId))).transitions.length === 2, 'An order cancelled already should be left as it is');
+
+        const paid = await orderWithReservation();
+        await inTenant(() => handleConfirmOrder(paid.command));
+        await inTenant(() => cancelCheckoutOrder(compensatedSaga(paid.orderId)));
+        this.assert((await inTenant(() => getOrder(paid.orderId))).status === OrderStatus.PAID, 'An order that went through should not be cancelled');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new CheckoutTestSuite();
+    await testSuite.runAllTests();
+}
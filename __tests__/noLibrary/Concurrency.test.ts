@@ -0,0 +1,107 @@
+import {Request, Response} from "express";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {buildETag, getExpectedVersion, sendWithETag} from "@_shared/middlewares/concurrency";
+
+const documentId = "64b7f0c2a1b2c3d4e5f60718";
+const document = { _id: documentId, version: 3, name: "Mug" };
+const etag = buildETag(document);
+
+function request(method: string, headers: Record<string, string> = {}, body?: any): Request {
+    return { method, headers, body } as unknown as Request;
+}
+
+// Records what was sent instead of sending it
+function response(): Response & { sent: { status?: number, headers: Record<string, string>, body?: any } } {
+    const sent: { status?: number, headers: Record<string, string>, body?: any } = { headers: {} };
+    const res: any = {
+        sent,
+        setHeader: (name: string, value: string) => { sent.headers[name] = value; },
+        status: (status: number) => {
+            sent.status = status;
+            return res;
+        },
+        json: (body: any) => { sent.body = body; },
+        end: () => {}
+    };
+    return res;
+}
+
+function expectedVersion(headers: Record<string, string>, body?: any): number | undefined | string {
+    try {
+        return getExpectedVersion(request("PATCH", headers, body), documentId);
+    } catch (error) {
+        return error instanceof CustomServerException ? `${error.errorCode}/${error.extraMessageCode}` : error.message;
+    }
+}
+
+class ConcurrencyTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Concurrency Test Suite...\n');
+
+        this.testIfNoneMatch();
+        this.testIfMatch();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private send(method: string, headers: Record<string, string>, status?: number) {
+        const res = response();
+        sendWithETag(request(method, headers), res, document, status);
+        return res.sent;
+    }
+
+    private testIfNoneMatch(): void {
+        console.log('\n📦 Testing If-None-Match...');
+
+        this.assert(etag === `"${documentId}-3"`, 'The ETag should be derived from the _id and version');
+        const fresh = this.send("GET", {});
+        this.assert(fresh.status === 200 && fresh.body === document && fresh.headers.ETag === etag, 'The document should be sent with its ETag');
+        this.assert(this.send("GET", { "if-none-match": etag }).status === 304, 'A client holding the version should get 304');
+        this.assert(this.send("HEAD", { "if-none-match": etag }).status === 304, 'HEAD should get 304 as well');
+        this.assert(this.send("GET", { "if-none-match": `W/${etag}` }).status === 304, 'A weak tag should match');
+        this.assert(this.send("GET", { "if-none-match": `"other", ${etag}` }).status === 304, 'A tag in a list should match');
+        this.assert(this.send("GET", { "if-none-match": "*" }).status === 304, '* should match an existing document');
+        this.assert(this.send("GET", { "if-none-match": `"${documentId}-2"` }).status === 200, 'An older version should get the document');
+        this.assert(this.send("POST", { "if-none-match": etag }, 201).status === 201, 'A create should never answer 304');
+    }
+
+    private testIfMatch(): void {
+        console.log('\n✏️ Testing If-Match...');
+
+        this.assert(expectedVersion({ "if-match": etag }) === 3, 'The version should be read from the ETag');
+        this.assert(expectedVersion({ "if-match": `W/${etag}` }) === 3, 'A weak tag should be read like a strong one');
+        this.assert(expectedVersion({ "if-match": `"other", ${etag}` }) === 3, 'The tag of the document should be found in a list');
+        this.assert(expectedVersion({ "if-match": "*" }) === undefined, '* should let the write through unconditionally');
+        this.assert(expectedVersion({ "if-match": `"64b7f0c2a1b2c3d4e5f60719-3"` }) === "mongoDb/versionConflict", 'The tag of another document should conflict');
+        this.assert(expectedVersion({ "if-match": "garbage" }) === "mongoDb/versionConflict", 'A malformed tag should conflict');
+        this.assert(expectedVersion({}, { version: 2 }) === 2, 'Without If-Match the version should be read from the body');
+        this.assert(expectedVersion({}) === undefined, 'Without either the write should be unconditional');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new ConcurrencyTestSuite();
+    await testSuite.runAllTests();
+}
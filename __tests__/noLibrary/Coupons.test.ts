@@ -0,0 +1,254 @@
+import mongoose from 'mongoose';
+import {PromotionKind, PromotionModel} from "@dbModels/pricing/Promotion";
+import {ProductModel} from "@dbModels/catalog/Product";
+import {CategoryModel} from "@dbModels/catalog/Category";
+import {UserModel} from "@dbModels/user/User";
+import {runWithContext} from "@_shared/context/requestContext";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {PromotionData} from "@_shared/types/pricing.types";
+import {createCategory} from "@services/catalog/category.service";
+import {createProduct} from "@services/catalog/product.service";
+import {normalizeCouponCodes, redeemCoupons, releaseCoupons} from "@services/pricing/coupon.service";
+import {createPromotion, priceItems, PricingItem, setCustomerSegments} from "@services/pricing/pricing.service";
+import {signupUser} from "@services/user/signup.service";
+
+const TENANT = 'tenant-coupons';
+const EMAIL = 'coupons.test@example.com';
+const testUserId = new mongoose.Types.ObjectId();
+// the uses are counted in Redis, which outlives the test data; every run gets codes of its own
+const RUN = Date.now().toString(36).toUpperCase();
+
+// Runs the work for the storefront; the queries are awaited inside, so they run with its context
+function inTenant(fn: () => any): Promise<any> {
+    return runWithContext({ tenantId: TENANT, actorId: testUserId }, async () => await fn());
+}
+
+function code(name: string): string {
+    return `${name}-${RUN}`;
+}
+
+function couponPromotion(couponCode: string, overrides: Partial<PromotionData> = {}): PromotionData {
+    return { name: couponCode, kind: PromotionKind.PERCENTAGE, percentage: 10, couponCode, ...overrides };
+}
+
+function item(overrides: Partial<PricingItem> = {}): PricingItem {
+    return {
+        variantId: new mongoose.Types.ObjectId().toString(),
+        productId: new mongoose.Types.ObjectId().toString(),
+        quantity: 1,
+        unitPrice: { amount: 1000, currency: 'EUR' },
+        ...overrides
+    };
+}
+
+// The "coupon" validation errors of the failure, e.g. ["couponCodes[0]:unknown"]
+function couponErrors(error: any): string[] {
+    if (!(error instanceof CustomServerException) || error.errorCode !== 'formNotCorrect') {
+        return [];
+    }
+    return (error.content || []).filter(entry => entry.type === 'coupon').map(entry => `${entry.formEntry}:${entry.error}`);
+}
+
+class CouponsTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    private async failureOf(fn: () => Promise<any>): Promise<any> {
+        try {
+            await fn();
+            return null;
+        } catch (error) {
+            return error;
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Coupons Test Suite...\n');
+
+        this.testNormalization();
+
+        // Clear test data
+        await this.clear();
+        await this.testPromotions();
+        await this.clear();
+        await this.testPricing();
+        await this.clear();
+        await this.testRejections();
+        await this.clear();
+        await this.testUsageLimit();
+        await this.clear();
+        await this.testCustomerLimit();
+        await this.clear();
+        await this.testAllOrNothing();
+        await this.clear();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private async clear(): Promise<void> {
+        await PromotionModel.collection.deleteMany({});
+        await ProductModel.collection.deleteMany({});
+        await CategoryModel.collection.deleteMany({});
+        await UserModel.collection.deleteMany({ email: EMAIL });
+    }
+
+    private testNormalization(): void {
+        console.log('\n🔤 Testing code normalization...');
+
+        this.assert(normalizeCouponCodes([' save10 ', 'SAVE10', '', 'Vip']).join(',') === 'SAVE10,VIP', 'Codes should be trimmed, upper-cased and entered once');
+        this.assert(normalizeCouponCodes().length === 0, 'No codes should be fine');
+    }
+
+    private async testPromotions(): Promise<void> {
+        console.log('\n📋 Testing promotions...');
+
+        const promotion = await inTenant(() => createPromotion(couponPromotion(code('save').toLowerCase())));
+        this.assert(promotion.couponCode === code('SAVE'), 'A coupon code should be stored upper-cased');
+        const taken = await this.failureOf(() => inTenant(() => createPromotion(couponPromotion(code('SAVE')))));
+        this.assert(taken instanceof CustomServerException && taken.extraMessageCode === 'couponTaken', 'A coupon code should be unique');
+        const window = await this.failureOf(() => inTenant(() => createPromotion(couponPromotion(code('WINDOW'), {
+            startsAt: '2030-02-01', endsAt: '2030-01-01'
+        }))));
+        this.assert(window instanceof CustomServerException && window.extraMessageCode === 'invalidWindow', 'A promotion should not end before it starts');
+        const tiers = await this.failureOf(() => inTenant(() => createPromotion({ name: 'Bulk', kind: PromotionKind.TIERED })));
+        this.assert(tiers instanceof CustomServerException && tiers.errorCode === 'formNotCorrect', 'A promotion should come with the parameters of its kind');
+    }
+
+    private async testPricing(): Promise<void> {
+        console.log('\n💶 Testing pricing with promotions...');
+
+        const root = await inTenant(() => createCategory({ name: 'Kitchen', slug: 'kitchen' }));
+        const mugs = await inTenant(() => createCategory({ name: 'Mugs', slug: 'mugs', parent: root._id.toString() }));
+        const mug = await inTenant(() => createProduct({ name: 'Mug', slug: 'mug', categories: [mugs._id.toString()] }));
+
+        await inTenant(() => createPromotion({ name: 'Kitchen week', kind: PromotionKind.PERCENTAGE, percentage: 10, categories: [root._id.toString()] }));
+        await inTenant(() => createPromotion({ name: 'Two for one', kind: PromotionKind.BUY_X_GET_Y, buyQuantity: 1, getQuantity: 1, stackable: false }));
+        await inTenant(() => createPromotion({ name: 'Expired', kind: PromotionKind.PERCENTAGE, percentage: 90, endsAt: '2020-01-01' }));
+
+        const breakdown = await inTenant(() => priceItems([item({ productId: mug._id.toString(), quantity: 3 }), item()]));
+        this.assert(breakdown.lines[0].discounts.length === 1 && breakdown.lines[0].discounts[0].name === 'Two for one' && breakdown.lines[0].discounts[0].amount === 1000,
+            'The better of the stack and a non-stackable promotion should apply');
+        this.assert(breakdown.lines[1].discounts.length === 0, 'A promotion for a category should not apply to products outside it');
+        this.assert(breakdown.totals[0].subtotal === 4000 && breakdown.totals[0].total === 3000, 'Expired promotions should not apply');
+
+        const single = await inTenant(() => priceItems([item({ productId: mug._id.toString() })]));
+        this.assert(single.lines[0].discounts[0]?.name === 'Kitchen week' && single.lines[0].total.amount === 900,
+            'A promotion for a category should apply to the products of the categories below it');
+    }
+
+    private async testRejections(): Promise<void> {
+        console.log('\n🚫 Testing rejected coupons...');
+
+        const user = await signupUser({
+            email: EMAIL, password: 'Str0ng!Pass', confirmPassword: 'Str0ng!Pass', firstName: 'Arta', lastName: 'Krasniqi',
+            phoneNumber: { prefix: '+355', number: '691234567' }, birthDate: '1990-05-17', timezone: 'Europe/Tirane', languageCode: 'sq'
+        });
+        const userId = user._id.toString();
+        await setCustomerSegments(userId, ['regular']);
+        const euro = await inTenant(() => createPromotion(couponPromotion(code('EURO'), { kind: PromotionKind.FIXED, percentage: undefined, amount: { amount: 100, currency: 'USD' } })));
+        await inTenant(() => createPromotion(couponPromotion(code('PAUSED'), { active: false })));
+        await inTenant(() => createPromotion(couponPromotion(code('LATER'), { startsAt: '2099-01-01' })));
+        await inTenant(() => createPromotion(couponPromotion(code('VIP'), { segments: ['vip'] })));
+        await inTenant(() => createPromotion(couponPromotion(code('FRIENDS'))));
+
+        const rejected = await this.failureOf(() => inTenant(() => priceItems([item()], {
+            userId,
+            couponCodes: [code('nothing'), code('paused'), code('LATER'), code('VIP'), code('FRIENDS')]
+        })));
+        this.assert(couponErrors(rejected).join(',') === 'couponCodes[0]:unknown,couponCodes[1]:notActive,couponCodes[2]:notActive,couponCodes[3]:notEligible',
+            'Every code that cannot be used should be rejected next to the code');
+
+        const notApplicable = await this.failureOf(() => inTenant(() => priceItems([item()], { couponCodes: [code('FRIENDS'), euro.couponCode] })));
+        this.assert(couponErrors(notApplicable).join(',') === 'couponCodes[1]:notApplicable', 'A coupon that lowers no item should be rejected');
+
+        const priced = await inTenant(() => priceItems([item()], { userId, couponCodes: [` ${code('friends')} `] }));
+        this.assert(priced.appliedCoupons.join(',') === code('FRIENDS') && priced.totals[0].total === 900, 'A usable coupon should lower the price');
+    }
+
+    private async testUsageLimit(): Promise<void> {
+        console.log('\n🎟️ Testing the usage limit...');
+
+        const last = code('LAST');
+        await inTenant(() => createPromotion(couponPromotion(last, { usageLimit: 1 })));
+        const customers = Array.from({ length: 5 }, () => new mongoose.Types.ObjectId().toString());
+        const results = await Promise.allSettled(customers.map(customer => inTenant(() => redeemCoupons([last], customer))));
+        const redeemed = results.filter(result => result.status === 'fulfilled');
+        const refused = results.filter(result => result.status === 'rejected') as PromiseRejectedResult[];
+        this.assert(redeemed.length === 1 && refused.length === 4, 'Of concurrent redemptions, only as many as the usage limit should be counted');
+        this.assert(refused.every(result => couponErrors(result.reason).join(',') === 'couponCodes[0]:usageLimitReached'), 'The others should be told the coupon is used up');
+
+        const usedUp = await this.failureOf(() => inTenant(() => priceItems([item()], { couponCodes: [last] })));
+        this.assert(couponErrors(usedUp).join(',') === 'couponCodes[0]:usageLimitReached', 'A used up coupon should be rejected when pricing');
+
+        const winner = customers[results.findIndex(result => result.status === 'fulfilled')];
+        await inTenant(() => releaseCoupons([last], winner));
+        await inTenant(() => releaseCoupons([last], winner));
+        const released = await this.failureOf(() => inTenant(() => priceItems([item()], { couponCodes: [last] })));
+        this.assert(released === null, 'A released use should make the coupon usable again');
+        await inTenant(() => redeemCoupons([last], customers[0]));
+        const overReleased = await this.failureOf(() => inTenant(() => redeemCoupons([last], customers[1])));
+        this.assert(couponErrors(overReleased).join(',') === 'couponCodes[0]:usageLimitReached', 'Releasing more than was used should never raise the limit');
+    }
+
+    private async testCustomerLimit(): Promise<void> {
+        console.log('\n🙋 Testing the customer limit...');
+
+        const welcome = code('WELCOME');
+        await inTenant(() => createPromotion(couponPromotion(welcome, { perCustomerLimit: 2, usageLimit: 10 })));
+        const customer = testUserId.toString();
+        const results = await Promise.allSettled([1, 2, 3].map(() => inTenant(() => redeemCoupons([welcome], customer))));
+        const refused = results.filter(result => result.status === 'rejected') as PromiseRejectedResult[];
+        this.assert(refused.length === 1 && couponErrors(refused[0].reason).join(',') === 'couponCodes[0]:customerLimitReached',
+            'A customer should not redeem a coupon more often than their limit, even concurrently');
+        this.assert(refused[0]?.reason.content?.[0].values.limit === 2, 'The rejection should tell the limit');
+
+        const limited = await this.failureOf(() => inTenant(() => priceItems([item()], { userId: customer, couponCodes: [welcome] })));
+        this.assert(couponErrors(limited).join(',') === 'couponCodes[0]:customerLimitReached', 'The customer should be told when pricing');
+        const other = await this.failureOf(() => inTenant(() => redeemCoupons([welcome], new mongoose.Types.ObjectId().toString())));
+        this.assert(other === null, 'Another customer should still redeem the coupon');
+    }
+
+    private async testAllOrNothing(): Promise<void> {
+        console.log('\n⚖️ Testing all or nothing...');
+
+        const spring = code('SPRING');
+        const once = code('ONCE');
+        await inTenant(() => createPromotion(couponPromotion(spring, { usageLimit: 5 })));
+        await inTenant(() => createPromotion(couponPromotion(once, { usageLimit: 1 })));
+        await inTenant(() => redeemCoupons([once], new mongoose.Types.ObjectId().toString()));
+
+        const customer = new mongoose.Types.ObjectId().toString();
+        const failure = await this.failureOf(() => inTenant(() => redeemCoupons([spring, once], customer)));
+        this.assert(couponErrors(failure).join(',') === 'couponCodes[1]:usageLimitReached', 'The coupon over its limit should be named');
+        for (let attempt = 0; attempt < 5; attempt++) {
+            await inTenant(() => redeemCoupons([spring], new mongoose.Types.ObjectId().toString()));
+        }
+        const sixth = await this.failureOf(() => inTenant(() => redeemCoupons([spring], customer)));
+        this.assert(couponErrors(sixth).join(',') === 'couponCodes[0]:usageLimitReached',
+            'The coupons counted before the failure should be taken back, leaving all their uses to others');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new CouponsTestSuite();
+    await testSuite.runAllTests();
+}
@@ -0,0 +1,154 @@
+import {EventLedgerStore} from "@_shared/types/kafka.types";
+import {createEventLedger} from "@services/kafka/eventLedger.service";
+
+// Keeps everything in memory; failLookup and failRecord make the long-lived memory unreachable for reads and writes
+function memoryStore() {
+    const keys = new Map<string, string>();
+    const processed = new Set<string>();
+    const duplicates: Record<string, number> = {};
+    const state = { keys, processed, duplicates, failLookup: false, failRecord: false };
+    const store: EventLedgerStore = {
+        claim: async (key, value) => {
+            if (keys.has(key)) {
+                return false;
+            }
+            keys.set(key, value);
+            return true;
+        },
+        get: async (key) => keys.get(key) ?? null,
+        set: async (key, value) => {
+            keys.set(key, value);
+        },
+        release: async (key) => {
+            keys.delete(key);
+        },
+        wasProcessed: async (handler, eventId) => {
+            if (state.failLookup) {
+                throw new Error("mongo down");
+            }
+            return processed.has(`${handler}/${eventId}`);
+        },
+        markProcessed: async (handler, eventId) => {
+            if (state.failRecord) {
+                throw new Error("mongo down");
+            }
+            processed.add(`${handler}/${eventId}`);
+        },
+        countDuplicate: async (handler) => {
+            duplicates[handler] = (duplicates[handler] || 0) + 1;
+        }
+    };
+    return { store, state };
+}
+
+async function failureOf(work: () => Promise<unknown>): Promise<string | null> {
+    try {
+        await work();
+        return null;
+    } catch (error) {
+        return error.message;
+    }
+}
+
+class EventLedgerTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Event Ledger Test Suite...\n');
+
+        await this.testClaim();
+        await this.testDuplicates();
+        await this.testRelease();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private async testClaim(): Promise<void> {
+        console.log('\n🎫 Testing claims...');
+
+        const { store, state } = memoryStore();
+        const ledger = createEventLedger(store);
+        let runs = 0;
+        let claimedWhileRunning = false;
+        const ran = await ledger("invoicing", "event-1", async () => {
+            runs++;
+            claimedWhileRunning = Array.from(state.keys.values()).includes("processing");
+        });
+        this.assert(ran === true && runs === 1, 'The first delivery should run the work');
+        this.assert(claimedWhileRunning, 'The event should be claimed while the work runs');
+        this.assert(Array.from(state.keys.values()).join(",") === "processed" && state.processed.has("invoicing/event-1"),
+            'The event should be remembered as processed once the work is done');
+
+        let concurrent = 0;
+        await ledger("invoicing", "event-2", async () => {
+            const failure = await failureOf(() => ledger("invoicing", "event-2", async () => { concurrent++; }));
+            this.assert(failure?.includes("being processed") === true, 'A copy arriving while the work runs should fail, to be retried');
+        });
+        this.assert(concurrent === 0, 'A copy arriving while the work runs should not run it again');
+    }
+
+    private async testDuplicates(): Promise<void> {
+        console.log('\n👯 Testing duplicates...');
+
+        const { store, state } = memoryStore();
+        const ledger = createEventLedger(store);
+        let runs = 0;
+        const work = async () => { runs++; };
+        await ledger("invoicing", "event-1", work);
+        this.assert(await ledger("invoicing", "event-1", work) === false && runs === 1, 'A copy of a processed event should be dropped');
+        this.assert(await ledger("shipping", "event-1", work) === true && runs === 2, 'Another handler should still get the event');
+
+        state.keys.clear();
+        this.assert(await ledger("invoicing", "event-1", work) === false && runs === 2, 'A copy arriving after the keys expired should be dropped as well');
+        this.assert(Array.from(state.keys.values()).join(",") === "processed", 'The processed event should be remembered again after the lookup');
+        this.assert(state.duplicates.invoicing === 2 && !state.duplicates.shipping, 'Dropped duplicates should be counted by handler');
+
+        state.failRecord = true;
+        this.assert(await ledger("invoicing", "event-3", work) === true && runs === 3, 'Work that is done should not fail when it cannot be remembered in Mongo');
+        this.assert(state.keys.size === 2, 'The event should still be remembered as processed');
+    }
+
+    private async testRelease(): Promise<void> {
+        console.log('\n🔓 Testing releases...');
+
+        const { store, state } = memoryStore();
+        const ledger = createEventLedger(store);
+        const failure = await failureOf(() => ledger("invoicing", "event-1", async () => { throw new Error("invoice service down"); }));
+        this.assert(failure === "invoice service down", 'A failure of the work should be thrown');
+        this.assert(state.keys.size === 0, 'A failed event should be released for the next delivery');
+        let runs = 0;
+        this.assert(await ledger("invoicing", "event-1", async () => { runs++; }) === true && runs === 1, 'The next delivery should run the work');
+
+        state.failLookup = true;
+        const lookup = await failureOf(() => ledger("invoicing", "event-2", async () => { runs++; }));
+        this.assert(lookup === "mongo down" && runs === 1, 'A failing lookup should be thrown without running the work');
+        this.assert(state.keys.size === 1 && !Array.from(state.keys.keys()).some(key => key.endsWith("event-2")), 'A failing lookup should release the claim');
+        state.failLookup = false;
+        this.assert(await ledger("invoicing", "event-2", async () => { runs++; }) === true && runs === 2, 'The next delivery after a failing lookup should run the work');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new EventLedgerTestSuite();
+    await testSuite.runAllTests();
+}
@@ -0,0 +1,145 @@
+import {PAYMENT} from "@environment";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus, Money} from "@_shared/types/general.types";
+import {createFakeProvider, FAKE_DECLINED_METHOD, FAKE_SIGNATURE_HEADER} from "@services/payment/providers/fake.provider";
+import {registerPaymentProviders} from "@services/payment/payment.providers";
+import {handlePaymentWebhook} from "@services/payment/payment.service";
+
+class FakePaymentProviderTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+    private amount: Money = { amount: 5000, currency: "EUR" };
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Fake Payment Provider Test Suite...\n');
+
+        await this.testAuthorize();
+        await this.testCaptureAndRefund();
+        await this.testVoid();
+        this.testWebhooks();
+        await this.testMalformedWebhooks();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private async testAuthorize(): Promise<void> {
+        console.log('\n💳 Testing authorizations...');
+        const provider = createFakeProvider("secret");
+
+        const first = await provider.authorize(this.amount, "tok_visa", "checkout-1");
+        this.assert(first.success && !!first.reference, 'A payment method should be authorized');
+        const again = await provider.authorize(this.amount, "tok_visa", "checkout-1");
+        this.assert(again.reference === first.reference, 'The same idempotency key should return the first authorization');
+        const other = await provider.authorize(this.amount, "tok_visa", "checkout-2");
+        this.assert(other.reference !== first.reference, 'Another idempotency key should authorize again');
+
+        const declined = await provider.authorize(this.amount, FAKE_DECLINED_METHOD, "checkout-3");
+        this.assert(!declined.success && declined.declineCode === "card_declined", 'The declined method should be declined with a code');
+    }
+
+    private async testCaptureAndRefund(): Promise<void> {
+        console.log('\n💰 Testing captures and refunds...');
+        const provider = createFakeProvider("secret");
+        const { reference } = await provider.authorize(this.amount, "tok_visa", "checkout-1");
+
+        this.assert(!(await provider.capture(reference, { amount: 6000, currency: "EUR" })).success, 'Capturing more than authorized should be declined');
+        this.assert((await provider.capture(reference, this.amount)).success, 'The authorized amount should be captured');
+        this.assert(!(await provider.capture(reference, this.amount)).success, 'A charge should be captured only once');
+        this.assert(!(await provider.void(reference)).success, 'A captured charge should not be voided');
+
+        this.assert((await provider.refund(reference, { amount: 2000, currency: "EUR" })).success, 'Part of the capture should be refunded');
+        this.assert(!(await provider.refund(reference, { amount: 3001, currency: "EUR" })).success, 'Refunds should not exceed the capture');
+        this.assert((await provider.refund(reference, { amount: 3000, currency: "EUR" })).success, 'The rest of the capture should be refunded');
+        this.assert(!(await provider.refund("fake_unknown", this.amount)).success, 'Unknown charges should not be refunded');
+    }
+
+    private async testVoid(): Promise<void> {
+        console.log('\n🚫 Testing voids...');
+        const provider = createFakeProvider("secret");
+        const { reference } = await provider.authorize(this.amount, "tok_visa", "checkout-1");
+
+        this.assert((await provider.void(reference)).success, 'An authorization should be voided');
+        this.assert(!(await provider.capture(reference, this.amount)).success, 'A voided charge should not be captured');
+    }
+
+    private testWebhooks(): void {
+        console.log('\n🔏 Testing webhook signatures...');
+        const provider = createFakeProvider("secret");
+        const rawBody = JSON.stringify({ id: "evt_1", reference: "fake_1", operation: "refund", success: true, amount: this.amount });
+
+        const event = provider.verifyWebhook(Buffer.from(rawBody), { [FAKE_SIGNATURE_HEADER]: provider.signWebhook(rawBody) });
+        this.assert(event.id === "evt_1" && event.operation === "refund", 'A signed webhook should be parsed');
+
+        const attempts: [string, Record<string, string>][] = [
+            ['A missing signature', {}],
+            ['A signature of another body', { [FAKE_SIGNATURE_HEADER]: provider.signWebhook(rawBody + " ") }],
+            ['A signature with another secret', { [FAKE_SIGNATURE_HEADER]: createFakeProvider("other").signWebhook(rawBody) }]
+        ];
+        for (let [name, headers] of attempts) {
+            try {
+                provider.verifyWebhook(Buffer.from(rawBody), headers);
+                this.assert(false, `${name} should be rejected`);
+            } catch (error: any) {
+                this.assert(error instanceof CustomServerException && error.extraMessageCode === 'invalidSignature'
+                    && error.httpStatus === HttpStatus.UNAUTHORIZED, `${name} should be rejected as payment/invalidSignature`);
+            }
+        }
+
+        const malformed = "{not json";
+        try {
+            provider.verifyWebhook(Buffer.from(malformed), { [FAKE_SIGNATURE_HEADER]: provider.signWebhook(malformed) });
+            this.assert(false, 'A signed body that is no JSON should be rejected');
+        } catch (error: any) {
+            this.assert(error instanceof CustomServerException && error.errorCode === 'formNotCorrect'
+                && error.httpStatus === HttpStatus.BAD_REQUEST, 'A signed body that is no JSON should be rejected as formNotCorrect');
+        }
+    }
+
+    // Malformed webhooks are refused before they are claimed, so no Redis is needed here
+    private async testMalformedWebhooks(): Promise<void> {
+        console.log('\n🧾 Testing malformed webhooks...');
+        registerPaymentProviders();
+        const signer = createFakeProvider(PAYMENT.FAKE_WEBHOOK_SECRET);
+
+        const bodies: [string, any][] = [
+            ['A webhook without an id', { reference: "fake_1", operation: "refund", success: true }],
+            ['A webhook without a reference', { id: "evt_1", operation: "refund", success: true }],
+            ['A webhook with an unknown operation', { id: "evt_1", reference: "fake_1", operation: "chargeback", success: true }],
+            ['A webhook with a reference that is no string', { id: "evt_1", reference: { $ne: null }, operation: "refund", success: true }]
+        ];
+        for (let [name, body] of bodies) {
+            const rawBody = JSON.stringify(body);
+            try {
+                await handlePaymentWebhook("fake", Buffer.from(rawBody), { [FAKE_SIGNATURE_HEADER]: signer.signWebhook(rawBody) });
+                this.assert(false, `${name} should be rejected`);
+            } catch (error: any) {
+                this.assert(error instanceof CustomServerException && error.errorCode === 'formNotCorrect'
+                    && error.httpStatus === HttpStatus.BAD_REQUEST, `${name} should be rejected as formNotCorrect`);
+            }
+        }
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new FakePaymentProviderTestSuite();
+    await testSuite.runAllTests();
+}
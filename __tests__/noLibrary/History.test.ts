@@ -0,0 +1,168 @@
+import mongoose from 'mongoose';
+import { Audit } from '@dbModels/shared/Audit';
+import {BaseSchema} from "@dbModels/shared/Base";
+import {Tenant} from "@dbModels/shared/Tenant";
+import {diffDocuments, getHistoryModel, historyPlugin, HistoryStatics} from "@dbModels/shared/History";
+import {runWithContext} from "@_shared/context/requestContext";
+
+// Test interface extending Audit
+interface HistoryTestDocument extends Audit, Tenant {
+    name: string;
+    price: number;
+    details?: { color?: string };
+}
+
+// Create test schema, kept per storefront like the catalog
+const HistoryTestSchema = new BaseSchema<HistoryTestDocument>({
+    name: { type: String, required: true },
+    price: { type: Number, required: true },
+    details: { color: { type: String } }
+}, { tenantScoped: true });
+HistoryTestSchema.plugin(historyPlugin);
+
+const HistoryTestModel = mongoose.model<HistoryTestDocument, mongoose.Model<HistoryTestDocument> & HistoryStatics>('HistoryTest', HistoryTestSchema);
+
+// Test user IDs
+const testUserId1 = new mongoose.Types.ObjectId();
+const testUserId2 = new mongoose.Types.ObjectId();
+
+// Runs the work for the storefront, as the user
+function asTenant<T>(tenantId: string, fn: () => Promise<T>, actorId = testUserId1): Promise<T> {
+    return runWithContext({ tenantId, actorId }, fn);
+}
+
+class HistoryTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting History Plugin Test Suite...\n');
+
+        this.testDiff();
+        // Clear test data
+        await this.clear();
+        await this.testTimeline();
+        await this.clear();
+        await this.testReconstruction();
+        await this.clear();
+        await this.testTenantIsolation();
+        await this.clear();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private async clear(): Promise<void> {
+        await HistoryTestModel.collection.deleteMany({});
+        await getHistoryModel(HistoryTestModel).deleteMany({});
+    }
+
+    private testDiff(): void {
+        console.log('\n🔍 Testing diffs...');
+
+        const changes = diffDocuments({ name: 'Mug', price: 10, version: 1 }, { name: 'Mug', price: 12, version: 2 });
+        this.assert(changes.length === 1 && changes[0].path === 'price' && changes[0].oldValue === 10 && changes[0].newValue === 12,
+            'Only the changed path should be listed, without the version');
+        const nested = diffDocuments({ details: { color: 'red' } }, { details: { color: 'blue' } });
+        this.assert(nested.length === 1 && nested[0].path === 'details.color', 'Nested changes should be listed by their full path');
+        const created = diffDocuments(null, { name: 'Mug', tenantId: 'tenant-a' });
+        this.assert(created.length === 1 && created[0].oldValue === undefined, 'A new document should list its paths as added, without its tenant');
+    }
+
+    private async testTimeline(): Promise<void> {
+        console.log('\n🕰️ Testing the timeline...');
+
+        await asTenant('tenant-a', async () => {
+            const doc = await HistoryTestModel.create({ name: 'Mug', price: 10 });
+            await HistoryTestModel.updateOne({ _id: doc._id }, { $set: { price: 12 } });
+            const loaded = await HistoryTestModel.findById(doc._id);
+            loaded.details = { color: 'red' };
+            await loaded.save();
+            await loaded.softDelete(testUserId2);
+            await loaded.restore(testUserId2);
+
+            const history = await HistoryTestModel.getHistory(doc._id);
+            this.assert(history.map(entry => entry.operation).join(',') === 'create,update,update,softDelete,restore',
+                'Every create, update, save, soft delete and restore should be kept in order');
+            this.assert(history.map(entry => entry.version).join(',') === '1,2,3,4,5', 'Every entry should carry the version it made');
+            this.assert(history[1].changes.length === 1 && history[1].changes[0].oldValue === 10 && history[1].changes[0].newValue === 12,
+                'An update should keep the old and the new value');
+            this.assert(history[3].actor?.equals(testUserId1), 'The entry should name the actor of the request');
+            this.assert(history.every(entry => entry.tenantId === 'tenant-a'), 'Every entry should keep the tenant of its document');
+
+            await HistoryTestModel.updateOne({ _id: doc._id }, { $set: { price: 12 } });
+            this.assert((await HistoryTestModel.getHistory(doc._id)).length === 5, 'A write changing nothing should not add an entry');
+        });
+    }
+
+    private async testReconstruction(): Promise<void> {
+        console.log('\n🧱 Testing reconstruction...');
+
+        await asTenant('tenant-a', async () => {
+            const doc = await HistoryTestModel.create({ name: 'Mug', price: 10 });
+            await HistoryTestModel.updateOne({ _id: doc._id }, { $set: { price: 12, details: { color: 'red' } } });
+            const loaded = await HistoryTestModel.findById(doc._id);
+            await loaded.softDelete();
+            this.assert(loaded.version === 3, 'A soft delete should make a version of its own');
+
+            const first = await HistoryTestModel.reconstructVersion(doc._id, 1);
+            this.assert(first?.price === 10 && first?.details?.color === undefined && first?.version === 1, 'The first version should be rebuilt as created');
+            this.assert(!first?.deletedAt, 'Rebuilding a version before the soft delete should undo it');
+
+            const second = await HistoryTestModel.reconstructVersion(doc._id, 2);
+            this.assert(second?.price === 12 && second?.details?.color === 'red' && !second?.deletedAt, 'The version before the soft delete should be rebuilt undeleted');
+
+            const current = await HistoryTestModel.reconstructVersion(doc._id, 3);
+            this.assert(current?.deletedAt instanceof Date, 'The current version should stay deleted');
+            this.assert(await HistoryTestModel.reconstructVersion(doc._id, 4) === null, 'A version that does not exist yet should not be rebuilt');
+        });
+    }
+
+    private async testTenantIsolation(): Promise<void> {
+        console.log('\n🏬 Testing tenant isolation...');
+
+        const doc = await asTenant('tenant-a', async () => {
+            const created = await HistoryTestModel.create({ name: 'Mug', price: 10 });
+            await HistoryTestModel.updateOne({ _id: created._id }, { $set: { price: 12 } });
+            return created;
+        });
+
+        const foreign = await asTenant('tenant-b', () => HistoryTestModel.getHistory(doc._id));
+        this.assert(foreign.length === 0, 'Another storefront should not see the timeline');
+        const rebuilt = await asTenant('tenant-b', () => HistoryTestModel.reconstructVersion(doc._id, 1));
+        this.assert(rebuilt === null, 'Another storefront should not rebuild the document');
+        const own = await asTenant('tenant-a', () => HistoryTestModel.getHistory(doc._id));
+        this.assert(own.length === 2, 'The own storefront should see the timeline');
+
+        let refused = false;
+        try {
+            await HistoryTestModel.getHistory(doc._id);
+        } catch (error) {
+            refused = true;
+        }
+        this.assert(refused, 'The timeline should not be read without a tenant');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new HistoryTestSuite();
+    await testSuite.runAllTests();
+}
@@ -0,0 +1,206 @@
+import mongoose from 'mongoose';
+import {INVENTORY} from "@environment";
+import {StockItemModel} from "@dbModels/inventory/StockItem";
+import {ReservationModel, ReservationStatus} from "@dbModels/inventory/Reservation";
+import {runWithContext} from "@_shared/context/requestContext";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {OrderEvent} from "@_shared/types/order.types";
+import {SagaCommand} from "@_shared/types/saga.types";
+import {commitReservation, expireReservations, releaseReservation, reserveStock} from "@services/inventory/inventory.service";
+import {handleOrderCancelled, handleReleaseInventory, handleReserveInventory} from "@services/inventory/inventory.consumer";
+
+const TENANT = 'tenant-inventory';
+const testUserId = new mongoose.Types.ObjectId();
+
+// Runs the work for the test storefront; the queries are awaited inside, so they run with its context
+function inTenant(fn: () => any): Promise<any> {
+    return runWithContext({ tenantId: TENANT, actorId: testUserId }, async () => await fn());
+}
+
+// A variant with stock in the given warehouses
+async function stockedVariant(stock: Record<string, number>): Promise<string> {
+    const variant = new mongoose.Types.ObjectId();
+    for (let [warehouse, onHand] of Object.entries(stock)) {
+        await inTenant(() => StockItemModel.create({ variant, sku: `SKU-${variant}`, warehouse, onHand, reserved: 0 }));
+    }
+    return variant.toString();
+}
+
+async function stockOf(variantId: string, warehouse: string): Promise<{ onHand: number, reserved: number }> {
+    const stockItem = await inTenant(() => StockItemModel.findOne({ variant: variantId, warehouse }).lean());
+    return { onHand: stockItem.onHand, reserved: stockItem.reserved };
+}
+
+class InventoryTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    private async assertFailsWith(fn: () => Promise<any>, extraMessageCode: string, message: string): Promise<void> {
+        try {
+            await fn();
+            this.assert(false, message);
+        } catch (error: any) {
+            this.assert(error instanceof CustomServerException && error.extraMessageCode === extraMessageCode, message);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Inventory Test Suite...\n');
+
+        // Clear test data
+        await this.clear();
+        await this.testReserve();
+        await this.clear();
+        await this.testInsufficientStock();
+        await this.clear();
+        await this.testLastUnit();
+        await this.clear();
+        await this.testCommit();
+        await this.clear();
+        await this.testRelease();
+        await this.clear();
+        await this.testExpiry();
+        await this.clear();
+        await this.testOrderCancelled();
+        await this.clear();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private async clear(): Promise<void> {
+        await StockItemModel.collection.deleteMany({});
+        await ReservationModel.collection.deleteMany({});
+    }
+
+    private async testReserve(): Promise<void> {
+        console.log('\n📦 Testing reservations...');
+        const variantId = await stockedVariant({ north: 3, south: 10 });
+
+        const reservation = await inTenant(() => reserveStock('order-1', [{ variantId, quantity: 2 }, { variantId, quantity: 3 }]));
+        this.assert(reservation.status === ReservationStatus.HELD && reservation.reference === 'order-1', 'The reservation should be held for its reference');
+        this.assert(reservation.items.length === 1 && reservation.items[0].quantity === 5, 'Lines of the same variant should be held together');
+        this.assert(reservation.items[0].warehouse === 'south', 'The stock should be held in the warehouse with the most available');
+        const south = await stockOf(variantId, 'south');
+        this.assert(south.onHand === 10 && south.reserved === 5, 'Holding should reserve the stock without taking it');
+        const ttl = reservation.expiresAt.getTime() - Date.now();
+        this.assert(ttl > (INVENTORY.HOLD_TTL - 5) * 1000 && ttl <= INVENTORY.HOLD_TTL * 1000, 'The hold should expire after INVENTORY.HOLD_TTL');
+    }
+
+    private async testInsufficientStock(): Promise<void> {
+        console.log('\n🚫 Testing insufficient stock...');
+        const plenty = await stockedVariant({ north: 10 });
+        const scarce = await stockedVariant({ north: 1, south: 1 });
+
+        await this.assertFailsWith(() => inTenant(() => reserveStock('order-1', [{ variantId: plenty, quantity: 2 }, { variantId: scarce, quantity: 2 }])),
+            'insufficientStock', 'Stock split over warehouses should not be held as one');
+        this.assert((await stockOf(plenty, 'north')).reserved === 0, 'Either every line is held or none is');
+        this.assert(await inTenant(() => ReservationModel.countDocuments({ reference: 'order-1' })) === 0, 'A failed hold should leave no reservation');
+    }
+
+    private async testLastUnit(): Promise<void> {
+        console.log('\n🥊 Testing the last unit...');
+        const variantId = await stockedVariant({ north: 1 });
+
+        const results = await Promise.allSettled([
+            inTenant(() => reserveStock('order-1', [{ variantId, quantity: 1 }])),
+            inTenant(() => reserveStock('order-2', [{ variantId, quantity: 1 }]))
+        ]);
+        const held = results.filter(result => result.status === 'fulfilled');
+        const refused = results.filter(result => result.status === 'rejected') as PromiseRejectedResult[];
+        this.assert(held.length === 1 && refused.length === 1, 'Only one of two concurrent reservations should get the last unit');
+        this.assert(refused[0]?.reason instanceof CustomServerException && refused[0].reason.extraMessageCode === 'insufficientStock',
+            'The other should fail with insufficientStock');
+        const stock = await stockOf(variantId, 'north');
+        this.assert(stock.reserved === 1 && stock.onHand === 1, 'The unit should be reserved once, never oversold');
+    }
+
+    private async testCommit(): Promise<void> {
+        console.log('\n🧾 Testing commits...');
+        const variantId = await stockedVariant({ north: 5 });
+        const reservation = await inTenant(() => reserveStock('order-1', [{ variantId, quantity: 2 }]));
+
+        const committed = await inTenant(() => commitReservation(reservation._id.toString()));
+        this.assert(committed.status === ReservationStatus.COMMITTED, 'The reservation should be committed');
+        const stock = await stockOf(variantId, 'north');
+        this.assert(stock.onHand === 3 && stock.reserved === 0, 'Committing should take the held stock out of the warehouse');
+        await this.assertFailsWith(() => inTenant(() => commitReservation(reservation._id.toString())), 'reservationNotHeld', 'A reservation should be committed only once');
+        await this.assertFailsWith(() => inTenant(() => releaseReservation(reservation._id.toString())), 'reservationNotHeld', 'A committed reservation should not be released');
+        this.assert((await stockOf(variantId, 'north')).onHand === 3, 'The stock should not change after the reservation ended');
+    }
+
+    private async testRelease(): Promise<void> {
+        console.log('\n🔓 Testing releases...');
+        const variantId = await stockedVariant({ north: 5 });
+        const reservation = await inTenant(() => reserveStock('order-1', [{ variantId, quantity: 2 }]));
+
+        const released = await inTenant(() => releaseReservation(reservation._id.toString()));
+        this.assert(released.status === ReservationStatus.RELEASED, 'The reservation should be released');
+        const stock = await stockOf(variantId, 'north');
+        this.assert(stock.onHand === 5 && stock.reserved === 0, 'Releasing should give the held stock back');
+        await this.assertFailsWith(() => inTenant(() => commitReservation(reservation._id.toString())), 'reservationNotHeld', 'A released reservation should not be committed');
+    }
+
+    private async testExpiry(): Promise<void> {
+        console.log('\n⌛ Testing expiry...');
+        const variantId = await stockedVariant({ north: 5 });
+        const expired = await inTenant(() => reserveStock('order-1', [{ variantId, quantity: 2 }]));
+        const current = await inTenant(() => reserveStock('order-2', [{ variantId, quantity: 1 }]));
+        await ReservationModel.collection.updateOne({ _id: expired._id }, { $set: { expiresAt: new Date(Date.now() - 1000) } });
+
+        const count = await expireReservations();
+        this.assert(count === 1, 'Only the reservation past its TTL should expire');
+        const reservations = await inTenant(() => ReservationModel.find({ _id: { $in: [expired._id, current._id] } }).lean());
+        this.assert(reservations.find((reservation: any) => reservation._id.equals(expired._id))?.status === ReservationStatus.EXPIRED,
+            'The expired reservation should be marked expired');
+        this.assert(reservations.find((reservation: any) => reservation._id.equals(current._id))?.status === ReservationStatus.HELD,
+            'The current reservation should stay held');
+        this.assert((await stockOf(variantId, 'north')).reserved === 1, 'Expiry should give the held stock back');
+        await this.assertFailsWith(() => inTenant(() => commitReservation(expired._id.toString())), 'reservationNotHeld', 'An expired reservation should not be committed');
+    }
+
+    private async testOrderCancelled(): Promise<void> {
+        console.log('\n🛑 Testing cancelled orders...');
+        const variantId = await stockedVariant({ north: 5 });
+        const orderId = new mongoose.Types.ObjectId().toString();
+        const command: SagaCommand = { sagaId: 'saga-1', type: 'checkout', step: 'reserveInventory', compensation: false, context: { orderId, items: [{ variantId, quantity: 2 }] } };
+        const cancelled: OrderEvent = {
+            orderId, tenantId: TENANT, userId: testUserId.toString(), from: 'pending', to: 'cancelled', version: 2,
+            occurredAt: new Date().toISOString(), total: { amount: 1000, currency: 'EUR' }
+        };
+
+        const { reservationId } = await inTenant(() => handleReserveInventory(command));
+        this.assert((await inTenant(() => handleReserveInventory(command))).reservationId === reservationId, 'A redelivered reserve command should find its reservation');
+        await inTenant(() => handleOrderCancelled(cancelled));
+        const reservation = await inTenant(() => ReservationModel.findById(reservationId).lean());
+        this.assert(reservation.reference === orderId && reservation.status === ReservationStatus.RELEASED, 'Cancelling the order should release the stock held for it');
+        this.assert((await stockOf(variantId, 'north')).reserved === 0, 'The held stock should be available again');
+
+        await inTenant(() => handleOrderCancelled(cancelled));
+        await inTenant(() => handleReleaseInventory({ ...command, compensation: true }));
+        this.assert((await stockOf(variantId, 'north')).reserved === 0, 'Releasing again should change nothing');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new InventoryTestSuite();
+    await testSuite.runAllTests();
+}
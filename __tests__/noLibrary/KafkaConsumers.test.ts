@@ -0,0 +1,199 @@
+import {EachBatchPayload, IHeaders, KafkaMessage, ProducerRecord} from "kafkajs";
+import {KAFKA} from "@environment";
+import {consumeBatch, HandlerRegistration, MessageSender, retryTopicName} from "@_shared/kafka/consumers";
+
+type FakeBatch = {
+    payload: EachBatchPayload,
+    resolved: string[],
+    paused: number
+}
+
+function message(offset: number, headers: IHeaders = {}): KafkaMessage {
+    return {
+        key: Buffer.from("order-1"),
+        value: Buffer.from(JSON.stringify({ offset })),
+        timestamp: Date.now().toString(),
+        attributes: 0,
+        offset: offset.toString(),
+        headers
+    };
+}
+
+function batchOf(topic: string, messages: KafkaMessage[]): FakeBatch {
+    const fake: FakeBatch = { payload: null, resolved: [], paused: 0 };
+    fake.payload = {
+        batch: { topic, partition: 2, messages },
+        resolveOffset: (offset: string) => { fake.resolved.push(offset); },
+        heartbeat: async () => {},
+        pause: () => {
+            fake.paused++;
+            return () => { fake.paused--; };
+        },
+        isRunning: () => true,
+        isStale: () => false
+    } as unknown as EachBatchPayload;
+    return fake;
+}
+
+function senderTo(sent: ProducerRecord[]): MessageSender {
+    return {
+        send: async (record: ProducerRecord) => {
+            sent.push(record);
+            return [];
+        }
+    };
+}
+
+function registration(handler: HandlerRegistration["handler"], retry: boolean = true): HandlerRegistration {
+    return { topic: "order.paid", group: "order.paid.invoicing", handler, concurrency: 1, retry };
+}
+
+const failing = async () => {
+    throw new Error("invoice service down");
+};
+
+class KafkaConsumersTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Kafka Consumers Test Suite...\n');
+
+        await this.testPassThrough();
+        await this.testRetryTiers();
+        await this.testDeadLetter();
+        await this.testDeferral();
+        await this.testWithoutRetry();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private async testPassThrough(): Promise<void> {
+        console.log('\n📨 Testing pass-through...');
+
+        const handled: string[] = [];
+        const sent: ProducerRecord[] = [];
+        const fake = batchOf("order.paid", [message(10, { tenantId: "tenant-1" }), message(11)]);
+        await consumeBatch(registration(async ({ topic, message }) => { handled.push(`${topic}:${message.offset}`); }), senderTo(sent), fake.payload);
+
+        this.assert(handled.join(",") === "order.paid:10,order.paid:11", 'Every message should reach the handler in order');
+        this.assert(fake.resolved.join(",") === "10,11", 'Handled messages should be resolved');
+        this.assert(sent.length === 0, 'Nothing should be sent on when the handler succeeds');
+    }
+
+    private async testRetryTiers(): Promise<void> {
+        console.log('\n🔁 Testing the retry tiers...');
+
+        const sent: ProducerRecord[] = [];
+        const first = batchOf("order.paid", [message(10, { tenantId: "tenant-1" })]);
+        await consumeBatch(registration(failing), senderTo(sent), first.payload);
+        const retried = sent[0];
+        const headers = retried?.messages[0].headers;
+        this.assert(retried?.topic === retryTopicName("order.paid.invoicing", 0), 'A first failure should go to the first retry topic');
+        this.assert(headers?.retryAttempt === "1" && parseInt(headers?.retryAt as string) > Date.now(), 'The retry should carry its attempt and when it is due');
+        this.assert(headers?.originalTopic === "order.paid" && headers?.originalPartition === "2" && headers?.originalOffset === "10",
+            'The retry should carry where the message was first read');
+        this.assert(headers?.tenantId === "tenant-1" && headers?.error === "invoice service down", 'The retry should keep the own headers and the reason');
+        this.assert(first.resolved.join(",") === "10", 'A message passed on to a retry topic should be resolved');
+
+        const handled: string[] = [];
+        const due = batchOf(retryTopicName("order.paid.invoicing", 0), [message(0, { ...headers, retryAt: (Date.now() - 1).toString() })]);
+        await consumeBatch(registration(async ({ topic }) => { handled.push(topic); }), senderTo(sent), due.payload);
+        this.assert(handled.join(",") === "order.paid", 'A due retry should reach the handler as if read from its topic');
+
+        const again = batchOf(retryTopicName("order.paid.invoicing", 0), [message(1, { ...headers, retryAt: (Date.now() - 1).toString() })]);
+        await consumeBatch(registration(failing), senderTo(sent), again.payload);
+        const second = sent[1];
+        this.assert(second?.topic === retryTopicName("order.paid.invoicing", 1) && second?.messages[0].headers.retryAttempt === "2",
+            'A second failure should go to the next retry topic');
+        this.assert(second?.messages[0].headers.originalOffset === "10" && second?.messages[0].headers.originalPartition === "2",
+            'The original position should survive the retries');
+    }
+
+    private async testDeadLetter(): Promise<void> {
+        console.log('\n🪦 Testing dead-lettering...');
+
+        const sent: ProducerRecord[] = [];
+        const headers = { originalTopic: "order.paid", originalPartition: "2", originalOffset: "10", retryAttempt: "2", retryAt: (Date.now() - 1).toString() };
+        const fake = batchOf(retryTopicName("order.paid.invoicing", 1), [message(3, headers)]);
+        await consumeBatch(registration(failing), senderTo(sent), fake.payload);
+
+        const deadLetter = sent[0];
+        this.assert(deadLetter?.topic === KAFKA.TOPICS.DEAD_LETTER, 'A failure after every retry should be dead-lettered');
+        this.assert(deadLetter?.messages[0].headers.handler === "order.paid.invoicing" && deadLetter?.messages[0].headers.retryAttempt === "2",
+            'The dead letter should name its handler and the retries made');
+        this.assert((deadLetter?.messages[0].headers.stack as string)?.length > 0 && !!deadLetter?.messages[0].headers.failedAt, 'The dead letter should carry the stack and when it failed');
+        this.assert(fake.resolved.join(",") === "3", 'A dead-lettered message should be resolved');
+    }
+
+    private async testDeferral(): Promise<void> {
+        console.log('\n⏳ Testing deferral...');
+
+        const handled: string[] = [];
+        const retryAt = (offset: number) => ({ retryAttempt: "1", retryAt: (Date.now() + 50).toString(), originalOffset: offset.toString() });
+        const fake = batchOf(retryTopicName("order.paid.invoicing", 0), [message(5, retryAt(1)), message(6, retryAt(2))]);
+        await consumeBatch(registration(async ({ message }) => { handled.push(message.offset); }), senderTo([]), fake.payload);
+
+        this.assert(handled.length === 0, 'A retry that is not due should not reach the handler');
+        this.assert(fake.resolved.length === 0, 'A retry that is not due should stay unresolved, so it is delivered again');
+        this.assert(fake.paused === 1, 'The partition should be paused until the retry is due');
+        await new Promise(resolve => setTimeout(resolve, 100));
+        this.assert(fake.paused === 0, 'The partition should be resumed once the retry is due');
+
+        const original = batchOf("order.paid", [message(7, { retryAt: (Date.now() + 60000).toString() })]);
+        await consumeBatch(registration(async ({ message }) => { handled.push(message.offset); }), senderTo([]), original.payload);
+        this.assert(handled.join(",") === "7" && original.paused === 0, 'Messages on the topic itself should never wait');
+    }
+
+    private async testWithoutRetry(): Promise<void> {
+        console.log('\n🚫 Testing handlers without retries...');
+
+        const sent: ProducerRecord[] = [];
+        const fake = batchOf("order.paid", [message(10), message(11)]);
+        let thrown: Error | null = null;
+        try {
+            await consumeBatch(registration(async ({ message }) => {
+                if (message.offset === "11") {
+                    await failing();
+                }
+            }, false), senderTo(sent), fake.payload);
+        } catch (error) {
+            thrown = error;
+        }
+        this.assert(thrown?.message === "invoice service down", 'The failure should be thrown back to the consumer');
+        this.assert(fake.resolved.join(",") === "10" && sent.length === 0, 'The failed message should stay unresolved and not be retried');
+
+        const broken = batchOf("order.paid", [message(12)]);
+        let routingFailed = false;
+        try {
+            await consumeBatch(registration(failing), { send: async () => { throw new Error("broker down"); } }, broken.payload);
+        } catch (error) {
+            routingFailed = error.message === "broker down";
+        }
+        this.assert(routingFailed && broken.resolved.length === 0, 'A message that could not be passed on should stay unresolved');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new KafkaConsumersTestSuite();
+    await testSuite.runAllTests();
+}
@@ -0,0 +1,131 @@
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {field, object, rules} from "@_shared/exceptions/schema";
+import {createEnvelope, decodeEnvelope, envelopeHeaders} from "@_shared/kafka/events";
+import {defineTopic, getTopicDefinition} from "@_shared/kafka/topics";
+
+type GreetingEvent = {
+    name: string,
+    times: number
+}
+
+const greetingSchema = object({
+    name: field(rules.notEmpty()),
+    times: field(rules.isInteger(), rules.greaterThanOrEqual(1))
+});
+
+const greetings = defineTopic<GreetingEvent>({ name: "test.greeting", schema: greetingSchema });
+// version 1 carried only the name
+const greetingsV2 = defineTopic<GreetingEvent>({
+    name: "test.greeting.v2",
+    eventType: "test.greeting",
+    version: 3,
+    schema: greetingSchema,
+    upgrades: { 1: (payload) => ({ name: payload.name, times: 1 }) }
+});
+
+function failureOf(work: () => unknown): string | null {
+    try {
+        work();
+        return null;
+    } catch (error) {
+        return error instanceof CustomServerException ? `${error.errorCode}/${error.extraMessageCode}` : error.message;
+    }
+}
+
+class KafkaEnvelopeTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Kafka Envelope Test Suite...\n');
+
+        this.testRegistry();
+        this.testCreate();
+        this.testDecode();
+        this.testVersions();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private testRegistry(): void {
+        console.log('\n📚 Testing the topic registry...');
+
+        this.assert(getTopicDefinition("test.greeting") === greetings, 'A defined topic should be found by its name');
+        this.assert(greetings.eventType === "test.greeting" && greetings.version === 1, 'The event type should default to the name and the version to 1');
+        this.assert(failureOf(() => defineTopic({ name: "test.greeting", schema: greetingSchema })) !== null, 'A topic should not be defined twice');
+    }
+
+    private testCreate(): void {
+        console.log('\n✉️ Testing envelope creation...');
+
+        const envelope = createEnvelope(greetings, { name: "Ada", times: 2 }, { correlationId: "request-1", tenantId: "tenant-1" });
+        this.assert(envelope.eventId.length > 0 && envelope.eventType === "test.greeting" && envelope.schemaVersion === 1,
+            'The envelope should carry an id, the event type and the version');
+        this.assert(envelope.correlationId === "request-1" && envelope.tenantId === "tenant-1", 'The envelope should carry the given correlation and tenant');
+        this.assert(createEnvelope(greetings, { name: "Ada", times: 2 }).eventId !== envelope.eventId, 'Every envelope should get its own id');
+
+        const headers = envelopeHeaders(envelope);
+        this.assert(headers.tenantId === "tenant-1" && headers.eventId === envelope.eventId && headers.schemaVersion === "1",
+            'The headers should repeat the tenant, id and version');
+
+        this.assert(failureOf(() => createEnvelope(greetings, { name: "", times: 0 })) === "kafka/invalidPayload", 'An invalid payload should be refused');
+        this.assert(failureOf(() => createEnvelope(greetings, { name: "Ada" } as GreetingEvent)) === "kafka/invalidPayload", 'A payload missing a field should be refused');
+    }
+
+    private testDecode(): void {
+        console.log('\n📬 Testing decoding...');
+
+        const envelope = createEnvelope(greetings, { name: "Ada", times: 2 });
+        const decoded = decodeEnvelope(greetings, Buffer.from(JSON.stringify(envelope)));
+        this.assert(decoded.eventId === envelope.eventId && decoded.payload.name === "Ada" && decoded.payload.times === 2, 'A valid envelope should decode as it was written');
+
+        this.assert(failureOf(() => decodeEnvelope(greetings, "not json")) === "kafka/invalidEnvelope", 'A message that is not JSON should be rejected');
+        this.assert(failureOf(() => decodeEnvelope(greetings, null)) === "kafka/invalidEnvelope", 'An empty message should be rejected');
+        this.assert(failureOf(() => decodeEnvelope(greetings, JSON.stringify({ name: "Ada", times: 2 }))) === "kafka/invalidEnvelope",
+            'A bare payload should be rejected');
+        this.assert(failureOf(() => decodeEnvelope(greetings, JSON.stringify({ ...envelope, eventType: "test.other" }))) === "kafka/invalidEnvelope",
+            'An envelope of another event type should be rejected');
+        this.assert(failureOf(() => decodeEnvelope(greetings, JSON.stringify({ ...envelope, payload: { name: "Ada", times: "two" } }))) === "kafka/invalidPayload",
+            'An envelope with an invalid payload should be rejected');
+    }
+
+    private testVersions(): void {
+        console.log('\n🔢 Testing schema versions...');
+
+        const current = createEnvelope(greetingsV2, { name: "Ada", times: 2 });
+        this.assert(decodeEnvelope(greetingsV2, JSON.stringify(current)).payload.times === 2, 'The current version should decode as it is');
+
+        const old = { ...current, schemaVersion: 1, payload: { name: "Ada" } };
+        const upgraded = decodeEnvelope(greetingsV2, JSON.stringify(old));
+        this.assert(upgraded.schemaVersion === 3 && upgraded.payload.times === 1, 'An older version with an upgrade should be upgraded');
+
+        this.assert(failureOf(() => decodeEnvelope(greetingsV2, JSON.stringify({ ...current, schemaVersion: 2 }))) === "kafka/incompatibleVersion",
+            'An older version without an upgrade should be incompatible');
+        this.assert(failureOf(() => decodeEnvelope(greetingsV2, JSON.stringify({ ...current, schemaVersion: 4 }))) === "kafka/incompatibleVersion",
+            'A newer version should be incompatible');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new KafkaEnvelopeTestSuite();
+    await testSuite.runAllTests();
+}
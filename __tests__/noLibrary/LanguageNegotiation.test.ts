@@ -0,0 +1,125 @@
+import {Request, Response} from 'express';
+import {CONSTANTS} from "@environment";
+import {getRequestContext, runWithContext} from "@_shared/context/requestContext";
+import {matchSupportedLanguage, negotiateLanguage, parseAcceptLanguage, setUserLanguageResolver} from "@_shared/middlewares/languageNegotiation";
+
+// Runs the middleware on a request with the given query and Accept-Language header and returns what it set
+async function negotiate(options: { lang?: any, acceptLanguage?: string } = {}): Promise<{ languageCode: string, headers: Record<string, string>, vary: string[], contextLanguage: string, error: any }> {
+    const req = { query: options.lang !== undefined ? { lang: options.lang } : {}, headers: options.acceptLanguage ? { "accept-language": options.acceptLanguage } : {} } as any as Request;
+    const headers: Record<string, string> = {};
+    const vary: string[] = [];
+    const res = {
+        setHeader: (name: string, value: string) => { headers[name] = value; },
+        vary: (field: string) => { vary.push(field); }
+    } as any as Response;
+    let error: any = null;
+    let contextLanguage: string = null;
+    await runWithContext({}, async () => {
+        await negotiateLanguage()(req, res, (failure?: any) => {
+            error = failure || null;
+            contextLanguage = getRequestContext()?.languageCode;
+        });
+    });
+    return { languageCode: req.languageCode, headers, vary, contextLanguage, error };
+}
+
+class LanguageNegotiationTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Language Negotiation Test Suite...\n');
+
+        this.testParsing();
+        this.testMatching();
+        await this.testNegotiation();
+        await this.testPriority();
+        await this.testResolverFailure();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private testParsing(): void {
+        console.log('\n📜 Testing Accept-Language parsing...');
+
+        const accepted = parseAcceptLanguage("en;q=0.5, sq-AL, de;q=0.8");
+        this.assert(accepted.map(entry => entry.languageCode).join(",") === "sq-AL,de,en", 'Languages should be ordered by descending q-weight');
+        this.assert(accepted[0].quality === 1 && accepted[2].quality === 0.5, 'A language without q should weigh 1');
+        this.assert(parseAcceptLanguage("fr, sq, en").map(entry => entry.languageCode).join(",") === "fr,sq,en", 'Equal weights should keep the order of the header');
+        this.assert(parseAcceptLanguage("sq;q=0, en;q=abc, de;q=0.3").map(entry => entry.languageCode).join(",") === "de",
+            'Languages with q=0 or an invalid q should be dropped');
+        this.assert(parseAcceptLanguage("en;q=3")[0].quality === 1, 'A weight above 1 should count as 1');
+        this.assert(parseAcceptLanguage(undefined).length === 0 && parseAcceptLanguage(" , ;q=1").length === 0, 'An empty header should accept nothing');
+    }
+
+    private testMatching(): void {
+        console.log('\n🎯 Testing matching...');
+
+        this.assert(matchSupportedLanguage("SQ") === "sq" && matchSupportedLanguage("en") === "en", 'A supported language should match in any case');
+        this.assert(matchSupportedLanguage("sq-AL") === "sq" && matchSupportedLanguage("en_GB") === "en", 'A regional code should match its base language');
+        this.assert(matchSupportedLanguage("fr") === null && matchSupportedLanguage("*") === null, 'An unsupported language or a wildcard should not match');
+        this.assert(matchSupportedLanguage(undefined) === null && matchSupportedLanguage("") === null, 'A missing language should not match');
+    }
+
+    private async testNegotiation(): Promise<void> {
+        console.log('\n🤝 Testing negotiation...');
+
+        const negotiated = await negotiate({ acceptLanguage: "fr-FR, sq-AL;q=0.9, en;q=0.8" });
+        this.assert(negotiated.languageCode === "sq", 'The first supported language of the header should be chosen');
+        this.assert(negotiated.headers["Content-Language"] === "sq" && negotiated.vary.includes("Accept-Language"), 'The response should name its language and vary on the header');
+        this.assert(negotiated.contextLanguage === "sq" && negotiated.error === null, 'The language should be kept in the request context');
+
+        const fallback = await negotiate({ acceptLanguage: "fr, de;q=0.5" });
+        this.assert(fallback.languageCode === CONSTANTS.DEFAULT_LANGUAGE, 'A header without a supported language should fall back to DEFAULT_LANGUAGE');
+        this.assert((await negotiate()).languageCode === CONSTANTS.DEFAULT_LANGUAGE, 'A request without a header should fall back to DEFAULT_LANGUAGE');
+    }
+
+    private async testPriority(): Promise<void> {
+        console.log('\n🥇 Testing priority...');
+
+        setUserLanguageResolver(async () => "sq-AL");
+        this.assert((await negotiate({ acceptLanguage: "en" })).languageCode === "sq", 'The preference of the user should win over the header');
+        this.assert((await negotiate({ lang: "en", acceptLanguage: "sq" })).languageCode === "en", 'The "?lang=" override should win over the preference of the user');
+        this.assert((await negotiate({ lang: "fr", acceptLanguage: "en" })).languageCode === "sq", 'An unsupported "?lang=" should be ignored');
+        this.assert((await negotiate({ lang: ["en", "sq"] })).languageCode === "sq", 'A repeated "?lang=" should be ignored');
+
+        setUserLanguageResolver(() => null);
+        this.assert((await negotiate({ acceptLanguage: "sq" })).languageCode === "sq", 'A user without a preference should get the language of the header');
+        setUserLanguageResolver(() => "fr");
+        this.assert((await negotiate({ acceptLanguage: "sq" })).languageCode === "sq", 'An unsupported preference should be ignored');
+        setUserLanguageResolver(null);
+    }
+
+    private async testResolverFailure(): Promise<void> {
+        console.log('\n💥 Testing a failing preference hook...');
+
+        const failure = new Error("profile unavailable");
+        setUserLanguageResolver(async () => { throw failure; });
+        this.assert((await negotiate({ acceptLanguage: "sq" })).error === failure, 'A failing hook should be passed on to the error handler');
+        setUserLanguageResolver(null);
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new LanguageNegotiationTestSuite();
+    await testSuite.runAllTests();
+}
@@ -0,0 +1,112 @@
+import {CONSTANTS} from "@environment";
+import {CustomServerException, customServerExceptionToCustomClientException} from "@_shared/exceptions/exceptions";
+import {
+    getLanguageFile,
+    getRegisteredLanguages,
+    normalizeLanguageCode,
+    resolveLanguageChain,
+    resolveLanguageCode,
+    validateLanguageRegistry
+} from "@_shared/exceptions/languageRegistry";
+import {HttpStatus} from "@_shared/types/general.types";
+
+class LanguageRegistryTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Language Registry Test Suite...\n');
+
+        this.testDiscovery();
+        this.testNormalization();
+        this.testChain();
+        this.testResolution();
+        this.testConsistency();
+        this.testLocalizedExceptions();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private testDiscovery(): void {
+        console.log('\n📂 Testing discovery...');
+
+        const registered = getRegisteredLanguages();
+        this.assert(registered.includes("en-US") && registered.includes("sq-AL"), 'Every language file should be registered under its file name');
+        this.assert(getLanguageFile("sq-AL").serverExceptions.auth.message === "Autentikimi dështoi", 'A registered language should serve its own file');
+    }
+
+    private testNormalization(): void {
+        console.log('\n🔤 Testing normalization...');
+
+        this.assert(normalizeLanguageCode(" sq_AL ") === "sq-al", 'Codes should be trimmed, lower-cased and use dashes');
+        this.assert(normalizeLanguageCode(undefined) === "" && normalizeLanguageCode("") === "", 'A missing code should normalize to nothing');
+    }
+
+    private testChain(): void {
+        console.log('\n🔗 Testing the lookup chain...');
+
+        const fallback = normalizeLanguageCode(CONSTANTS.DEFAULT_LANGUAGE);
+        const chain = resolveLanguageChain("sq-AL");
+        this.assert(chain[0] === "sq-al" && chain[1] === "sq", 'The chain should try the region, then its base language');
+        this.assert(chain.includes(fallback) && chain.indexOf(fallback) > 1, 'The chain should end with DEFAULT_LANGUAGE');
+        this.assert(new Set(chain).size === chain.length, 'The chain should try every language once');
+        this.assert(resolveLanguageChain("")[0] === fallback, 'A missing code should go straight to DEFAULT_LANGUAGE');
+    }
+
+    private testResolution(): void {
+        console.log('\n🧭 Testing resolution...');
+
+        this.assert(resolveLanguageCode("sq-AL") === "sq-AL" && resolveLanguageCode("SQ_al") === "sq-AL", 'A registered code should resolve to its file in any spelling');
+        this.assert(resolveLanguageCode("sq") === "sq-AL", 'A bare language should be served by a regional file of that language');
+        this.assert(resolveLanguageCode("sq-XK") === "sq-AL", 'An unknown region should fall back to its base language');
+        const fallback = resolveLanguageCode(CONSTANTS.DEFAULT_LANGUAGE);
+        this.assert(!!fallback && resolveLanguageCode("fr-FR") === fallback, 'An unknown language should fall back to DEFAULT_LANGUAGE');
+        this.assert(getLanguageFile("fr-FR") === getLanguageFile(CONSTANTS.DEFAULT_LANGUAGE), 'An unknown language should be served the default file');
+    }
+
+    private testConsistency(): void {
+        console.log('\n🧮 Testing the consistency check...');
+
+        const differences = validateLanguageRegistry();
+        this.assert(differences.length === 0, `The shipped language files should be consistent${differences.length ? `: ${differences.join("; ")}` : ""}`);
+        for (let languageCode of CONSTANTS.SUPPORTED_LANGUAGES) {
+            this.assert(resolveLanguageCode(languageCode) !== null, `The supported language [${languageCode}] should be served by a file`);
+        }
+    }
+
+    private testLocalizedExceptions(): void {
+        console.log('\n🌐 Testing localized exceptions...');
+
+        const exception = new CustomServerException("auth", "invalidToken", undefined, HttpStatus.UNAUTHORIZED);
+        const albanian = customServerExceptionToCustomClientException(exception, "sq");
+        const english = customServerExceptionToCustomClientException(exception, "en");
+        this.assert(albanian.error === "Autentikimi dështoi" && albanian.extraMessage === "Token-i është i pavlefshëm ose ka skaduar",
+            'An exception should be translated into the requested language');
+        this.assert(english.error === "Authentication failed" && english.extraMessageCode === "invalidToken", 'The same exception should be translated into English');
+        this.assert(customServerExceptionToCustomClientException(exception, "de").error === english.error, 'An unknown language should get the default translation');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new LanguageRegistryTestSuite();
+    await testSuite.runAllTests();
+}
@@ -0,0 +1,111 @@
+import {formatMessage, getMessagePlaceholders} from "@_shared/exceptions/messageFormat";
+
+const items = "{count, plural, =0 {no items} one {# item} other {# items}}";
+const notifications = "{kind, select, email {{count, plural, one {# email} other {# emails}}} other {{count, plural, one {# message} other {# messages}}}}";
+
+class MessageFormatTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Message Format Test Suite...\n');
+
+        this.testLegacyPlaceholders();
+        this.testArguments();
+        this.testPlural();
+        this.testNesting();
+        this.testMissingValues();
+        this.testPlaceholders();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private testLegacyPlaceholders(): void {
+        console.log('\n🧩 Testing positional placeholders...');
+
+        this.assert(formatMessage("Must be between {} and {}", "en-US", [1, 10]) === "Must be between 1 and 10", '{} should be filled in order');
+        this.assert(formatMessage("Must be between {} and {}", "en-US", [1]) === "Must be between 1 and {}", 'A {} without a value should be left as it is');
+        this.assert(formatMessage("{1} comes after {0}", "en-US", ["a", "b"]) === "b comes after a", '{0} and {1} should be filled by index');
+        this.assert(formatMessage("Plain text", "en-US", ["unused"]) === "Plain text", 'A template without placeholders should stay as it is');
+        this.assert(formatMessage("", "en-US") === "", 'An empty template should stay empty');
+    }
+
+    private testArguments(): void {
+        console.log('\n🔤 Testing named arguments...');
+
+        this.assert(formatMessage("Hello {name}", "en-US", [], { name: "Ada" }) === "Hello Ada", 'A named argument should be filled');
+        this.assert(formatMessage("{n, number}", "en-US", [], { n: 1234.5 }) === "1,234.5", 'A number should be formatted per locale');
+        this.assert(formatMessage("{n, number}", "de-DE", [], { n: 1234.5 }) === "1.234,5", 'Another locale should format the number its way');
+        this.assert(formatMessage("{n, number, integer}", "en-US", [], { n: 3.7 }) === "4", 'An integer style should drop the fraction');
+        this.assert(formatMessage("{n, number, percent}", "en-US", [], { n: 0.25 }) === "25%", 'A percent style should format a percentage');
+        this.assert(formatMessage("{n}", "en-US", [], { n: 1000 }) === "1,000", 'A bare number argument should be formatted as well');
+        this.assert(formatMessage("{at, date, short}", "en-US", [], { at: new Date(2024, 0, 31) }) === "1/31/24", 'A date should be formatted in the requested style');
+        this.assert(formatMessage("Item #{n}", "en-US", [], { n: 3 }) === "Item #3", '# outside of a plural should stay literal');
+    }
+
+    private testPlural(): void {
+        console.log('\n🔢 Testing plurals...');
+
+        this.assert(formatMessage(items, "en-US", [], { count: 0 }) === "no items", 'An exact =0 branch should win');
+        this.assert(formatMessage(items, "en-US", [], { count: 1 }) === "1 item", 'one should pick the singular');
+        this.assert(formatMessage(items, "en-US", [], { count: 5 }) === "5 items", 'other should pick the plural');
+        this.assert(formatMessage(items, "en-US", [], { count: 1234 }) === "1,234 items", '# should be formatted like a number');
+        this.assert(formatMessage("{count, plural, other {# left}}", "en-US", [], { count: "2" }) === "2 left", 'A numeric string should be counted');
+    }
+
+    private testNesting(): void {
+        console.log('\n🪆 Testing nesting...');
+
+        this.assert(formatMessage(notifications, "en-US", [], { kind: "email", count: 2 }) === "2 emails", 'A plural inside a select should be formatted');
+        this.assert(formatMessage(notifications, "en-US", [], { kind: "sms", count: 1 }) === "1 message", 'An unknown select value should fall back to other');
+        const inner = "{outer, plural, other {# x {inner, plural, one {# y} other {# ys}}}}";
+        this.assert(formatMessage(inner, "en-US", [], { outer: 3, inner: 1 }) === "3 x 1 y", '# should count the innermost plural');
+        this.assert(formatMessage("{kind, select, admin {Hi {name}} other {Hello}}", "en-US", [], { kind: "admin", name: "Ada" }) === "Hi Ada",
+            'Arguments inside a branch should be filled');
+    }
+
+    private testMissingValues(): void {
+        console.log('\n🕳️ Testing missing values...');
+
+        this.assert(formatMessage("Hello {name}", "en-US") === "Hello {name}", 'A named argument without a value should be left untouched');
+        this.assert(formatMessage("{n, number, integer}", "en-US") === "{n, number, integer}", 'A formatted argument without a value should be left untouched');
+        this.assert(formatMessage(items, "en-US") === items, 'A plural without a value should be left untouched');
+        this.assert(formatMessage(items, "en-US", [], { count: "many" }) === items, 'A plural with a value that is no number should be left untouched');
+        this.assert(formatMessage("Hello {name}", "en-US", [], { name: null }) === "Hello {name}", 'A null value should count as missing');
+        this.assert(formatMessage("Use {not valid!} or {oops", "en-US") === "Use {not valid!} or {oops", 'Braces that are no placeholder should stay text');
+    }
+
+    private testPlaceholders(): void {
+        console.log('\n📋 Testing placeholder listing...');
+
+        const legacy = getMessagePlaceholders("Between {} and {}");
+        this.assert(legacy.positional === 2 && legacy.named.length === 0, '{} should be counted as positional');
+        const nested = getMessagePlaceholders(notifications);
+        this.assert(nested.named.join(",") === "count,kind", 'Arguments of nested branches should be listed once, sorted');
+        this.assert(getMessagePlaceholders("").positional === 0, 'An empty template should expect nothing');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new MessageFormatTestSuite();
+    await testSuite.runAllTests();
+}
@@ -0,0 +1,91 @@
+import {OrderStatus} from "@dbModels/order/Order";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus} from "@_shared/types/general.types";
+import {assertTransition, canTransition, isFinalStatus, ORDER_TRANSITIONS} from "@services/order/order.stateMachine";
+
+class OrderStateMachineTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Order State Machine Test Suite...\n');
+
+        this.testHappyPath();
+        this.testBranches();
+        this.testIllegalTransitions();
+        this.testFinalStatuses();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private testHappyPath(): void {
+        console.log('\n📦 Testing the happy path...');
+
+        const path = [OrderStatus.PENDING, OrderStatus.PAID, OrderStatus.FULFILLED, OrderStatus.SHIPPED, OrderStatus.DELIVERED];
+        for (let i = 0; i < path.length - 1; i++) {
+            this.assert(canTransition(path[i], path[i + 1]), `${path[i]} should move to ${path[i + 1]}`);
+        }
+    }
+
+    private testBranches(): void {
+        console.log('\n↩️ Testing cancel and refund branches...');
+
+        this.assert(canTransition(OrderStatus.PENDING, OrderStatus.CANCELLED), 'A pending order should be cancellable');
+        this.assert(!canTransition(OrderStatus.PAID, OrderStatus.CANCELLED), 'A paid order should be refunded instead of cancelled');
+        this.assert(canTransition(OrderStatus.PAID, OrderStatus.REFUNDED), 'A paid order should be refundable');
+        this.assert(canTransition(OrderStatus.DELIVERED, OrderStatus.REFUNDED), 'A delivered order should be refundable');
+        this.assert(canTransition(OrderStatus.FULFILLED, OrderStatus.REFUNDED), 'A fulfilled order should be refundable');
+        this.assert(canTransition(OrderStatus.SHIPPED, OrderStatus.REFUNDED), 'An order on its way should be refundable');
+        this.assert(!canTransition(OrderStatus.SHIPPED, OrderStatus.CANCELLED), 'An order on its way should be refunded instead of cancelled');
+    }
+
+    private testIllegalTransitions(): void {
+        console.log('\n⛔ Testing illegal transitions...');
+
+        this.assert(!canTransition(OrderStatus.PENDING, OrderStatus.SHIPPED), 'pending should not skip to shipped');
+        this.assert(!canTransition(OrderStatus.DELIVERED, OrderStatus.PENDING), 'delivered should not go back to pending');
+        this.assert(!canTransition(OrderStatus.PAID, OrderStatus.PAID), 'A status should not move to itself');
+
+        try {
+            assertTransition(OrderStatus.SHIPPED, OrderStatus.PAID);
+            this.assert(false, 'assertTransition should throw on an illegal move');
+        } catch (error: any) {
+            this.assert(error instanceof CustomServerException, 'assertTransition should throw a CustomServerException');
+            this.assert(error.errorCode === 'order' && error.extraMessageCode === 'illegalTransition', 'Exception should be order/illegalTransition');
+            this.assert(error.httpStatus === HttpStatus.CONFLICT, 'Exception should carry CONFLICT');
+        }
+    }
+
+    private testFinalStatuses(): void {
+        console.log('\n🏁 Testing final statuses...');
+
+        this.assert(isFinalStatus(OrderStatus.CANCELLED), 'cancelled should be final');
+        this.assert(isFinalStatus(OrderStatus.REFUNDED), 'refunded should be final');
+        this.assert(!isFinalStatus(OrderStatus.DELIVERED), 'delivered should still allow a refund');
+        this.assert(Object.values(OrderStatus).every(status => Array.isArray(ORDER_TRANSITIONS[status])), 'Every status should have its transitions listed');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new OrderStateMachineTestSuite();
+    await testSuite.runAllTests();
+}
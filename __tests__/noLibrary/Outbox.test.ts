@@ -0,0 +1,146 @@
+import {Types} from "mongoose";
+import {OUTBOX} from "@environment";
+import {OutboxEvent, OutboxStatus} from "@dbModels/outbox/OutboxEvent";
+import {OutboxRelayTarget, outboxRetryDelay, relayEvents} from "@services/outbox/outbox.service";
+
+const now = new Date();
+
+function event(name: string, overrides: Partial<OutboxEvent> = {}): OutboxEvent {
+    return {
+        _id: new Types.ObjectId(),
+        topic: "order.paid",
+        key: "order-1",
+        payload: { name },
+        headers: { eventId: name },
+        status: OutboxStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: new Date(now.getTime() - 1000),
+        createdAt: now,
+        ...overrides
+    };
+}
+
+// Records what the relay did; publishing the events named in failing fails, and the lock is lost after lockChecks checks
+function recordingTarget(failing: string[] = [], lockChecks = Infinity) {
+    let checks = 0;
+    const published: string[] = [];
+    const dispatched: string[] = [];
+    const failed: { name: string, attempts: number, nextAttemptAt: Date, error: string }[] = [];
+    const target: OutboxRelayTarget = {
+        publish: async (event) => {
+            if (failing.includes(event.payload.name)) {
+                throw new Error("broker down");
+            }
+            published.push(event.payload.name);
+        },
+        markDispatched: async (event) => {
+            dispatched.push(event.payload.name);
+        },
+        markFailed: async (event, attempts, nextAttemptAt, error) => {
+            failed.push({ name: event.payload.name, attempts, nextAttemptAt, error: error.message });
+        },
+        holdsLock: async () => ++checks <= lockChecks
+    };
+    return { target, published, dispatched, failed };
+}
+
+class OutboxTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Outbox Test Suite...\n');
+
+        this.testRetryDelay();
+        await this.testRelayInOrder();
+        await this.testStopAtFailure();
+        await this.testStopAtBackoff();
+        await this.testStopAtLostLock();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private testRetryDelay(): void {
+        console.log('\n⏱️ Testing the retry delay...');
+
+        this.assert(outboxRetryDelay(0) === OUTBOX.RETRY_BASE_DELAY, 'An event that never failed should wait the base delay');
+        this.assert(outboxRetryDelay(1) === OUTBOX.RETRY_BASE_DELAY, 'The first retry should wait the base delay');
+        this.assert(outboxRetryDelay(2) === Math.min(OUTBOX.RETRY_BASE_DELAY * 2, OUTBOX.RETRY_MAX_DELAY), 'The second retry should wait twice as long');
+        this.assert(outboxRetryDelay(3) === Math.min(OUTBOX.RETRY_BASE_DELAY * 4, OUTBOX.RETRY_MAX_DELAY), 'Every retry should double the delay');
+        this.assert(outboxRetryDelay(100) === OUTBOX.RETRY_MAX_DELAY, 'The delay should never exceed the maximum');
+    }
+
+    private async testRelayInOrder(): Promise<void> {
+        console.log('\n📤 Testing relaying...');
+
+        const { target, published, dispatched, failed } = recordingTarget();
+        const count = await relayEvents([event("first"), event("second"), event("third")], now, target);
+        this.assert(count === 3, 'Every due event should be dispatched');
+        this.assert(published.join(",") === "first,second,third", 'Events should be published oldest first');
+        this.assert(dispatched.join(",") === "first,second,third" && failed.length === 0, 'Published events should be marked dispatched');
+        this.assert(await relayEvents([], now, target) === 0, 'A key without events should dispatch nothing');
+    }
+
+    private async testStopAtFailure(): Promise<void> {
+        console.log('\n🛑 Testing failures...');
+
+        const { target, published, dispatched, failed } = recordingTarget(["second"]);
+        const count = await relayEvents([event("first"), event("second", { attempts: 2 }), event("third")], now, target);
+        this.assert(count === 1 && published.join(",") === "first" && dispatched.join(",") === "first", 'The events before the failure should be dispatched');
+        this.assert(!published.includes("third"), 'An event should never overtake an earlier one that failed');
+        this.assert(failed.length === 1 && failed[0].name === "second" && failed[0].attempts === 3 && failed[0].error === "broker down",
+            'The failed event should count the attempt and keep the error');
+        const wait = failed[0].nextAttemptAt.getTime() - Date.now();
+        this.assert(wait > outboxRetryDelay(3) - 1000 && wait <= outboxRetryDelay(3), 'The failed event should back off by the retry delay');
+
+        const first = recordingTarget(["first"]);
+        this.assert(await relayEvents([event("first"), event("second")], now, first.target) === 0 && first.published.length === 0,
+            'A failing first event should hold back the whole key');
+    }
+
+    private async testStopAtBackoff(): Promise<void> {
+        console.log('\n⏳ Testing back-off...');
+
+        const { target, published } = recordingTarget();
+        const backingOff = event("second", { attempts: 1, nextAttemptAt: new Date(now.getTime() + 60000) });
+        const count = await relayEvents([event("first"), backingOff, event("third")], now, target);
+        this.assert(count === 1 && published.join(",") === "first", 'The relay should stop at an event still backing off');
+    }
+
+    private async testStopAtLostLock(): Promise<void> {
+        console.log('\n🔒 Testing a lost lock...');
+
+        const { target, published, dispatched, failed } = recordingTarget([], 2);
+        const count = await relayEvents([event("first"), event("second"), event("third")], now, target);
+        this.assert(count === 2 && published.join(",") === "first,second" && dispatched.join(",") === "first,second",
+            'The events relayed while the lock was held should be dispatched');
+        this.assert(!published.includes("third") && failed.length === 0, 'Nothing should be published once the lock is lost');
+
+        const lost = recordingTarget([], 0);
+        this.assert(await relayEvents([event("first")], now, lost.target) === 0 && lost.published.length === 0, 'A relay without the lock should publish nothing');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new OutboxTestSuite();
+    await testSuite.runAllTests();
+}
@@ -0,0 +1,176 @@
+import {PromotionKind} from "@dbModels/pricing/Promotion";
+import {PricingLine, PricingRule} from "@_shared/types/pricing.types";
+import {calculateDiscount, calculatePrices, discountLine, isEligible} from "@services/pricing/pricing.engine";
+
+function rule(overrides: Partial<PricingRule>): PricingRule {
+    return {
+        id: "rule",
+        name: "Rule",
+        kind: PromotionKind.PERCENTAGE,
+        priority: 0,
+        stackable: true,
+        segments: [],
+        variants: [],
+        products: [],
+        categories: [],
+        ...overrides
+    };
+}
+
+function line(overrides: Partial<PricingLine> = {}): PricingLine {
+    return {
+        variantId: "variant",
+        productId: "product",
+        categoryIds: ["root", "shoes"],
+        quantity: 1,
+        unitPrice: { amount: 1000, currency: "EUR" },
+        ...overrides
+    };
+}
+
+class PricingEngineTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Pricing Engine Test Suite...\n');
+
+        this.testDiscountKinds();
+        this.testBuyXGetY();
+        this.testTiers();
+        this.testEligibility();
+        this.testStacking();
+        this.testBreakdown();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private testDiscountKinds(): void {
+        console.log('\n🏷️ Testing discount kinds...');
+
+        const twoUnits = line({ quantity: 2 });
+        this.assert(calculateDiscount(rule({ percentage: 10 }), twoUnits, 2000) === 200, '10% off 2000 should be 200');
+        this.assert(calculateDiscount(rule({ kind: PromotionKind.FIXED, amount: { amount: 150, currency: "EUR" } }), twoUnits, 2000) === 300,
+            'A fixed amount should come off every unit');
+        this.assert(calculateDiscount(rule({ kind: PromotionKind.FIXED, amount: { amount: 150, currency: "USD" } }), twoUnits, 2000) === 0,
+            'A fixed amount in another currency should not apply');
+        this.assert(calculateDiscount(rule({ kind: PromotionKind.FIXED, amount: { amount: 5000, currency: "EUR" } }), twoUnits, 2000) === 2000,
+            'A discount should never exceed the line');
+
+        const buyTwoGetOne = rule({ kind: PromotionKind.BUY_X_GET_Y, buyQuantity: 2, getQuantity: 1 });
+        this.assert(calculateDiscount(buyTwoGetOne, line({ quantity: 2 }), 2000) === 0, 'Buy 2 get 1 should give nothing for 2 units');
+        this.assert(calculateDiscount(buyTwoGetOne, line({ quantity: 7 }), 7000) === 2000, 'Buy 2 get 1 should make 2 of 7 units free');
+        this.assert(calculateDiscount({ ...buyTwoGetOne, percentage: 50 }, line({ quantity: 3 }), 3000) === 500,
+            'Buy 2 get 1 at 50% should take half of one unit off');
+
+        const tiered = rule({ kind: PromotionKind.TIERED, tiers: [{ minQuantity: 5, percentage: 5 }, { minQuantity: 10, percentage: 10 }] });
+        this.assert(calculateDiscount(tiered, line({ quantity: 4 }), 4000) === 0, 'Below the first tier should give nothing');
+        this.assert(calculateDiscount(tiered, line({ quantity: 6 }), 6000) === 300, '6 units should get the 5% tier');
+        this.assert(calculateDiscount(tiered, line({ quantity: 12 }), 12000) === 1200, '12 units should get the 10% tier');
+    }
+
+    private testBuyXGetY(): void {
+        console.log('\n🎁 Testing buy X get Y...');
+
+        const buyOneGetOne = rule({ kind: PromotionKind.BUY_X_GET_Y, buyQuantity: 1, getQuantity: 1 });
+        this.assert(calculateDiscount(buyOneGetOne, line({ quantity: 1 }), 1000) === 0, 'Buy 1 get 1 should give nothing for a single unit');
+        this.assert(calculateDiscount(buyOneGetOne, line({ quantity: 5 }), 5000) === 2000, 'Buy 1 get 1 should make every second unit free');
+        this.assert(calculateDiscount(rule({ kind: PromotionKind.BUY_X_GET_Y, buyQuantity: 2 }), line({ quantity: 9 }), 9000) === 0,
+            'Buy X get Y without Y should give nothing');
+        this.assert(calculateDiscount(rule({ kind: PromotionKind.BUY_X_GET_Y, buyQuantity: 3, getQuantity: 2 }), line({ quantity: 10 }), 10000) === 4000,
+            'Buy 3 get 2 should make 4 of 10 units free');
+        this.assert(calculateDiscount(buyOneGetOne, line({ quantity: 2 }), 300) === 300, 'The free units should never take off more than remains of the line');
+
+        const stacked = discountLine(line({ quantity: 2 }), [rule({ id: "percentage", priority: 10, percentage: 10 }), { ...buyOneGetOne, id: "free", priority: 5 }]);
+        this.assert(stacked.length === 2 && stacked[0].amount === 200 && stacked[1].amount === 1000,
+            'Free units should be worth their unit price even after a percentage came off the line');
+    }
+
+    private testTiers(): void {
+        console.log('\n📶 Testing tiers...');
+
+        const tiered = rule({ kind: PromotionKind.TIERED, tiers: [{ minQuantity: 10, percentage: 10 }, { minQuantity: 5, percentage: 5 }] });
+        this.assert(calculateDiscount(tiered, line({ quantity: 5 }), 5000) === 250, 'A quantity on the boundary should get its tier');
+        this.assert(calculateDiscount(tiered, line({ quantity: 10 }), 10000) === 1000, 'The highest tier reached should win, in whatever order the tiers come');
+        this.assert(calculateDiscount(tiered, line({ quantity: 10 }), 4000) === 400, 'A tier should apply to what remains of the line');
+        this.assert(calculateDiscount(rule({ kind: PromotionKind.TIERED }), line({ quantity: 50 }), 50000) === 0, 'A rule without tiers should give nothing');
+        this.assert(calculateDiscount(rule({ kind: PromotionKind.TIERED, tiers: [{ minQuantity: 1, percentage: 33 }] }), line({ quantity: 1 }), 1001) === 330,
+            'A tier discount should be rounded to minor units');
+    }
+
+    private testEligibility(): void {
+        console.log('\n👥 Testing eligibility...');
+
+        const customer = { segments: ["vip"], couponCodes: ["SAVE10"] };
+        this.assert(isEligible(rule({}), customer), 'A rule for everyone should apply');
+        this.assert(isEligible(rule({ segments: ["vip", "staff"] }), customer), 'A rule for one of the segments should apply');
+        this.assert(!isEligible(rule({ segments: ["staff"] }), customer), 'A rule for other segments should not apply');
+        this.assert(isEligible(rule({ couponCode: "SAVE10" }), customer), 'A coupon rule should apply when the code was entered');
+        this.assert(!isEligible(rule({ couponCode: "SAVE20" }), customer), 'A coupon rule should not apply without its code');
+
+        const scoped = calculatePrices([line(), line({ variantId: "other", productId: "other", categoryIds: [] })],
+            [rule({ categories: ["root"], percentage: 10 })], customer);
+        this.assert(scoped.lines[0].discounts.length === 1 && scoped.lines[1].discounts.length === 0,
+            'A category rule should only apply to products below the category');
+    }
+
+    private testStacking(): void {
+        console.log('\n🧮 Testing stacking...');
+
+        const first = rule({ id: "first", priority: 10, percentage: 10 });
+        const second = rule({ id: "second", priority: 5, kind: PromotionKind.FIXED, amount: { amount: 100, currency: "EUR" } });
+        const stacked = discountLine(line(), [second, first]);
+        this.assert(stacked.length === 2 && stacked[0].promotionId === "first", 'Stackable rules should apply by priority');
+        this.assert(stacked[0].amount === 100 && stacked[1].amount === 100, 'Each stackable rule should apply on what the previous left');
+
+        const alone = rule({ id: "alone", stackable: false, percentage: 25 });
+        const best = discountLine(line(), [first, second, alone]);
+        this.assert(best.length === 1 && best[0].promotionId === "alone", 'A better non-stackable rule should replace the stack');
+
+        const weak = rule({ id: "weak", stackable: false, percentage: 15 });
+        const kept = discountLine(line(), [first, second, weak]);
+        this.assert(kept.length === 2, 'A weaker non-stackable rule should lose to the stack');
+    }
+
+    private testBreakdown(): void {
+        console.log('\n🧾 Testing the breakdown...');
+
+        const breakdown = calculatePrices([
+            line({ quantity: 2 }),
+            line({ variantId: "usd", productId: "usd", unitPrice: { amount: 500, currency: "USD" } })
+        ], [rule({ id: "coupon", couponCode: "SAVE10", percentage: 10, variants: ["variant"] })], { segments: [], couponCodes: ["SAVE10"] });
+
+        const eur = breakdown.totals.find(total => total.currency === "EUR");
+        const usd = breakdown.totals.find(total => total.currency === "USD");
+        this.assert(breakdown.totals.length === 2, 'Totals should be kept per currency');
+        this.assert(eur?.subtotal === 2000 && eur?.discount === 200 && eur?.total === 1800, 'The EUR total should be the subtotal less the discount');
+        this.assert(usd?.discount === 0 && usd?.total === 500, 'The USD line should be left alone');
+        this.assert(breakdown.lines[0].total.amount === 1800, 'The line total should include its discounts');
+        this.assert(breakdown.appliedCoupons.length === 1 && breakdown.appliedCoupons[0] === "SAVE10", 'The applied coupon should be listed');
+        this.assert(breakdown.appliedPromotions[0] === "coupon", 'The applied promotion should be listed');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new PricingEngineTestSuite();
+    await testSuite.runAllTests();
+}
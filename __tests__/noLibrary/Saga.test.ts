@@ -0,0 +1,209 @@
+import {HydratedDocument} from "mongoose";
+import {Saga, SagaModel, SagaStatus, SagaStepStatus} from "@dbModels/saga/Saga";
+import {SagaReply} from "@_shared/types/saga.types";
+import {EVENT_TOPICS} from "@_shared/kafka/topics";
+import {applyReply, applyTimeout, defineSaga, SagaEffect} from "@services/saga/saga.service";
+
+const TEST_SAGA = "testCheckout";
+const hooks = { completed: 0, compensated: 0 };
+
+defineSaga({
+    type: TEST_SAGA,
+    steps: [
+        { name: "reserve", command: EVENT_TOPICS.CHECKOUT_RESERVE_INVENTORY, compensation: EVENT_TOPICS.CHECKOUT_RELEASE_INVENTORY },
+        { name: "authorize", command: EVENT_TOPICS.CHECKOUT_AUTHORIZE_PAYMENT, compensation: EVENT_TOPICS.CHECKOUT_VOID_PAYMENT },
+        { name: "notify", command: EVENT_TOPICS.CHECKOUT_CONFIRM_ORDER }
+    ],
+    onCompleted: async () => { hooks.completed++; },
+    onCompensated: async () => { hooks.compensated++; }
+});
+
+// A saga waiting for the reply of its first step, as startSaga leaves it; nothing is stored
+function newSaga(): HydratedDocument<Saga> {
+    return new SagaModel({
+        type: TEST_SAGA,
+        status: SagaStatus.RUNNING,
+        currentStep: 0,
+        steps: [
+            { name: "reserve", status: SagaStepStatus.RUNNING, attempts: 1 },
+            { name: "authorize", status: SagaStepStatus.PENDING, attempts: 0 },
+            { name: "notify", status: SagaStepStatus.PENDING, attempts: 0 }
+        ],
+        context: { orderId: "order-1" },
+        deadline: new Date(Date.now() + 60000)
+    });
+}
+
+function reply(saga: HydratedDocument<Saga>, step: string, success: boolean, options: Partial<SagaReply> = {}): SagaEffect[] {
+    const effects: SagaEffect[] = [];
+    applyReply(saga, { sagaId: saga._id.toString(), step, compensation: false, success, ...options }, effects);
+    return effects;
+}
+
+function compensated(saga: HydratedDocument<Saga>, step: string, success: boolean, error?: string): SagaEffect[] {
+    return reply(saga, step, success, { compensation: true, error });
+}
+
+function timeOut(saga: HydratedDocument<Saga>): SagaEffect[] {
+    const effects: SagaEffect[] = [];
+    saga.deadline = new Date(Date.now() - 1000);
+    applyTimeout(saga, effects);
+    return effects;
+}
+
+function statuses(saga: HydratedDocument<Saga>): string {
+    return saga.steps.map(step => step.status).join(",");
+}
+
+class SagaTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Saga Test Suite...\n');
+
+        await this.testSuccess();
+        await this.testFailure();
+        this.testTimeout();
+        this.testLateSuccess();
+        this.testFailedCompensation();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private async testSuccess(): Promise<void> {
+        console.log('\n✅ Testing a saga that succeeds...');
+        const saga = newSaga();
+
+        const afterReserve = reply(saga, "reserve", true, { data: { reservationId: "reservation-1" } });
+        this.assert(statuses(saga) === "succeeded,running,pending" && saga.currentStep === 1, 'A successful step should start the next one');
+        this.assert(afterReserve.length === 1 && saga.steps[1].attempts === 1, 'The command of the next step should be sent');
+        this.assert(saga.context.reservationId === "reservation-1" && saga.context.orderId === "order-1", 'The data of the reply should be merged into the context');
+
+        this.assert(reply(saga, "reserve", true).length === 0 && statuses(saga) === "succeeded,running,pending", 'A duplicate reply should change nothing');
+        this.assert(reply(saga, "unknown", true).length === 0, 'A reply of an unknown step should change nothing');
+
+        reply(saga, "authorize", true);
+        const completed = hooks.completed;
+        const afterLast = reply(saga, "notify", true);
+        this.assert(saga.status === SagaStatus.COMPLETED && statuses(saga) === "succeeded,succeeded,succeeded", 'The saga should complete with its last step');
+        this.assert(saga.deadline === undefined, 'A completed saga should wait for nothing');
+        await Promise.all(afterLast.map(effect => effect()));
+        this.assert(afterLast.length === 1 && hooks.completed === completed + 1, 'onCompleted should run once the saga completed');
+    }
+
+    private async testFailure(): Promise<void> {
+        console.log('\n💥 Testing a step that fails...');
+        const saga = newSaga();
+        reply(saga, "reserve", true);
+
+        const afterFailure = reply(saga, "authorize", false, { error: "payment/declined" });
+        this.assert(saga.status === SagaStatus.COMPENSATING && statuses(saga) === "compensating,failed,pending", 'A failed step should undo the steps before it');
+        this.assert(saga.failureReason === "[authorize] failed: payment/declined" && saga.steps[1].error === "payment/declined", 'The failure should be kept');
+        this.assert(afterFailure.length === 1 && saga.steps[0].attempts === 2, 'The compensation of the finished step should be sent');
+
+        const compensatedBefore = hooks.compensated;
+        const afterCompensation = compensated(saga, "reserve", true);
+        this.assert(saga.status === SagaStatus.COMPENSATED && statuses(saga) === "compensated,failed,pending", 'The saga should be compensated once the steps are undone');
+        await Promise.all(afterCompensation.map(effect => effect()));
+        this.assert(hooks.compensated === compensatedBefore + 1, 'onCompensated should run once the saga is compensated');
+        this.assert(compensated(saga, "reserve", true).length === 0, 'A duplicate compensation reply should change nothing');
+
+        const first = newSaga();
+        reply(first, "reserve", false, { error: "inventory/insufficientStock" });
+        this.assert(first.status === SagaStatus.COMPENSATED && statuses(first) === "failed,pending,pending", 'A failing first step should leave nothing to undo');
+    }
+
+    private testTimeout(): void {
+        console.log('\n⏰ Testing timeouts...');
+        const saga = newSaga();
+        reply(saga, "reserve", true);
+
+        const early: SagaEffect[] = [];
+        applyTimeout(saga, early);
+        this.assert(early.length === 0 && saga.status === SagaStatus.RUNNING, 'A step before its deadline should keep running');
+
+        const effects = timeOut(saga);
+        this.assert(statuses(saga) === "compensating,failed,pending" && saga.steps[1].error === "timedOut", 'A step past its deadline should fail');
+        this.assert(saga.failureReason === "[authorize] timed out" && effects.length === 1, 'The finished steps should be undone');
+
+        const retried = timeOut(saga);
+        this.assert(retried.length === 1 && saga.steps[0].attempts === 3 && saga.steps[0].error === "timedOut", 'A compensation past its deadline should be sent again');
+
+        const last = newSaga();
+        reply(last, "reserve", true);
+        reply(last, "authorize", true);
+        const resent = timeOut(last);
+        this.assert(resent.length === 1 && last.status === SagaStatus.RUNNING && statuses(last) === "succeeded,succeeded,running",
+            'A step without a compensation should be sent again instead of failing');
+        this.assert(last.steps[2].attempts === 2 && last.deadline.getTime() > Date.now(), 'The step sent again should get a new deadline');
+        reply(last, "notify", true);
+        this.assert(last.status === SagaStatus.COMPLETED && last.steps[2].error === undefined, 'The step sent again should still complete the saga');
+    }
+
+    private testLateSuccess(): void {
+        console.log('\n🐢 Testing late successes...');
+        const saga = newSaga();
+        reply(saga, "reserve", true);
+        timeOut(saga);
+        compensated(saga, "reserve", true);
+        this.assert(saga.status === SagaStatus.COMPENSATED, 'The saga should be compensated without the timed out step');
+
+        const effects = reply(saga, "authorize", true);
+        this.assert(statuses(saga) === "compensated,compensating,pending" && effects.length === 1, 'A timed out step that succeeds late should be undone on its own');
+        compensated(saga, "authorize", true);
+        this.assert(statuses(saga) === "compensated,compensated,pending" && saga.status === SagaStatus.COMPENSATED, 'The late step should end undone');
+
+        const compensating = newSaga();
+        reply(compensating, "reserve", true);
+        timeOut(compensating);
+        this.assert(reply(compensating, "authorize", true).length === 0 && statuses(compensating) === "compensating,succeeded,pending",
+            'A late success during the compensation should wait for the running compensation');
+        compensated(compensating, "reserve", true);
+        this.assert(statuses(compensating) === "compensated,compensating,pending" && compensating.status === SagaStatus.COMPENSATING,
+            'The late step should be undone next');
+        compensated(compensating, "authorize", true);
+        this.assert(compensating.status === SagaStatus.COMPENSATED, 'The saga should be compensated once the late step is undone');
+
+        this.assert(reply(saga, "authorize", false).length === 0, 'A late failure should change nothing');
+    }
+
+    private testFailedCompensation(): void {
+        console.log('\n🧯 Testing failed compensations...');
+        const saga = newSaga();
+        reply(saga, "reserve", true);
+        reply(saga, "authorize", false, { error: "payment/declined" });
+
+        this.assert(compensated(saga, "reserve", false, "inventory down").length === 1 && saga.steps[0].status === SagaStepStatus.COMPENSATING,
+            'A failed compensation should be sent again');
+        compensated(saga, "reserve", false, "inventory down");
+        const effects = compensated(saga, "reserve", false, "inventory down");
+        this.assert(effects.length === 0 && saga.steps[0].status === SagaStepStatus.COMPENSATION_FAILED, 'A compensation should be given up after its attempts');
+        this.assert(saga.status === SagaStatus.FAILED && saga.deadline === undefined && saga.steps[0].error === "inventory down",
+            'The saga should be left failed for someone to look at');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new SagaTestSuite();
+    await testSuite.runAllTests();
+}
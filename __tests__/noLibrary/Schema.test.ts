@@ -0,0 +1,141 @@
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {arrayOf, assertSchema, field, object, optional, rules, validateSchema} from "@_shared/exceptions/schema";
+
+const AddressSchema = object({
+    city: field(rules.notEmpty()),
+    lines: arrayOf(object({
+        street: field(rules.notEmpty(), rules.stringLength(2, 50)),
+        zip: field(rules.notEmpty(), rules.stringLength(4, 10))
+    }), rules.arrayLength(1, 5))
+});
+
+const SignupSchema = object({
+    email: field(rules.isEmail()),
+    password: field(rules.isCorrectPassword()),
+    confirmPassword: field(rules.isMatch("password")),
+    nickname: optional(field(rules.stringLength(3, 20))),
+    minPrice: field(rules.isNumber(), rules.lessThanOrEqualToField("maxPrice")),
+    maxPrice: field(rules.isNumber()),
+    address: AddressSchema
+});
+
+class SchemaTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Schema Validation Test Suite...\n');
+
+        this.testValidInput();
+        this.testNestedPaths();
+        this.testOptionalAndRequired();
+        this.testCrossFieldRules();
+        this.testAssertSchema();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private validInput(): any {
+        return {
+            email: 'john@example.com',
+            password: 'Secret123!',
+            confirmPassword: 'Secret123!',
+            minPrice: 10,
+            maxPrice: 20,
+            address: {
+                city: 'Tirana',
+                lines: [{ street: 'Rruga e Kavajes', zip: '1001' }]
+            }
+        };
+    }
+
+    private testValidInput(): void {
+        console.log('\n📝 Testing Valid Input...');
+
+        const errors = validateSchema(SignupSchema, this.validInput());
+        this.assert(errors.length === 0, 'Valid input should produce no errors');
+    }
+
+    private testNestedPaths(): void {
+        console.log('\n🧭 Testing Nested Paths...');
+
+        const input = this.validInput();
+        input.address.lines.push({ street: 'Rr. Durresit', zip: '1002' });
+        input.address.lines.push({ street: 'Rr. Elbasanit', zip: '1' });
+        const errors = validateSchema(SignupSchema, input);
+
+        this.assert(errors.length === 1, 'Only the short zip should fail');
+        this.assert(errors[0]?.formEntry === 'address.lines[2].zip', 'formEntry should be the full path of the field');
+        this.assert(errors[0]?.error === 'stringTooShort', 'Error should come from stringLength');
+
+        input.address.lines = 'not an array';
+        const arrayErrors = validateSchema(SignupSchema, input);
+        this.assert(arrayErrors[0]?.formEntry === 'address.lines' && arrayErrors[0]?.error === 'notArray', 'Non array value should fail with notArray');
+    }
+
+    private testOptionalAndRequired(): void {
+        console.log('\n❔ Testing Optional and Required Fields...');
+
+        const input = this.validInput();
+        delete input.email;
+        const errors = validateSchema(SignupSchema, input);
+        this.assert(errors.length === 1 && errors[0].formEntry === 'email', 'Missing required field should fail');
+        this.assert(errors[0]?.type === 'any' && errors[0]?.error === 'notEmpty', 'Missing required field should use any.notEmpty');
+
+        const withNickname = this.validInput();
+        withNickname.nickname = 'jo';
+        const nicknameErrors = validateSchema(SignupSchema, withNickname);
+        this.assert(nicknameErrors.length === 1 && nicknameErrors[0].formEntry === 'nickname', 'Optional field should be validated when present');
+    }
+
+    private testCrossFieldRules(): void {
+        console.log('\n🔀 Testing Cross Field Rules...');
+
+        const input = this.validInput();
+        input.confirmPassword = 'Other123!';
+        input.minPrice = 30;
+        const errors = validateSchema(SignupSchema, input);
+        const entries = errors.map(error => error.formEntry);
+
+        this.assert(entries.includes('confirmPassword'), 'isMatch should fail on confirmPassword');
+        this.assert(entries.includes('minPrice'), 'lessThanOrEqualToField should fail on minPrice');
+        this.assert(errors.find(error => error.formEntry === 'minPrice')?.insertThese?.[1] === 'maxPrice', 'Cross field error should reference the sibling path');
+    }
+
+    private testAssertSchema(): void {
+        console.log('\n⚠️ Testing assertSchema...');
+
+        try {
+            assertSchema(SignupSchema, { address: { city: '', lines: [] } });
+            this.assert(false, 'assertSchema should throw on invalid input');
+        } catch (error: any) {
+            this.assert(error instanceof CustomServerException, 'assertSchema should throw a CustomServerException');
+            this.assert(error.errorCode === 'formNotCorrect', 'Exception should be formNotCorrect');
+            this.assert((error.content?.length || 0) > 1, 'Exception should contain every validation error');
+        }
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new SchemaTestSuite();
+    await testSuite.runAllTests();
+}
@@ -0,0 +1,180 @@
+import bcrypt from 'bcryptjs';
+import {ProducerRecord} from 'kafkajs';
+import {CONSTANTS} from "@environment";
+import {getKafkaProducer} from "@connections/connectToKafka";
+import {UserModel} from "@dbModels/user/User";
+import {CustomServerException, customServerExceptionToCustomClientException} from "@_shared/exceptions/exceptions";
+import {convertDateToUTC} from "@_shared/exceptions/validators";
+import {decodeEnvelope} from "@_shared/kafka/events";
+import {EVENT_TOPICS} from "@_shared/kafka/topics";
+import {HttpStatus} from "@_shared/types/general.types";
+import {SignupData} from "@_shared/types/user.types";
+import {signupUser} from "@services/user/signup.service";
+import {handleSignupRequest} from "@services/user/signup.consumer";
+
+const EMAIL = 'signup.test@example.com';
+
+function signupData(overrides: Partial<SignupData> = {}): SignupData {
+    return {
+        email: ` ${EMAIL.toUpperCase()} `,
+        password: 'Str0ng!Pass',
+        confirmPassword: 'Str0ng!Pass',
+        firstName: 'Arta',
+        lastName: 'Krasniqi',
+        phoneNumber: { prefix: '+355', number: '691234567' },
+        birthDate: '1990-05-17',
+        timezone: 'Europe/Tirane',
+        languageCode: 'sq',
+        ...overrides
+    };
+}
+
+// Runs the handler with the producer of the running Kafka connection recording what it would send instead of sending it
+async function recordPublished(fn: () => Promise<void>): Promise<ProducerRecord[]> {
+    const producer = getKafkaProducer();
+    const send = producer.send;
+    const sent: ProducerRecord[] = [];
+    producer.send = async (record: ProducerRecord) => {
+        sent.push(record);
+        return [];
+    };
+    try {
+        await fn();
+    } finally {
+        producer.send = send;
+    }
+    return sent;
+}
+
+class SignupTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    private async failureOf(fn: () => Promise<any>): Promise<any> {
+        try {
+            await fn();
+            return null;
+        } catch (error) {
+            return error;
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Signup Test Suite...\n');
+
+        await this.testValidation();
+
+        // Clear test data
+        await this.clear();
+        await this.testSignup();
+        await this.clear();
+        await this.testCompletedEvent();
+        await this.clear();
+        await this.testFailedEvents();
+        await this.clear();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private async clear(): Promise<void> {
+        await UserModel.collection.deleteMany({ email: EMAIL });
+    }
+
+    private async testValidation(): Promise<void> {
+        console.log('\n📝 Testing validation...');
+
+        const invalid = await this.failureOf(() => signupUser(signupData({ password: 'weak', confirmPassword: 'other', timezone: 'Mars/Olympus' })));
+        this.assert(invalid instanceof CustomServerException && invalid.errorCode === 'formNotCorrect', 'Invalid data should be refused with formNotCorrect');
+        const entries = (invalid?.content || []).map((error: any) => error.formEntry);
+        this.assert(entries.includes('password') && entries.includes('confirmPassword') && entries.includes('timezone'), 'Every invalid field should be reported');
+
+        const minor = new Date();
+        minor.setFullYear(minor.getFullYear() - 17);
+        const young = await this.failureOf(() => signupUser(signupData({ birthDate: minor.toISOString().slice(0, 10) })));
+        this.assert((young?.content || []).some((error: any) => error.formEntry === 'birthDate' && error.error === 'mustBe18'), 'A user younger than 18 should be refused');
+
+        const language = await this.failureOf(() => signupUser(signupData({ languageCode: 'fr' })));
+        this.assert((language?.content || []).some((error: any) => error.formEntry === 'languageCode'), 'An unsupported language should be refused');
+    }
+
+    private async testSignup(): Promise<void> {
+        console.log('\n👤 Testing signup...');
+
+        const user = await signupUser(signupData());
+        const stored = await UserModel.findById(user._id).select('+password');
+        this.assert(stored.email === EMAIL, 'The email should be stored trimmed and lower-cased');
+        this.assert(stored.password !== 'Str0ng!Pass' && await bcrypt.compare('Str0ng!Pass', stored.password), 'The password should be stored hashed');
+        this.assert(stored.languageCode === 'sq' && stored.roles.join(',') === 'customer', 'The user should keep their language and be a customer');
+        this.assert(stored.birthDate.getTime() === convertDateToUTC('1990-05-17', 'Europe/Tirane').getTime(), 'The birth date should be stored in UTC from the timezone of the user');
+
+        const taken = await this.failureOf(() => signupUser(signupData({ email: EMAIL })));
+        this.assert(taken instanceof CustomServerException && taken.extraMessageCode === 'emailTaken', 'A registered email should not sign up again');
+
+        await stored.softDelete();
+        const deleted = await this.failureOf(() => signupUser(signupData()));
+        this.assert(deleted?.extraMessageCode === 'emailTaken', 'The email of a deleted user should stay taken');
+
+        const racing = await Promise.allSettled([signupUser(signupData({ email: 'racing.' + EMAIL })), signupUser(signupData({ email: 'racing.' + EMAIL }))]);
+        const lost = racing.filter(result => result.status === 'rejected') as PromiseRejectedResult[];
+        this.assert(lost.length === 1 && lost[0].reason?.extraMessageCode === 'emailTaken', 'Of two concurrent signups with one email, only one should succeed');
+        await UserModel.collection.deleteMany({ email: 'racing.' + EMAIL });
+    }
+
+    private async testCompletedEvent(): Promise<void> {
+        console.log('\n📣 Testing the completed event...');
+
+        const sent = await recordPublished(() => handleSignupRequest({ requestId: 'request-1', languageCode: 'sq', data: signupData() }));
+        const user = await UserModel.findOne({ email: EMAIL });
+        this.assert(!!user, 'The request should sign the user up');
+        this.assert(sent.length === 1 && sent[0].topic === EVENT_TOPICS.USER_SIGNUP_COMPLETED.name && sent[0].messages[0].key === 'request-1',
+            'The completion should be published keyed by the request');
+        const completed = decodeEnvelope(EVENT_TOPICS.USER_SIGNUP_COMPLETED, sent[0].messages[0].value as string).payload;
+        this.assert(completed.requestId === 'request-1' && completed.userId === user?._id.toString() && completed.email === EMAIL, 'The completion should name the new user');
+    }
+
+    private async testFailedEvents(): Promise<void> {
+        console.log('\n📭 Testing the failed events...');
+
+        const invalid = await recordPublished(() => handleSignupRequest({ requestId: 'request-2', languageCode: 'sq', data: signupData({ password: 'weak', confirmPassword: 'weak' }) }));
+        this.assert(invalid.length === 1 && invalid[0].topic === EVENT_TOPICS.USER_SIGNUP_FAILED.name, 'Invalid data should be answered with a failure instead of a retry');
+        const failure = decodeEnvelope(EVENT_TOPICS.USER_SIGNUP_FAILED, invalid[0].messages[0].value as string).payload;
+        this.assert(failure.requestId === 'request-2' && failure.error.errorCode === 'formNotCorrect' && failure.error.validationErrors?.some(error => error.entry === 'password'),
+            'The failure should carry the validation errors');
+        this.assert(await UserModel.countDocuments({ email: EMAIL }) === 0, 'Invalid data should create no user');
+
+        await recordPublished(() => handleSignupRequest({ requestId: 'request-3', data: signupData() }));
+        const taken = await recordPublished(() => handleSignupRequest({ requestId: 'request-4', languageCode: 'sq', data: signupData() }));
+        const takenFailure = decodeEnvelope(EVENT_TOPICS.USER_SIGNUP_FAILED, taken[0].messages[0].value as string).payload;
+        this.assert(takenFailure.error.extraMessageCode === 'emailTaken' && takenFailure.error.extraMessage === 'Ekziston tashmë një përdorues me këtë email',
+            'The failure should be translated into the language of the request');
+
+        const untranslated = await recordPublished(() => handleSignupRequest({ requestId: 'request-5', data: signupData() }));
+        const defaultFailure = decodeEnvelope(EVENT_TOPICS.USER_SIGNUP_FAILED, untranslated[0].messages[0].value as string).payload;
+        const expected = customServerExceptionToCustomClientException(new CustomServerException("user", "emailTaken", undefined, HttpStatus.CONFLICT), CONSTANTS.DEFAULT_LANGUAGE);
+        this.assert(defaultFailure.error.extraMessage === expected.extraMessage, 'A request without a language should get the failure in DEFAULT_LANGUAGE');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new SignupTestSuite();
+    await testSuite.runAllTests();
+}
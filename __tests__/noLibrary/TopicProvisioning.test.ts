@@ -0,0 +1,93 @@
+import {KAFKA} from "@environment";
+import {ProvisionedTopic, TopicDeclaration} from "@_shared/types/kafka.types";
+import {declareTopics, findTopicDrift} from "@_shared/kafka/provisioning";
+
+function declaration(overrides: Partial<TopicDeclaration> = {}): TopicDeclaration {
+    return {
+        name: "order.paid",
+        partitions: 6,
+        replicationFactor: 3,
+        configs: { "retention.ms": "604800000" },
+        ...overrides
+    };
+}
+
+function topic(overrides: Partial<ProvisionedTopic> = {}): ProvisionedTopic {
+    return {
+        partitions: 6,
+        replicationFactor: 3,
+        configs: { "retention.ms": "604800000" },
+        ...overrides
+    };
+}
+
+class TopicProvisioningTestSuite {
+    private testResults: { test: string; passed: boolean; message?: string }[] = [];
+    private testCount = 0;
+    private passedCount = 0;
+
+    private assert(condition: boolean, message: string): void {
+        this.testCount++;
+        if (condition) {
+            this.passedCount++;
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: true });
+            console.log(`✅ ${message}`);
+        } else {
+            this.testResults.push({ test: `Test ${this.testCount}`, passed: false, message });
+            console.log(`❌ ${message}`);
+        }
+    }
+
+    public async runAllTests(): Promise<void> {
+        console.log('🚀 Starting Topic Provisioning Test Suite...\n');
+
+        this.testDeclarations();
+        this.testDrift();
+
+        // Print summary
+        console.log('\n📊 Test Summary:');
+        console.log(`Total Tests: ${this.testCount}`);
+        console.log(`Passed: ${this.passedCount}`);
+        console.log(`Failed: ${this.testCount - this.passedCount}`);
+        console.log(`Success Rate: ${((this.passedCount / this.testCount) * 100).toFixed(2)}%`);
+    }
+
+    private testDeclarations(): void {
+        console.log('\n📋 Testing declarations...');
+
+        const declarations = declareTopics(["order.paid"]);
+        const names = declarations.map(declaration => declaration.name);
+        this.assert(Object.values(KAFKA.TOPICS).every(name => names.includes(name)), 'Every topic of KAFKA.TOPICS should be declared');
+        this.assert(names.includes("order.paid.retry.1m") && names.includes("order.paid.retry.10m"), 'The retry topics of the handler groups should be declared');
+        this.assert(new Set(names).size === names.length, 'No topic should be declared twice');
+
+        const paid = declarations.find(declaration => declaration.name === KAFKA.TOPICS.ORDER_PAID);
+        this.assert(paid.partitions === KAFKA.TOPIC_PARTITIONS && paid.replicationFactor === KAFKA.TOPIC_REPLICATION_FACTOR,
+            'Topics should default to the configured partitions and replication factor');
+        this.assert(paid.configs["retention.ms"] === KAFKA.TOPIC_RETENTION.toString(), 'Topics should default to the configured retention');
+
+        const deadLetter = declarations.find(declaration => declaration.name === KAFKA.TOPICS.DEAD_LETTER);
+        this.assert(parseInt(deadLetter.configs["retention.ms"]) > KAFKA.TOPIC_RETENTION, 'Dead letters should be kept longer');
+        const retry = declarations.find(declaration => declaration.name === "order.paid.retry.10m");
+        this.assert(parseInt(retry.configs["retention.ms"]) > 10 * 60 * 1000, 'Retry topics should keep messages longer than their delay');
+    }
+
+    private testDrift(): void {
+        console.log('\n🧭 Testing drift...');
+
+        this.assert(findTopicDrift(declaration(), topic()).length === 0, 'A matching topic should not drift');
+        const partitions = findTopicDrift(declaration(), topic({ partitions: 3 }));
+        this.assert(partitions.length === 1 && partitions[0].startsWith("partitions"), 'Fewer partitions should drift');
+        this.assert(findTopicDrift(declaration(), topic({ replicationFactor: 1 }))[0]?.startsWith("replication factor"), 'Another replication factor should drift');
+        const retention = findTopicDrift(declaration(), topic({ configs: { "retention.ms": "1000" } }));
+        this.assert(retention.length === 1 && retention[0].includes("[1000]"), 'Another retention should drift with the value found');
+        this.assert(findTopicDrift(declaration(), topic({ configs: {} }))[0]?.includes("[unset]"), 'A missing config should drift');
+        this.assert(findTopicDrift(declaration(), topic({ partitions: 12, replicationFactor: 1, configs: {} })).length === 3, 'Every difference should be listed');
+    }
+}
+
+// Run the test suite
+export async function runTests(): Promise<void> {
+    const testSuite = new TopicProvisioningTestSuite();
+    await testSuite.runAllTests();
+}
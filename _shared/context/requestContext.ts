@@ -0,0 +1,69 @@
+import {AsyncLocalStorage} from "async_hooks";
+import {Types} from "mongoose";
+import {v4 as uuidv4} from "uuid";
+import {NextFunction, Request, Response} from "express";
+
+export type RequestContext = {
+    requestId: string,
+    actorId?: Types.ObjectId,
+    tenantId?: string,
+    languageCode?: string
+}
+
+// Well known actor written into the audit fields by background jobs and consumers
+export const SYSTEM_ACTOR_ID = new Types.ObjectId("000000000000000000000000");
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function getRequestContext(): RequestContext | undefined {
+    return storage.getStore();
+}
+
+export function getCurrentActor(): Types.ObjectId | undefined {
+    return storage.getStore()?.actorId;
+}
+
+export function setCurrentActor(actorId: Types.ObjectId | string | undefined): void {
+    const context = storage.getStore();
+    if (context) {
+        context.actorId = actorId ? new Types.ObjectId(actorId) : undefined;
+    }
+}
+
+export function getCurrentTenant(): string | undefined {
+    return storage.getStore()?.tenantId;
+}
+
+export function setCurrentTenant(tenantId: string | undefined): void {
+    const context = storage.getStore();
+    if (context) {
+        context.tenantId = tenantId;
+    }
+}
+
+/**
+ * Runs the function inside a new context; everything awaited inside it sees the same context.
+ */
+export function runWithContext<T>(context: Partial<RequestContext>, fn: () => T): T {
+    return storage.run({ requestId: context.requestId || uuidv4(), ...context }, fn);
+}
+
+/**
+ * Runs the function as the system actor, for background jobs and Kafka consumers.
+ * Work on tenant-scoped models needs the tenant it runs for.
+ */
+export function runAsSystem<T>(fn: () => T, tenantId?: string): T {
+    return runWithContext({ actorId: SYSTEM_ACTOR_ID, tenantId }, fn);
+}
+
+/**
+ * Express middleware opening a context per request. The request id comes from the X-Request-ID header when present,
+ * the actor is filled later by authenticate().
+ */
+export function requestContext() {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const requestId = (req.headers["x-request-id"] as string) || uuidv4();
+        res.setHeader("X-Request-ID", requestId);
+        runWithContext({ requestId }, () => next());
+    };
+}
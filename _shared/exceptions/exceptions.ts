@@ -1,12 +1,6 @@
-import {CONSTANTS} from "../../environment";
-import * as en_lang from "@_shared/exceptions/languages/en.json";
-import * as sq_lang from "@_shared/exceptions/languages/sq.json";
-import {CustomClientException, CustomValidationException, HttpStatus, LanguageError, LanguageFile} from "@_shared/types/general.types";
-
-const LANGUAGE_FILES: Record<string, LanguageFile> = {
-    en: en_lang as LanguageFile,
-    sq: sq_lang as LanguageFile,
-};
+import {formatMessage} from "@_shared/exceptions/messageFormat";
+import {getLanguageFile, resolveLanguageCode} from "@_shared/exceptions/languageRegistry";
+import {CustomClientException, CustomValidationException, HttpStatus, LanguageError} from "@_shared/types/general.types";
 
 export class CustomServerException extends Error {
 
@@ -41,7 +35,8 @@ export function customServerExceptionToCustomClientException( error: CustomServe
         extraMessageCode: ""
     }
 
-    const languageFile = LANGUAGE_FILES[languageCode.toLowerCase()] || LANGUAGE_FILES[CONSTANTS.DEFAULT_LANGUAGE];
+    const languageFile = getLanguageFile(languageCode);
+    const locale = resolveLanguageCode(languageCode);
 
     let errorTemplate: LanguageError = languageFile["serverExceptions"][error.errorCode];
     if( !errorTemplate ) {
@@ -77,16 +72,7 @@ export function customServerExceptionToCustomClientException( error: CustomServe
                 }
                 else{
                     let currentLanguage = validationErrorTemplate[item.type][item.error];
-                    const regex = new RegExp("{}".replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g');
-
-                    let fixedError = currentLanguage.message;
-                    let replacementIndex = 0;
-                    fixedError = fixedError.replace(regex, (match) => {
-                        if (replacementIndex < item.insertThese.length) {
-                            return String(item.insertThese[replacementIndex++]);
-                        }
-                        return match;
-                    });
+                    let fixedError = formatMessage(currentLanguage.message, locale, item.insertThese || [], item.values || {});
                     customClientException.validationErrors.push({
                         error: fixedError,
                         errorCode: item.error,
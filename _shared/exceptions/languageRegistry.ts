@@ -0,0 +1,165 @@
+import fs from "fs";
+import path from "path";
+import {CONSTANTS} from "@environment";
+import {getMessagePlaceholders} from "@_shared/exceptions/messageFormat";
+import {LanguageError, LanguageFile} from "@_shared/types/general.types";
+
+const LANGUAGES_DIRECTORY = path.join(__dirname, "languages");
+
+export function normalizeLanguageCode(languageCode: string): string {
+    return (languageCode || "").trim().replace(/_/g, "-").toLowerCase();
+}
+
+function baseLanguage(languageCode: string): string {
+    return normalizeLanguageCode(languageCode).split("-")[0];
+}
+
+// ============ Discovery ==============================================
+function loadLanguageFiles(): Record<string, LanguageFile> {
+    const languageFiles: Record<string, LanguageFile> = {};
+    const fileNames = fs.readdirSync(LANGUAGES_DIRECTORY)
+        .filter(fileName => path.extname(fileName) === ".json")
+        .sort();
+    for (let fileName of fileNames) {
+        const content = fs.readFileSync(path.join(LANGUAGES_DIRECTORY, fileName), "utf8");
+        languageFiles[path.basename(fileName, ".json")] = JSON.parse(content) as LanguageFile;
+    }
+    return languageFiles;
+}
+
+// keyed by the file name, e.g. "en-US"
+const LANGUAGE_FILES: Record<string, LanguageFile> = loadLanguageFiles();
+
+export function getRegisteredLanguages(): string[] {
+    return Object.keys(LANGUAGE_FILES);
+}
+
+// ============ Resolution =============================================
+function findRegisteredLanguage(candidate: string): string | null {
+    const registered = getRegisteredLanguages();
+    const exact = registered.find(languageCode => normalizeLanguageCode(languageCode) === candidate);
+    if (exact) {
+        return exact;
+    }
+    // A bare language ("sq") is served by any regional file of the same language ("sq-AL")
+    if (!candidate.includes("-")) {
+        return registered.find(languageCode => baseLanguage(languageCode) === candidate) || null;
+    }
+    return null;
+}
+
+/**
+ * Returns the lookup chain of a language code, e.g. "sq-AL" -> ["sq-al", "sq", <DEFAULT_LANGUAGE>].
+ */
+export function resolveLanguageChain(languageCode: string): string[] {
+    const chain: string[] = [];
+    for (let code of [languageCode, CONSTANTS.DEFAULT_LANGUAGE]) {
+        const normalized = normalizeLanguageCode(code);
+        if (!normalized) {
+            continue;
+        }
+        for (let candidate of [normalized, baseLanguage(normalized)]) {
+            if (!chain.includes(candidate)) {
+                chain.push(candidate);
+            }
+        }
+    }
+    return chain;
+}
+
+/**
+ * Returns the registered language (file name) that serves the given language code, or null if none does.
+ */
+export function resolveLanguageCode(languageCode: string): string | null {
+    for (let candidate of resolveLanguageChain(languageCode)) {
+        const registered = findRegisteredLanguage(candidate);
+        if (registered) {
+            return registered;
+        }
+    }
+    return null;
+}
+
+export function getLanguageFile(languageCode: string): LanguageFile {
+    const registered = resolveLanguageCode(languageCode);
+    if (!registered) {
+        throw new Error(`No language file found for [${languageCode}] nor for the default language [${CONSTANTS.DEFAULT_LANGUAGE}]`);
+    }
+    return LANGUAGE_FILES[registered];
+}
+
+// ============ Boot Validation ========================================
+function describePlaceholders(message: string): string {
+    const placeholders = getMessagePlaceholders(message);
+    return `${placeholders.positional} positional, named: [${placeholders.named.join(", ")}]`;
+}
+
+function collectEntries(prefix: string, section: Record<string, LanguageError>, entries: Record<string, string>) {
+    for (let key of Object.keys(section || {})) {
+        const entry = section[key];
+        entries[`${prefix}.${key}`] = entry?.message;
+        for (let extraKey of Object.keys(entry?.extra_messages || {})) {
+            entries[`${prefix}.${key}.extra_messages.${extraKey}`] = entry.extra_messages[extraKey];
+        }
+    }
+}
+
+function flattenLanguageFile(languageFile: LanguageFile): Record<string, string> {
+    const entries: Record<string, string> = {};
+    collectEntries("serverExceptions", languageFile.serverExceptions, entries);
+    for (let type of Object.keys(languageFile.validationExceptions || {})) {
+        collectEntries(`validationExceptions.${type}`, languageFile.validationExceptions[type], entries);
+    }
+    collectEntries("notFound", languageFile.notFound as any, entries);
+    return entries;
+}
+
+/**
+ * Checks that every registered language defines the same keys with the same placeholders, and that
+ * DEFAULT_LANGUAGE and every SUPPORTED_LANGUAGES entry is served by a language file.
+ * Returns one line per difference, so an empty array means the registry is consistent.
+ */
+export function validateLanguageRegistry(): string[] {
+    const differences: string[] = [];
+    const registered = getRegisteredLanguages();
+
+    for (let languageCode of [CONSTANTS.DEFAULT_LANGUAGE, ...CONSTANTS.SUPPORTED_LANGUAGES]) {
+        if (!findRegisteredLanguage(baseLanguage(languageCode)) && !findRegisteredLanguage(normalizeLanguageCode(languageCode))) {
+            differences.push(`[${languageCode}] is configured but no language file serves it`);
+        }
+    }
+    if (registered.length === 0) {
+        return differences;
+    }
+
+    const flattened: Record<string, Record<string, string>> = {};
+    const allKeys = new Set<string>();
+    for (let languageCode of registered) {
+        flattened[languageCode] = flattenLanguageFile(LANGUAGE_FILES[languageCode]);
+        Object.keys(flattened[languageCode]).forEach(key => allKeys.add(key));
+    }
+
+    const reference = resolveLanguageCode(CONSTANTS.DEFAULT_LANGUAGE) || registered[0];
+    for (let key of Array.from(allKeys).sort()) {
+        const definedIn = registered.filter(languageCode => key in flattened[languageCode]);
+        for (let languageCode of registered) {
+            if (!(key in flattened[languageCode])) {
+                differences.push(`[${languageCode}] is missing "${key}" (defined in: ${definedIn.join(", ")})`);
+            }
+        }
+        if (!(key in flattened[reference])) {
+            continue;
+        }
+        const expected = describePlaceholders(flattened[reference][key]);
+        for (let languageCode of registered) {
+            if (languageCode === reference || !(key in flattened[languageCode])) {
+                continue;
+            }
+            const actual = describePlaceholders(flattened[languageCode][key]);
+            if (actual !== expected) {
+                differences.push(`[${languageCode}] "${key}" has placeholders (${actual}), [${reference}] has (${expected})`);
+            }
+        }
+    }
+    return differences;
+}
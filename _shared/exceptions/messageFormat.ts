@@ -0,0 +1,256 @@
+// A small subset of the ICU MessageFormat syntax used by the language files:
+//   {}                                     positional placeholder, filled from insertThese in order (legacy)
+//   {0}, {1}                               positional placeholder by index
+//   {field}                                named placeholder, numbers and dates are formatted per locale
+//   {min, number} / {min, number, integer} / {min, number, percent}
+//   {at, date} / {at, date, short} / {at, time}
+//   {min, plural, =0 {none} one {# item} other {# items}}
+//   {kind, select, email {...} other {...}}
+// Placeholders without a value are left untouched, as the legacy "{}" substitution did.
+
+type MessageNode =
+    { kind: "text", value: string } |
+    { kind: "positional" } |
+    { kind: "pound" } |
+    { kind: "argument", name: string, format?: string, style?: string, options?: Record<string, MessageNode[]>, raw: string };
+
+export type MessagePlaceholders = {
+    positional: number,
+    named: string[]
+}
+
+type FormatContext = {
+    locale: string,
+    positional: any[],
+    nextPositional: number,
+    values: Record<string, any>,
+    pluralValue?: number
+}
+
+const parsedTemplates = new Map<string, MessageNode[]>();
+
+// ============ Parsing ================================================
+function findClosingBrace(template: string, openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < template.length; i++) {
+        if (template[i] === "{") {
+            depth++;
+        }
+        else if (template[i] === "}") {
+            depth--;
+            if (depth === 0) {
+                return i;
+            }
+        }
+    }
+    return -1;
+}
+
+function parseOptions(source: string, isPlural: boolean): Record<string, MessageNode[]> | null {
+    const options: Record<string, MessageNode[]> = {};
+    let i = 0;
+    while (i < source.length) {
+        while (i < source.length && /\s/.test(source[i])) i++;
+        if (i >= source.length) break;
+        const keyStart = i;
+        while (i < source.length && !/[\s{]/.test(source[i])) i++;
+        const key = source.slice(keyStart, i);
+        while (i < source.length && /\s/.test(source[i])) i++;
+        if (!key || source[i] !== "{") {
+            return null;
+        }
+        const closeIndex = findClosingBrace(source, i);
+        if (closeIndex < 0) {
+            return null;
+        }
+        options[key] = parseTemplate(source.slice(i + 1, closeIndex), isPlural);
+        i = closeIndex + 1;
+    }
+    return options;
+}
+
+function parseArgument(inner: string, raw: string): MessageNode | null {
+    if (inner.trim() === "") {
+        return { kind: "positional" };
+    }
+    const firstComma = inner.indexOf(",");
+    const name = (firstComma < 0 ? inner : inner.slice(0, firstComma)).trim();
+    if (!/^[\w.-]+$/.test(name)) {
+        return null;
+    }
+    if (firstComma < 0) {
+        return { kind: "argument", name, raw };
+    }
+    const rest = inner.slice(firstComma + 1);
+    const secondComma = rest.indexOf(",");
+    const format = (secondComma < 0 ? rest : rest.slice(0, secondComma)).trim();
+    const style = secondComma < 0 ? undefined : rest.slice(secondComma + 1).trim();
+    if (format === "plural" || format === "select") {
+        const options = parseOptions(style || "", format === "plural");
+        if (!options || !options.other) {
+            return null;
+        }
+        return { kind: "argument", name, format, options, raw };
+    }
+    return { kind: "argument", name, format, style, raw };
+}
+
+function parseTemplate(template: string, inPlural: boolean = false): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let text = "";
+    let i = 0;
+    while (i < template.length) {
+        const character = template[i];
+        if (character === "{") {
+            const closeIndex = findClosingBrace(template, i);
+            const raw = closeIndex < 0 ? "" : template.slice(i, closeIndex + 1);
+            const node = closeIndex < 0 ? null : parseArgument(template.slice(i + 1, closeIndex), raw);
+            if (node) {
+                if (text) nodes.push({ kind: "text", value: text });
+                text = "";
+                nodes.push(node);
+                i = closeIndex + 1;
+                continue;
+            }
+        }
+        if (character === "#" && inPlural) {
+            if (text) nodes.push({ kind: "text", value: text });
+            text = "";
+            nodes.push({ kind: "pound" });
+            i++;
+            continue;
+        }
+        text += character;
+        i++;
+    }
+    if (text) nodes.push({ kind: "text", value: text });
+    return nodes;
+}
+
+function getParsedTemplate(template: string): MessageNode[] {
+    let nodes = parsedTemplates.get(template);
+    if (!nodes) {
+        nodes = parseTemplate(template);
+        parsedTemplates.set(template, nodes);
+    }
+    return nodes;
+}
+
+// ============ Formatting =============================================
+function formatNumber(value: number, locale: string, style?: string): string {
+    const options: Intl.NumberFormatOptions = {};
+    if (style === "integer") {
+        options.maximumFractionDigits = 0;
+    }
+    else if (style === "percent") {
+        options.style = "percent";
+    }
+    return new Intl.NumberFormat(locale, options).format(value);
+}
+
+function formatDate(value: any, locale: string, format: string, style?: string): string {
+    const date = value instanceof Date ? value : new Date(value);
+    if (isNaN(date.getTime())) {
+        return String(value);
+    }
+    const dateStyle = (["short", "medium", "long", "full"].includes(style) ? style : "medium") as Intl.DateTimeFormatOptions["dateStyle"];
+    const options: Intl.DateTimeFormatOptions = format === "time" ? { timeStyle: dateStyle } : { dateStyle };
+    return new Intl.DateTimeFormat(locale, options).format(date);
+}
+
+function lookupValue(name: string, context: FormatContext): any {
+    if (Object.prototype.hasOwnProperty.call(context.values, name)) {
+        return context.values[name];
+    }
+    if (/^\d+$/.test(name)) {
+        return context.positional[Number(name)];
+    }
+    return undefined;
+}
+
+function formatNodes(nodes: MessageNode[], context: FormatContext): string {
+    let result = "";
+    for (let node of nodes) {
+        if (node.kind === "text") {
+            result += node.value;
+        }
+        else if (node.kind === "positional") {
+            result += context.nextPositional < context.positional.length ? String(context.positional[context.nextPositional++]) : "{}";
+        }
+        else if (node.kind === "pound") {
+            result += context.pluralValue === undefined ? "#" : formatNumber(context.pluralValue, context.locale);
+        }
+        else {
+            result += formatArgument(node, context);
+        }
+    }
+    return result;
+}
+
+function formatArgument(node: Extract<MessageNode, { kind: "argument" }>, context: FormatContext): string {
+    const value = lookupValue(node.name, context);
+    if (value === undefined || value === null) {
+        return node.raw;
+    }
+    switch (node.format) {
+        case "number": {
+            const numberValue = Number(value);
+            return isNaN(numberValue) ? String(value) : formatNumber(numberValue, context.locale, node.style);
+        }
+        case "date":
+        case "time":
+            return formatDate(value, context.locale, node.format, node.style);
+        case "plural": {
+            const numberValue = Number(value);
+            if (isNaN(numberValue)) {
+                return node.raw;
+            }
+            const category = new Intl.PluralRules(context.locale).select(numberValue);
+            const branch = node.options[`=${numberValue}`] || node.options[category] || node.options.other;
+            return formatNodes(branch, { ...context, pluralValue: numberValue });
+        }
+        case "select":
+            return formatNodes(node.options[String(value)] || node.options.other, context);
+        default:
+            if (value instanceof Date) {
+                return formatDate(value, context.locale, "date");
+            }
+            if (typeof value === "number") {
+                return formatNumber(value, context.locale);
+            }
+            return String(value);
+    }
+}
+
+/**
+ * Formats a language file template for the given locale (e.g. "sq-AL").
+ */
+export function formatMessage(template: string, locale: string, positional: any[] = [], values: Record<string, any> = {}): string {
+    if (!template) {
+        return template;
+    }
+    return formatNodes(getParsedTemplate(template), { locale, positional, nextPositional: 0, values });
+}
+
+/**
+ * Lists the placeholders a template expects, used to check that every language asks for the same arguments.
+ */
+export function getMessagePlaceholders(template: string): MessagePlaceholders {
+    const placeholders: MessagePlaceholders = { positional: 0, named: [] };
+    const visit = (nodes: MessageNode[]) => {
+        for (let node of nodes) {
+            if (node.kind === "positional") {
+                placeholders.positional++;
+            }
+            else if (node.kind === "argument") {
+                if (!placeholders.named.includes(node.name)) {
+                    placeholders.named.push(node.name);
+                }
+                Object.values(node.options || {}).forEach(visit);
+            }
+        }
+    };
+    visit(getParsedTemplate(template || ""));
+    placeholders.named.sort();
+    return placeholders;
+}
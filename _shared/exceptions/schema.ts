@@ -0,0 +1,182 @@
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {CustomValidationException, HttpStatus} from "@_shared/types/general.types";
+import * as validators from "@_shared/exceptions/validators";
+
+// ============ Types ==================================================
+export type RuleContext = {
+    root: any,
+    parent: any,
+    parentPath: string
+}
+
+export type SchemaRule = (value: any, path: string, context: RuleContext) => CustomValidationException | CustomValidationException[] | null;
+
+export type FieldSchema = {
+    kind: "field",
+    optional: boolean,
+    rules: SchemaRule[]
+}
+
+export type ObjectSchema = {
+    kind: "object",
+    optional: boolean,
+    shape: Record<string, SchemaNode>,
+    rules: SchemaRule[]
+}
+
+export type ArraySchema = {
+    kind: "array",
+    optional: boolean,
+    items: SchemaNode,
+    rules: SchemaRule[]
+}
+
+export type SchemaNode = FieldSchema | ObjectSchema | ArraySchema;
+
+// ============ Path Helpers ===========================================
+export function joinPath(parentPath: string, key: string | number): string {
+    if (typeof key === "number") {
+        return `${parentPath}[${key}]`;
+    }
+    return parentPath ? `${parentPath}.${key}` : key;
+}
+
+function siblingPath(context: RuleContext, sibling: string): string {
+    return joinPath(context.parentPath, sibling);
+}
+
+function siblingValue(context: RuleContext, sibling: string): any {
+    return validators.isObjectType(context.parent) ? context.parent[sibling] : undefined;
+}
+
+// ============ Schema Builders ========================================
+export function field(...rules: SchemaRule[]): FieldSchema {
+    return { kind: "field", optional: false, rules };
+}
+
+export function object(shape: Record<string, SchemaNode>, ...rules: SchemaRule[]): ObjectSchema {
+    return { kind: "object", optional: false, shape, rules };
+}
+
+export function arrayOf(items: SchemaNode, ...rules: SchemaRule[]): ArraySchema {
+    return { kind: "array", optional: false, items, rules };
+}
+
+export function optional<T extends SchemaNode>(node: T): T {
+    return { ...node, optional: true };
+}
+
+// ============ Rules ==================================================
+// Every rule delegates to validators.ts, so error types and codes stay the same as hand-written validation.
+export const rules = {
+    // string
+    notEmpty: (): SchemaRule => (value, path) => validators.notEmpty(value, path),
+    stringLength: (minLength: number, maxLength: number): SchemaRule => (value, path) => validators.stringLength(value, path, minLength, maxLength),
+    mustBe: (checkThese: string[]): SchemaRule => (value, path) => validators.mustBe(value, path, checkThese),
+    isMatch: (sibling: string): SchemaRule => (value, path, context) => validators.isMatch(value, siblingValue(context, sibling), path, siblingPath(context, sibling)),
+    shouldNotMatch: (sibling: string): SchemaRule => (value, path, context) => validators.shouldNotMatch(value, siblingValue(context, sibling), path, siblingPath(context, sibling)),
+    // format
+    isEmail: (): SchemaRule => (value, path) => validators.isEmail(value, path),
+    isCorrectPassword: (): SchemaRule => (value, path) => validators.isCorrectPassword(value, path),
+    isCorrectPhoneNumber: (): SchemaRule => (value, path) => validators.isCorrectPhoneNumber(value, path, joinPath(path, "prefix")),
+    isUrl: (): SchemaRule => (value, path) => validators.isUrl(value, path),
+    isIpAddress: (): SchemaRule => (value, path) => validators.isIpAddress(value, path),
+    // number
+    isNumber: (): SchemaRule => (value, path) => validators.isNumber(value, path),
+    isInteger: (): SchemaRule => (value, path) => validators.isInteger(value, path),
+    isPositive: (): SchemaRule => (value, path) => validators.isPositive(value, path),
+    isNegative: (): SchemaRule => (value, path) => validators.isNegative(value, path),
+    greaterThanOrEqual: (greaterThan: number): SchemaRule => (value, path) => validators.greaterThanOrEqual(value, path, greaterThan),
+    lessThanOrEqual: (lessThan: number): SchemaRule => (value, path) => validators.lessThanOrEqual(value, path, lessThan),
+    lessThanOrEqualToField: (sibling: string): SchemaRule => (value, path, context) => validators.lessThanOrEqualToField(value, path, siblingValue(context, sibling), siblingPath(context, sibling)),
+    greaterThanOrEqualToField: (sibling: string): SchemaRule => (value, path, context) => validators.greaterThanOrEqualToField(value, path, siblingValue(context, sibling), siblingPath(context, sibling)),
+    // date
+    isValidTimeZone: (): SchemaRule => (value, path) => validators.isValidTimeZone(value, path),
+    isValidDate: (timezone: string): SchemaRule => (value, path) => validators.isValidDate(value, path, timezone),
+    notInTheFuture: (timezone: string): SchemaRule => (value, path) => validators.notInTheFuture(value, path, timezone),
+    mustBe18: (timezone: string): SchemaRule => (value, path) => validators.mustBe18(value, timezone, path),
+    // objectId
+    isObjectId: (): SchemaRule => (value, path) => validators.isObjectId(value, path),
+    isArrayOfObjectIds: (): SchemaRule => (value, path) => validators.isArrayOfObjectIds(value, path),
+    // boolean
+    isBoolean: (): SchemaRule => (value, path) => validators.isBoolean(value, path),
+    isTrueBoolean: (): SchemaRule => (value, path) => validators.isTrueBoolean(value, path),
+    isFalseBoolean: (): SchemaRule => (value, path) => validators.isFalseBoolean(value, path),
+    // array
+    arrayNotEmpty: (): SchemaRule => (value, path) => validators.arrayNotEmpty(value, path),
+    arrayLength: (minLength: number, maxLength: number): SchemaRule => (value, path) => validators.arrayLength(value, path, minLength, maxLength),
+    // object
+    objectNotEmpty: (): SchemaRule => (value, path) => validators.objectNotEmpty(value, path)
+};
+
+// ============ Validation =============================================
+function runRules(node: SchemaNode, value: any, path: string, context: RuleContext): CustomValidationException[] {
+    // Rules of a single node bail out on the first failure, same as the chained checks inside validators.ts
+    for (let rule of node.rules) {
+        const result = rule(value, path, context);
+        if (validators.isArrayType(result) && result.length > 0) {
+            return result;
+        }
+        if (!!result && !validators.isArrayType(result)) {
+            return [result];
+        }
+    }
+    return [];
+}
+
+function validateNode(node: SchemaNode, value: any, path: string, context: RuleContext): CustomValidationException[] {
+    if (validators.isNull(value) || validators.isUndefined(value)) {
+        if (node.optional) {
+            return [];
+        }
+        return [validators.validateRequired(value, path)];
+    }
+
+    if (node.kind === "object") {
+        const objectError = validators.isObject(value, path);
+        if (objectError) {
+            return [objectError];
+        }
+        const errors: CustomValidationException[] = [];
+        const childContext: RuleContext = { root: context.root, parent: value, parentPath: path };
+        for (let key of Object.keys(node.shape)) {
+            errors.push(...validateNode(node.shape[key], value[key], joinPath(path, key), childContext));
+        }
+        errors.push(...runRules(node, value, path, context));
+        return errors;
+    }
+
+    if (node.kind === "array") {
+        const arrayError = validators.isArray(value, path);
+        if (arrayError) {
+            return [arrayError];
+        }
+        const errors: CustomValidationException[] = [];
+        errors.push(...runRules(node, value, path, context));
+        const childContext: RuleContext = { root: context.root, parent: value, parentPath: path };
+        for (let i = 0; i < value.length; i++) {
+            errors.push(...validateNode(node.items, value[i], joinPath(path, i), childContext));
+        }
+        return errors;
+    }
+
+    return runRules(node, value, path, context);
+}
+
+/**
+ * Validates the input against the schema and returns every validation error found.
+ * formEntry of each error is the full path of the field, e.g. "address.lines[2].zip".
+ */
+export function validateSchema(schema: SchemaNode, input: any, rootPath: string = ""): CustomValidationException[] {
+    return validateNode(schema, input, rootPath, { root: input, parent: undefined, parentPath: "" });
+}
+
+/**
+ * Same as validateSchema, but throws a single "formNotCorrect" exception containing all errors.
+ */
+export function assertSchema(schema: SchemaNode, input: any, rootPath: string = ""): void {
+    const errors = validateSchema(schema, input, rootPath);
+    if (errors.length > 0) {
+        throw new CustomServerException("formNotCorrect", null, errors, HttpStatus.BAD_REQUEST);
+    }
+}
@@ -11,11 +11,12 @@ const ipAddressPattern = /^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:2
 const phoneNumberPattern = /^\+?[1-9]\d{1,14}$/;
 
 // ============ General Function =======================================
-function validationException(error: string, type: string, insertThese: string[] = [], formEntry: string): CustomValidationException {
+function validationException(error: string, type: string, insertThese: string[] = [], formEntry: string, values: Record<string, any> = {}): CustomValidationException {
     return {
         error,
         type,
         insertThese,
+        values: { field: formEntry, ...values },
         formEntry
     };
 }
@@ -89,7 +90,7 @@ export function isCorrectPassword(password: any, name: string): CustomValidation
     }
     // Length check
     if (password.length < 8) {
-        return validationException("passwordTooShort", "format", [name, "8"], name);
+        return validationException("passwordTooShort", "format", [name, "8"], name, { min: 8 });
     }
     // Format check
     if (!passwordPattern.test(password)) {
@@ -175,7 +176,7 @@ export function isMatch(value: any, compareValue: any, firstName: string, second
     }
     // Match check
     if (value !== compareValue) {
-        return validationException("noMatch", "string", [firstName, secondName], firstName);
+        return validationException("noMatch", "string", [firstName, secondName], firstName, { otherField: secondName });
     }
     return null;
 }
@@ -190,7 +191,7 @@ export function shouldNotMatch(value: any, compareValue: any, firstName: string,
     }
     // Match check
     if (value === compareValue) {
-        return validationException("shouldNotMatch", "string", [firstName, secondName], firstName);
+        return validationException("shouldNotMatch", "string", [firstName, secondName], firstName, { otherField: secondName });
     }
     return null;
 }
@@ -206,7 +207,7 @@ export function mustBe(value: any, name: string, checkThese: string[]): CustomVa
     }
     // Value check
     if (!checkThese.includes(value)) {
-        return validationException("mustBe", "string", [name, checkThese.join(", ")], name);
+        return validationException("mustBe", "string", [name, checkThese.join(", ")], name, { values: checkThese.join(", ") });
     }
     return null;
 }
@@ -218,10 +219,10 @@ export function stringLength(value: any, name: string, minLength: number, maxLen
     }
     // Length checks
     if (value.length < minLength) {
-        return validationException("stringTooShort", "string", [name, minLength.toString()], name);
+        return validationException("stringTooShort", "string", [name, minLength.toString()], name, { min: minLength });
     }
     if (value.length > maxLength) {
-        return validationException("stringTooLong", "string", [name, maxLength.toString()], name);
+        return validationException("stringTooLong", "string", [name, maxLength.toString()], name, { max: maxLength });
     }
     return null;
 }
@@ -234,7 +235,7 @@ export function greaterThanOrEqual(value: any, name: string, greaterThan: number
     }
     // Comparison check
     if (value < greaterThan) {
-        return validationException("greaterThanOrEqual", "number", [name, greaterThan.toString()], name);
+        return validationException("greaterThanOrEqual", "number", [name, greaterThan.toString()], name, { min: greaterThan });
     }
     return null;
 }
@@ -246,7 +247,7 @@ export function lessThanOrEqual(value: any, name: string, lessThan: number): Cus
     }
     // Comparison check
     if (value > lessThan) {
-        return validationException("lessThanOrEqual", "number", [name, lessThan.toString()], name);
+        return validationException("lessThanOrEqual", "number", [name, lessThan.toString()], name, { max: lessThan });
     }
     return null;
 }
@@ -306,7 +307,7 @@ export function lessThanOrEqualToField(value: any, name: string, compareValue: a
     }
     // Comparison check
     if (value > compareValue) {
-        return validationException("less_than_or_equal_to_field", "number", [name, compareName], name);
+        return validationException("less_than_or_equal_to_field", "number", [name, compareName], name, { otherField: compareName });
     }
     return null;
 }
@@ -321,7 +322,7 @@ export function greaterThanOrEqualToField(value: any, name: string, compareValue
     }
     // Comparison check
     if (value < compareValue) {
-        return validationException("greater_than_or_equal_to_field", "number", [name, compareName], name);
+        return validationException("greater_than_or_equal_to_field", "number", [name, compareName], name, { otherField: compareName });
     }
     return null;
 }
@@ -392,7 +393,7 @@ export function mustBe18(value: any, timezone: string, name: string): CustomVali
     eighteenYearsAgo.setFullYear(eighteenYearsAgo.getFullYear() - 18);
     const UTCValue = convertDateToUTC(value, timezone);
     if (UTCValue && UTCValue > eighteenYearsAgo) {
-        return validationException("mustBe18", "user", [], name);
+        return validationException("mustBe18", "user", [], name, { age: 18 });
     }
     return null;
 }
@@ -498,10 +499,10 @@ export function arrayLength(value: any, name: string, minLength: number, maxLeng
     if (arrayError) return arrayError;
     // Length checks
     if (value.length < minLength) {
-        return validationException("arrayTooShort", "array", [name, minLength.toString()], name);
+        return validationException("arrayTooShort", "array", [name, minLength.toString()], name, { min: minLength });
     }
     if (value.length > maxLength) {
-        return validationException("arrayTooLong", "array", [name, maxLength.toString()], name);
+        return validationException("arrayTooLong", "array", [name, maxLength.toString()], name, { max: maxLength });
     }
     return null;
 }
@@ -535,7 +536,7 @@ export function notNull(value: any, name: string): CustomValidationException | n
 }
 
 export function isCorrectFormat(format: string, name: string): CustomValidationException | null {
-    return validationException("notCorrect", "format", [name, format], name);
+    return validationException("notCorrect", "format", [name, format], name, { format });
 }
 
 // ============ Combined Validators ==========================================
@@ -0,0 +1,185 @@
+import {EachBatchPayload, EachMessagePayload, IHeaders, Producer} from "kafkajs";
+import {KAFKA} from "@environment";
+import {getLogger, Logger} from "@loggers/serverLogger";
+import {createKafkaConsumer, getKafkaProducer} from "@connections/connectToKafka";
+import {runAsSystem} from "@_shared/context/requestContext";
+import {KafkaHandlerOptions, KafkaMessageHandler} from "@_shared/types/kafka.types";
+
+export type HandlerRegistration = {
+    topic: string,
+    group: string,
+    handler: KafkaMessageHandler,
+    concurrency: number,
+    retry: boolean
+}
+
+// The part of the producer passing failed messages on
+export type MessageSender = Pick<Producer, "send">;
+
+// A failed message waits on these in turn before it is dead-lettered
+export const RETRY_TIERS = [
+    { suffix: "retry.1m", delay: 60 * 1000 },
+    { suffix: "retry.10m", delay: 10 * 60 * 1000 }
+];
+
+// Headers the framework adds; everything else is the message's own and travels along unchanged
+export const FRAMEWORK_HEADERS = ["retryAttempt", "retryAt", "handler", "originalTopic", "originalPartition", "originalOffset", "error", "stack", "failedAt"];
+
+const registrations: Record<string, HandlerRegistration> = {};
+
+export function retryTopicName(group: string, tier: number): string {
+    return `${group}.${RETRY_TIERS[tier].suffix}`;
+}
+
+export function retryTopicNames(group: string): string[] {
+    return RETRY_TIERS.map((tier, index) => retryTopicName(group, index));
+}
+
+function header(headers: IHeaders | undefined, name: string): string | undefined {
+    return headers?.[name]?.toString();
+}
+
+/**
+ * Registers a handler for the topic, in a consumer group of its own, so every handler reads every message of its topic
+ * and keeps its own offsets. Handlers are subscribed when runKafkaConsumers() is called.
+ */
+export function registerKafkaHandler(topic: string, handler: KafkaMessageHandler, options: KafkaHandlerOptions = {}): void {
+    const group = options.group || topic;
+    if (registrations[group]) {
+        throw new Error(`A Kafka handler is already registered for group [${group}]`);
+    }
+    registrations[group] = {
+        topic,
+        group,
+        handler,
+        concurrency: options.concurrency || KAFKA.CONSUMER_CONCURRENCY,
+        retry: options.retry !== false
+    };
+}
+
+// Groups of the handlers whose failed messages go through the retry topics, for replaying dead letters to
+export function listRetryingGroups(): string[] {
+    return Object.values(registrations).filter(registration => registration.retry).map(registration => registration.group);
+}
+
+/**
+ * Sends the failed message on to the next retry topic of its handler, or to KAFKA.TOPICS.DEAD_LETTER with the reason
+ * and stack once every retry failed. Where the message was first read is kept through the retries.
+ */
+async function retryOrDeadLetter(registration: HandlerRegistration, producer: MessageSender, { topic, partition, message }: EachMessagePayload, error: Error): Promise<void> {
+    let logger = getLogger("kafkaRetryRouter", Logger.KAFKA, Logger.KAFKA);
+    const attempt = parseInt(header(message.headers, "retryAttempt") || "0");
+    const headers: IHeaders = {
+        ...message.headers,
+        handler: registration.group,
+        originalTopic: registration.topic,
+        originalPartition: header(message.headers, "originalPartition") || partition.toString(),
+        originalOffset: header(message.headers, "originalOffset") || message.offset,
+        error: error.message
+    };
+    if (attempt < RETRY_TIERS.length) {
+        const retryTopic = retryTopicName(registration.group, attempt);
+        await producer.send({
+            topic: retryTopic,
+            messages: [{
+                key: message.key,
+                value: message.value,
+                headers: { ...headers, retryAttempt: (attempt + 1).toString(), retryAt: (Date.now() + RETRY_TIERS[attempt].delay).toString() }
+            }]
+        });
+        logger.warn(`[${registration.group}] failed on [${topic}] at offset [${message.offset}], retrying through [${retryTopic}]: ${error.message}`);
+        return;
+    }
+    await producer.send({
+        topic: KAFKA.TOPICS.DEAD_LETTER,
+        messages: [{
+            key: message.key,
+            value: message.value,
+            headers: { ...headers, retryAttempt: attempt.toString(), stack: error.stack || "", failedAt: new Date().toISOString() }
+        }]
+    });
+    logger.err(`[${registration.group}] failed on [${topic}] at offset [${message.offset}] after [${attempt}] retries, dead-lettered: ${error.message}`);
+}
+
+/**
+ * Hands the messages of the batch to the handler in order, resolving each one once it was handled or passed on to a retry topic.
+ * A retry message that is not due yet stops the batch unresolved: its partition is paused until the delay of its tier is over,
+ * and Kafka hands it out again from there, so a restart or rebalance in the meantime cannot skip it.
+ * Failed messages go through the retry topics, unless the handler opted out; then, like a message that could not be
+ * passed on, they stay unresolved and are delivered again.
+ */
+export async function consumeBatch(registration: HandlerRegistration, producer: MessageSender, payload: EachBatchPayload): Promise<void> {
+    let logger = getLogger("kafkaBatchConsumer", Logger.KAFKA, Logger.KAFKA);
+    const { batch, resolveOffset, heartbeat, pause, isRunning, isStale } = payload;
+    const retrying = batch.topic !== registration.topic;
+    for (let message of batch.messages) {
+        if (!isRunning() || isStale()) {
+            break;
+        }
+        const wait = retrying ? parseInt(header(message.headers, "retryAt") || "0") - Date.now() : 0;
+        if (wait > 0) {
+            const resume = pause();
+            setTimeout(resume, wait);
+            break;
+        }
+        const messagePayload: EachMessagePayload = { topic: batch.topic, partition: batch.partition, message, heartbeat, pause };
+        try {
+            // handlers are background work, so their writes are audited as the system actor,
+            // for the storefront named in the "tenantId" header of the message
+            const tenantId = header(message.headers, "tenantId");
+            // retried messages reach the handler as if read from the topic it registered for
+            await runAsSystem(() => registration.handler({ ...messagePayload, topic: registration.topic }), tenantId);
+        } catch (error) {
+            if (!registration.retry) {
+                logger.err(`Kafka handler [${registration.group}] failed on [${batch.topic}], leaving the message to be delivered again: ${error.message}`,
+                    { partition: batch.partition, offset: message.offset });
+                throw error;
+            }
+            await retryOrDeadLetter(registration, producer, messagePayload, error);
+        }
+        resolveOffset(message.offset);
+        await heartbeat();
+    }
+}
+
+async function runRegistration(registration: HandlerRegistration): Promise<void> {
+    let logger = getLogger("kafkaHandlerRunner", Logger.KAFKA, Logger.KAFKA);
+    const consumer = await createKafkaConsumer(`${KAFKA.GROUP_ID}.${registration.group}`);
+    const topics = registration.retry ? [registration.topic, ...retryTopicNames(registration.group)] : [registration.topic];
+    for (let topic of topics) {
+        await consumer.subscribe({ topic, fromBeginning: false });
+    }
+    await consumer.run({
+        partitionsConsumedConcurrently: registration.concurrency,
+        eachBatchAutoResolve: false,
+        eachBatch: (payload) => consumeBatch(registration, getKafkaProducer(), payload)
+    });
+    logger.debug(`Handler [${registration.group}] consuming [${topics.join(", ")}] on up to [${registration.concurrency}] partition(s) at once`);
+}
+
+/**
+ * Starts a consumer for every registered handler, subscribed to its topic and, unless it opted out, to its retry topics.
+ */
+export async function runKafkaConsumers(parentAction?: number): Promise<void> {
+    let logger = getLogger("runningKafkaConsumers", Logger.KAFKA, Logger.KAFKA, parentAction);
+    logger.updateSpace();
+    logger.start();
+
+    const groups = Object.values(registrations);
+    if (groups.length === 0) {
+        logger.debug("No Kafka handlers registered, no consumer will run");
+        logger.finish();
+        logger.updateSpace(-1);
+        return;
+    }
+
+    logger.updateSpace();
+    for (let registration of groups) {
+        await runRegistration(registration);
+    }
+    logger.updateSpace(-1);
+    logger.info(`Kafka consumers running for [${groups.length}] handler(s)`);
+
+    logger.finish();
+    logger.updateSpace(-1);
+}
@@ -0,0 +1,176 @@
+import {EachMessagePayload} from "kafkajs";
+import {v4 as uuidv4} from "uuid";
+import {KAFKA} from "@environment";
+import {getLogger, Logger} from "@loggers/serverLogger";
+import {getKafkaProducer} from "@connections/connectToKafka";
+import {getRequestContext, runWithContext, SYSTEM_ACTOR_ID} from "@_shared/context/requestContext";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {field, object, optional, rules, validateSchema} from "@_shared/exceptions/schema";
+import {HttpStatus} from "@_shared/types/general.types";
+import {EnvelopeOptions, EventEnvelope, EventHandler, EventLedger, KafkaHandlerOptions, TopicDefinition} from "@_shared/types/kafka.types";
+import {registerKafkaHandler} from "@_shared/kafka/consumers";
+
+const envelopeSchema = object({
+    eventId: field(rules.notEmpty()),
+    eventType: field(rules.notEmpty()),
+    schemaVersion: field(rules.isInteger(), rules.greaterThanOrEqual(1)),
+    occurredAt: field(rules.notEmpty()),
+    correlationId: optional(field(rules.notEmpty())),
+    tenantId: optional(field(rules.notEmpty())),
+    payload: field()
+});
+
+let eventLedger: EventLedger | null = null;
+
+/**
+ * Registers the ledger that lets every handler process an event once, however often it is delivered.
+ * Without one, every delivery is handled.
+ */
+export function setEventLedger(ledger: EventLedger | null): void {
+    eventLedger = ledger;
+}
+
+function invalidEvent(extraMessageCode: string, content?: any): CustomServerException {
+    return new CustomServerException("kafka", extraMessageCode, content, HttpStatus.UNPROCESSABLE_ENTITY);
+}
+
+// ============ Envelopes ==============================================
+/**
+ * Wraps the payload in an envelope of the topic's current version. Payloads that do not match the schema of the topic
+ * are refused with "kafka"/"invalidPayload", carrying the validation errors, so nothing invalid is ever written.
+ * The correlation and tenant default to those of the running request.
+ */
+export function createEnvelope<T>(topic: TopicDefinition<T>, payload: T, options: EnvelopeOptions = {}): EventEnvelope<T> {
+    const errors = validateSchema(topic.schema, payload, "payload");
+    if (errors.length > 0) {
+        throw new CustomServerException("kafka", "invalidPayload", errors, HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+    const context = getRequestContext();
+    return {
+        eventId: uuidv4(),
+        eventType: topic.eventType,
+        schemaVersion: topic.version,
+        occurredAt: new Date().toISOString(),
+        correlationId: options.correlationId || context?.requestId,
+        tenantId: options.tenantId || context?.tenantId,
+        payload
+    };
+}
+
+// Kafka headers of the message carrying the envelope; consumers pick the tenant from "tenantId"
+export function envelopeHeaders(envelope: EventEnvelope<unknown>): Record<string, string> {
+    const headers: Record<string, string> = {
+        eventId: envelope.eventId,
+        eventType: envelope.eventType,
+        schemaVersion: envelope.schemaVersion.toString()
+    };
+    if (envelope.tenantId) {
+        headers.tenantId = envelope.tenantId;
+    }
+    return headers;
+}
+
+/**
+ * Reads the envelope of a message on the topic. Envelopes of an older version are upgraded when the topic knows how,
+ * and the payload is checked against the schema of the topic. Fails with "kafka"/"invalidEnvelope", "invalidPayload"
+ * or "incompatibleVersion".
+ */
+export function decodeEnvelope<T>(topic: TopicDefinition<T>, value: Buffer | string | null | undefined): EventEnvelope<T> {
+    let envelope: EventEnvelope<any>;
+    try {
+        envelope = JSON.parse(value?.toString() || "null");
+    } catch (error) {
+        throw invalidEvent("invalidEnvelope");
+    }
+    const envelopeErrors = validateSchema(envelopeSchema, envelope);
+    if (envelopeErrors.length > 0) {
+        throw invalidEvent("invalidEnvelope", envelopeErrors);
+    }
+    if (envelope.eventType !== topic.eventType) {
+        throw invalidEvent("invalidEnvelope");
+    }
+    if (envelope.schemaVersion !== topic.version) {
+        const upgrade = topic.upgrades[envelope.schemaVersion];
+        if (!upgrade) {
+            throw invalidEvent("incompatibleVersion");
+        }
+        envelope = { ...envelope, schemaVersion: topic.version, payload: upgrade(envelope.payload) };
+    }
+    const payloadErrors = validateSchema(topic.schema, envelope.payload, "payload");
+    if (payloadErrors.length > 0) {
+        throw invalidEvent("invalidPayload", payloadErrors);
+    }
+    return envelope;
+}
+
+// ============ Producing ==============================================
+/**
+ * Publishes the payload on the topic, in an envelope, straight to Kafka. Changes stored in Mongo announce themselves
+ * through the outbox instead, so the event cannot get lost between the write and the publish.
+ */
+export async function publishEvent<T>(topic: TopicDefinition<T>, key: string, payload: T, options: EnvelopeOptions = {}): Promise<EventEnvelope<T>> {
+    const envelope = createEnvelope(topic, payload, options);
+    await getKafkaProducer().send({
+        topic: topic.name,
+        messages: [{ key, value: JSON.stringify(envelope), headers: envelopeHeaders(envelope) }]
+    });
+    return envelope;
+}
+
+// ============ Consuming ==============================================
+/**
+ * Sends a message that could not be decoded to KAFKA.TOPICS.EVENTS_INVALID, as it was, with where it came from and why.
+ */
+async function routeInvalidEvent({ topic, partition, message }: EachMessagePayload, error: CustomServerException): Promise<void> {
+    await getKafkaProducer().send({
+        topic: KAFKA.TOPICS.EVENTS_INVALID,
+        messages: [{
+            key: message.key,
+            value: message.value,
+            headers: {
+                ...message.headers,
+                originalTopic: topic,
+                originalPartition: partition.toString(),
+                originalOffset: message.offset,
+                error: `${error.errorCode}/${error.extraMessageCode}`
+            }
+        }]
+    });
+}
+
+/**
+ * Registers the handler for the envelopes of the topic. Messages are decoded and validated before the handler sees them;
+ * those that are not valid, or were written with a version this service cannot read, go to KAFKA.TOPICS.EVENTS_INVALID
+ * instead. The handler runs with the correlation id of the envelope, so the events it produces carry it on,
+ * and through the event ledger, which skips the events it already processed.
+ */
+export function registerEventHandler<T>(topic: TopicDefinition<T>, handler: EventHandler<T>, options: KafkaHandlerOptions = {}): void {
+    const group = options.group || topic.name;
+    registerKafkaHandler(topic.name, async (payload) => {
+        let envelope: EventEnvelope<T>;
+        try {
+            envelope = decodeEnvelope(topic, payload.message.value);
+        } catch (error) {
+            if (!(error instanceof CustomServerException)) {
+                throw error;
+            }
+            let logger = getLogger("kafkaEventDecoder", Logger.KAFKA, Logger.KAFKA);
+            logger.err(`Routing invalid [${topic.name}] message at offset [${payload.message.offset}] to [${KAFKA.TOPICS.EVENTS_INVALID}]: ${error.extraMessageCode}`);
+            await routeInvalidEvent(payload, error);
+            return;
+        }
+        const context = getRequestContext();
+        const work = () => runWithContext({
+            // an event without a correlation starts one of its own
+            requestId: envelope.correlationId || envelope.eventId,
+            actorId: SYSTEM_ACTOR_ID,
+            tenantId: context?.tenantId || envelope.tenantId
+        }, () => handler(envelope.payload, envelope));
+        if (eventLedger) {
+            await eventLedger(group, envelope.eventId, work);
+        }
+        else {
+            await work();
+        }
+    }, options);
+}
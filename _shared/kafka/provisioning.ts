@@ -0,0 +1,137 @@
+import {Admin, ConfigResourceTypes} from "kafkajs";
+import {KAFKA} from "@environment";
+import {getLogger, Logger} from "@loggers/serverLogger";
+import {getKafkaConnection} from "@connections/connectToKafka";
+import {ProvisionedTopic, TopicDeclaration} from "@_shared/types/kafka.types";
+import {listRetryingGroups, retryTopicNames} from "@_shared/kafka/consumers";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Topics that differ from the KAFKA.TOPIC_* defaults
+const TOPIC_OVERRIDES: Record<string, Partial<Omit<TopicDeclaration, "name">>> = {
+    // kept long enough to be looked at and replayed
+    [KAFKA.TOPICS.DEAD_LETTER]: { configs: { "retention.ms": (30 * DAY).toString() } },
+    [KAFKA.TOPICS.EVENTS_INVALID]: { configs: { "retention.ms": (30 * DAY).toString() } }
+};
+
+// Retry topics only hold messages for the delay of their tier
+const RETRY_TOPIC_RETENTION = DAY;
+
+function declare(name: string, retention: number): TopicDeclaration {
+    const override = TOPIC_OVERRIDES[name] || {};
+    return {
+        name,
+        partitions: override.partitions || KAFKA.TOPIC_PARTITIONS,
+        replicationFactor: override.replicationFactor || KAFKA.TOPIC_REPLICATION_FACTOR,
+        configs: { "retention.ms": retention.toString(), ...override.configs }
+    };
+}
+
+/**
+ * Every topic of KAFKA.TOPICS, and the retry topics of the given handler groups.
+ */
+export function declareTopics(retryingGroups: string[]): TopicDeclaration[] {
+    const declarations = Object.values(KAFKA.TOPICS).map(name => declare(name, KAFKA.TOPIC_RETENTION));
+    for (let group of retryingGroups) {
+        for (let name of retryTopicNames(group)) {
+            declarations.push(declare(name, RETRY_TOPIC_RETENTION));
+        }
+    }
+    return declarations;
+}
+
+/**
+ * How the topic on the brokers differs from its declaration, one line per difference; empty when it matches.
+ */
+export function findTopicDrift(declaration: TopicDeclaration, topic: ProvisionedTopic): string[] {
+    const drift: string[] = [];
+    if (topic.partitions !== declaration.partitions) {
+        drift.push(`partitions: declared [${declaration.partitions}], found [${topic.partitions}]`);
+    }
+    if (topic.replicationFactor !== declaration.replicationFactor) {
+        drift.push(`replication factor: declared [${declaration.replicationFactor}], found [${topic.replicationFactor}]`);
+    }
+    for (let [name, value] of Object.entries(declaration.configs)) {
+        if (topic.configs[name] !== value) {
+            drift.push(`${name}: declared [${value}], found [${topic.configs[name] ?? "unset"}]`);
+        }
+    }
+    return drift;
+}
+
+async function describeTopics(admin: Admin, declarations: TopicDeclaration[]): Promise<Record<string, ProvisionedTopic>> {
+    const topics: Record<string, ProvisionedTopic> = {};
+    if (declarations.length === 0) {
+        return topics;
+    }
+    const metadata = await admin.fetchTopicMetadata({ topics: declarations.map(declaration => declaration.name) });
+    for (let topic of metadata.topics) {
+        topics[topic.name] = {
+            partitions: topic.partitions.length,
+            replicationFactor: topic.partitions[0]?.replicas.length || 0,
+            configs: {}
+        };
+    }
+    const described = await admin.describeConfigs({
+        resources: declarations.map(declaration => ({ type: ConfigResourceTypes.TOPIC, name: declaration.name, configNames: Object.keys(declaration.configs) })),
+        includeSynonyms: false
+    });
+    for (let resource of described.resources) {
+        for (let entry of resource.configEntries) {
+            topics[resource.resourceName].configs[entry.configName] = entry.configValue;
+        }
+    }
+    return topics;
+}
+
+/**
+ * Creates the declared topics that are missing, and logs how the existing ones drifted from their declaration without changing them.
+ * With KAFKA.PROVISION_DRY_RUN the missing topics are only logged. Run once the handlers are registered, so their retry topics are declared.
+ */
+export async function provisionKafkaTopics(parentAction?: number): Promise<void> {
+    let logger = getLogger("provisioningKafkaTopics", Logger.KAFKA, Logger.KAFKA, parentAction);
+    logger.updateSpace();
+    logger.start();
+
+    const declarations = declareTopics(listRetryingGroups());
+    const admin = getKafkaConnection().admin();
+    await admin.connect();
+    try {
+        const existing = new Set(await admin.listTopics());
+        const missing = declarations.filter(declaration => !existing.has(declaration.name));
+        const present = declarations.filter(declaration => existing.has(declaration.name));
+
+        logger.updateSpace();
+        for (let declaration of missing) {
+            logger.debug(`${KAFKA.PROVISION_DRY_RUN ? "Would create" : "Creating"} topic [${declaration.name}] with [${declaration.partitions}] partition(s), replication factor [${declaration.replicationFactor}]`, declaration.configs);
+        }
+        logger.updateSpace(-1);
+        if (missing.length > 0 && !KAFKA.PROVISION_DRY_RUN) {
+            await admin.createTopics({
+                waitForLeaders: true,
+                topics: missing.map(declaration => ({
+                    topic: declaration.name,
+                    numPartitions: declaration.partitions,
+                    replicationFactor: declaration.replicationFactor,
+                    configEntries: Object.entries(declaration.configs).map(([name, value]) => ({ name, value }))
+                }))
+            });
+        }
+
+        const topics = await describeTopics(admin, present);
+        let drifted = 0;
+        for (let declaration of present) {
+            const drift = findTopicDrift(declaration, topics[declaration.name]);
+            if (drift.length > 0) {
+                drifted++;
+                logger.warn(`Topic [${declaration.name}] drifted from its declaration: ${drift.join("; ")}`);
+            }
+        }
+        logger.info(`[${declarations.length}] topic(s) declared, [${missing.length}] ${KAFKA.PROVISION_DRY_RUN ? "missing (dry run)" : "created"}, [${drifted}] drifted`);
+    } finally {
+        await admin.disconnect();
+    }
+
+    logger.finish();
+    logger.updateSpace(-1);
+}
@@ -0,0 +1,150 @@
+import {KAFKA} from "@environment";
+import {field, object, optional, rules, SchemaNode} from "@_shared/exceptions/schema";
+import {TopicDefinition} from "@_shared/types/kafka.types";
+import {SignupCompletedEvent, SignupFailedEvent, SignupRequestEvent} from "@_shared/types/user.types";
+import {ProductEvent} from "@_shared/types/catalog.types";
+import {OrderEvent} from "@_shared/types/order.types";
+import {LowStockEvent} from "@_shared/types/inventory.types";
+import {SagaCommand, SagaReply} from "@_shared/types/saga.types";
+import {PaymentEvent} from "@_shared/types/payment.types";
+
+const registry: Record<string, TopicDefinition<any>> = {};
+
+/**
+ * Adds the topic to the registry. The eventType defaults to the topic name and the version to 1.
+ */
+export function defineTopic<T>(definition: { name: string, schema: SchemaNode, eventType?: string, version?: number, upgrades?: Record<number, (payload: any) => T> }): TopicDefinition<T> {
+    if (registry[definition.name]) {
+        throw new Error(`Topic [${definition.name}] is already defined`);
+    }
+    const topic: TopicDefinition<T> = {
+        name: definition.name,
+        eventType: definition.eventType || definition.name,
+        version: definition.version || 1,
+        schema: definition.schema,
+        upgrades: definition.upgrades || {}
+    };
+    registry[topic.name] = topic;
+    return topic;
+}
+
+export function getTopicDefinition(name: string): TopicDefinition<unknown> | undefined {
+    return registry[name];
+}
+
+export function listTopicDefinitions(): TopicDefinition<unknown>[] {
+    return Object.values(registry);
+}
+
+// ============ Payload schemas ========================================
+const moneySchema = object({
+    amount: field(rules.isInteger()),
+    currency: field(rules.notEmpty())
+});
+
+const signupRequestSchema = object({
+    requestId: field(rules.notEmpty()),
+    languageCode: optional(field(rules.notEmpty())),
+    // checked by the signup itself, which reports its errors to the requester
+    data: object({})
+});
+
+const signupCompletedSchema = object({
+    requestId: field(rules.notEmpty()),
+    userId: field(rules.isObjectId()),
+    email: field(rules.notEmpty())
+});
+
+const signupFailedSchema = object({
+    requestId: field(rules.notEmpty()),
+    error: object({})
+});
+
+const productEventSchema = object({
+    productId: field(rules.isObjectId()),
+    tenantId: field(rules.notEmpty()),
+    version: field(rules.isInteger()),
+    occurredAt: field(rules.notEmpty()),
+    product: optional(object({}))
+});
+
+const orderEventSchema = object({
+    orderId: field(rules.isObjectId()),
+    tenantId: field(rules.notEmpty()),
+    userId: field(rules.isObjectId()),
+    from: optional(field(rules.notEmpty())),
+    to: field(rules.notEmpty()),
+    version: field(rules.isInteger()),
+    reason: optional(field(rules.stringLength(0, 1000))),
+    occurredAt: field(rules.notEmpty()),
+    total: moneySchema
+});
+
+const lowStockEventSchema = object({
+    tenantId: field(rules.notEmpty()),
+    variantId: field(rules.isObjectId()),
+    sku: field(rules.notEmpty()),
+    warehouse: field(rules.notEmpty()),
+    available: field(rules.isInteger()),
+    threshold: field(rules.isInteger()),
+    occurredAt: field(rules.notEmpty())
+});
+
+const sagaCommandSchema = object({
+    sagaId: field(rules.isObjectId()),
+    type: field(rules.notEmpty()),
+    step: field(rules.notEmpty()),
+    compensation: field(rules.isBoolean()),
+    context: object({})
+});
+
+const sagaReplySchema = object({
+    sagaId: field(rules.isObjectId()),
+    step: field(rules.notEmpty()),
+    compensation: field(rules.isBoolean()),
+    success: field(rules.isBoolean()),
+    data: optional(object({})),
+    error: optional(field(rules.stringLength(0, 2000)))
+});
+
+const paymentEventSchema = object({
+    paymentId: field(rules.isObjectId()),
+    orderId: field(rules.isObjectId()),
+    tenantId: field(rules.notEmpty()),
+    operation: field(rules.mustBe(["authorize", "capture", "void", "refund"])),
+    status: field(rules.notEmpty()),
+    amount: moneySchema,
+    capturedAmount: field(rules.isInteger()),
+    refundedAmount: field(rules.isInteger()),
+    occurredAt: field(rules.notEmpty())
+});
+
+// ============ Topics =================================================
+// Every topic carrying events, by the same names as KAFKA.TOPICS
+export const EVENT_TOPICS = {
+    USER_SIGNUP_REQUEST: defineTopic<SignupRequestEvent>({ name: KAFKA.TOPICS.USER_SIGNUP_REQUEST, schema: signupRequestSchema }),
+    USER_SIGNUP_COMPLETED: defineTopic<SignupCompletedEvent>({ name: KAFKA.TOPICS.USER_SIGNUP_COMPLETED, schema: signupCompletedSchema }),
+    USER_SIGNUP_FAILED: defineTopic<SignupFailedEvent>({ name: KAFKA.TOPICS.USER_SIGNUP_FAILED, schema: signupFailedSchema }),
+    CATALOG_PRODUCT_CREATED: defineTopic<ProductEvent>({ name: KAFKA.TOPICS.CATALOG_PRODUCT_CREATED, schema: productEventSchema }),
+    CATALOG_PRODUCT_UPDATED: defineTopic<ProductEvent>({ name: KAFKA.TOPICS.CATALOG_PRODUCT_UPDATED, schema: productEventSchema }),
+    CATALOG_PRODUCT_DELETED: defineTopic<ProductEvent>({ name: KAFKA.TOPICS.CATALOG_PRODUCT_DELETED, schema: productEventSchema }),
+    ORDER_CREATED: defineTopic<OrderEvent>({ name: KAFKA.TOPICS.ORDER_CREATED, schema: orderEventSchema }),
+    ORDER_PAID: defineTopic<OrderEvent>({ name: KAFKA.TOPICS.ORDER_PAID, schema: orderEventSchema }),
+    ORDER_FULFILLED: defineTopic<OrderEvent>({ name: KAFKA.TOPICS.ORDER_FULFILLED, schema: orderEventSchema }),
+    ORDER_SHIPPED: defineTopic<OrderEvent>({ name: KAFKA.TOPICS.ORDER_SHIPPED, schema: orderEventSchema }),
+    ORDER_DELIVERED: defineTopic<OrderEvent>({ name: KAFKA.TOPICS.ORDER_DELIVERED, schema: orderEventSchema }),
+    ORDER_CANCELLED: defineTopic<OrderEvent>({ name: KAFKA.TOPICS.ORDER_CANCELLED, schema: orderEventSchema }),
+    ORDER_REFUNDED: defineTopic<OrderEvent>({ name: KAFKA.TOPICS.ORDER_REFUNDED, schema: orderEventSchema }),
+    INVENTORY_LOW_STOCK: defineTopic<LowStockEvent>({ name: KAFKA.TOPICS.INVENTORY_LOW_STOCK, schema: lowStockEventSchema }),
+    SAGA_REPLY: defineTopic<SagaReply>({ name: KAFKA.TOPICS.SAGA_REPLY, schema: sagaReplySchema }),
+    CHECKOUT_RESERVE_INVENTORY: defineTopic<SagaCommand>({ name: KAFKA.TOPICS.CHECKOUT_RESERVE_INVENTORY, eventType: "saga.command", schema: sagaCommandSchema }),
+    CHECKOUT_RELEASE_INVENTORY: defineTopic<SagaCommand>({ name: KAFKA.TOPICS.CHECKOUT_RELEASE_INVENTORY, eventType: "saga.command", schema: sagaCommandSchema }),
+    CHECKOUT_AUTHORIZE_PAYMENT: defineTopic<SagaCommand>({ name: KAFKA.TOPICS.CHECKOUT_AUTHORIZE_PAYMENT, eventType: "saga.command", schema: sagaCommandSchema }),
+    CHECKOUT_VOID_PAYMENT: defineTopic<SagaCommand>({ name: KAFKA.TOPICS.CHECKOUT_VOID_PAYMENT, eventType: "saga.command", schema: sagaCommandSchema }),
+    CHECKOUT_CONFIRM_ORDER: defineTopic<SagaCommand>({ name: KAFKA.TOPICS.CHECKOUT_CONFIRM_ORDER, eventType: "saga.command", schema: sagaCommandSchema }),
+    PAYMENT_AUTHORIZED: defineTopic<PaymentEvent>({ name: KAFKA.TOPICS.PAYMENT_AUTHORIZED, schema: paymentEventSchema }),
+    PAYMENT_DECLINED: defineTopic<PaymentEvent>({ name: KAFKA.TOPICS.PAYMENT_DECLINED, schema: paymentEventSchema }),
+    PAYMENT_CAPTURED: defineTopic<PaymentEvent>({ name: KAFKA.TOPICS.PAYMENT_CAPTURED, schema: paymentEventSchema }),
+    PAYMENT_VOIDED: defineTopic<PaymentEvent>({ name: KAFKA.TOPICS.PAYMENT_VOIDED, schema: paymentEventSchema }),
+    PAYMENT_REFUNDED: defineTopic<PaymentEvent>({ name: KAFKA.TOPICS.PAYMENT_REFUNDED, schema: paymentEventSchema })
+};
@@ -0,0 +1,54 @@
+import "@_shared/types/express.types";
+import {Types} from "mongoose";
+import {NextFunction, Request, Response} from "express";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus} from "@_shared/types/general.types";
+import {setCurrentActor} from "@_shared/context/requestContext";
+import {verifyAccessToken} from "@services/auth/auth.service";
+
+export function getBearerToken(req: Request): string | null {
+    const header = req.headers.authorization;
+    if (!header || !header.startsWith("Bearer ")) {
+        return null;
+    }
+    return header.slice("Bearer ".length).trim() || null;
+}
+
+/**
+ * Express middleware verifying the access token of the Authorization header and attaching req.user.
+ * The user also becomes the actor of the request context, which fills the audit fields.
+ */
+export function authenticate() {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const token = getBearerToken(req);
+        if (!token) {
+            return next(new CustomServerException("auth", "missingToken", undefined, HttpStatus.UNAUTHORIZED));
+        }
+        try {
+            req.user = verifyAccessToken(token);
+            setCurrentActor(req.user.id);
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+}
+
+// Language preference of the user behind the access token, used by the language negotiation hook.
+// Invalid tokens are ignored here, authenticate() is the one rejecting them.
+export function resolveUserLanguage(req: Request): string | null {
+    const token = getBearerToken(req);
+    if (!token) {
+        return null;
+    }
+    try {
+        return verifyAccessToken(token).languageCode || null;
+    } catch (error) {
+        return null;
+    }
+}
+
+// ============ Audit Fields ===========================================
+export function getRequestActor(req: Request): Types.ObjectId | undefined {
+    return req.user?.id ? new Types.ObjectId(req.user.id) : undefined;
+}
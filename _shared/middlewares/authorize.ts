@@ -0,0 +1,43 @@
+import "@_shared/types/express.types";
+import {NextFunction, Request, Response} from "express";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus} from "@_shared/types/general.types";
+import {getUserPermissions, getUserRoles, hasPermission} from "@services/auth/authorization.service";
+
+function guard(check: (userId: string) => Promise<boolean>, extraMessageCode: string) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            if (!req.user) {
+                return next(new CustomServerException("auth", "missingToken", undefined, HttpStatus.UNAUTHORIZED));
+            }
+            if (!(await check(req.user.id))) {
+                return next(new CustomServerException("authorization", extraMessageCode, undefined, HttpStatus.FORBIDDEN));
+            }
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+}
+
+/**
+ * Express middleware allowing the request only when the authenticated user holds every given permission.
+ * Must be mounted after authenticate().
+ */
+export function requirePermission(...permissions: string[]) {
+    return guard(async (userId) => {
+        const granted = await getUserPermissions(userId);
+        return permissions.every(permission => hasPermission(granted, permission));
+    }, "missingPermission");
+}
+
+/**
+ * Express middleware allowing the request only when the authenticated user has at least one of the given roles.
+ * Must be mounted after authenticate().
+ */
+export function requireRole(...roles: string[]) {
+    return guard(async (userId) => {
+        const userRoles = await getUserRoles(userId);
+        return roles.some(role => userRoles.includes(role));
+    }, "missingRole");
+}
@@ -0,0 +1,58 @@
+import {Request, Response} from "express";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus} from "@_shared/types/general.types";
+
+type VersionedDocument = {
+    _id: any,
+    version: number
+}
+
+const ETAG_PATTERN = /^"([0-9a-fA-F]{24})-(\d+)"$/;
+
+// The entity tags of an If-Match / If-None-Match list. Weak tags (W/"...") count like strong ones in both,
+// as proxies weaken the ETag of the responses they compress
+function parseETags(header: string): string[] {
+    return header.split(",").map(tag => tag.trim().replace(/^W\//, "")).filter(tag => tag.length > 0);
+}
+
+// ETag of an audited document, derived from its _id and version
+export function buildETag(document: VersionedDocument): string {
+    return `"${document._id.toString()}-${document.version}"`;
+}
+
+/**
+ * Sends the document with its ETag, or, for GET and HEAD, 304 when the client already holds that version (If-None-Match).
+ */
+export function sendWithETag(req: Request, res: Response, document: VersionedDocument, status: HttpStatus = HttpStatus.OK): void {
+    const etag = buildETag(document);
+    res.setHeader("ETag", etag);
+    const ifNoneMatch = req.headers["if-none-match"];
+    if ((req.method === "GET" || req.method === "HEAD") && ifNoneMatch) {
+        const tags = parseETags(ifNoneMatch);
+        if (tags.includes("*") || tags.includes(etag)) {
+            res.status(304).end();
+            return;
+        }
+    }
+    res.status(status).json(document);
+}
+
+/**
+ * Reads the version the client expects to overwrite, from the If-Match header or else from body.version.
+ * Returns undefined when the client sent neither, i.e. an unconditional write. "If-Match: *" only asks for
+ * the document to exist, which the write checks anyway.
+ */
+export function getExpectedVersion(req: Request, documentId: string): number | undefined {
+    const ifMatch = parseETags(req.headers["if-match"] || "");
+    if (ifMatch.length > 0 && !ifMatch.includes("*")) {
+        const match = ifMatch.map(tag => ETAG_PATTERN.exec(tag)).find(match => match && match[1] === documentId);
+        if (!match) {
+            throw new CustomServerException("mongoDb", "versionConflict", undefined, HttpStatus.CONFLICT);
+        }
+        return parseInt(match[2]);
+    }
+    if (Number.isInteger(req.body?.version)) {
+        return req.body.version;
+    }
+    return undefined;
+}
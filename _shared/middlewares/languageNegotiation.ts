@@ -0,0 +1,105 @@
+import "@_shared/types/express.types";
+import {NextFunction, Request, Response} from "express";
+import {CONSTANTS} from "@environment";
+import {normalizeLanguageCode} from "@_shared/exceptions/languageRegistry";
+import {getRequestContext} from "@_shared/context/requestContext";
+
+export type AcceptedLanguage = {
+    languageCode: string,
+    quality: number
+}
+
+export type UserLanguageResolver = (req: Request) => string | null | undefined | Promise<string | null | undefined>;
+
+let userLanguageResolver: UserLanguageResolver | null = null;
+
+/**
+ * Registers the hook returning the preferred language of the requesting user (e.g. from the authenticated profile).
+ * It is consulted after the "?lang=" override and before the Accept-Language header.
+ */
+export function setUserLanguageResolver(resolver: UserLanguageResolver | null): void {
+    userLanguageResolver = resolver;
+}
+
+/**
+ * Parses an Accept-Language header into its languages, ordered by descending q-weight.
+ * Languages with q=0 are dropped, as they are explicitly not acceptable.
+ */
+export function parseAcceptLanguage(header: string | undefined): AcceptedLanguage[] {
+    if (!header) {
+        return [];
+    }
+    const accepted: (AcceptedLanguage & { position: number })[] = [];
+    const entries = header.split(",");
+    for (let position = 0; position < entries.length; position++) {
+        const [tag, ...parameters] = entries[position].trim().split(";");
+        if (!tag) {
+            continue;
+        }
+        let quality = 1;
+        for (let parameter of parameters) {
+            const [key, value] = parameter.trim().split("=");
+            if (key === "q") {
+                quality = parseFloat(value);
+            }
+        }
+        if (isNaN(quality) || quality <= 0) {
+            continue;
+        }
+        accepted.push({ languageCode: tag.trim(), quality: Math.min(quality, 1), position });
+    }
+    // equal weights keep the order of the header
+    accepted.sort((first, second) => second.quality - first.quality || first.position - second.position);
+    return accepted.map(({languageCode, quality}) => ({ languageCode, quality }));
+}
+
+/**
+ * Matches a language code against CONSTANTS.SUPPORTED_LANGUAGES, first exactly and then by base language,
+ * so "sq-AL" is served by "sq" and "en" by "en-US". Returns the supported entry or null.
+ */
+export function matchSupportedLanguage(languageCode: string | null | undefined): string | null {
+    const normalized = normalizeLanguageCode(languageCode);
+    if (!normalized || normalized === "*") {
+        return null;
+    }
+    const supported = CONSTANTS.SUPPORTED_LANGUAGES;
+    const exact = supported.find(code => normalizeLanguageCode(code) === normalized);
+    if (exact) {
+        return exact;
+    }
+    const base = normalized.split("-")[0];
+    return supported.find(code => normalizeLanguageCode(code).split("-")[0] === base) || null;
+}
+
+/**
+ * Express middleware setting req.languageCode and the Content-Language header.
+ * Priority: "?lang=" query parameter, user preference hook, Accept-Language header, DEFAULT_LANGUAGE.
+ */
+export function negotiateLanguage() {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            let languageCode = typeof req.query?.lang === "string" ? matchSupportedLanguage(req.query.lang) : null;
+            if (!languageCode && userLanguageResolver) {
+                languageCode = matchSupportedLanguage(await userLanguageResolver(req));
+            }
+            if (!languageCode) {
+                for (let accepted of parseAcceptLanguage(req.headers["accept-language"])) {
+                    languageCode = matchSupportedLanguage(accepted.languageCode);
+                    if (languageCode) {
+                        break;
+                    }
+                }
+            }
+            req.languageCode = languageCode || CONSTANTS.DEFAULT_LANGUAGE;
+            const context = getRequestContext();
+            if (context) {
+                context.languageCode = req.languageCode;
+            }
+            res.setHeader("Content-Language", req.languageCode);
+            res.vary("Accept-Language");
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+}
@@ -0,0 +1,26 @@
+import {NextFunction, Request, Response} from "express";
+import {TENANCY} from "@environment";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus} from "@_shared/types/general.types";
+import {setCurrentTenant} from "@_shared/context/requestContext";
+
+export const TENANT_HEADER = "x-tenant-id";
+
+/**
+ * Express middleware putting the storefront named in the X-Tenant-ID header into the request context.
+ * Requests without the header may still reach routes that only use global models;
+ * tenant-scoped models refuse to run without a tenant.
+ */
+export function resolveTenant() {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const tenantId = (req.headers[TENANT_HEADER] as string)?.trim();
+        if (!tenantId) {
+            return next();
+        }
+        if (!TENANCY.TENANTS.includes(tenantId)) {
+            return next(new CustomServerException("tenant", "unknownTenant", undefined, HttpStatus.BAD_REQUEST));
+        }
+        setCurrentTenant(tenantId);
+        next();
+    };
+}
@@ -0,0 +1,28 @@
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {SchemaNode, validateSchema} from "@_shared/exceptions/schema";
+import {CustomValidationException, HttpStatus} from "@_shared/types/general.types";
+
+export type RequestSchemas = {
+    body?: SchemaNode,
+    query?: SchemaNode,
+    params?: SchemaNode
+}
+
+/**
+ * Express middleware validating the body, query and params of a request, each against its own schema.
+ * All errors are collected and forwarded as a single "formNotCorrect" exception.
+ */
+export function validateRequest(schemas: RequestSchemas) {
+    return (req, res, next) => {
+        const errors: CustomValidationException[] = [];
+        for (let segment of ["body", "query", "params"]) {
+            if (schemas[segment]) {
+                errors.push(...validateSchema(schemas[segment], req[segment]));
+            }
+        }
+        if (errors.length > 0) {
+            return next(new CustomServerException("formNotCorrect", null, errors, HttpStatus.BAD_REQUEST));
+        }
+        next();
+    };
+}
@@ -0,0 +1,24 @@
+export type AuthenticatedUser = {
+    id: string,
+    email: string,
+    languageCode?: string
+}
+
+export type AccessTokenPayload = {
+    sub: string,
+    email: string,
+    lng?: string
+}
+
+// fam identifies the refresh token family, jti the current token of that family
+export type RefreshTokenPayload = {
+    sub: string,
+    fam: string,
+    jti: string
+}
+
+export type AuthTokens = {
+    accessToken: string,
+    refreshToken: string,
+    expiresIn: number
+}
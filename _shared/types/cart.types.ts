@@ -0,0 +1,42 @@
+import {Money} from "@_shared/types/general.types";
+import {PriceBreakdown} from "@_shared/types/pricing.types";
+
+// Whose cart a request works on: the logged-in user, or else the anonymous cart named by the X-Cart-ID header
+export type CartOwner = {
+    userId?: string,
+    cartId?: string
+}
+
+export type CartLine = {
+    variantId: string,
+    quantity: number,
+    addedAt: Date
+}
+
+// "unavailable": the variant or its product was deleted or is no longer active
+// "outOfStock": less stock is available than the line asks for
+export type CartLineFlag = "unavailable" | "outOfStock";
+
+export type PricedCartLine = CartLine & {
+    productId?: string,
+    sku?: string,
+    name?: string,
+    options?: { attribute: string, value: string }[],
+    unitPrice?: Money,
+    lineTotal?: Money,
+    available?: number,
+    flags: CartLineFlag[]
+}
+
+export type CartView = {
+    cartId?: string,
+    lines: PricedCartLine[],
+    // one subtotal per currency, counting only the lines without flags
+    subtotals: Money[],
+    // the lines without flags after promotions and the coupons entered
+    pricing: PriceBreakdown,
+    hasIssues: boolean
+}
+
+// Returns the quantity available for each of the variants; variants left out count as unlimited
+export type StockResolver = (variantIds: string[]) => Promise<Record<string, number>>;
@@ -0,0 +1,56 @@
+import {Money} from "@_shared/types/general.types";
+
+export type AttributeData = {
+    code: string,
+    name: string,
+    type: string,
+    values?: string[],
+    unit?: string
+}
+
+export type CategoryData = {
+    name: string,
+    slug: string,
+    description?: string,
+    parent?: string | null
+}
+
+export type ProductData = {
+    name: string,
+    slug: string,
+    description?: string,
+    status?: string,
+    categories?: string[],
+    attributes?: {
+        attribute: string,
+        value: string | number | boolean
+    }[]
+}
+
+export type ProductVariantData = {
+    sku: string,
+    options?: {
+        attribute: string,
+        value: string
+    }[],
+    price: Money,
+    weight?: number
+}
+
+export type ProductListFilter = {
+    category?: string,
+    status?: string,
+    includeHidden: boolean,
+    page: number,
+    limit: number
+}
+
+// Payload of EVENT_TOPICS.CATALOG_PRODUCT_CREATED, CATALOG_PRODUCT_UPDATED and CATALOG_PRODUCT_DELETED
+export type ProductEvent = {
+    productId: string,
+    tenantId: string,
+    version: number,
+    occurredAt: string,
+    // the product with its variants; left out of the deleted event
+    product?: Record<string, any>
+}
@@ -0,0 +1,16 @@
+import {AuthenticatedUser} from "@_shared/types/auth.types";
+
+// Augments Express's Request with the fields set by the server middlewares.
+// Imported for its side effect by every middleware that sets one of these fields.
+declare global {
+    namespace Express {
+        interface Request {
+            languageCode?: string;
+            user?: AuthenticatedUser;
+            // the unparsed JSON body, for signature checks
+            rawBody?: Buffer;
+        }
+    }
+}
+
+export {};
@@ -15,6 +15,7 @@ export type CustomValidationException = {
     error: string,
     extra_message?: any | null,
     insertThese?: string[],
+    values?: Record<string, any>,
     formEntry?: string
 }
 
@@ -41,9 +42,11 @@ export interface LanguageFile {
 export enum HttpStatus {
     OK = 200,
     CREATED = 201,
+    ACCEPTED = 202,
     NO_CONTENT = 204,
     BAD_REQUEST = 400,
     UNAUTHORIZED = 401,
+    PAYMENT_REQUIRED = 402,
     FORBIDDEN = 403,
     NOT_FOUND = 404,
     CONFLICT = 409,
@@ -54,6 +57,12 @@ export enum HttpStatus {
     NOT_IMPLEMENTED = 501,
 }
 
+// amount in the minor unit of the currency (cents), so prices never go through floating point
+export type Money = {
+    amount: number,
+    currency: string
+}
+
 export type PhoneNumber = {
     prefix: string,
     number: string
@@ -0,0 +1,20 @@
+export type ReservationRequestItem = {
+    variantId: string,
+    quantity: number
+}
+
+export type StockLevelData = {
+    onHand: number,
+    lowStockThreshold?: number
+}
+
+// Payload of EVENT_TOPICS.INVENTORY_LOW_STOCK
+export type LowStockEvent = {
+    tenantId: string,
+    variantId: string,
+    sku: string,
+    warehouse: string,
+    available: number,
+    threshold: number,
+    occurredAt: string
+}
@@ -0,0 +1,81 @@
+import {EachMessagePayload} from "kafkajs";
+import {SchemaNode} from "@_shared/exceptions/schema";
+
+/**
+ * A topic of the registry. T is the payload type carried by its envelopes; "schema" checks the same payload at runtime.
+ */
+export type TopicDefinition<T> = {
+    name: string,
+    // the eventType of the envelopes on the topic
+    eventType: string,
+    // schema version producers write
+    version: number,
+    schema: SchemaNode,
+    // turn payloads written with an older version into the current one, by that version; versions without one cannot be read
+    upgrades: Record<number, (payload: any) => T>,
+    // only carries T, never set
+    readonly payloadType?: T
+}
+
+// Every message on a registered topic is one of these, as JSON
+export type EventEnvelope<T> = {
+    eventId: string,
+    eventType: string,
+    schemaVersion: number,
+    occurredAt: string,
+    // ties together the events caused by one request, passed on by every consumer to the events it produces
+    correlationId?: string,
+    tenantId?: string,
+    payload: T
+}
+
+export type EnvelopeOptions = {
+    correlationId?: string,
+    tenantId?: string
+}
+
+// Handles the payload of a decoded and validated envelope
+export type EventHandler<T> = (payload: T, envelope: EventEnvelope<T>) => Promise<void>;
+
+// Runs the work unless the handler already processed the event; returns false when it skipped it
+export type EventLedger = (handler: string, eventId: string, work: () => Promise<void>) => Promise<boolean>;
+
+// Where the event ledger claims events and remembers those it processed
+export type EventLedgerStore = {
+    // sets the key unless it exists, returning whether it did
+    claim(key: string, value: string, ttl: number): Promise<boolean>,
+    get(key: string): Promise<string | null>,
+    set(key: string, value: string, ttl: number): Promise<void>,
+    release(key: string): Promise<void>,
+    // the long-lived memory, for copies arriving after the keys expired
+    wasProcessed(handler: string, eventId: string): Promise<boolean>,
+    markProcessed(handler: string, eventId: string): Promise<void>,
+    countDuplicate(handler: string): Promise<void>
+}
+
+export type KafkaMessageHandler = (payload: EachMessagePayload) => Promise<void>;
+
+export type KafkaHandlerOptions = {
+    // names the consumer group of the handler and its retry topics; defaults to the topic
+    group?: string,
+    // partitions worked on at once, KAFKA.CONSUMER_CONCURRENCY by default
+    concurrency?: number,
+    // false leaves failed messages to Kafka to deliver again, instead of the retry topics and the dead-letter topic
+    retry?: boolean
+}
+
+// How a topic should look on the brokers; created like this when it is missing
+export type TopicDeclaration = {
+    name: string,
+    partitions: number,
+    replicationFactor: number,
+    // topic configs, e.g. "retention.ms"
+    configs: Record<string, string>
+}
+
+// How a topic looks on the brokers, for the configs it declares
+export type ProvisionedTopic = {
+    partitions: number,
+    replicationFactor: number,
+    configs: Record<string, string>
+}
@@ -0,0 +1,23 @@
+// Payload of the EVENT_TOPICS.ORDER_* topics, one topic per status the order moved to
+export type OrderEvent = {
+    orderId: string,
+    tenantId: string,
+    userId: string,
+    from: string | null,
+    to: string,
+    version: number,
+    reason?: string,
+    occurredAt: string,
+    total: {
+        amount: number,
+        currency: string
+    }
+}
+
+export type OrderListFilter = {
+    // only the orders of this user, for customers reading their own orders
+    userId?: string,
+    status?: string,
+    page: number,
+    limit: number
+}
@@ -0,0 +1,48 @@
+import {Money} from "@_shared/types/general.types";
+
+export type PaymentOperation = "authorize" | "capture" | "void" | "refund";
+
+// Answer of the provider to an operation; a declined operation is an answer too, not an error
+export type ProviderResult = {
+    success: boolean,
+    // id of the payment at the provider
+    reference?: string,
+    // why the provider declined, in its own words
+    declineCode?: string
+}
+
+// A webhook that passed the signature check
+export type ProviderWebhookEvent = {
+    // unique per event at the provider, used to drop redeliveries
+    id: string,
+    reference: string,
+    operation: PaymentOperation,
+    success: boolean,
+    // total at the provider after the operation, e.g. everything refunded so far
+    amount?: Money
+}
+
+export interface PaymentProvider {
+    readonly name: string;
+    // the idempotency key makes a repeated authorization return the first one instead of charging twice
+    authorize(amount: Money, paymentMethod: string, idempotencyKey: string): Promise<ProviderResult>;
+    capture(reference: string, amount: Money): Promise<ProviderResult>;
+    void(reference: string): Promise<ProviderResult>;
+    refund(reference: string, amount: Money): Promise<ProviderResult>;
+    // throws "payment"/"invalidSignature" when the webhook was not sent by the provider
+    verifyWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): ProviderWebhookEvent;
+}
+
+// Payload of the EVENT_TOPICS.PAYMENT_* topics
+export type PaymentEvent = {
+    paymentId: string,
+    orderId: string,
+    tenantId: string,
+    operation: PaymentOperation,
+    status: string,
+    // of this operation
+    amount: Money,
+    capturedAmount: number,
+    refundedAmount: number,
+    occurredAt: string
+}
@@ -0,0 +1,96 @@
+import {Money} from "@_shared/types/general.types";
+
+export type PromotionData = {
+    name: string,
+    kind: string,
+    active?: boolean,
+    startsAt?: string,
+    endsAt?: string,
+    priority?: number,
+    stackable?: boolean,
+    couponCode?: string,
+    usageLimit?: number,
+    perCustomerLimit?: number,
+    segments?: string[],
+    variants?: string[],
+    products?: string[],
+    categories?: string[],
+    percentage?: number,
+    amount?: Money,
+    buyQuantity?: number,
+    getQuantity?: number,
+    tiers?: { minQuantity: number, percentage: number }[]
+}
+
+// A promotion as the pricing engine sees it
+export type PricingRule = {
+    id: string,
+    name: string,
+    kind: string,
+    // higher runs first
+    priority: number,
+    // stackable rules add up; a rule that is not stackable only applies alone
+    stackable: boolean,
+    couponCode?: string,
+    // customer segments the rule is for; empty for everyone
+    segments: string[],
+    // lines the rule is for, by variant, product or category; all empty for every line
+    variants: string[],
+    products: string[],
+    categories: string[],
+    // "percentage": off the line; "buyXGetY": off the free units, 100 when left out
+    percentage?: number,
+    // "fixed": off every unit, for lines priced in this currency only
+    amount?: Money,
+    buyQuantity?: number,
+    getQuantity?: number,
+    tiers?: { minQuantity: number, percentage: number }[]
+}
+
+export type PricingLine = {
+    variantId: string,
+    productId: string,
+    // the categories of the product and all their ancestors
+    categoryIds: string[],
+    quantity: number,
+    unitPrice: Money
+}
+
+// Who is buying, for eligibility
+export type PricingCustomer = {
+    segments: string[],
+    couponCodes: string[]
+}
+
+export type LineDiscount = {
+    promotionId: string,
+    name: string,
+    couponCode?: string,
+    // minor units of the line currency
+    amount: number
+}
+
+export type PricedLine = {
+    variantId: string,
+    quantity: number,
+    unitPrice: Money,
+    subtotal: Money,
+    discounts: LineDiscount[],
+    total: Money
+}
+
+export type PriceTotal = {
+    currency: string,
+    subtotal: number,
+    discount: number,
+    total: number
+}
+
+export type PriceBreakdown = {
+    lines: PricedLine[],
+    // one per currency
+    totals: PriceTotal[],
+    // ids of the promotions that lowered at least one line
+    appliedPromotions: string[],
+    appliedCoupons: string[]
+}
@@ -0,0 +1,33 @@
+import {TopicDefinition} from "@_shared/types/kafka.types";
+
+// Sent on the command topic of a step to the service running it
+export type SagaCommand = {
+    sagaId: string,
+    type: string,
+    step: string,
+    // true when the service should undo the step instead of running it
+    compensation: boolean,
+    context: Record<string, any>
+}
+
+// Sent back on EVENT_TOPICS.SAGA_REPLY by the service that ran the command
+export type SagaReply = {
+    sagaId: string,
+    step: string,
+    compensation: boolean,
+    success: boolean,
+    // merged into the context of the saga
+    data?: Record<string, any>,
+    error?: string
+}
+
+export type SagaStepDefinition = {
+    name: string,
+    command: TopicDefinition<SagaCommand>,
+    // topic of the command undoing the step when a later step fails; steps without one have nothing to undo,
+    // so they are never given up on: their command is sent again when they time out
+    compensation?: TopicDefinition<SagaCommand>
+}
+
+// Runs the command and returns the data to merge into the context of the saga; throwing fails the step
+export type SagaCommandHandler = (command: SagaCommand) => Promise<Record<string, any> | void>;
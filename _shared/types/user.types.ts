@@ -0,0 +1,33 @@
+import {CustomClientException, PhoneNumber} from "@_shared/types/general.types";
+
+export type SignupData = {
+    email: string,
+    password: string,
+    confirmPassword: string,
+    firstName: string,
+    lastName: string,
+    phoneNumber: PhoneNumber,
+    birthDate: string,
+    timezone: string,
+    languageCode?: string
+}
+
+// Payload of EVENT_TOPICS.USER_SIGNUP_REQUEST
+export type SignupRequestEvent = {
+    requestId: string,
+    languageCode?: string,
+    data: SignupData
+}
+
+// Payload of EVENT_TOPICS.USER_SIGNUP_COMPLETED
+export type SignupCompletedEvent = {
+    requestId: string,
+    userId: string,
+    email: string
+}
+
+// Payload of EVENT_TOPICS.USER_SIGNUP_FAILED
+export type SignupFailedEvent = {
+    requestId: string,
+    error: CustomClientException
+}
@@ -8,7 +8,10 @@ let retryCount = 0;
 let firstConnection = true;
 let kafkaConnection: Kafka;
 let producer: Producer;
-let consumer: Consumer;
+// one per consumer group, created by createKafkaConsumer()
+const consumers: Consumer[] = [];
+// set on shutdown, so the consumers being disconnected are not reconnected
+let closing = false;
 
 export async function connectToKafka(instance: string, parentAction?: number): Promise<void> {
     let logger = getLogger("connectingToKafkaInstance", Logger.KAFKA, Logger.KAFKA, parentAction);
@@ -33,11 +36,8 @@ export async function connectToKafka(instance: string, parentAction?: number): P
             producer = kafkaConnection.producer({
                 createPartitioner: require('kafkajs').Partitioners.LegacyPartitioner
             });
-            consumer = kafkaConnection.consumer({ groupId: KAFKA.GROUP_ID });
 
-            // Connect both producer and consumer
             await producer.connect();
-            await consumer.connect();
             
             logger.info('Kafka connected successfully');
             retryCount = 0;
@@ -78,40 +78,19 @@ export async function connectToKafka(instance: string, parentAction?: number): P
     });
     logger.debug("Finished setting up producer disconnect handler");
 
-    logger.debug("Setting up consumer disconnect handler");
-    consumer?.on('consumer.disconnect', () => {
-        logger.warn(`Kafka consumer disconnected. Retrying in ${KAFKA.CONNECTION_TIMER} ms.`);
-        if (!firstConnection) {
-            retryCount++;
-            if (retryCount >= KAFKA.RETRY_CAP) {
-                logger.fail('Exceeded Kafka consumer retry limit. Exiting...');
-                process.exit(1);
-            }
-            setTimeout(async () => {
-                try {
-                    await consumer.connect();
-                    logger.info('Kafka consumer reconnected successfully');
-                    retryCount = 0;
-                } catch (err) {
-                    logger.err(`Kafka consumer reconnection failed: ${err.message}`);
-                }
-            }, KAFKA.CONNECTION_TIMER);
-        }
-    });
-    logger.debug("Finished setting up consumer disconnect handler");
-
     logger.debug("Setting up SIGINT handler");
     process.on('SIGINT', async () => {
         logger.info('Received SIGINT, closing Kafka connections...');
+        closing = true;
         try {
             if (producer) {
                 await producer.disconnect();
                 logger.info('Kafka producer disconnected successfully');
             }
-            if (consumer) {
+            for (let consumer of consumers) {
                 await consumer.disconnect();
-                logger.info('Kafka consumer disconnected successfully');
             }
+            logger.info(`[${consumers.length}] Kafka consumer(s) disconnected successfully`);
         } catch (error) {
             logger.err('Error closing Kafka connections');
         }
@@ -122,15 +101,16 @@ export async function connectToKafka(instance: string, parentAction?: number): P
     logger.debug("Setting up SIGTERM handler");
     process.on('SIGTERM', async () => {
         logger.info('Received SIGTERM, closing Kafka connections...');
+        closing = true;
         try {
             if (producer) {
                 await producer.disconnect();
                 logger.info('Kafka producer disconnected successfully');
             }
-            if (consumer) {
+            for (let consumer of consumers) {
                 await consumer.disconnect();
-                logger.info('Kafka consumer disconnected successfully');
             }
+            logger.info(`[${consumers.length}] Kafka consumer(s) disconnected successfully`);
         } catch (error) {
             logger.err('Error closing Kafka connections');
         }
@@ -155,16 +135,41 @@ export function getKafkaProducer(): Producer {
     return producer;
 }
 
-export function getKafkaConsumer(): Consumer {
-    if (!consumer) {
-        throw new Error('Kafka consumer not initialized. Call connectToKafka() first.');
-    }
-    return consumer;
-}
-
 export function getKafkaConnection(): Kafka {
     if (!kafkaConnection) {
         throw new Error('Kafka connection not initialized. Call connectToKafka() first.');
     }
     return kafkaConnection;
-}
\ No newline at end of file
+}
+
+/**
+ * Creates and connects a consumer of the group. A consumer that drops is reconnected like the producer,
+ * and every consumer is disconnected on shutdown.
+ */
+export async function createKafkaConsumer(groupId: string): Promise<Consumer> {
+    let logger = getLogger("creatingKafkaConsumer", Logger.KAFKA, Logger.KAFKA);
+    const consumer = getKafkaConnection().consumer({ groupId });
+    consumer.on('consumer.disconnect', () => {
+        if (closing) {
+            return;
+        }
+        logger.warn(`Kafka consumer of group [${groupId}] disconnected. Retrying in ${KAFKA.CONNECTION_TIMER} ms.`);
+        retryCount++;
+        if (retryCount >= KAFKA.RETRY_CAP) {
+            logger.fail('Exceeded Kafka consumer retry limit. Exiting...');
+            process.exit(1);
+        }
+        setTimeout(async () => {
+            try {
+                await consumer.connect();
+                logger.info(`Kafka consumer of group [${groupId}] reconnected successfully`);
+                retryCount = 0;
+            } catch (err) {
+                logger.err(`Kafka consumer of group [${groupId}] reconnection failed: ${err.message}`);
+            }
+        }, KAFKA.CONNECTION_TIMER);
+    });
+    await consumer.connect();
+    consumers.push(consumer);
+    return consumer;
+}
@@ -137,6 +137,10 @@ export function getRedisClient(): RedisClientType {
 }
 
 // Helper functions for common Redis operations
+export function buildRedisKey(...parts: string[]): string {
+    return [REDIS.KEY_PREFIX, ...parts].join(':');
+}
+
 export async function setKey(key: string, value: string, ttl?: number): Promise<void> {
     const client = getRedisClient();
     if (ttl) {
@@ -146,6 +150,12 @@ export async function setKey(key: string, value: string, ttl?: number): Promise<
     }
 }
 
+// Sets the key only when it does not exist yet; returns whether it was set
+export async function setKeyIfAbsent(key: string, value: string, ttl: number): Promise<boolean> {
+    const client = getRedisClient();
+    return (await client.set(key, value, { NX: true, EX: ttl })) === "OK";
+}
+
 export async function getKey(key: string): Promise<string | null> {
     const client = getRedisClient();
     return await client.get(key);
@@ -156,6 +166,11 @@ export async function deleteKey(key: string): Promise<number> {
     return await client.del(key);
 }
 
+export async function expireKey(key: string, ttl: number): Promise<boolean> {
+    const client = getRedisClient();
+    return await client.expire(key, ttl);
+}
+
 export async function keyExists(key: string): Promise<boolean> {
     const client = getRedisClient();
     const exists = await client.exists(key);
@@ -0,0 +1,29 @@
+import mongoose, {Model} from "mongoose";
+import {Audit} from "@dbModels/shared/Audit";
+import {BaseSchema} from "@dbModels/shared/Base";
+import {registerRetentionPolicy} from "@dbModels/shared/Retention";
+
+export enum RoleName {
+    ADMIN = "admin",
+    MERCHANT = "merchant",
+    CUSTOMER = "customer",
+    SUPPORT = "support"
+}
+
+export interface Role extends Audit {
+    name: string;
+    description?: string;
+    // "resource:action", "resource:*" or "*"
+    permissions: string[];
+}
+
+export const RoleSchema = new BaseSchema<Role>({
+    name: { type: String, required: true, trim: true },
+    description: { type: String },
+    permissions: { type: [String], default: [] }
+});
+
+RoleSchema.index({ name: 1 }, { unique: true });
+
+export const RoleModel: Model<Role> = mongoose.model<Role>("Role", RoleSchema);
+registerRetentionPolicy(RoleModel);
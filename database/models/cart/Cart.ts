@@ -0,0 +1,31 @@
+import mongoose, {Model, Schema, Types} from "mongoose";
+import {Audit} from "@dbModels/shared/Audit";
+import {BaseSchema} from "@dbModels/shared/Base";
+import {Tenant} from "@dbModels/shared/Tenant";
+
+export interface CartItem {
+    variant: Types.ObjectId;
+    quantity: number;
+    addedAt: Date;
+}
+
+// Cart of a logged-in user; anonymous carts live in Redis until their owner logs in
+export interface Cart extends Audit, Tenant {
+    user: Types.ObjectId;
+    items: CartItem[];
+}
+
+export const CartSchema = new BaseSchema<Cart>({
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    // no onDelete rule: a line whose variant is gone stays, flagged as unavailable, until the user removes it
+    items: [{
+        _id: false,
+        variant: { type: Schema.Types.ObjectId, ref: 'ProductVariant', required: true },
+        quantity: { type: Number, required: true, min: 1 },
+        addedAt: { type: Date, required: true, default: Date.now }
+    }]
+}, { tenantScoped: true });
+
+CartSchema.index({ tenantId: 1, user: 1 }, { unique: true });
+
+export const CartModel: Model<Cart> = mongoose.model<Cart>("Cart", CartSchema);
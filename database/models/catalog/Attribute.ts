@@ -0,0 +1,35 @@
+import mongoose, {Model} from "mongoose";
+import {Audit} from "@dbModels/shared/Audit";
+import {BaseSchema} from "@dbModels/shared/Base";
+import {Tenant} from "@dbModels/shared/Tenant";
+import {registerRetentionPolicy} from "@dbModels/shared/Retention";
+
+export enum AttributeType {
+    TEXT = "text",
+    NUMBER = "number",
+    BOOLEAN = "boolean",
+    SELECT = "select"
+}
+
+export interface Attribute extends Audit, Tenant {
+    // stable machine name, e.g. "color"
+    code: string;
+    name: string;
+    type: AttributeType;
+    // allowed values of a "select" attribute
+    values: string[];
+    unit?: string;
+}
+
+export const AttributeSchema = new BaseSchema<Attribute>({
+    code: { type: String, required: true, trim: true, lowercase: true },
+    name: { type: String, required: true, trim: true },
+    type: { type: String, required: true, enum: Object.values(AttributeType) },
+    values: { type: [String], default: [] },
+    unit: { type: String, trim: true }
+}, { tenantScoped: true });
+
+AttributeSchema.index({ tenantId: 1, code: 1 }, { unique: true });
+
+export const AttributeModel: Model<Attribute> = mongoose.model<Attribute>("Attribute", AttributeSchema);
+registerRetentionPolicy(AttributeModel);
@@ -0,0 +1,31 @@
+import mongoose, {Model, Schema, Types} from "mongoose";
+import {Audit} from "@dbModels/shared/Audit";
+import {BaseSchema} from "@dbModels/shared/Base";
+import {Tenant} from "@dbModels/shared/Tenant";
+import {registerRetentionPolicy} from "@dbModels/shared/Retention";
+
+export interface Category extends Audit, Tenant {
+    name: string;
+    slug: string;
+    description?: string;
+    parent?: Types.ObjectId;
+    // materialized path of the ids from the root down to this category, e.g. "/<rootId>/<parentId>/<id>/"
+    path: string;
+    depth: number;
+}
+
+export const CategorySchema = new BaseSchema<Category>({
+    name: { type: String, required: true, trim: true },
+    slug: { type: String, required: true, trim: true, lowercase: true },
+    description: { type: String },
+    // deleting a category takes its whole subtree along
+    parent: { type: Schema.Types.ObjectId, ref: 'Category', onDelete: 'cascade' },
+    path: { type: String, required: true },
+    depth: { type: Number, required: true, default: 0, min: 0 }
+}, { tenantScoped: true });
+
+CategorySchema.index({ tenantId: 1, slug: 1 }, { unique: true });
+CategorySchema.index({ tenantId: 1, path: 1 });
+
+export const CategoryModel: Model<Category> = mongoose.model<Category>("Category", CategorySchema);
+registerRetentionPolicy(CategoryModel);
@@ -0,0 +1,48 @@
+import mongoose, {Model, Schema, Types} from "mongoose";
+import {Audit} from "@dbModels/shared/Audit";
+import {BaseSchema} from "@dbModels/shared/Base";
+import {Tenant} from "@dbModels/shared/Tenant";
+import {registerRetentionPolicy} from "@dbModels/shared/Retention";
+import {historyPlugin, HistoryStatics} from "@dbModels/shared/History";
+
+export enum ProductStatus {
+    DRAFT = "draft",
+    ACTIVE = "active",
+    ARCHIVED = "archived"
+}
+
+export interface ProductAttributeValue {
+    attribute: Types.ObjectId;
+    value: string | number | boolean;
+}
+
+export interface Product extends Audit, Tenant {
+    name: string;
+    slug: string;
+    description?: string;
+    status: ProductStatus;
+    categories: Types.ObjectId[];
+    attributes: ProductAttributeValue[];
+}
+
+export const ProductSchema = new BaseSchema<Product>({
+    name: { type: String, required: true, trim: true },
+    slug: { type: String, required: true, trim: true, lowercase: true },
+    description: { type: String },
+    status: { type: String, required: true, enum: Object.values(ProductStatus), default: ProductStatus.DRAFT },
+    categories: [{ type: Schema.Types.ObjectId, ref: 'Category', onDelete: 'setNull' }],
+    attributes: [{
+        _id: false,
+        attribute: { type: Schema.Types.ObjectId, ref: 'Attribute', required: true, onDelete: 'restrict' },
+        value: { type: Schema.Types.Mixed, required: true }
+    }]
+}, { tenantScoped: true });
+
+ProductSchema.index({ tenantId: 1, slug: 1 }, { unique: true });
+ProductSchema.index({ tenantId: 1, categories: 1 });
+
+// Every change of a product is kept, for GET /catalog/products/:id/history
+ProductSchema.plugin(historyPlugin);
+
+export const ProductModel = mongoose.model<Product, Model<Product> & HistoryStatics>("Product", ProductSchema);
+registerRetentionPolicy(ProductModel);
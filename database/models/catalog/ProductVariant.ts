@@ -0,0 +1,42 @@
+import mongoose, {Model, Schema, Types} from "mongoose";
+import {Audit} from "@dbModels/shared/Audit";
+import {BaseSchema} from "@dbModels/shared/Base";
+import {Tenant} from "@dbModels/shared/Tenant";
+import {registerRetentionPolicy} from "@dbModels/shared/Retention";
+import {Money} from "@_shared/types/general.types";
+
+// One of the values the variant picks, e.g. { attribute: <color>, value: "red" }
+export interface VariantOption {
+    attribute: Types.ObjectId;
+    value: string;
+}
+
+export interface ProductVariant extends Audit, Tenant {
+    product: Types.ObjectId;
+    sku: string;
+    options: VariantOption[];
+    price: Money;
+    // in grams
+    weight?: number;
+}
+
+export const ProductVariantSchema = new BaseSchema<ProductVariant>({
+    product: { type: Schema.Types.ObjectId, ref: 'Product', required: true, onDelete: 'cascade' },
+    sku: { type: String, required: true, trim: true, uppercase: true },
+    options: [{
+        _id: false,
+        attribute: { type: Schema.Types.ObjectId, ref: 'Attribute', required: true, onDelete: 'restrict' },
+        value: { type: String, required: true }
+    }],
+    price: {
+        amount: { type: Number, required: true, min: 0 },
+        currency: { type: String, required: true, uppercase: true }
+    },
+    weight: { type: Number, min: 0 }
+}, { tenantScoped: true });
+
+ProductVariantSchema.index({ tenantId: 1, sku: 1 }, { unique: true });
+ProductVariantSchema.index({ product: 1 });
+
+export const ProductVariantModel: Model<ProductVariant> = mongoose.model<ProductVariant>("ProductVariant", ProductVariantSchema);
+registerRetentionPolicy(ProductVariantModel);
@@ -0,0 +1,46 @@
+import mongoose, {Model, Schema, Types} from "mongoose";
+import {Audit} from "@dbModels/shared/Audit";
+import {BaseSchema} from "@dbModels/shared/Base";
+import {Tenant} from "@dbModels/shared/Tenant";
+
+export enum ReservationStatus {
+    HELD = "held",
+    COMMITTED = "committed",
+    RELEASED = "released",
+    EXPIRED = "expired"
+}
+
+export interface ReservationItem {
+    stockItem: Types.ObjectId;
+    variant: Types.ObjectId;
+    sku: string;
+    warehouse: string;
+    quantity: number;
+}
+
+export interface Reservation extends Audit, Tenant {
+    // what the stock is held for, e.g. the checkout or order id
+    reference: string;
+    status: ReservationStatus;
+    items: ReservationItem[];
+    expiresAt: Date;
+}
+
+export const ReservationSchema = new BaseSchema<Reservation>({
+    reference: { type: String, required: true },
+    status: { type: String, required: true, enum: Object.values(ReservationStatus), default: ReservationStatus.HELD },
+    items: [{
+        _id: false,
+        stockItem: { type: Schema.Types.ObjectId, ref: 'StockItem', required: true },
+        variant: { type: Schema.Types.ObjectId, ref: 'ProductVariant', required: true },
+        sku: { type: String, required: true },
+        warehouse: { type: String, required: true },
+        quantity: { type: Number, required: true, min: 1 }
+    }],
+    expiresAt: { type: Date, required: true }
+}, { tenantScoped: true });
+
+ReservationSchema.index({ tenantId: 1, reference: 1 });
+ReservationSchema.index({ status: 1, expiresAt: 1 });
+
+export const ReservationModel: Model<Reservation> = mongoose.model<Reservation>("Reservation", ReservationSchema);
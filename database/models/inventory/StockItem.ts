@@ -0,0 +1,31 @@
+import mongoose, {Model, Schema, Types} from "mongoose";
+import {Audit} from "@dbModels/shared/Audit";
+import {BaseSchema} from "@dbModels/shared/Base";
+import {Tenant} from "@dbModels/shared/Tenant";
+
+// Stock of one variant in one warehouse; what can still be sold is onHand - reserved
+export interface StockItem extends Audit, Tenant {
+    variant: Types.ObjectId;
+    sku: string;
+    warehouse: string;
+    // physically in the warehouse
+    onHand: number;
+    // held by reservations that were not committed or released yet
+    reserved: number;
+    // an inventory.low_stock event is sent when the available stock drops to this value or below
+    lowStockThreshold: number;
+}
+
+export const StockItemSchema = new BaseSchema<StockItem>({
+    variant: { type: Schema.Types.ObjectId, ref: 'ProductVariant', required: true, onDelete: 'cascade' },
+    sku: { type: String, required: true, uppercase: true },
+    warehouse: { type: String, required: true, trim: true, lowercase: true },
+    onHand: { type: Number, required: true, default: 0, min: 0 },
+    reserved: { type: Number, required: true, default: 0, min: 0 },
+    lowStockThreshold: { type: Number, required: true, default: 0, min: 0 }
+}, { tenantScoped: true });
+
+StockItemSchema.index({ tenantId: 1, variant: 1, warehouse: 1 }, { unique: true });
+StockItemSchema.index({ tenantId: 1, sku: 1 });
+
+export const StockItemModel: Model<StockItem> = mongoose.model<StockItem>("StockItem", StockItemSchema);
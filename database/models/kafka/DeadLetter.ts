@@ -0,0 +1,56 @@
+import mongoose, {Model, Schema, Types} from "mongoose";
+
+export enum DeadLetterStatus {
+    PENDING = "pending",
+    REPLAYED = "replayed"
+}
+
+// A message of KAFKA.TOPICS.DEAD_LETTER, kept so it can be looked at and replayed to its handler
+export interface DeadLetter {
+    _id: Types.ObjectId;
+    // the consumer group of the handler that failed
+    handler: string;
+    // where the message was first read
+    topic: string;
+    partition: number;
+    offset: string;
+    key?: string;
+    value?: string;
+    // the message's own headers, without those of the retry framework
+    headers: Record<string, string>;
+    tenantId?: string;
+    error: string;
+    stack?: string;
+    // retries made before the message was dead-lettered
+    attempts: number;
+    // times the message reached the dead-letter topic, replays that failed again included
+    failures: number;
+    status: DeadLetterStatus;
+    failedAt: Date;
+    replayedAt?: Date;
+}
+
+// Not tenant scoped: messages without a tenant fail too. The dead-letter service filters by tenantId itself.
+const DeadLetterSchema = new Schema<DeadLetter>({
+    handler: { type: String, required: true },
+    topic: { type: String, required: true },
+    partition: { type: Number, required: true },
+    offset: { type: String, required: true },
+    key: { type: String },
+    value: { type: String },
+    headers: { type: Schema.Types.Mixed, default: {} },
+    tenantId: { type: String },
+    error: { type: String, required: true },
+    stack: { type: String },
+    attempts: { type: Number, required: true, default: 0 },
+    failures: { type: Number, required: true, default: 1 },
+    status: { type: String, required: true, enum: Object.values(DeadLetterStatus), default: DeadLetterStatus.PENDING },
+    failedAt: { type: Date, required: true },
+    replayedAt: { type: Date }
+}, { versionKey: false, minimize: false });
+
+// a message that fails again after a replay updates its dead letter instead of adding another
+DeadLetterSchema.index({ handler: 1, topic: 1, partition: 1, offset: 1 }, { unique: true });
+DeadLetterSchema.index({ tenantId: 1, status: 1, failedAt: -1 });
+
+export const DeadLetterModel: Model<DeadLetter> = mongoose.model<DeadLetter>("DeadLetter", DeadLetterSchema, "deadLetters");
@@ -0,0 +1,23 @@
+import mongoose, {Model, Schema, Types} from "mongoose";
+import {EVENT_LEDGER} from "@environment";
+
+// An event a handler finished, so a copy delivered later is skipped
+export interface ProcessedEvent {
+    _id: Types.ObjectId;
+    // the consumer group of the handler
+    handler: string;
+    eventId: string;
+    processedAt: Date;
+}
+
+// Not tenant scoped: event ids are unique across storefronts
+const ProcessedEventSchema = new Schema<ProcessedEvent>({
+    handler: { type: String, required: true },
+    eventId: { type: String, required: true },
+    processedAt: { type: Date, required: true, default: Date.now }
+}, { versionKey: false });
+
+ProcessedEventSchema.index({ handler: 1, eventId: 1 }, { unique: true });
+ProcessedEventSchema.index({ processedAt: 1 }, { expireAfterSeconds: EVENT_LEDGER.RETENTION });
+
+export const ProcessedEventModel: Model<ProcessedEvent> = mongoose.model<ProcessedEvent>("ProcessedEvent", ProcessedEventSchema, "processedEvents");
@@ -0,0 +1,104 @@
+import mongoose, {Model, Schema, Types} from "mongoose";
+import {Audit} from "@dbModels/shared/Audit";
+import {BaseSchema} from "@dbModels/shared/Base";
+import {Tenant} from "@dbModels/shared/Tenant";
+import {registerRetentionPolicy} from "@dbModels/shared/Retention";
+import {Money} from "@_shared/types/general.types";
+
+export enum OrderStatus {
+    PENDING = "pending",
+    PAID = "paid",
+    FULFILLED = "fulfilled",
+    SHIPPED = "shipped",
+    DELIVERED = "delivered",
+    CANCELLED = "cancelled",
+    REFUNDED = "refunded"
+}
+
+// A promotion that lowered the price of an item
+export interface OrderDiscount {
+    promotion: Types.ObjectId;
+    name: string;
+    couponCode?: string;
+    amount: number;
+}
+
+// Copy of the variant at the time of the order, so later catalog changes do not alter it
+export interface OrderItem {
+    variant: Types.ObjectId;
+    product: Types.ObjectId;
+    sku: string;
+    name: string;
+    quantity: number;
+    unitPrice: Money;
+    lineTotal: Money;
+    discounts?: OrderDiscount[];
+    // lineTotal less the discounts; lineTotal when there are none
+    total?: Money;
+}
+
+export interface OrderTransition {
+    from: OrderStatus | null;
+    to: OrderStatus;
+    actor?: Types.ObjectId;
+    reason?: string;
+    at: Date;
+}
+
+export interface Order extends Audit, Tenant {
+    user: Types.ObjectId;
+    status: OrderStatus;
+    items: OrderItem[];
+    subtotal: Money;
+    discount: Money;
+    total: Money;
+    couponCodes: string[];
+    // every status change of the order, oldest first
+    transitions: OrderTransition[];
+}
+
+const MoneySchema = {
+    amount: { type: Number, required: true, min: 0 },
+    currency: { type: String, required: true, uppercase: true }
+};
+
+export const OrderSchema = new BaseSchema<Order>({
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    status: { type: String, required: true, enum: Object.values(OrderStatus), default: OrderStatus.PENDING },
+    items: [{
+        _id: false,
+        variant: { type: Schema.Types.ObjectId, ref: 'ProductVariant', required: true },
+        product: { type: Schema.Types.ObjectId, ref: 'Product', required: true },
+        sku: { type: String, required: true },
+        name: { type: String, required: true },
+        quantity: { type: Number, required: true, min: 1 },
+        unitPrice: MoneySchema,
+        lineTotal: MoneySchema,
+        discounts: [{
+            _id: false,
+            promotion: { type: Schema.Types.ObjectId, ref: 'Promotion', required: true },
+            name: { type: String, required: true },
+            couponCode: { type: String },
+            amount: { type: Number, required: true, min: 0 }
+        }],
+        total: MoneySchema
+    }],
+    subtotal: MoneySchema,
+    discount: MoneySchema,
+    total: MoneySchema,
+    couponCodes: { type: [String], default: [] },
+    transitions: [{
+        _id: false,
+        from: { type: String, enum: [...Object.values(OrderStatus), null] },
+        to: { type: String, required: true, enum: Object.values(OrderStatus) },
+        actor: { type: Schema.Types.ObjectId, ref: 'User' },
+        reason: { type: String },
+        at: { type: Date, required: true, default: Date.now }
+    }]
+}, { tenantScoped: true });
+
+OrderSchema.index({ tenantId: 1, user: 1, createdAt: -1 });
+OrderSchema.index({ tenantId: 1, status: 1 });
+
+export const OrderModel: Model<Order> = mongoose.model<Order>("Order", OrderSchema);
+registerRetentionPolicy(OrderModel);
@@ -0,0 +1,45 @@
+import mongoose, {Model, Schema, Types} from "mongoose";
+import {OUTBOX} from "@environment";
+
+export enum OutboxStatus {
+    PENDING = "pending",
+    DISPATCHED = "dispatched"
+}
+
+// A Kafka message written in the same transaction as the change it announces, published later by the outbox relay
+export interface OutboxEvent {
+    _id: Types.ObjectId;
+    topic: string;
+    // the message key, also the aggregate the events are kept in order for, e.g. the order id
+    key: string;
+    // the event envelope, published as the message value
+    payload: Record<string, any>;
+    headers: Record<string, string>;
+    status: OutboxStatus;
+    attempts: number;
+    // the relay leaves the event alone until then, backing off after failed publishes
+    nextAttemptAt: Date;
+    lastError?: string;
+    createdAt: Date;
+    dispatchedAt?: Date;
+}
+
+// Not tenant scoped: the relay publishes the events of every storefront, which travel in the "tenantId" header
+const OutboxEventSchema = new Schema<OutboxEvent>({
+    topic: { type: String, required: true },
+    key: { type: String, required: true },
+    payload: { type: Schema.Types.Mixed, required: true },
+    headers: { type: Schema.Types.Mixed, default: {} },
+    status: { type: String, required: true, enum: Object.values(OutboxStatus), default: OutboxStatus.PENDING },
+    attempts: { type: Number, required: true, default: 0 },
+    nextAttemptAt: { type: Date, required: true, default: Date.now },
+    lastError: { type: String },
+    createdAt: { type: Date, required: true, default: Date.now },
+    dispatchedAt: { type: Date }
+}, { versionKey: false, minimize: false });
+
+OutboxEventSchema.index({ status: 1, nextAttemptAt: 1 });
+OutboxEventSchema.index({ key: 1, status: 1, createdAt: 1 });
+OutboxEventSchema.index({ dispatchedAt: 1 }, { expireAfterSeconds: OUTBOX.DISPATCHED_TTL });
+
+export const OutboxEventModel: Model<OutboxEvent> = mongoose.model<OutboxEvent>("OutboxEvent", OutboxEventSchema, "outbox");
@@ -0,0 +1,75 @@
+import mongoose, {Model, Schema, Types} from "mongoose";
+import {Audit} from "@dbModels/shared/Audit";
+import {BaseSchema} from "@dbModels/shared/Base";
+import {Tenant} from "@dbModels/shared/Tenant";
+import {registerRetentionPolicy} from "@dbModels/shared/Retention";
+import {Money} from "@_shared/types/general.types";
+import {PaymentOperation} from "@_shared/types/payment.types";
+
+export enum PaymentStatus {
+    PENDING = "pending",
+    AUTHORIZED = "authorized",
+    DECLINED = "declined",
+    CAPTURED = "captured",
+    VOIDED = "voided",
+    // the whole captured amount was refunded; partial refunds stay captured
+    REFUNDED = "refunded"
+}
+
+// One call to the provider, or one webhook it sent
+export interface PaymentAttempt {
+    operation: PaymentOperation;
+    success: boolean;
+    amount?: Money;
+    declineCode?: string;
+    error?: string;
+    webhookId?: string;
+    at: Date;
+}
+
+export interface Payment extends Audit, Tenant {
+    order: Types.ObjectId;
+    // what the payment is made for, e.g. the checkout saga id; also the idempotency key at the provider
+    reference: string;
+    provider: string;
+    providerReference?: string;
+    status: PaymentStatus;
+    amount: Money;
+    // minor units of amount.currency
+    capturedAmount: number;
+    refundedAmount: number;
+    attempts: PaymentAttempt[];
+}
+
+const MoneySchema = {
+    amount: { type: Number, required: true, min: 0 },
+    currency: { type: String, required: true, uppercase: true }
+};
+
+export const PaymentSchema = new BaseSchema<Payment>({
+    order: { type: Schema.Types.ObjectId, ref: 'Order', required: true },
+    reference: { type: String, required: true },
+    provider: { type: String, required: true },
+    providerReference: { type: String },
+    status: { type: String, required: true, enum: Object.values(PaymentStatus), default: PaymentStatus.PENDING },
+    amount: MoneySchema,
+    capturedAmount: { type: Number, required: true, default: 0, min: 0 },
+    refundedAmount: { type: Number, required: true, default: 0, min: 0 },
+    attempts: [{
+        _id: false,
+        operation: { type: String, required: true, enum: ["authorize", "capture", "void", "refund"] },
+        success: { type: Boolean, required: true },
+        amount: { amount: { type: Number }, currency: { type: String } },
+        declineCode: { type: String },
+        error: { type: String },
+        webhookId: { type: String },
+        at: { type: Date, required: true, default: Date.now }
+    }]
+}, { tenantScoped: true });
+
+PaymentSchema.index({ tenantId: 1, reference: 1 }, { unique: true });
+PaymentSchema.index({ tenantId: 1, order: 1 });
+PaymentSchema.index({ provider: 1, providerReference: 1 });
+
+export const PaymentModel: Model<Payment> = mongoose.model<Payment>("Payment", PaymentSchema);
+registerRetentionPolicy(PaymentModel);
@@ -0,0 +1,81 @@
+import mongoose, {Model, Schema, Types} from "mongoose";
+import {Audit} from "@dbModels/shared/Audit";
+import {BaseSchema} from "@dbModels/shared/Base";
+import {Tenant} from "@dbModels/shared/Tenant";
+import {registerRetentionPolicy} from "@dbModels/shared/Retention";
+import {Money} from "@_shared/types/general.types";
+
+export enum PromotionKind {
+    // percentage off the line
+    PERCENTAGE = "percentage",
+    // amount off every unit
+    FIXED = "fixed",
+    // every buyQuantity + getQuantity units, getQuantity of them are free (or percentage off)
+    BUY_X_GET_Y = "buyXGetY",
+    // percentage off the line by the quantity bought
+    TIERED = "tiered"
+}
+
+export interface PromotionTier {
+    minQuantity: number;
+    percentage: number;
+}
+
+export interface Promotion extends Audit, Tenant {
+    name: string;
+    kind: PromotionKind;
+    active: boolean;
+    startsAt?: Date;
+    endsAt?: Date;
+    priority: number;
+    stackable: boolean;
+    // promotions with a code only apply when the customer enters it
+    couponCode?: string;
+    // redemptions over all customers, counted in Redis
+    usageLimit?: number;
+    perCustomerLimit?: number;
+    segments: string[];
+    variants: Types.ObjectId[];
+    products: Types.ObjectId[];
+    categories: Types.ObjectId[];
+    percentage?: number;
+    amount?: Money;
+    buyQuantity?: number;
+    getQuantity?: number;
+    tiers: PromotionTier[];
+}
+
+export const PromotionSchema = new BaseSchema<Promotion>({
+    name: { type: String, required: true, trim: true },
+    kind: { type: String, required: true, enum: Object.values(PromotionKind) },
+    active: { type: Boolean, required: true, default: true },
+    startsAt: { type: Date },
+    endsAt: { type: Date },
+    priority: { type: Number, required: true, default: 0 },
+    stackable: { type: Boolean, required: true, default: true },
+    couponCode: { type: String, trim: true, uppercase: true },
+    usageLimit: { type: Number, min: 1 },
+    perCustomerLimit: { type: Number, min: 1 },
+    segments: { type: [String], default: [] },
+    variants: [{ type: Schema.Types.ObjectId, ref: 'ProductVariant', onDelete: 'setNull' }],
+    products: [{ type: Schema.Types.ObjectId, ref: 'Product', onDelete: 'setNull' }],
+    categories: [{ type: Schema.Types.ObjectId, ref: 'Category', onDelete: 'setNull' }],
+    percentage: { type: Number, min: 0, max: 100 },
+    amount: {
+        amount: { type: Number, min: 0 },
+        currency: { type: String, uppercase: true }
+    },
+    buyQuantity: { type: Number, min: 1 },
+    getQuantity: { type: Number, min: 1 },
+    tiers: [{
+        _id: false,
+        minQuantity: { type: Number, required: true, min: 1 },
+        percentage: { type: Number, required: true, min: 0, max: 100 }
+    }]
+}, { tenantScoped: true });
+
+PromotionSchema.index({ tenantId: 1, couponCode: 1 }, { unique: true, partialFilterExpression: { couponCode: { $type: "string" } } });
+PromotionSchema.index({ tenantId: 1, active: 1, startsAt: 1, endsAt: 1 });
+
+export const PromotionModel: Model<Promotion> = mongoose.model<Promotion>("Promotion", PromotionSchema);
+registerRetentionPolicy(PromotionModel);
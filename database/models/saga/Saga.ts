@@ -0,0 +1,72 @@
+import mongoose, {Model, Schema} from "mongoose";
+import {Audit} from "@dbModels/shared/Audit";
+import {BaseSchema} from "@dbModels/shared/Base";
+import {Tenant} from "@dbModels/shared/Tenant";
+import {registerRetentionPolicy} from "@dbModels/shared/Retention";
+
+export enum SagaStatus {
+    RUNNING = "running",
+    COMPLETED = "completed",
+    COMPENSATING = "compensating",
+    // every finished step was undone
+    COMPENSATED = "compensated",
+    // a compensation kept failing, the saga needs a look by hand
+    FAILED = "failed"
+}
+
+export enum SagaStepStatus {
+    PENDING = "pending",
+    RUNNING = "running",
+    SUCCEEDED = "succeeded",
+    FAILED = "failed",
+    COMPENSATING = "compensating",
+    COMPENSATED = "compensated",
+    COMPENSATION_FAILED = "compensationFailed"
+}
+
+export interface SagaStep {
+    name: string;
+    status: SagaStepStatus;
+    // commands sent for the step, compensations included
+    attempts: number;
+    startedAt?: Date;
+    finishedAt?: Date;
+    error?: string;
+}
+
+export interface Saga extends Audit, Tenant {
+    type: string;
+    status: SagaStatus;
+    // index of the step whose reply the saga waits for
+    currentStep: number;
+    steps: SagaStep[];
+    // what the steps work on; the data of every successful reply is merged into it
+    context: Record<string, any>;
+    failureReason?: string;
+    // when the step or compensation the saga waits for times out; unset while it waits for nothing
+    deadline?: Date;
+}
+
+export const SagaSchema = new BaseSchema<Saga>({
+    type: { type: String, required: true },
+    status: { type: String, required: true, enum: Object.values(SagaStatus), default: SagaStatus.RUNNING },
+    currentStep: { type: Number, required: true, default: 0 },
+    steps: [{
+        _id: false,
+        name: { type: String, required: true },
+        status: { type: String, required: true, enum: Object.values(SagaStepStatus), default: SagaStepStatus.PENDING },
+        attempts: { type: Number, required: true, default: 0 },
+        startedAt: { type: Date },
+        finishedAt: { type: Date },
+        error: { type: String }
+    }],
+    context: { type: Schema.Types.Mixed, default: {} },
+    failureReason: { type: String },
+    deadline: { type: Date }
+}, { tenantScoped: true, minimize: false });
+
+SagaSchema.index({ tenantId: 1, type: 1, status: 1 });
+SagaSchema.index({ deadline: 1 });
+
+export const SagaModel: Model<Saga> = mongoose.model<Saga>("Saga", SagaSchema);
+registerRetentionPolicy(SagaModel);
@@ -1,11 +1,19 @@
-import {Model, Query, Schema, Types, UpdateQuery} from "mongoose";
+import {Error as MongooseError, Model, Query, Schema, Types, UpdateQuery} from "mongoose";
 import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus} from "@_shared/types/general.types";
+import {getCurrentActor} from "@_shared/context/requestContext";
+import {cascadeRestore, cascadeSoftDelete, runInTransaction} from "@dbModels/shared/Cascade";
 
 
 export interface SoftDeleteOptions {
     includeDeleted?: boolean;
 }
 
+// Conditional writes: the update only applies when the stored version still equals expectedVersion
+export interface ConcurrencyOptions {
+    expectedVersion?: number;
+}
+
 export interface AuditVirtuals {
     isDeleted: boolean;
     auditInfo: {
@@ -31,6 +39,7 @@ export interface Audit extends AuditVirtuals{
 
     softDelete(deletedBy?: Types.ObjectId): Promise<void>;
     restore(restoredBy?: Types.ObjectId): Promise<void>;
+    saveIfVersion(expectedVersion: number): Promise<void>;
 }
 
 export const AuditSchema = new Schema<Audit>({
@@ -150,82 +159,146 @@ AuditSchema.set('toJSON', { virtuals: true });
 AuditSchema.set('toObject', { virtuals: true });
 
 // Instance methods
+// Both walk the onDelete rules of the referencing models (see Cascade.ts) inside one transaction
 AuditSchema.methods.softDelete = async function(deletedBy?: Types.ObjectId): Promise<void> {
     if (this.deletedAt) {
         throw new CustomServerException("mongoDb", "delete");
     }
-    this.deletedAt = new Date();
-    this.deletedBy = deletedBy || null;
-    this.updatedAt = new Date();
-    await this.save();
+    const deletedAt = new Date();
+    const actor = deletedBy || getCurrentActor() || null;
+    const previousSession = this.$session();
+    try {
+        await runInTransaction(previousSession, async (session) => {
+            await cascadeSoftDelete(this.constructor as Model<any>, [this._id], deletedAt, actor, session);
+            this.deletedAt = deletedAt;
+            this.deletedBy = actor;
+            this.updatedAt = new Date();
+            this.version = ((this.version as number) || 0) + 1;
+            await this.save({ session });
+        });
+    } finally {
+        this.$session(previousSession);
+    }
 };
 AuditSchema.methods.restore = async function(restoredBy?: Types.ObjectId): Promise<void> {
     if (!this.deletedAt) {
         throw new CustomServerException("mongoDb", "restore");
     }
-    if (!!restoredBy) {
-        this.restoredBy = restoredBy;
+    restoredBy = restoredBy || getCurrentActor();
+    const deletedAt = this.deletedAt;
+    const previousSession = this.$session();
+    try {
+        await runInTransaction(previousSession, async (session) => {
+            await cascadeRestore(this.constructor as Model<any>, [this._id], deletedAt, restoredBy || null, session);
+            if (!!restoredBy) {
+                this.restoredBy = restoredBy;
+            }
+            this.deletedAt = null;
+            this.deletedBy = null;
+            this.updatedBy = restoredBy || null;
+            this.updatedAt = new Date();
+            this.version = ((this.version as number) || 0) + 1;
+            await this.save({ session });
+        });
+    } finally {
+        this.$session(previousSession);
+    }
+};
+// Saves only if nobody else changed the document since it was loaded with expectedVersion
+AuditSchema.methods.saveIfVersion = async function(expectedVersion: number): Promise<void> {
+    if (this.version !== expectedVersion) {
+        throw new CustomServerException("mongoDb", "versionConflict", undefined, HttpStatus.CONFLICT);
+    }
+    // $where is added to the filter of the save, making the check atomic
+    this.$where = { version: expectedVersion };
+    try {
+        await this.save();
+    } catch (error) {
+        if (error instanceof MongooseError.DocumentNotFoundError) {
+            throw new CustomServerException("mongoDb", "versionConflict", undefined, HttpStatus.CONFLICT);
+        }
+        throw error;
+    } finally {
+        this.$where = undefined;
     }
-    this.deletedAt = null;
-    this.deletedBy = null;
-    this.updatedBy = restoredBy || null;
-    this.updatedAt = new Date();
-    this.version = ((this.version as number) || 0) + 1;
-    await this.save();
 };
 
-AuditSchema.statics.softDelete = async function(filter: any, deletedBy?: Types.ObjectId): Promise<void> {
-    await this.updateMany(
-        {
-            ...filter,
-            deletedAt: null
-        },
-        {
-            $set: {
-                deletedAt: new Date(),
-                updatedAt: new Date(),
-                deletedBy: deletedBy || null
+async function softDeleteMany(model: Model<any>, filter: any, deletedBy?: Types.ObjectId): Promise<void> {
+    const deletedAt = new Date();
+    const actor = deletedBy || getCurrentActor() || null;
+    await runInTransaction(null, async (session) => {
+        const documents = await model.find(filter).select("_id").session(session);
+        const ids = documents.map(document => document._id as Types.ObjectId);
+        await cascadeSoftDelete(model, ids, deletedAt, actor, session);
+        await model.updateMany(
+            {
+                _id: { $in: ids },
+                deletedAt: null
             },
-            $inc: { version: 1 }
-        }
-    );
+            {
+                $set: {
+                    deletedAt,
+                    updatedAt: new Date(),
+                    deletedBy: actor
+                },
+                $inc: { version: 1 }
+            },
+            { session }
+        );
+    });
+}
+
+AuditSchema.statics.softDelete = async function(filter: any, deletedBy?: Types.ObjectId): Promise<void> {
+    await softDeleteMany(this, filter, deletedBy);
 };
 AuditSchema.statics.bulkSoftDelete = async function(filter: any, deletedBy?: Types.ObjectId): Promise<void> {
-    await this.updateMany(
-        {
-            ...filter,
-            deletedAt: null
-        },
-        {
-            $set: {
-                deletedAt: new Date(),
-                updatedAt: new Date(),
-                deletedBy: deletedBy || null
-            },
-            $inc: { version: 1 }
-        }
-    );
+    await softDeleteMany(this, filter, deletedBy);
 };
 AuditSchema.statics.bulkRestore = async function(filter: any, restoredBy?: Types.ObjectId): Promise<void> {
-    await this.updateMany(
-        {
-            ...filter,
-            deletedAt: { $ne: null }
-        },
-        {
-            $set: {
-                deletedAt: null,
-                deletedBy: null,
-                restoredBy: restoredBy || null,
-                updatedAt: new Date()
-            },
-            $inc: { version: 1 }
+    const actor = restoredBy || getCurrentActor() || null;
+    await runInTransaction(null, async (session) => {
+        const documents = await this.find({ ...filter, deletedAt: { $ne: null } })
+            .select("_id deletedAt")
+            .setOptions({ includeDeleted: true })
+            .session(session);
+        // Every document brings back what was cascaded together with it, i.e. what shares its deletedAt
+        for (let document of documents) {
+            await cascadeRestore(this, [document._id as Types.ObjectId], document.deletedAt, actor, session);
         }
-    );
+        await this.updateMany(
+            {
+                _id: { $in: documents.map(document => document._id) }
+            },
+            {
+                $set: {
+                    deletedAt: null,
+                    deletedBy: null,
+                    restoredBy: actor,
+                    updatedBy: actor,
+                    updatedAt: new Date()
+                },
+                $inc: { version: 1 }
+            },
+            { session }
+        );
+    });
 };
 
+// Fields to $set with the actor of the current request context; empty when there is no actor
+function actorFields(...fields: string[]): Record<string, Types.ObjectId> {
+    const actor = getCurrentActor();
+    const result: Record<string, Types.ObjectId> = {};
+    if (actor) {
+        for (let field of fields) {
+            result[field] = actor;
+        }
+    }
+    return result;
+}
+
 AuditSchema.pre('save', function (next) {
     const modifiedPaths = this.modifiedPaths();
+    const actor = getCurrentActor();
     
     // Prevent saving already deleted documents (unless we're restoring)
     if (this.deletedAt && !modifiedPaths.includes("deletedAt")) {
@@ -235,11 +308,24 @@ AuditSchema.pre('save', function (next) {
     // Set creation timestamp only on new documents
     if (this.isNew) {
         this.createdAt = new Date();
+        if (!this.createdBy && actor) {
+            this.createdBy = actor;
+        }
     }
 
     // Always update the updatedAt timestamp
     this.updatedAt = new Date();
 
+    // Fill the actor fields the caller did not set explicitly
+    if (actor) {
+        if (!modifiedPaths.includes("updatedBy")) {
+            this.updatedBy = actor;
+        }
+        if (this.deletedAt && modifiedPaths.includes("deletedAt") && !this.deletedBy) {
+            this.deletedBy = actor;
+        }
+    }
+
     // Increment version only if document is modified (excluding audit fields)
     if (this.isModified()) {
         const auditFields = ['createdAt', 'createdBy', 'updatedAt', 'updatedBy', 'deletedAt', 'deletedBy', 'restoredBy', 'version'];
@@ -279,8 +365,15 @@ AuditSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate'], function (next)
     if (update && typeof update === 'object' && update.deletedAt) {
         throw new CustomServerException("mongoDb", "update");
     }
+    const expectedVersion = (this.getOptions() as ConcurrencyOptions).expectedVersion;
+    if (expectedVersion !== undefined) {
+        this.where({ version: expectedVersion });
+    }
     if (!update.$set) update.$set = {};
     update.$set.updatedAt = new Date();
+    if (!update.updatedBy && !update.$set.updatedBy) {
+        Object.assign(update.$set, actorFields("updatedBy"));
+    }
     update.$inc = update.$inc || {};
     (update.$inc as any).version = 1;
     this.setUpdate(update);
@@ -291,16 +384,41 @@ AuditSchema.pre('replaceOne', function (next) {
     if (replacement && typeof replacement === 'object' && replacement.deletedAt) {
         throw new CustomServerException("mongoDb", "replace");
     }
+    const expectedVersion = (this.getOptions() as ConcurrencyOptions).expectedVersion;
+    if (expectedVersion !== undefined) {
+        this.where({ version: expectedVersion });
+        replacement.version = expectedVersion;
+    }
     replacement.updatedAt = new Date();
+    replacement.updatedBy = replacement.updatedBy || getCurrentActor();
     replacement.version = ((replacement.version as number) || 0) + 1;
     this.setUpdate(replacement);
     next();
 });
+AuditSchema.post(['updateOne', 'findOneAndUpdate', 'replaceOne'], async function (result: any) {
+    const expectedVersion = (this.getOptions() as ConcurrencyOptions).expectedVersion;
+    if (expectedVersion === undefined) {
+        return;
+    }
+    const matched = (this as Query<any, any> & { op?: string }).op === 'findOneAndUpdate' ? !!result : result?.matchedCount > 0;
+    if (matched) {
+        return;
+    }
+    // Tell a stale version apart from a document that does not exist at all
+    const filter = { ...this.getQuery() };
+    delete filter.version;
+    const exists = await (this.model as Model<any>).exists(filter);
+    if (exists) {
+        throw new CustomServerException("mongoDb", "versionConflict", undefined, HttpStatus.CONFLICT);
+    }
+    throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+});
 AuditSchema.pre('findOneAndDelete', {query: true, document: false}, async function (next) {
     await (this.model as Model<any>).updateOne(this.getQuery(), {
         $set: {
             deletedAt: new Date(),
-            updatedAt: new Date()
+            updatedAt: new Date(),
+            ...actorFields("deletedBy", "updatedBy")
         },
         $inc: { version: 1 }
     });
@@ -311,7 +429,8 @@ AuditSchema.pre(['deleteOne', 'deleteMany'], {query: true, document: false}, asy
     await (this.model as Model<any>).updateMany(this.getQuery(), {
         $set: {
             deletedAt: new Date(),
-            updatedAt: new Date()
+            updatedAt: new Date(),
+            ...actorFields("deletedBy", "updatedBy")
         },
         $inc: { version: 1 }
     });
@@ -322,6 +441,37 @@ AuditSchema.pre(['deleteOne', 'deleteMany'], {query: true, document: false}, asy
 
     next();
 });
+AuditSchema.pre('insertMany', function (next, docs: any) {
+    const actor = getCurrentActor();
+    if (actor) {
+        for (let doc of (Array.isArray(docs) ? docs : [docs])) {
+            doc.createdBy = doc.createdBy || actor;
+            doc.updatedBy = doc.updatedBy || actor;
+        }
+    }
+    next();
+});
+AuditSchema.pre('bulkWrite', function (next, ops: any[]) {
+    const actor = getCurrentActor();
+    if (actor) {
+        for (let op of ops) {
+            if (op.insertOne) {
+                op.insertOne.document.createdBy = op.insertOne.document.createdBy || actor;
+                op.insertOne.document.updatedBy = op.insertOne.document.updatedBy || actor;
+            }
+            for (let updateOp of [op.updateOne, op.updateMany]) {
+                if (updateOp && !Array.isArray(updateOp.update)) {
+                    updateOp.update.$set = updateOp.update.$set || {};
+                    updateOp.update.$set.updatedBy = updateOp.update.$set.updatedBy || updateOp.update.updatedBy || actor;
+                }
+            }
+            if (op.replaceOne) {
+                op.replaceOne.replacement.updatedBy = op.replaceOne.replacement.updatedBy || actor;
+            }
+        }
+    }
+    next();
+});
 AuditSchema.pre('countDocuments', function (next) {
     const query = this as Query<any, any> & { options?: SoftDeleteOptions };
     if (!query.options?.includeDeleted) {
@@ -1,13 +1,23 @@
-import {Schema} from "mongoose";
+import {Schema, SchemaOptions} from "mongoose";
 import {AuditSchema} from "@dbModels/shared/Audit";
+import {tenantPlugin} from "@dbModels/shared/Tenant";
+
+export type BaseSchemaOptions = SchemaOptions & {
+    // scopes the documents to the storefront of the request context, see Tenant.ts
+    tenantScoped?: boolean
+}
 
 /**
  * BaseSchema wraps Mongoose.Schema and automatically applies
  * audit + soft-delete logic to all models that extend it.
  */
 export class BaseSchema<T> extends Schema<T> {
-    constructor(definition: Record<string, any>, options?: any) {
-        super(definition, options);
+    constructor(definition: Record<string, any>, options?: BaseSchemaOptions) {
+        const {tenantScoped, ...schemaOptions} = options || {};
+        super(definition, schemaOptions as any);
         this.add(AuditSchema);
+        if (tenantScoped) {
+            this.plugin(tenantPlugin);
+        }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,137 @@
+import mongoose, {ClientSession, Model, Schema, Types} from "mongoose";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus} from "@_shared/types/general.types";
+
+// Declared on a referencing path, tells what happens to the referencing documents when the referenced one is soft-deleted:
+//     product: { type: Schema.Types.ObjectId, ref: 'Product', onDelete: 'cascade' }
+//     tags: [{ type: Schema.Types.ObjectId, ref: 'Tag', onDelete: 'setNull' }]
+export type CascadeAction = "cascade" | "restrict" | "setNull";
+
+declare module "mongoose" {
+    interface SchemaTypeOptions<T, EnforcedDocType = any, THydratedDocumentType = HydratedDocument<EnforcedDocType>> {
+        onDelete?: CascadeAction;
+    }
+}
+
+type CascadeRule = {
+    model: Model<any>,
+    path: string,
+    isArray: boolean,
+    // set when the reference lives in the subdocuments of a document array, e.g. "options" for "options.attribute"
+    arrayPath?: string,
+    onDelete: CascadeAction
+}
+
+function collectRules(model: Model<any>, schema: Schema, modelName: string, rules: CascadeRule[], arrayPath?: string): void {
+    schema.eachPath((path, schemaType: any) => {
+        const fullPath = arrayPath ? `${arrayPath}.${path}` : path;
+        if (schemaType.schema && schemaType.instance === "Array") {
+            collectRules(model, schemaType.schema, modelName, rules, fullPath);
+            return;
+        }
+        const isArray = !!schemaType.caster && schemaType.instance === "Array";
+        const options = isArray ? schemaType.caster.options : schemaType.options;
+        if (options?.ref === modelName && options?.onDelete) {
+            rules.push({ model, path: fullPath, isArray, arrayPath, onDelete: options.onDelete });
+        }
+    });
+}
+
+function getReferencingRules(modelName: string): CascadeRule[] {
+    const rules: CascadeRule[] = [];
+    for (let name of mongoose.modelNames()) {
+        const model = mongoose.model(name);
+        collectRules(model, model.schema, modelName, rules);
+    }
+    return rules;
+}
+
+// "setNull" on a reference inside a document array drops the whole subdocument
+function buildSetNullUpdate(rule: CascadeRule, ids: Types.ObjectId[]): Record<string, any> {
+    if (rule.arrayPath) {
+        return { $pull: { [rule.arrayPath]: { [rule.path.slice(rule.arrayPath.length + 1)]: { $in: ids } } } };
+    }
+    if (rule.isArray) {
+        return { $pull: { [rule.path]: { $in: ids } } };
+    }
+    return { $set: { [rule.path]: null } };
+}
+
+/**
+ * Runs the work inside a transaction, joining the given session's transaction when there already is one.
+ */
+export async function runInTransaction<T>(session: ClientSession | null | undefined, work: (session: ClientSession) => Promise<T>): Promise<T> {
+    if (session?.inTransaction()) {
+        return work(session);
+    }
+    const ownSession = await mongoose.startSession();
+    try {
+        let result: T;
+        await ownSession.withTransaction(async () => {
+            result = await work(ownSession);
+        });
+        return result;
+    } finally {
+        await ownSession.endSession();
+    }
+}
+
+/**
+ * Applies the onDelete rules of every model referencing the deleted documents. Cascaded documents get the same
+ * deletedAt as their parent, which is how cascadeRestore later finds exactly the documents deleted together.
+ */
+export async function cascadeSoftDelete(model: Model<any>, ids: Types.ObjectId[], deletedAt: Date, actor: Types.ObjectId | null, session: ClientSession): Promise<void> {
+    if (ids.length === 0) {
+        return;
+    }
+    for (let rule of getReferencingRules(model.modelName)) {
+        const filter = { [rule.path]: { $in: ids } };
+        if (rule.onDelete === "restrict") {
+            const dependant = await rule.model.exists(filter).session(session);
+            if (dependant) {
+                throw new CustomServerException("mongoDb", "restrictedDelete", undefined, HttpStatus.CONFLICT);
+            }
+        }
+        else if (rule.onDelete === "setNull") {
+            await rule.model.updateMany({ ...filter, deletedAt: null }, buildSetNullUpdate(rule, ids), { session });
+        }
+        else if (rule.onDelete === "cascade") {
+            const children = await rule.model.find(filter).select("_id").session(session);
+            const childIds = children.map(child => child._id as Types.ObjectId);
+            if (childIds.length === 0) {
+                continue;
+            }
+            await cascadeSoftDelete(rule.model, childIds, deletedAt, actor, session);
+            await rule.model.updateMany({ _id: { $in: childIds }, deletedAt: null }, {
+                $set: { deletedAt, deletedBy: actor, updatedBy: actor }
+            }, { session });
+        }
+    }
+}
+
+/**
+ * Restores the documents cascadeSoftDelete deleted together with the given ones.
+ * "setNull" references are not brought back, the previous value is not kept.
+ */
+export async function cascadeRestore(model: Model<any>, ids: Types.ObjectId[], deletedAt: Date, actor: Types.ObjectId | null, session: ClientSession): Promise<void> {
+    if (ids.length === 0) {
+        return;
+    }
+    for (let rule of getReferencingRules(model.modelName)) {
+        if (rule.onDelete !== "cascade") {
+            continue;
+        }
+        const children = await rule.model.find({ [rule.path]: { $in: ids }, deletedAt })
+            .select("_id")
+            .setOptions({ includeDeleted: true })
+            .session(session);
+        const childIds = children.map(child => child._id as Types.ObjectId);
+        if (childIds.length === 0) {
+            continue;
+        }
+        await cascadeRestore(rule.model, childIds, deletedAt, actor, session);
+        await rule.model.updateMany({ _id: { $in: childIds } }, {
+            $set: { deletedAt: null, deletedBy: null, restoredBy: actor, updatedBy: actor }
+        }, { session });
+    }
+}
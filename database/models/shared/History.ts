@@ -0,0 +1,218 @@
+import mongoose, {ClientSession, Model, Query, Schema, Types} from "mongoose";
+import {getCurrentActor} from "@_shared/context/requestContext";
+import {requireTenant} from "@dbModels/shared/Tenant";
+
+export type HistoryOperation = "create" | "update" | "replace" | "softDelete" | "restore";
+
+export interface HistoryChange {
+    path: string;
+    oldValue?: any;
+    newValue?: any;
+}
+
+export interface HistoryEntry {
+    documentId: Types.ObjectId;
+    operation: HistoryOperation;
+    version: number;
+    changes: HistoryChange[];
+    actor?: Types.ObjectId;
+    tenantId?: string;
+    timestamp: Date;
+}
+
+export interface HistoryStatics {
+    getHistory(documentId: Types.ObjectId | string): Promise<HistoryEntry[]>;
+    reconstructVersion(documentId: Types.ObjectId | string, version: number): Promise<Record<string, any> | null>;
+}
+
+// Bookkeeping fields that change on every write and would only add noise to the diff; the tenant is kept on the entry itself
+const IGNORED_PATHS = ["_id", "__v", "id", "version", "updatedAt", "updatedBy", "createdAt", "createdBy", "isDeleted", "auditInfo", "tenantId"];
+
+const HistorySchema = new Schema<HistoryEntry>({
+    documentId: { type: Schema.Types.ObjectId, required: true },
+    operation: { type: String, required: true, enum: ["create", "update", "replace", "softDelete", "restore"] },
+    version: { type: Number, required: true },
+    changes: [{
+        _id: false,
+        path: { type: String, required: true },
+        oldValue: { type: Schema.Types.Mixed },
+        newValue: { type: Schema.Types.Mixed }
+    }],
+    actor: { type: Schema.Types.ObjectId, ref: 'User' },
+    tenantId: { type: String },
+    timestamp: { type: Date, required: true, default: Date.now }
+}, { versionKey: false });
+HistorySchema.index({ documentId: 1, version: 1, timestamp: 1 });
+HistorySchema.index({ tenantId: 1, documentId: 1, version: 1 });
+
+// Per query snapshots of the matched documents, taken before an update runs
+const querySnapshots = new WeakMap<Query<any, any>, any[]>();
+
+export function getHistoryModel(model: Model<any>): Model<HistoryEntry> {
+    const historyModelName = `${model.modelName}_history`;
+    return (mongoose.models[historyModelName] as Model<HistoryEntry>)
+        || mongoose.model<HistoryEntry>(historyModelName, HistorySchema, `${model.collection.collectionName}_history`);
+}
+
+// ============ Diff ===================================================
+function isPlainObject(value: any): boolean {
+    return !!value && typeof value === "object" && !Array.isArray(value) && !(value instanceof Date) && !(value instanceof Types.ObjectId)
+        && value.constructor?.name === "Object";
+}
+
+function flatten(value: Record<string, any>, prefix: string = "", result: Record<string, any> = {}): Record<string, any> {
+    for (let key of Object.keys(value || {})) {
+        const path = prefix ? `${prefix}.${key}` : key;
+        if (!prefix && IGNORED_PATHS.includes(key)) {
+            continue;
+        }
+        if (isPlainObject(value[key]) && Object.keys(value[key]).length > 0) {
+            flatten(value[key], path, result);
+        }
+        else {
+            result[path] = value[key];
+        }
+    }
+    return result;
+}
+
+function normalize(value: any): string {
+    return JSON.stringify(value === undefined ? null : value);
+}
+
+export function diffDocuments(before: Record<string, any> | null, after: Record<string, any> | null): HistoryChange[] {
+    const oldValues = flatten(before || {});
+    const newValues = flatten(after || {});
+    const changes: HistoryChange[] = [];
+    for (let path of Array.from(new Set([...Object.keys(oldValues), ...Object.keys(newValues)])).sort()) {
+        if (normalize(oldValues[path]) !== normalize(newValues[path])) {
+            changes.push({ path, oldValue: oldValues[path], newValue: newValues[path] });
+        }
+    }
+    return changes;
+}
+
+function detectOperation(changes: HistoryChange[], fallback: HistoryOperation): HistoryOperation {
+    const deletion = changes.find(change => change.path === "deletedAt");
+    if (deletion) {
+        return deletion.newValue ? "softDelete" : "restore";
+    }
+    return fallback;
+}
+
+// Writes through the session of the change, so a rolled back transaction takes its history entries with it
+async function writeHistory(model: Model<any>, before: any, after: any, fallback: HistoryOperation, session?: ClientSession | null): Promise<void> {
+    const changes = diffDocuments(before, after);
+    if (changes.length === 0) {
+        return;
+    }
+    await getHistoryModel(model).create([{
+        documentId: after?._id || before?._id,
+        operation: detectOperation(changes, fallback),
+        version: after?.version ?? before?.version ?? 0,
+        changes,
+        actor: getCurrentActor() || after?.updatedBy,
+        tenantId: after?.tenantId ?? before?.tenantId,
+        timestamp: new Date()
+    }], { session: session || undefined });
+}
+
+function setPath(target: Record<string, any>, path: string, value: any): void {
+    const keys = path.split(".");
+    let current = target;
+    for (let key of keys.slice(0, -1)) {
+        if (!isPlainObject(current[key])) {
+            current[key] = {};
+        }
+        current = current[key];
+    }
+    if (value === undefined) {
+        delete current[keys[keys.length - 1]];
+    }
+    else {
+        current[keys[keys.length - 1]] = value;
+    }
+}
+
+// The history of tenant-scoped models is only read for the tenant of the request context, like the models themselves
+function historyFilter(model: Model<any>, documentId: Types.ObjectId | string): Record<string, any> {
+    if (!model.schema.path("tenantId")) {
+        return { documentId };
+    }
+    return { documentId, tenantId: requireTenant() };
+}
+
+// ============ Plugin =================================================
+/**
+ * Opt-in plugin for BaseSchema models, writing the changed paths of every save, update, replace,
+ * soft delete and restore into the "<collection>_history" collection. Entries of tenant-scoped models keep the tenant
+ * of their document and are only read back for that tenant.
+ *
+ *     ProductSchema.plugin(historyPlugin);
+ *     await ProductModel.getHistory(productId);
+ *     await ProductModel.reconstructVersion(productId, 3);
+ */
+export function historyPlugin(schema: Schema): void {
+
+    schema.post('init', function () {
+        this.$locals.historySnapshot = this.toObject({ depopulate: true, virtuals: false });
+    });
+    schema.pre('save', function (next) {
+        this.$locals.historyIsNew = this.isNew;
+        next();
+    });
+    schema.post('save', async function () {
+        const after = this.toObject({ depopulate: true, virtuals: false });
+        const before = this.$locals.historyIsNew ? null : this.$locals.historySnapshot;
+        await writeHistory(this.constructor as Model<any>, before, after, this.$locals.historyIsNew ? "create" : "update", this.$session());
+        this.$locals.historySnapshot = after;
+    });
+
+    schema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], async function () {
+        const update = this as Query<any, any> & { op?: string };
+        let query = (this.model as Model<any>).find(this.getQuery()).setOptions({ includeDeleted: true }).session(this.getOptions().session || null).lean();
+        if (update.op !== 'updateMany') {
+            query = query.limit(1);
+        }
+        querySnapshots.set(this, await query);
+    });
+    schema.post(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], async function () {
+        const snapshots = querySnapshots.get(this) || [];
+        querySnapshots.delete(this);
+        if (snapshots.length === 0) {
+            return;
+        }
+        const update = this as Query<any, any> & { op?: string };
+        const model = this.model as Model<any>;
+        const session = this.getOptions().session || null;
+        const updated = await model.find({ _id: { $in: snapshots.map(snapshot => snapshot._id) } }).setOptions({ includeDeleted: true }).session(session).lean();
+        for (let after of updated as any[]) {
+            const before = snapshots.find(snapshot => snapshot._id.equals(after._id));
+            await writeHistory(model, before, after, update.op === 'replaceOne' ? "replace" : "update", session);
+        }
+    });
+
+    schema.statics.getHistory = async function (documentId: Types.ObjectId | string): Promise<HistoryEntry[]> {
+        return getHistoryModel(this).find(historyFilter(this, documentId)).sort({ version: 1, timestamp: 1 }).lean();
+    };
+
+    // Walks the timeline backwards from the current document, undoing every change made after the requested version
+    schema.statics.reconstructVersion = async function (documentId: Types.ObjectId | string, version: number): Promise<Record<string, any> | null> {
+        const current = await this.findById(documentId).setOptions({ includeDeleted: true }).lean();
+        if (!current || version > current.version) {
+            return null;
+        }
+        const entries = await getHistoryModel(this)
+            .find({ ...historyFilter(this, documentId), version: { $gt: version } })
+            .sort({ version: -1, timestamp: -1 })
+            .lean();
+        const document: Record<string, any> = { ...current };
+        for (let entry of entries) {
+            for (let change of entry.changes) {
+                setPath(document, change.path, change.oldValue);
+            }
+        }
+        document.version = version;
+        return document;
+    };
+}
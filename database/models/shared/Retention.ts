@@ -0,0 +1,29 @@
+import {Model} from "mongoose";
+import {RETENTION} from "@environment";
+
+export type RetentionPolicy = {
+    model: Model<any>,
+    // soft-deleted documents older than this are hard-deleted by the purge job
+    retentionDays: number
+}
+
+const retentionPolicies: Record<string, RetentionPolicy> = {};
+
+/**
+ * Registers a soft-deleting model for the purge job and the trash API.
+ * Without retentionDays the model uses RETENTION.DEFAULT_DAYS.
+ */
+export function registerRetentionPolicy(model: Model<any>, retentionDays?: number): void {
+    retentionPolicies[model.modelName] = {
+        model,
+        retentionDays: retentionDays ?? RETENTION.DEFAULT_DAYS
+    };
+}
+
+export function getRetentionPolicy(modelName: string): RetentionPolicy | undefined {
+    return retentionPolicies[modelName];
+}
+
+export function getRetentionPolicies(): RetentionPolicy[] {
+    return Object.values(retentionPolicies);
+}
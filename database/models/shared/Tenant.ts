@@ -0,0 +1,118 @@
+import {Query, Schema, UpdateQuery} from "mongoose";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus} from "@_shared/types/general.types";
+import {getCurrentTenant} from "@_shared/context/requestContext";
+
+// Lets maintenance code (e.g. reports across storefronts) query every tenant on purpose
+export interface TenantOptions {
+    allTenants?: boolean;
+}
+
+export interface Tenant {
+    tenantId: string;
+}
+
+// The tenant of the request context, for tenant-bound storage outside Mongo (e.g. Redis keys)
+export function requireTenant(): string {
+    const tenantId = getCurrentTenant();
+    if (!tenantId) {
+        throw new CustomServerException("tenant", "missingTenant", undefined, HttpStatus.BAD_REQUEST);
+    }
+    return tenantId;
+}
+
+// The tenant to scope the query to, undefined when the query asked for every tenant
+function getQueryTenant(query: Query<any, any>): string | undefined {
+    if ((query.getOptions() as TenantOptions).allTenants) {
+        return undefined;
+    }
+    return requireTenant();
+}
+
+function assertSameTenant(tenantId: string, value: any): void {
+    if (value !== undefined && value !== null && value !== tenantId) {
+        throw new CustomServerException("tenant", "crossTenant", undefined, HttpStatus.FORBIDDEN);
+    }
+}
+
+/**
+ * Added by BaseSchema for models created with { tenantScoped: true }. Every document belongs to the tenant
+ * of the request context it was created in, and every query only sees the documents of the current tenant.
+ * Running a query without a tenant in the context is an error, unless the query sets { allTenants: true }.
+ * Unique indexes of tenant-scoped models should start with tenantId.
+ */
+export function tenantPlugin(schema: Schema): void {
+    schema.add({
+        tenantId: { type: String, required: true, immutable: true, index: true }
+    });
+
+    schema.pre('save', function (next) {
+        const tenantId = requireTenant();
+        if (this.isNew && !this.get("tenantId")) {
+            this.set("tenantId", tenantId);
+        }
+        assertSameTenant(tenantId, this.get("tenantId"));
+        next();
+    });
+    schema.pre('insertMany', function (next, docs: any) {
+        const tenantId = requireTenant();
+        for (let doc of (Array.isArray(docs) ? docs : [docs])) {
+            assertSameTenant(tenantId, doc.tenantId);
+            doc.tenantId = tenantId;
+        }
+        next();
+    });
+    schema.pre('bulkWrite', function (next, ops: any[]) {
+        const tenantId = requireTenant();
+        for (let op of ops) {
+            if (op.insertOne) {
+                assertSameTenant(tenantId, op.insertOne.document.tenantId);
+                op.insertOne.document.tenantId = tenantId;
+            }
+            for (let filteredOp of [op.updateOne, op.updateMany, op.replaceOne, op.deleteOne, op.deleteMany]) {
+                if (filteredOp) {
+                    filteredOp.filter = { ...filteredOp.filter, tenantId };
+                }
+            }
+            if (op.replaceOne) {
+                assertSameTenant(tenantId, op.replaceOne.replacement.tenantId);
+                op.replaceOne.replacement.tenantId = tenantId;
+            }
+        }
+        next();
+    });
+    schema.pre('aggregate', function (next) {
+        if (!(this.options as TenantOptions)?.allTenants) {
+            this.pipeline().unshift({ $match: { tenantId: requireTenant() } });
+        }
+        next();
+    });
+    schema.pre(['find', 'findOne', 'countDocuments', 'distinct', 'deleteOne', 'deleteMany', 'findOneAndDelete'], function (next) {
+        const tenantId = getQueryTenant(this as Query<any, any>);
+        if (tenantId) {
+            this.where({ tenantId });
+        }
+        next();
+    });
+    schema.pre(['updateOne', 'updateMany', 'findOneAndUpdate'], function (next) {
+        const tenantId = getQueryTenant(this);
+        if (tenantId) {
+            this.where({ tenantId });
+            const update = this.getUpdate() as UpdateQuery<any> || {};
+            assertSameTenant(tenantId, update.tenantId);
+            assertSameTenant(tenantId, update.$set?.tenantId);
+        }
+        next();
+    });
+    schema.pre(['replaceOne', 'findOneAndReplace'], function (next) {
+        const tenantId = getQueryTenant(this as Query<any, any>);
+        if (tenantId) {
+            this.where({ tenantId });
+            const replacement = this.getUpdate() as any || {};
+            assertSameTenant(tenantId, replacement.tenantId);
+            replacement.tenantId = tenantId;
+            this.setUpdate(replacement);
+        }
+        next();
+    });
+}
@@ -0,0 +1,51 @@
+import mongoose, {Model} from "mongoose";
+import {Audit} from "@dbModels/shared/Audit";
+import {BaseSchema} from "@dbModels/shared/Base";
+import {registerRetentionPolicy} from "@dbModels/shared/Retention";
+import {RoleName} from "@dbModels/auth/Role";
+import {PhoneNumber} from "@_shared/types/general.types";
+
+export interface User extends Audit {
+    email: string;
+    password: string;
+    firstName: string;
+    lastName: string;
+    phoneNumber: PhoneNumber;
+    birthDate: Date;
+    timezone: string;
+    languageCode?: string;
+    roles: string[];
+    // customer segments, e.g. "vip", that promotions can be limited to
+    segments: string[];
+}
+
+export const UserSchema = new BaseSchema<User>({
+    email: {
+        type: String,
+        required: true,
+        lowercase: true,
+        trim: true
+    },
+    // bcrypt hash, never returned unless explicitly selected
+    password: {
+        type: String,
+        required: true,
+        select: false
+    },
+    firstName: { type: String, required: true, trim: true },
+    lastName: { type: String, required: true, trim: true },
+    phoneNumber: {
+        prefix: { type: String, required: true },
+        number: { type: String, required: true }
+    },
+    birthDate: { type: Date, required: true },
+    timezone: { type: String, required: true },
+    languageCode: { type: String },
+    roles: { type: [String], default: [RoleName.CUSTOMER] },
+    segments: { type: [String], default: [] }
+});
+
+UserSchema.index({ email: 1 }, { unique: true });
+
+export const UserModel: Model<User> = mongoose.model<User>("User", UserSchema);
+registerRetentionPolicy(UserModel);
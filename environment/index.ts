@@ -33,16 +33,120 @@ export const CONSTANTS = {
     SUPPORTED_LANGUAGES: process.env.SUPPORTED_LANGUAGES.split(",")
 };
 
+export const SECURITY = {
+    PASSWORD_SALT_ROUNDS: parseInt(process.env.SECURITY_PASSWORD_SALT_ROUNDS),
+    ACCESS_TOKEN_SECRET: process.env.SECURITY_ACCESS_TOKEN_SECRET,
+    ACCESS_TOKEN_TTL: parseInt(process.env.SECURITY_ACCESS_TOKEN_TTL),
+    REFRESH_TOKEN_SECRET: process.env.SECURITY_REFRESH_TOKEN_SECRET,
+    REFRESH_TOKEN_TTL: parseInt(process.env.SECURITY_REFRESH_TOKEN_TTL),
+    PERMISSION_CACHE_TTL: parseInt(process.env.SECURITY_PERMISSION_CACHE_TTL),
+};
+
+export const RETENTION = {
+    DEFAULT_DAYS: parseInt(process.env.RETENTION_DEFAULT_DAYS),
+    PURGE_INTERVAL: parseInt(process.env.RETENTION_PURGE_INTERVAL),
+    PURGE_BATCH_SIZE: parseInt(process.env.RETENTION_PURGE_BATCH_SIZE),
+};
+
+export const TENANCY = {
+    // storefronts served by this backend, as sent in the X-Tenant-ID header
+    TENANTS: process.env.TENANCY_TENANTS.split(",").map(tenant => tenant.trim()),
+};
+
+export const CATALOG = {
+    CURRENCIES: process.env.CATALOG_CURRENCIES.split(",").map(currency => currency.trim()),
+};
+
+export const CART = {
+    // seconds an anonymous cart lives after its last change
+    ANONYMOUS_TTL: parseInt(process.env.CART_ANONYMOUS_TTL),
+    MAX_QUANTITY: parseInt(process.env.CART_MAX_QUANTITY),
+    MAX_LINES: parseInt(process.env.CART_MAX_LINES),
+};
+
+export const INVENTORY = {
+    // seconds a reservation holds its stock before it expires
+    HOLD_TTL: parseInt(process.env.INVENTORY_HOLD_TTL),
+    EXPIRY_INTERVAL: parseInt(process.env.INVENTORY_EXPIRY_INTERVAL),
+};
+
+export const SAGA = {
+    // ms a saga waits for the reply of a step before it compensates
+    STEP_TIMEOUT: parseInt(process.env.SAGA_STEP_TIMEOUT),
+    TIMEOUT_INTERVAL: parseInt(process.env.SAGA_TIMEOUT_INTERVAL),
+};
+
+export const PAYMENT = {
+    // provider used for new payments, by name
+    PROVIDER: process.env.PAYMENT_PROVIDER,
+    FAKE_WEBHOOK_SECRET: process.env.PAYMENT_FAKE_WEBHOOK_SECRET,
+    // seconds a handled webhook event id is remembered, so redeliveries within it are dropped
+    WEBHOOK_TTL: parseInt(process.env.PAYMENT_WEBHOOK_TTL),
+};
+
+export const OUTBOX = {
+    RELAY_INTERVAL: parseInt(process.env.OUTBOX_RELAY_INTERVAL),
+    BATCH_SIZE: parseInt(process.env.OUTBOX_BATCH_SIZE),
+    // ms before the first retry of a failed publish, doubling up to RETRY_MAX_DELAY
+    RETRY_BASE_DELAY: parseInt(process.env.OUTBOX_RETRY_BASE_DELAY),
+    RETRY_MAX_DELAY: parseInt(process.env.OUTBOX_RETRY_MAX_DELAY),
+    // seconds dispatched events are kept before Mongo removes them
+    DISPATCHED_TTL: parseInt(process.env.OUTBOX_DISPATCHED_TTL),
+};
+
+export const EVENT_LEDGER = {
+    // seconds a processed event is remembered in Redis
+    CACHE_TTL: parseInt(process.env.EVENT_LEDGER_CACHE_TTL),
+    // seconds it is remembered in Mongo, for duplicates arriving after Redis forgot it
+    RETENTION: parseInt(process.env.EVENT_LEDGER_RETENTION),
+    // seconds an event being handled is held for its handler, in case the handler dies without releasing it
+    CLAIM_TTL: parseInt(process.env.EVENT_LEDGER_CLAIM_TTL)
+};
+
 export const KAFKA = {
     BROKERS: process.env.KAFKA_BROKERS?.split(','),
     CLIENT_ID: process.env.KAFKA_CLIENT_ID,
     GROUP_ID: process.env.KAFKA_GROUP_ID,
     RETRY_CAP: parseInt(process.env.KAFKA_RETRY_CAP),
     CONNECTION_TIMER: parseInt(process.env.KAFKA_CONNECTION_TIMER),
+    // partitions a handler works on at once, unless it asks for another number
+    CONSUMER_CONCURRENCY: parseInt(process.env.KAFKA_CONSUMER_CONCURRENCY),
+    // topics are created with these at startup unless their declaration says otherwise; retention in ms
+    TOPIC_PARTITIONS: parseInt(process.env.KAFKA_TOPIC_PARTITIONS),
+    TOPIC_REPLICATION_FACTOR: parseInt(process.env.KAFKA_TOPIC_REPLICATION_FACTOR),
+    TOPIC_RETENTION: parseInt(process.env.KAFKA_TOPIC_RETENTION),
+    // logs the topics startup would create instead of creating them
+    PROVISION_DRY_RUN: process.env.KAFKA_PROVISION_DRY_RUN?.toLowerCase().trim() === "true",
     TOPICS: {
         USER_SIGNUP_REQUEST: 'user.signup.request',
         USER_SIGNUP_COMPLETED: 'user.signup.completed',
-        USER_SIGNUP_FAILED: 'user.signup.failed'
+        USER_SIGNUP_FAILED: 'user.signup.failed',
+        CATALOG_PRODUCT_CREATED: 'catalog.product.created',
+        CATALOG_PRODUCT_UPDATED: 'catalog.product.updated',
+        CATALOG_PRODUCT_DELETED: 'catalog.product.deleted',
+        ORDER_CREATED: 'order.created',
+        ORDER_PAID: 'order.paid',
+        ORDER_FULFILLED: 'order.fulfilled',
+        ORDER_SHIPPED: 'order.shipped',
+        ORDER_DELIVERED: 'order.delivered',
+        ORDER_CANCELLED: 'order.cancelled',
+        ORDER_REFUNDED: 'order.refunded',
+        INVENTORY_LOW_STOCK: 'inventory.low_stock',
+        SAGA_REPLY: 'saga.reply',
+        CHECKOUT_RESERVE_INVENTORY: 'checkout.inventory.reserve',
+        CHECKOUT_RELEASE_INVENTORY: 'checkout.inventory.release',
+        CHECKOUT_AUTHORIZE_PAYMENT: 'checkout.payment.authorize',
+        CHECKOUT_VOID_PAYMENT: 'checkout.payment.void',
+        CHECKOUT_CONFIRM_ORDER: 'checkout.order.confirm',
+        PAYMENT_AUTHORIZED: 'payment.authorized',
+        PAYMENT_DECLINED: 'payment.declined',
+        PAYMENT_CAPTURED: 'payment.captured',
+        PAYMENT_VOIDED: 'payment.voided',
+        PAYMENT_REFUNDED: 'payment.refunded',
+        // messages of the topics above that could not be decoded, with their origin in the headers
+        EVENTS_INVALID: 'events.invalid',
+        // messages whose handler kept failing after every retry, with the handler, reason and stack in the headers
+        DEAD_LETTER: 'events.dead_letter'
     }
 };
 
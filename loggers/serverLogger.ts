@@ -30,7 +30,17 @@ export enum Logger {
     SERVER = "SERVER",
     DATABASE = "DATABASE",
     KAFKA = "KAFKA",
-    REDIS = "REDIS"
+    REDIS = "REDIS",
+    USER = "USER",
+    AUTH = "AUTH",
+    JOB = "JOB",
+    CATALOG = "CATALOG",
+    CART = "CART",
+    ORDER = "ORDER",
+    INVENTORY = "INVENTORY",
+    SAGA = "SAGA",
+    CHECKOUT = "CHECKOUT",
+    PAYMENT = "PAYMENT"
 }
 
 type logType = {
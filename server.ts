@@ -2,13 +2,35 @@ import cors from 'cors';
 import mongoose from "mongoose";
 import {formatBytes} from "@utilities";
 import {json, urlencoded} from "body-parser";
-import express, {Application} from 'express';
-import {CONSTANTS, SERVER} from "@environment";
+import express, {Application, Request} from 'express';
+import {CONSTANTS, SERVER, TENANCY} from "@environment";
 import {getLogger, Logger} from "@loggers/serverLogger";
 import {connectToMongoDb} from "@connections/connectToMongoDb";
 import {connectToKafka} from "@connections/connectToKafka";
+import {runKafkaConsumers} from "@_shared/kafka/consumers";
+import {provisionKafkaTopics} from "@_shared/kafka/provisioning";
 import {connectToRedis} from "@connections/connectToRedis";
 import {CustomServerException, customServerExceptionToCustomClientException} from "@_shared/exceptions/exceptions";
+import {getRegisteredLanguages, validateLanguageRegistry} from "@_shared/exceptions/languageRegistry";
+import {requestContext} from "@_shared/context/requestContext";
+import {resolveTenant} from "@_shared/middlewares/resolveTenant";
+import {resolveUserLanguage} from "@_shared/middlewares/authenticate";
+import {negotiateLanguage, setUserLanguageResolver} from "@_shared/middlewares/languageNegotiation";
+import {registerSignupConsumer} from "@services/user/signup.consumer";
+import {seedDefaultRoles} from "@services/auth/authorization.service";
+import {startPurgeScheduler} from "@services/retention/retention.service";
+import {setStockResolver} from "@services/cart/cart.service";
+import {getAvailableStock, startReservationExpiryScheduler} from "@services/inventory/inventory.service";
+import {registerInventoryConsumer} from "@services/inventory/inventory.consumer";
+import {registerOrderConsumer} from "@services/order/order.consumer";
+import {registerSagaConsumer, startSagaTimeoutScheduler} from "@services/saga/saga.service";
+import {registerCheckoutSaga} from "@services/checkout/checkout.service";
+import {startOutboxRelay} from "@services/outbox/outbox.service";
+import {registerPaymentConsumer} from "@services/payment/payment.consumer";
+import {registerPaymentProviders} from "@services/payment/payment.providers";
+import {registerDeadLetterConsumer} from "@services/kafka/deadLetter.service";
+import {handleOnce} from "@services/kafka/eventLedger.service";
+import {setEventLedger} from "@_shared/kafka/events";
 
 // dotenv.config();
 export const application = express();
@@ -40,6 +62,25 @@ function updateUnhandledRejection(parentAction: number) {
     logger.finish();
     logger.updateSpace(-1);
 }
+function validateLanguageFiles(parentAction: number) {
+    let logger = getLogger("serverLanguageFilesValidator", Logger.SERVER, Logger.SERVER, parentAction);
+    logger.updateSpace();
+    logger.start();
+    logger.debug(`Validating language files: [${getRegisteredLanguages().join(", ")}]`);
+    const differences = validateLanguageRegistry();
+    if (differences.length > 0) {
+        logger.updateSpace();
+        for (let difference of differences) {
+            logger.err(difference);
+        }
+        logger.updateSpace(-1);
+        logger.fail(`Language files are not consistent: [${differences.length}] difference(s). Exiting...`);
+        process.exit(1);
+    }
+    logger.debug("Finished validating language files");
+    logger.finish();
+    logger.updateSpace(-1);
+}
 function updateCorsSettings(parentAction: number) {
     let logger = getLogger("serverCorsSettingsUpdater", Logger.SERVER, Logger.SERVER, parentAction);
     logger.updateSpace();
@@ -49,7 +90,7 @@ function updateCorsSettings(parentAction: number) {
         origin: SERVER.ALLOWED_ORIGINS?.split(','),
         credentials: true,
         methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-        allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID'],
+        allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID', 'X-Tenant-ID', 'X-Cart-ID'],
     }
     application.use(cors(corsSettings));
     logger.updateSpace();
@@ -92,12 +133,43 @@ function updateBodyParser(parentAction: number) {
     logger.updateSpace();
     logger.start();
     logger.debug("Setting up body parser");
-    application.use(json({ limit: '10mb' }));
+    application.use(json({ limit: '10mb', verify: (req: Request, res, buffer: Buffer) => { req.rawBody = buffer; } }));
     application.use(urlencoded({ extended: true, limit: '10mb' }));
     logger.debug("Finished setting up body parser");
     logger.finish();
     logger.updateSpace(-1);
 }
+function updateRequestContext(parentAction: number) {
+    let logger = getLogger("serverRequestContextUpdater", Logger.SERVER, Logger.SERVER, parentAction);
+    logger.updateSpace();
+    logger.start();
+    logger.debug("Setting up request context");
+    application.use(requestContext());
+    logger.debug("Finished setting up request context");
+    logger.finish();
+    logger.updateSpace(-1);
+}
+function updateTenantResolution(parentAction: number) {
+    let logger = getLogger("serverTenantResolutionUpdater", Logger.SERVER, Logger.SERVER, parentAction);
+    logger.updateSpace();
+    logger.start();
+    logger.debug(`Setting up tenant resolution. Tenants: [${TENANCY.TENANTS.join(", ")}]`);
+    application.use(resolveTenant());
+    logger.debug("Finished setting up tenant resolution");
+    logger.finish();
+    logger.updateSpace(-1);
+}
+function updateLanguageNegotiation(parentAction: number) {
+    let logger = getLogger("serverLanguageNegotiationUpdater", Logger.SERVER, Logger.SERVER, parentAction);
+    logger.updateSpace();
+    logger.start();
+    logger.debug(`Setting up language negotiation. Supported: [${CONSTANTS.SUPPORTED_LANGUAGES.join(", ")}], default: [${CONSTANTS.DEFAULT_LANGUAGE}]`);
+    setUserLanguageResolver(resolveUserLanguage);
+    application.use(negotiateLanguage());
+    logger.debug("Finished setting up language negotiation");
+    logger.finish();
+    logger.updateSpace(-1);
+}
 function updateServerConfiguration(parentAction: number){
     let logger = getLogger("serverConfigurationUpdater", Logger.SERVER, Logger.SERVER, parentAction);
     let now = new Date();
@@ -211,12 +283,69 @@ function mountApiEndpoints(parentAction: number) {
     // logger.debug('Registering ${routerName} routes: "/${endpointName}"');
     // application.use('${path}', require('${filePath}').router);
 
+    logger.debug(`Registering auth routes: "/api/${SERVER.API_VERSION}/auth"`);
+    application.use(`/api/${SERVER.API_VERSION}/auth`, require('@services/auth/auth.router').router);
+    logger.debug(`Registering roles routes: "/api/${SERVER.API_VERSION}/roles"`);
+    application.use(`/api/${SERVER.API_VERSION}/roles`, require('@services/auth/roles.router').router);
+    logger.debug(`Registering trash routes: "/api/${SERVER.API_VERSION}/trash"`);
+    application.use(`/api/${SERVER.API_VERSION}/trash`, require('@services/retention/trash.router').router);
+    logger.debug(`Registering catalog routes: "/api/${SERVER.API_VERSION}/catalog"`);
+    application.use(`/api/${SERVER.API_VERSION}/catalog`, require('@services/catalog/catalog.router').router);
+    logger.debug(`Registering cart routes: "/api/${SERVER.API_VERSION}/cart"`);
+    application.use(`/api/${SERVER.API_VERSION}/cart`, require('@services/cart/cart.router').router);
+    logger.debug(`Registering order routes: "/api/${SERVER.API_VERSION}/orders"`);
+    application.use(`/api/${SERVER.API_VERSION}/orders`, require('@services/order/order.router').router);
+    logger.debug(`Registering inventory routes: "/api/${SERVER.API_VERSION}/inventory"`);
+    application.use(`/api/${SERVER.API_VERSION}/inventory`, require('@services/inventory/inventory.router').router);
+    logger.debug(`Registering checkout routes: "/api/${SERVER.API_VERSION}/checkout"`);
+    application.use(`/api/${SERVER.API_VERSION}/checkout`, require('@services/checkout/checkout.router').router);
+    logger.debug(`Registering saga routes: "/api/${SERVER.API_VERSION}/sagas"`);
+    application.use(`/api/${SERVER.API_VERSION}/sagas`, require('@services/saga/saga.router').router);
+    logger.debug(`Registering payment routes: "/api/${SERVER.API_VERSION}/payments"`);
+    application.use(`/api/${SERVER.API_VERSION}/payments`, require('@services/payment/payment.router').router);
+    logger.debug(`Registering pricing routes: "/api/${SERVER.API_VERSION}/pricing"`);
+    application.use(`/api/${SERVER.API_VERSION}/pricing`, require('@services/pricing/pricing.router').router);
+    logger.debug(`Registering dead letter routes: "/api/${SERVER.API_VERSION}/dead-letters"`);
+    application.use(`/api/${SERVER.API_VERSION}/dead-letters`, require('@services/kafka/deadLetter.router').router);
+    logger.debug(`Registering consumer routes: "/api/${SERVER.API_VERSION}/consumers"`);
+    application.use(`/api/${SERVER.API_VERSION}/consumers`, require('@services/kafka/consumer.router').router);
+
     logger.updateSpace(-1);
     logger.debug(`Finished mounting API endpoints`);
     logger.finish();
     logger.updateSpace(-1);
 
 }
+async function startKafkaConsumers(parentAction: number) {
+    let logger = getLogger("serverKafkaConsumersStarter", Logger.SERVER, Logger.SERVER, parentAction);
+    logger.updateSpace();
+    logger.start();
+    logger.debug(`Registering Kafka consumers`);
+    logger.updateSpace();
+
+    logger.debug('Setting up processed event ledger');
+    setEventLedger(handleOnce);
+
+    logger.debug('Registering user signup consumer');
+    registerSignupConsumer();
+    logger.debug('Registering saga reply consumer');
+    registerSagaConsumer();
+    logger.debug('Registering checkout saga participants');
+    registerCheckoutSaga();
+    registerInventoryConsumer();
+    registerOrderConsumer();
+    logger.debug('Registering payment consumer');
+    registerPaymentConsumer();
+    logger.debug('Registering dead letter consumer');
+    registerDeadLetterConsumer();
+
+    logger.updateSpace(-1);
+    logger.debug(`Finished registering Kafka consumers`);
+    await provisionKafkaTopics(logger.action);
+    await runKafkaConsumers(logger.action);
+    logger.finish();
+    logger.updateSpace(-1);
+}
 // ============================================================================
 
 // ============================================================================
@@ -235,6 +364,10 @@ logger.info("Setting up unhandledRejection handler");
 updateUnhandledRejection(logger.action);
 logger.info("Finished setting up unhandledRejection handler");
 
+logger.info("Validating language files");
+validateLanguageFiles(logger.action);
+logger.info("Finished validating language files");
+
 logger.info("Setting up CORS");
 updateCorsSettings(logger.action);
 logger.info("Finished setting up CORS");
@@ -247,6 +380,15 @@ logger.info("Setting up body parser");
 updateBodyParser(logger.action);
 logger.info("Finished setting up body parser");
 
+logger.info("Setting up request context");
+updateRequestContext(logger.action);
+updateTenantResolution(logger.action);
+logger.info("Finished setting up request context");
+
+logger.info("Setting up language negotiation");
+updateLanguageNegotiation(logger.action);
+logger.info("Finished setting up language negotiation");
+
 logger.debug("Setting up server configuration");
 updateServerConfiguration(logger.action);
 logger.debug("Finished setting up server configuration");
@@ -265,6 +407,35 @@ application.listen(SERVER.PORT, async () => {
     
     await connectToRedis("redis", logger.action);
 
+    logger.debug("Registering payment providers");
+    registerPaymentProviders();
+    logger.debug("Finished registering payment providers");
+
+    logger.debug("Seeding default roles");
+    await seedDefaultRoles(logger.action);
+    logger.debug("Finished seeding default roles");
+
+    logger.debug("Starting retention purge scheduler");
+    startPurgeScheduler(logger.action);
+    logger.debug("Finished starting retention purge scheduler");
+
+    logger.debug("Starting reservation expiry scheduler");
+    setStockResolver(getAvailableStock);
+    startReservationExpiryScheduler(logger.action);
+    logger.debug("Finished starting reservation expiry scheduler");
+
+    logger.debug("Starting saga timeout scheduler");
+    startSagaTimeoutScheduler(logger.action);
+    logger.debug("Finished starting saga timeout scheduler");
+
+    logger.debug("Starting outbox relay");
+    startOutboxRelay(logger.action);
+    logger.debug("Finished starting outbox relay");
+
+    logger.debug("Starting kafka consumers");
+    await startKafkaConsumers(logger.action);
+    logger.debug("Finished starting kafka consumers");
+
     logger.debug("Mounting api endpoints");
     mountApiEndpoints(logger.action);
     logger.debug("Finished mounting api endpoints");
@@ -0,0 +1,37 @@
+import {Router} from "express";
+import {HttpStatus} from "@_shared/types/general.types";
+import {field, object, rules} from "@_shared/exceptions/schema";
+import {validateRequest} from "@_shared/middlewares/validateRequest";
+import {getCurrentTenant} from "@_shared/context/requestContext";
+import {login, logout, refresh, verifyAccessToken} from "@services/auth/auth.service";
+import {CART_HEADER, mergeAnonymousCart} from "@services/cart/cart.service";
+
+const loginSchema = object({
+    email: field(rules.isEmail()),
+    password: field(rules.notEmpty())
+});
+
+const refreshTokenSchema = object({
+    refreshToken: field(rules.notEmpty())
+});
+
+export const router = Router();
+
+// A storefront login sending its anonymous cart (X-Cart-ID) gets that cart merged into the cart of the user
+router.post("/login", validateRequest({ body: loginSchema }), async (req, res) => {
+    const tokens = await login(req.body.email, req.body.password);
+    const cartId = req.headers[CART_HEADER] as string;
+    if (cartId && getCurrentTenant()) {
+        await mergeAnonymousCart(verifyAccessToken(tokens.accessToken).id, cartId);
+    }
+    res.status(HttpStatus.OK).json(tokens);
+});
+
+router.post("/refresh", validateRequest({ body: refreshTokenSchema }), async (req, res) => {
+    res.status(HttpStatus.OK).json(await refresh(req.body.refreshToken));
+});
+
+router.post("/logout", validateRequest({ body: refreshTokenSchema }), async (req, res) => {
+    await logout(req.body.refreshToken);
+    res.status(HttpStatus.NO_CONTENT).send();
+});
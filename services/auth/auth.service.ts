@@ -0,0 +1,117 @@
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+import {v4 as uuidv4} from "uuid";
+import {SECURITY} from "@environment";
+import {User, UserModel} from "@dbModels/user/User";
+import {getLogger, Logger} from "@loggers/serverLogger";
+import {buildRedisKey, deleteKey, getRedisClient} from "@connections/connectToRedis";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus} from "@_shared/types/general.types";
+import {AccessTokenPayload, AuthenticatedUser, AuthTokens, RefreshTokenPayload} from "@_shared/types/auth.types";
+
+// Atomically moves a refresh token family from the presented token to the next one.
+// Returns 1 when rotated, 0 when the family does not exist (expired or revoked)
+// and -1 when the presented token was already rotated, in which case the family is revoked.
+const ROTATE_FAMILY_SCRIPT = `
+local current = redis.call('HGET', KEYS[1], 'current')
+if not current then
+    return 0
+end
+if current ~= ARGV[1] then
+    redis.call('DEL', KEYS[1])
+    return -1
+end
+redis.call('HSET', KEYS[1], 'current', ARGV[2])
+redis.call('EXPIRE', KEYS[1], tonumber(ARGV[3]))
+return 1
+`;
+
+function familyKey(familyId: string): string {
+    return buildRedisKey("auth", "refreshFamily", familyId);
+}
+
+function authException(extraMessageCode: string): CustomServerException {
+    return new CustomServerException("auth", extraMessageCode, undefined, HttpStatus.UNAUTHORIZED);
+}
+
+function signTokens(user: Pick<User, "email" | "languageCode"> & { _id: any }, familyId: string, tokenId: string): AuthTokens {
+    const accessPayload: AccessTokenPayload = { sub: user._id.toString(), email: user.email, lng: user.languageCode };
+    const refreshPayload: Omit<RefreshTokenPayload, "jti"> = { sub: user._id.toString(), fam: familyId };
+    return {
+        accessToken: jwt.sign(accessPayload, SECURITY.ACCESS_TOKEN_SECRET, { expiresIn: SECURITY.ACCESS_TOKEN_TTL }),
+        refreshToken: jwt.sign(refreshPayload, SECURITY.REFRESH_TOKEN_SECRET, { expiresIn: SECURITY.REFRESH_TOKEN_TTL, jwtid: tokenId }),
+        expiresIn: SECURITY.ACCESS_TOKEN_TTL
+    };
+}
+
+function verifyRefreshToken(refreshToken: string): RefreshTokenPayload {
+    try {
+        return jwt.verify(refreshToken, SECURITY.REFRESH_TOKEN_SECRET) as RefreshTokenPayload;
+    } catch (error) {
+        throw authException("invalidToken");
+    }
+}
+
+export function verifyAccessToken(accessToken: string): AuthenticatedUser {
+    try {
+        const payload = jwt.verify(accessToken, SECURITY.ACCESS_TOKEN_SECRET) as AccessTokenPayload;
+        return { id: payload.sub, email: payload.email, languageCode: payload.lng };
+    } catch (error) {
+        throw authException("invalidToken");
+    }
+}
+
+/**
+ * Checks the credentials and starts a new refresh token family.
+ */
+export async function login(email: string, password: string): Promise<AuthTokens> {
+    const user = await UserModel.findOne({ email: email.trim().toLowerCase() }).select("+password");
+    if (!user || !(await bcrypt.compare(password, user.password))) {
+        throw authException("invalidCredentials");
+    }
+
+    const familyId = uuidv4();
+    const tokenId = uuidv4();
+    const client = getRedisClient();
+    await client.hSet(familyKey(familyId), { userId: user._id.toString(), current: tokenId });
+    await client.expire(familyKey(familyId), SECURITY.REFRESH_TOKEN_TTL);
+
+    return signTokens(user, familyId, tokenId);
+}
+
+/**
+ * Rotates the refresh token. Presenting a token that was already rotated revokes its whole family,
+ * since it means the token was stolen and used by someone else.
+ */
+export async function refresh(refreshToken: string): Promise<AuthTokens> {
+    const payload = verifyRefreshToken(refreshToken);
+    const nextTokenId = uuidv4();
+    const result = await getRedisClient().eval(ROTATE_FAMILY_SCRIPT, {
+        keys: [familyKey(payload.fam)],
+        arguments: [payload.jti, nextTokenId, SECURITY.REFRESH_TOKEN_TTL.toString()]
+    });
+
+    if (result === -1) {
+        let logger = getLogger("authRefreshTokenReuse", Logger.AUTH, Logger.AUTH);
+        logger.warn(`Refresh token reuse detected, family revoked`, { userId: payload.sub, familyId: payload.fam });
+        throw authException("tokenReused");
+    }
+    if (result !== 1) {
+        throw authException("invalidToken");
+    }
+
+    const user = await UserModel.findById(payload.sub);
+    if (!user) {
+        await deleteKey(familyKey(payload.fam));
+        throw authException("invalidToken");
+    }
+    return signTokens(user, payload.fam, nextTokenId);
+}
+
+/**
+ * Revokes the refresh token family of the given token.
+ */
+export async function logout(refreshToken: string): Promise<void> {
+    const payload = verifyRefreshToken(refreshToken);
+    await deleteKey(familyKey(payload.fam));
+}
@@ -0,0 +1,116 @@
+import {Types} from "mongoose";
+import {SECURITY} from "@environment";
+import {UserModel} from "@dbModels/user/User";
+import {RoleModel, RoleName} from "@dbModels/auth/Role";
+import {getLogger, Logger} from "@loggers/serverLogger";
+import {buildRedisKey, deleteKey, getKey, getRedisClient, setKey} from "@connections/connectToRedis";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus} from "@_shared/types/general.types";
+
+export const DEFAULT_ROLES: Record<string, { description: string, permissions: string[] }> = {
+    [RoleName.ADMIN]: {
+        description: "Full access to every resource",
+        permissions: ["*"]
+    },
+    [RoleName.MERCHANT]: {
+        description: "Manages the catalog, inventory and orders of the store",
+        permissions: ["catalog:*", "inventory:*", "orders:read", "orders:update", "orders:refund", "pricing:*"]
+    },
+    [RoleName.SUPPORT]: {
+        description: "Helps customers with their accounts and orders",
+        permissions: ["users:read", "orders:read", "orders:cancel", "orders:refund", "sagas:read"]
+    },
+    [RoleName.CUSTOMER]: {
+        description: "Shops in the store",
+        permissions: ["cart:*", "orders:create", "orders:read:own"]
+    }
+};
+
+// Bumped whenever a role changes, so every cached permission list becomes stale at once
+const GENERATION_KEY = buildRedisKey("auth", "permissionsGeneration");
+
+async function userPermissionsKey(userId: string): Promise<string> {
+    const generation = (await getKey(GENERATION_KEY)) || "0";
+    return buildRedisKey("auth", "permissions", generation, userId);
+}
+
+/**
+ * Returns true when one of the granted permissions covers the required one.
+ * "*" covers everything, "orders:*" covers "orders:refund" and "orders:read:own",
+ * and "orders:read" covers "orders:read:own" since the orders of the user are among all orders.
+ */
+export function hasPermission(granted: string[], required: string): boolean {
+    return granted.some(permission => {
+        if (permission === "*" || permission === required || `${permission}:own` === required) {
+            return true;
+        }
+        return permission.endsWith(":*") && required.startsWith(permission.slice(0, -1));
+    });
+}
+
+/**
+ * Resolves the permissions of a user from their roles, cached in Redis for SECURITY.PERMISSION_CACHE_TTL seconds.
+ */
+export async function getUserPermissions(userId: string): Promise<string[]> {
+    const key = await userPermissionsKey(userId);
+    const cached = await getKey(key);
+    if (cached) {
+        return JSON.parse(cached);
+    }
+
+    const user = await UserModel.findById(userId).select("roles");
+    const roles = user ? await RoleModel.find({ name: { $in: user.roles } }) : [];
+    const permissions = Array.from(new Set(roles.flatMap(role => role.permissions)));
+
+    await setKey(key, JSON.stringify(permissions), SECURITY.PERMISSION_CACHE_TTL);
+    return permissions;
+}
+
+export async function getUserRoles(userId: string): Promise<string[]> {
+    const user = await UserModel.findById(userId).select("roles");
+    return user?.roles || [];
+}
+
+export async function invalidateUserPermissions(userId: string): Promise<void> {
+    await deleteKey(await userPermissionsKey(userId));
+}
+
+export async function invalidatePermissionCache(): Promise<void> {
+    await getRedisClient().incr(GENERATION_KEY);
+}
+
+export async function assignRoles(userId: string, roles: string[], actor?: Types.ObjectId): Promise<void> {
+    const existing = await RoleModel.countDocuments({ name: { $in: roles } });
+    if (existing !== new Set(roles).size) {
+        throw new CustomServerException("authorization", "unknownRole", undefined, HttpStatus.BAD_REQUEST);
+    }
+    await UserModel.updateOne({ _id: userId }, { $set: { roles, updatedBy: actor } });
+    await invalidateUserPermissions(userId);
+}
+
+export async function setRolePermissions(name: string, permissions: string[], actor?: Types.ObjectId): Promise<void> {
+    const result = await RoleModel.updateOne({ name }, { $set: { permissions, updatedBy: actor } });
+    if (result.matchedCount === 0) {
+        throw new CustomServerException("authorization", "unknownRole", undefined, HttpStatus.NOT_FOUND);
+    }
+    await invalidatePermissionCache();
+}
+
+/**
+ * Creates the default roles that do not exist yet; existing roles are left as they are.
+ */
+export async function seedDefaultRoles(parentAction?: number): Promise<void> {
+    let logger = getLogger("seedingDefaultRoles", Logger.AUTH, Logger.AUTH, parentAction);
+    logger.updateSpace();
+    logger.start();
+    for (let name of Object.keys(DEFAULT_ROLES)) {
+        const exists = await RoleModel.exists({ name });
+        if (!exists) {
+            await RoleModel.create({ name, ...DEFAULT_ROLES[name] });
+            logger.debug(`Created role: [${name}]`);
+        }
+    }
+    await invalidatePermissionCache();
+    logger.finish();
+    logger.updateSpace(-1);
+}
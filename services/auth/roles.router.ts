@@ -0,0 +1,32 @@
+import {Router} from "express";
+import {RoleModel} from "@dbModels/auth/Role";
+import {HttpStatus} from "@_shared/types/general.types";
+import {arrayOf, field, object, rules} from "@_shared/exceptions/schema";
+import {validateRequest} from "@_shared/middlewares/validateRequest";
+import {authenticate, getRequestActor} from "@_shared/middlewares/authenticate";
+import {requirePermission} from "@_shared/middlewares/authorize";
+import {assignRoles, setRolePermissions} from "@services/auth/authorization.service";
+
+export const router = Router();
+
+router.use(authenticate());
+
+router.get("/", requirePermission("roles:read"), async (req, res) => {
+    res.status(HttpStatus.OK).json(await RoleModel.find().sort({ name: 1 }));
+});
+
+router.put("/:name/permissions", requirePermission("roles:update"), validateRequest({
+    params: object({ name: field(rules.notEmpty()) }),
+    body: object({ permissions: arrayOf(field(rules.notEmpty())) })
+}), async (req, res) => {
+    await setRolePermissions(req.params.name as string, req.body.permissions, getRequestActor(req));
+    res.status(HttpStatus.NO_CONTENT).send();
+});
+
+router.put("/users/:userId", requirePermission("roles:assign"), validateRequest({
+    params: object({ userId: field(rules.isObjectId()) }),
+    body: object({ roles: arrayOf(field(rules.notEmpty()), rules.arrayNotEmpty()) })
+}), async (req, res) => {
+    await assignRoles(req.params.userId as string, req.body.roles, getRequestActor(req));
+    res.status(HttpStatus.NO_CONTENT).send();
+});
@@ -0,0 +1,65 @@
+import {NextFunction, Request, Response, Router} from "express";
+import {v4 as uuidv4, validate as isUuid} from "uuid";
+import {HttpStatus} from "@_shared/types/general.types";
+import {CartOwner} from "@_shared/types/cart.types";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {field, object, optional, rules} from "@_shared/exceptions/schema";
+import {validateRequest} from "@_shared/middlewares/validateRequest";
+import {authenticate, getBearerToken} from "@_shared/middlewares/authenticate";
+import {addItem, addItemSchema, CART_HEADER, clearCart, getCart, quantitySchema, removeItem, setItemQuantity} from "@services/cart/cart.service";
+
+const variantParams = object({ variantId: field(rules.isObjectId()) });
+
+// Logged-in users work on their own cart, everyone else on the anonymous cart named by the X-Cart-ID header.
+// With createIfMissing a request without a cart starts a new anonymous one, returned in the X-Cart-ID response header.
+function resolveCartOwner(createIfMissing: boolean) {
+    const authenticateUser = authenticate();
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (getBearerToken(req)) {
+            return authenticateUser(req, res, (error?: any) => {
+                if (error) {
+                    return next(error);
+                }
+                res.locals.cartOwner = { userId: req.user.id } as CartOwner;
+                next();
+            });
+        }
+        let cartId = req.headers[CART_HEADER] as string;
+        if (!cartId || !isUuid(cartId)) {
+            if (!createIfMissing) {
+                return next(new CustomServerException("cart", "missingCart", undefined, HttpStatus.BAD_REQUEST));
+            }
+            cartId = uuidv4();
+        }
+        res.setHeader("X-Cart-ID", cartId);
+        res.locals.cartOwner = { cartId } as CartOwner;
+        next();
+    };
+}
+
+export const router = Router();
+
+// "?coupons=CODE1,CODE2" prices the cart with the coupons, without redeeming them
+router.get("/", validateRequest({
+    query: object({ coupons: optional(field(rules.stringLength(1, 500))) })
+}), resolveCartOwner(true), async (req, res) => {
+    const couponCodes = req.query.coupons ? (req.query.coupons as string).split(",") : [];
+    res.status(HttpStatus.OK).json(await getCart(res.locals.cartOwner, couponCodes));
+});
+
+router.post("/items", validateRequest({ body: addItemSchema }), resolveCartOwner(true), async (req, res) => {
+    res.status(HttpStatus.OK).json(await addItem(res.locals.cartOwner, req.body));
+});
+
+router.put("/items/:variantId", validateRequest({ params: variantParams, body: quantitySchema }), resolveCartOwner(false), async (req, res) => {
+    res.status(HttpStatus.OK).json(await setItemQuantity(res.locals.cartOwner, req.params.variantId as string, req.body.quantity));
+});
+
+router.delete("/items/:variantId", validateRequest({ params: variantParams }), resolveCartOwner(false), async (req, res) => {
+    res.status(HttpStatus.OK).json(await removeItem(res.locals.cartOwner, req.params.variantId as string));
+});
+
+router.delete("/", resolveCartOwner(false), async (req, res) => {
+    await clearCart(res.locals.cartOwner);
+    res.status(HttpStatus.NO_CONTENT).send();
+});
@@ -0,0 +1,262 @@
+import {Types} from "mongoose";
+import {CART} from "@environment";
+import {getLogger, Logger} from "@loggers/serverLogger";
+import {buildRedisKey, deleteHash, deleteKey, expireKey, getAllHash, setHash} from "@connections/connectToRedis";
+import {CartModel} from "@dbModels/cart/Cart";
+import {ProductModel, ProductStatus} from "@dbModels/catalog/Product";
+import {ProductVariantModel} from "@dbModels/catalog/ProductVariant";
+import {requireTenant} from "@dbModels/shared/Tenant";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {assertSchema, field, object, rules} from "@_shared/exceptions/schema";
+import {HttpStatus, Money} from "@_shared/types/general.types";
+import {CartLine, CartOwner, CartView, PricedCartLine, StockResolver} from "@_shared/types/cart.types";
+import {priceItems} from "@services/pricing/pricing.service";
+
+// Names the anonymous cart of a request
+export const CART_HEADER = "x-cart-id";
+
+const quantityRules = () => [rules.isInteger(), rules.greaterThanOrEqual(1), rules.lessThanOrEqual(CART.MAX_QUANTITY)];
+
+export const addItemSchema = object({
+    variantId: field(rules.isObjectId()),
+    quantity: field(...quantityRules())
+});
+
+export const quantitySchema = object({
+    quantity: field(...quantityRules())
+});
+
+const lineCountSchema = object({
+    lines: field(rules.lessThanOrEqual(CART.MAX_LINES))
+});
+
+let stockResolver: StockResolver | null = null;
+
+/**
+ * Registers the lookup of the available stock used to flag "outOfStock" lines.
+ * Without one, every line counts as in stock.
+ */
+export function setStockResolver(resolver: StockResolver | null): void {
+    stockResolver = resolver;
+}
+
+function anonymousCartKey(cartId: string): string {
+    return buildRedisKey("cart", requireTenant(), cartId);
+}
+
+function lineNotFound(): CustomServerException {
+    return new CustomServerException("cart", "lineNotFound", undefined, HttpStatus.NOT_FOUND);
+}
+
+// ============ Storage ================================================
+// Anonymous carts are a Redis hash of variantId -> {"quantity", "addedAt"}; user carts are a Cart document
+async function getUserCart(userId: string) {
+    const cart = await CartModel.findOne({ user: userId });
+    if (cart) {
+        return cart;
+    }
+    try {
+        return await CartModel.create({ user: userId, items: [] });
+    } catch (error) {
+        // a concurrent request created it first
+        if (error?.code === 11000) {
+            return CartModel.findOne({ user: userId });
+        }
+        throw error;
+    }
+}
+
+async function readLines(owner: CartOwner): Promise<CartLine[]> {
+    if (owner.userId) {
+        const cart = await CartModel.findOne({ user: owner.userId }).lean();
+        return (cart?.items || []).map(item => ({ variantId: item.variant.toString(), quantity: item.quantity, addedAt: item.addedAt }));
+    }
+    if (!owner.cartId) {
+        return [];
+    }
+    const hash = await getAllHash(anonymousCartKey(owner.cartId));
+    return Object.entries(hash)
+        .map(([variantId, value]) => {
+            const { quantity, addedAt } = JSON.parse(value);
+            return { variantId, quantity, addedAt: new Date(addedAt) };
+        })
+        .sort((first, second) => first.addedAt.getTime() - second.addedAt.getTime());
+}
+
+async function writeLine(owner: CartOwner, line: CartLine): Promise<void> {
+    if (owner.userId) {
+        const cart = await getUserCart(owner.userId);
+        const item = cart.items.find(candidate => candidate.variant.toString() === line.variantId);
+        if (item) {
+            item.quantity = line.quantity;
+        }
+        else {
+            cart.items.push({ variant: new Types.ObjectId(line.variantId), quantity: line.quantity, addedAt: line.addedAt });
+        }
+        await cart.save();
+        return;
+    }
+    const key = anonymousCartKey(owner.cartId);
+    await setHash(key, line.variantId, JSON.stringify({ quantity: line.quantity, addedAt: line.addedAt }));
+    await expireKey(key, CART.ANONYMOUS_TTL);
+}
+
+async function removeLine(owner: CartOwner, variantId: string): Promise<boolean> {
+    if (owner.userId) {
+        const result = await CartModel.updateOne({ user: owner.userId }, { $pull: { items: { variant: new Types.ObjectId(variantId) } } });
+        return result.modifiedCount > 0;
+    }
+    return (await deleteHash(anonymousCartKey(owner.cartId), variantId)) > 0;
+}
+
+// ============ Pricing ================================================
+/**
+ * Prices the lines with the current catalog prices. Lines whose variant was deleted or whose product is not active
+ * are flagged "unavailable", lines asking for more than the available stock "outOfStock"; flagged lines are left out of the subtotals.
+ */
+async function priceLines(lines: CartLine[]): Promise<{ lines: PricedCartLine[], subtotals: Money[] }> {
+    const variants = await ProductVariantModel.find({ _id: { $in: lines.map(line => new Types.ObjectId(line.variantId)) } }).lean();
+    const products = await ProductModel.find({ _id: { $in: variants.map(variant => variant.product) }, status: ProductStatus.ACTIVE }).lean();
+    const stock = stockResolver && lines.length > 0 ? await stockResolver(lines.map(line => line.variantId)) : {};
+
+    const subtotals: Record<string, number> = {};
+    const pricedLines = lines.map((line): PricedCartLine => {
+        const variant = variants.find(candidate => candidate._id.toString() === line.variantId);
+        const product = variant && products.find(candidate => candidate._id.equals(variant.product));
+        if (!variant || !product) {
+            return { ...line, flags: ["unavailable"] };
+        }
+        const pricedLine: PricedCartLine = {
+            ...line,
+            productId: product._id.toString(),
+            sku: variant.sku,
+            name: product.name,
+            options: variant.options.map(option => ({ attribute: option.attribute.toString(), value: option.value })),
+            unitPrice: { amount: variant.price.amount, currency: variant.price.currency },
+            lineTotal: { amount: variant.price.amount * line.quantity, currency: variant.price.currency },
+            available: stock[line.variantId],
+            flags: []
+        };
+        if (pricedLine.available !== undefined && pricedLine.available < line.quantity) {
+            pricedLine.flags.push("outOfStock");
+        }
+        if (pricedLine.flags.length === 0) {
+            subtotals[pricedLine.lineTotal.currency] = (subtotals[pricedLine.lineTotal.currency] || 0) + pricedLine.lineTotal.amount;
+        }
+        return pricedLine;
+    });
+
+    return {
+        lines: pricedLines,
+        subtotals: Object.entries(subtotals).map(([currency, amount]) => ({ amount, currency }))
+    };
+}
+
+// ============ Cart ===================================================
+/**
+ * The cart with its lines priced. Promotions and the coupon codes given are applied to the lines without flags;
+ * a coupon that cannot be used fails with a "coupon" validation error.
+ */
+export async function getCart(owner: CartOwner, couponCodes: string[] = []): Promise<CartView> {
+    const { lines, subtotals } = await priceLines(await readLines(owner));
+    const pricing = await priceItems(lines.filter(line => line.flags.length === 0).map(line => ({
+        variantId: line.variantId,
+        productId: line.productId,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice
+    })), { userId: owner.userId, couponCodes });
+    return {
+        cartId: owner.userId ? undefined : owner.cartId,
+        lines,
+        subtotals,
+        pricing,
+        hasIssues: lines.some(line => line.flags.length > 0)
+    };
+}
+
+/**
+ * Adds the quantity to the line of the variant, creating the line when the cart does not have it yet.
+ * Going over CART.MAX_QUANTITY per line or CART.MAX_LINES lines fails with a validation error.
+ */
+export async function addItem(owner: CartOwner, data: { variantId: string, quantity: number }): Promise<CartView> {
+    assertSchema(addItemSchema, data);
+    const variant = await ProductVariantModel.findById(data.variantId);
+    const product = variant && await ProductModel.exists({ _id: variant.product, status: ProductStatus.ACTIVE });
+    if (!product) {
+        throw new CustomServerException("cart", "unknownVariant", undefined, HttpStatus.UNPROCESSABLE_ENTITY);
+    }
+
+    const lines = await readLines(owner);
+    const existing = lines.find(line => line.variantId === data.variantId);
+    if (existing) {
+        assertSchema(quantitySchema, { quantity: existing.quantity + data.quantity });
+        await writeLine(owner, { ...existing, quantity: existing.quantity + data.quantity });
+    }
+    else {
+        assertSchema(lineCountSchema, { lines: lines.length + 1 });
+        await writeLine(owner, { variantId: data.variantId, quantity: data.quantity, addedAt: new Date() });
+    }
+    return getCart(owner);
+}
+
+export async function setItemQuantity(owner: CartOwner, variantId: string, quantity: number): Promise<CartView> {
+    assertSchema(quantitySchema, { quantity });
+    const existing = (await readLines(owner)).find(line => line.variantId === variantId);
+    if (!existing) {
+        throw lineNotFound();
+    }
+    await writeLine(owner, { ...existing, quantity });
+    return getCart(owner);
+}
+
+export async function removeItem(owner: CartOwner, variantId: string): Promise<CartView> {
+    if (!(await removeLine(owner, variantId))) {
+        throw lineNotFound();
+    }
+    return getCart(owner);
+}
+
+export async function clearCart(owner: CartOwner): Promise<void> {
+    if (owner.userId) {
+        await CartModel.updateOne({ user: owner.userId }, { $set: { items: [] } });
+        return;
+    }
+    await deleteKey(anonymousCartKey(owner.cartId));
+}
+
+/**
+ * Moves the anonymous cart into the cart of the user who just logged in. Quantities of the same variant add up,
+ * capped at CART.MAX_QUANTITY; lines beyond CART.MAX_LINES are dropped. The anonymous cart is deleted afterwards.
+ * Runs as part of the login, so a failure is logged instead of thrown.
+ */
+export async function mergeAnonymousCart(userId: string, cartId: string): Promise<void> {
+    let logger = getLogger("cartMerge", Logger.CART, Logger.CART);
+    logger.start();
+    try {
+        const anonymousLines = await readLines({ cartId });
+        if (anonymousLines.length === 0) {
+            logger.finish();
+            return;
+        }
+        const cart = await getUserCart(userId);
+        let dropped = 0;
+        for (let line of anonymousLines) {
+            const item = cart.items.find(candidate => candidate.variant.toString() === line.variantId);
+            if (item) {
+                item.quantity = Math.min(item.quantity + line.quantity, CART.MAX_QUANTITY);
+            }
+            else if (cart.items.length < CART.MAX_LINES) {
+                cart.items.push({ variant: new Types.ObjectId(line.variantId), quantity: line.quantity, addedAt: line.addedAt });
+            }
+            else {
+                dropped++;
+            }
+        }
+        await cart.save();
+        await deleteKey(anonymousCartKey(cartId));
+        logger.info(`Merged [${anonymousLines.length - dropped}] line(s) of anonymous cart [${cartId}] into the cart of user [${userId}]`, { dropped });
+        logger.finish();
+    } catch (error) {
+        logger.fail(`Could not merge anonymous cart [${cartId}] into the cart of user [${userId}]: ${error.message}`);
+    }
+}
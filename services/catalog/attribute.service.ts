@@ -0,0 +1,114 @@
+import {Types} from "mongoose";
+import {Attribute, AttributeModel, AttributeType} from "@dbModels/catalog/Attribute";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {arrayOf, assertSchema, field, object, optional, rules} from "@_shared/exceptions/schema";
+import {HttpStatus} from "@_shared/types/general.types";
+import {AttributeData} from "@_shared/types/catalog.types";
+
+export const attributeSchema = object({
+    code: field(rules.notEmpty(), rules.stringLength(1, 50)),
+    name: field(rules.notEmpty(), rules.stringLength(1, 100)),
+    type: field(rules.mustBe(Object.values(AttributeType))),
+    values: optional(arrayOf(field(rules.notEmpty()))),
+    unit: optional(field(rules.stringLength(1, 20)))
+});
+
+export const attributeUpdateSchema = object({
+    name: optional(field(rules.notEmpty(), rules.stringLength(1, 100))),
+    values: optional(arrayOf(field(rules.notEmpty()))),
+    unit: optional(field(rules.stringLength(1, 20)))
+});
+
+function rethrowDuplicate(error: any): never {
+    if (error?.code === 11000) {
+        throw new CustomServerException("catalog", "codeTaken", undefined, HttpStatus.CONFLICT);
+    }
+    throw error;
+}
+
+export async function getAttribute(attributeId: string) {
+    const attribute = await AttributeModel.findById(attributeId);
+    if (!attribute) {
+        throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+    }
+    return attribute;
+}
+
+export async function listAttributes() {
+    return AttributeModel.find().sort({ code: 1 });
+}
+
+export async function createAttribute(data: AttributeData) {
+    assertSchema(attributeSchema, data);
+    try {
+        return await AttributeModel.create({
+            code: data.code,
+            name: data.name,
+            type: data.type,
+            values: data.type === AttributeType.SELECT ? data.values || [] : [],
+            unit: data.unit
+        });
+    } catch (error) {
+        rethrowDuplicate(error);
+    }
+}
+
+// The code and type stay fixed once created, products already hold values of that type
+export async function updateAttribute(attributeId: string, data: Partial<AttributeData>, expectedVersion?: number) {
+    assertSchema(attributeUpdateSchema, data);
+    const update: Partial<Attribute> = {};
+    for (let key of ["name", "values", "unit"] as const) {
+        if (data[key] !== undefined) {
+            (update as any)[key] = data[key];
+        }
+    }
+    const attribute = await AttributeModel.findOneAndUpdate({ _id: attributeId }, { $set: update }, { new: true, expectedVersion });
+    if (!attribute) {
+        throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+    }
+    return attribute;
+}
+
+export async function deleteAttribute(attributeId: string): Promise<void> {
+    const attribute = await getAttribute(attributeId);
+    await attribute.softDelete();
+}
+
+/**
+ * Checks that the value fits the type of the attribute; "select" attributes only take one of their values.
+ */
+export function isValidAttributeValue(attribute: Attribute, value: any): boolean {
+    switch (attribute.type) {
+        case AttributeType.TEXT:
+            return typeof value === "string" && value.trim().length > 0;
+        case AttributeType.NUMBER:
+            return typeof value === "number" && Number.isFinite(value);
+        case AttributeType.BOOLEAN:
+            return typeof value === "boolean";
+        case AttributeType.SELECT:
+            return attribute.values.includes(value);
+        default:
+            return false;
+    }
+}
+
+/**
+ * Loads the referenced attributes and checks every value against its attribute.
+ * Throws "catalog"/"unknownAttribute" or "catalog"/"invalidAttributeValue".
+ */
+export async function assertAttributeValues(entries: { attribute: string, value: any }[]): Promise<void> {
+    if (entries.length === 0) {
+        return;
+    }
+    const ids = Array.from(new Set(entries.map(entry => entry.attribute)));
+    const attributes = await AttributeModel.find({ _id: { $in: ids.map(id => new Types.ObjectId(id)) } });
+    for (let entry of entries) {
+        const attribute = attributes.find(candidate => candidate._id.toString() === entry.attribute);
+        if (!attribute) {
+            throw new CustomServerException("catalog", "unknownAttribute", undefined, HttpStatus.UNPROCESSABLE_ENTITY);
+        }
+        if (!isValidAttributeValue(attribute, entry.value)) {
+            throw new CustomServerException("catalog", "invalidAttributeValue", undefined, HttpStatus.UNPROCESSABLE_ENTITY);
+        }
+    }
+}
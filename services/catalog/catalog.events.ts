@@ -0,0 +1,16 @@
+import {ProductEvent} from "@_shared/types/catalog.types";
+import {TopicDefinition} from "@_shared/types/kafka.types";
+import {EVENT_TOPICS} from "@_shared/kafka/topics";
+import {OutboxMessage, outboxEvent} from "@services/outbox/outbox.service";
+
+/**
+ * The EVENT_TOPICS.CATALOG_PRODUCT_* message for the event, keyed by the product id so all events of a product stay in order on one partition.
+ * It goes through the outbox, written in the transaction of the product change.
+ */
+export function productEventMessage(topic: TopicDefinition<ProductEvent>, event: ProductEvent): OutboxMessage {
+    return outboxEvent(topic, event.productId, event, { tenantId: event.tenantId });
+}
+
+export function isProductDeletion(topic: TopicDefinition<ProductEvent>): boolean {
+    return topic === EVENT_TOPICS.CATALOG_PRODUCT_DELETED;
+}
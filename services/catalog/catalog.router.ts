@@ -0,0 +1,153 @@
+import {NextFunction, Request, Response, Router} from "express";
+import {HttpStatus} from "@_shared/types/general.types";
+import {field, object, optional, rules} from "@_shared/exceptions/schema";
+import {ProductStatus} from "@dbModels/catalog/Product";
+import {validateRequest} from "@_shared/middlewares/validateRequest";
+import {authenticate} from "@_shared/middlewares/authenticate";
+import {requirePermission} from "@_shared/middlewares/authorize";
+import {getExpectedVersion, sendWithETag} from "@_shared/middlewares/concurrency";
+import {createAttribute, deleteAttribute, getAttribute, listAttributes, updateAttribute} from "@services/catalog/attribute.service";
+import {createCategory, deleteCategory, getCategory, getCategoryTree, updateCategory} from "@services/catalog/category.service";
+import {
+    createProduct,
+    createVariant,
+    deleteProduct,
+    deleteVariant,
+    getProduct,
+    getProductHistory,
+    getProductVersion,
+    listProducts,
+    updateProduct,
+    updateVariant
+} from "@services/catalog/product.service";
+
+const idParams = object({ id: field(rules.isObjectId()) });
+const variantParams = object({ id: field(rules.isObjectId()), variantId: field(rules.isObjectId()) });
+
+const canManage = (action: string) => [authenticate(), requirePermission(`catalog:${action}`)];
+
+// Reading the catalog is public and only shows active products.
+// "?includeHidden=true" also shows drafts and archived products, for users allowed to read the whole catalog.
+function hiddenProductsGuard() {
+    const [authenticateUser, requireCatalogRead] = canManage("read");
+    return (req: Request, res: Response, next: NextFunction) => {
+        res.locals.includeHidden = req.query.includeHidden === "true";
+        if (!res.locals.includeHidden) {
+            return next();
+        }
+        authenticateUser(req, res, (error?: any) => error ? next(error) : requireCatalogRead(req, res, next));
+    };
+}
+
+export const router = Router();
+
+// ============ Products ===============================================
+router.get("/products", hiddenProductsGuard(), validateRequest({
+    query: object({
+        category: optional(field(rules.isObjectId())),
+        status: optional(field(rules.mustBe(Object.values(ProductStatus)))),
+        includeHidden: optional(field(rules.mustBe(["true", "false"]))),
+        page: optional(field(rules.stringLength(1, 6))),
+        limit: optional(field(rules.stringLength(1, 3)))
+    })
+}), async (req, res) => {
+    res.status(HttpStatus.OK).json(await listProducts({
+        category: req.query.category as string,
+        status: req.query.status as string,
+        includeHidden: res.locals.includeHidden,
+        page: Math.max(parseInt(req.query.page as string) || 1, 1),
+        limit: Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100)
+    }));
+});
+
+router.get("/products/:id", hiddenProductsGuard(), validateRequest({ params: idParams }), async (req, res) => {
+    const { product, variants } = await getProduct(req.params.id as string, res.locals.includeHidden);
+    const body = { ...product.toJSON(), variants };
+    sendWithETag(req, res, body);
+});
+
+router.post("/products", ...canManage("create"), async (req, res) => {
+    sendWithETag(req, res, await createProduct(req.body), HttpStatus.CREATED);
+});
+
+router.patch("/products/:id", ...canManage("update"), validateRequest({ params: idParams }), async (req, res) => {
+    const productId = req.params.id as string;
+    sendWithETag(req, res, await updateProduct(productId, req.body, getExpectedVersion(req, productId)));
+});
+
+router.delete("/products/:id", ...canManage("delete"), validateRequest({ params: idParams }), async (req, res) => {
+    await deleteProduct(req.params.id as string);
+    res.status(HttpStatus.NO_CONTENT).send();
+});
+
+// ============ History ================================================
+router.get("/products/:id/history", ...canManage("read"), validateRequest({ params: idParams }), async (req, res) => {
+    res.status(HttpStatus.OK).json(await getProductHistory(req.params.id as string));
+});
+
+router.get("/products/:id/versions/:version", ...canManage("read"), validateRequest({
+    params: object({ id: field(rules.isObjectId()), version: field(rules.stringLength(1, 9)) })
+}), async (req, res) => {
+    res.status(HttpStatus.OK).json(await getProductVersion(req.params.id as string, Number(req.params.version)));
+});
+
+// ============ Variants ===============================================
+router.post("/products/:id/variants", ...canManage("update"), validateRequest({ params: idParams }), async (req, res) => {
+    sendWithETag(req, res, await createVariant(req.params.id as string, req.body), HttpStatus.CREATED);
+});
+
+router.patch("/products/:id/variants/:variantId", ...canManage("update"), validateRequest({ params: variantParams }), async (req, res) => {
+    const variantId = req.params.variantId as string;
+    sendWithETag(req, res, await updateVariant(req.params.id as string, variantId, req.body, getExpectedVersion(req, variantId)));
+});
+
+router.delete("/products/:id/variants/:variantId", ...canManage("update"), validateRequest({ params: variantParams }), async (req, res) => {
+    await deleteVariant(req.params.id as string, req.params.variantId as string);
+    res.status(HttpStatus.NO_CONTENT).send();
+});
+
+// ============ Categories =============================================
+router.get("/categories", async (req, res) => {
+    res.status(HttpStatus.OK).json(await getCategoryTree());
+});
+
+router.get("/categories/:id", validateRequest({ params: idParams }), async (req, res) => {
+    sendWithETag(req, res, await getCategory(req.params.id as string));
+});
+
+router.post("/categories", ...canManage("create"), async (req, res) => {
+    sendWithETag(req, res, await createCategory(req.body), HttpStatus.CREATED);
+});
+
+router.patch("/categories/:id", ...canManage("update"), validateRequest({ params: idParams }), async (req, res) => {
+    const categoryId = req.params.id as string;
+    sendWithETag(req, res, await updateCategory(categoryId, req.body, getExpectedVersion(req, categoryId)));
+});
+
+router.delete("/categories/:id", ...canManage("delete"), validateRequest({ params: idParams }), async (req, res) => {
+    await deleteCategory(req.params.id as string);
+    res.status(HttpStatus.NO_CONTENT).send();
+});
+
+// ============ Attributes =============================================
+router.get("/attributes", async (req, res) => {
+    res.status(HttpStatus.OK).json(await listAttributes());
+});
+
+router.get("/attributes/:id", validateRequest({ params: idParams }), async (req, res) => {
+    sendWithETag(req, res, await getAttribute(req.params.id as string));
+});
+
+router.post("/attributes", ...canManage("create"), async (req, res) => {
+    sendWithETag(req, res, await createAttribute(req.body), HttpStatus.CREATED);
+});
+
+router.patch("/attributes/:id", ...canManage("update"), validateRequest({ params: idParams }), async (req, res) => {
+    const attributeId = req.params.id as string;
+    sendWithETag(req, res, await updateAttribute(attributeId, req.body, getExpectedVersion(req, attributeId)));
+});
+
+router.delete("/attributes/:id", ...canManage("delete"), validateRequest({ params: idParams }), async (req, res) => {
+    await deleteAttribute(req.params.id as string);
+    res.status(HttpStatus.NO_CONTENT).send();
+});
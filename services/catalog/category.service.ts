@@ -0,0 +1,167 @@
+import {HydratedDocument, Types} from "mongoose";
+import {Category, CategoryModel} from "@dbModels/catalog/Category";
+import {runInTransaction} from "@dbModels/shared/Cascade";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {assertSchema, field, object, optional, rules} from "@_shared/exceptions/schema";
+import {HttpStatus} from "@_shared/types/general.types";
+import {CategoryData} from "@_shared/types/catalog.types";
+
+export type CategoryTreeNode = Record<string, any> & {
+    children: CategoryTreeNode[]
+}
+
+export const categorySchema = object({
+    name: field(rules.notEmpty(), rules.stringLength(1, 100)),
+    slug: field(rules.notEmpty(), rules.stringLength(1, 100)),
+    description: optional(field(rules.stringLength(0, 2000))),
+    parent: optional(field(rules.isObjectId()))
+});
+
+export const categoryUpdateSchema = object({
+    name: optional(field(rules.notEmpty(), rules.stringLength(1, 100))),
+    slug: optional(field(rules.notEmpty(), rules.stringLength(1, 100))),
+    description: optional(field(rules.stringLength(0, 2000))),
+    parent: optional(field(rules.isObjectId()))
+});
+
+function buildPath(parent: Category | null, categoryId: Types.ObjectId): string {
+    return `${parent ? parent.path : "/"}${categoryId.toString()}/`;
+}
+
+// Matches the categories below the given path, not the category owning the path itself
+function descendantsFilter(path: string) {
+    return { path: { $regex: `^${path}.+` } };
+}
+
+function rethrowDuplicate(error: any): never {
+    if (error?.code === 11000) {
+        throw new CustomServerException("catalog", "slugTaken", undefined, HttpStatus.CONFLICT);
+    }
+    throw error;
+}
+
+async function findParent(parentId: string | null | undefined): Promise<HydratedDocument<Category> | null> {
+    if (!parentId) {
+        return null;
+    }
+    const parent = await CategoryModel.findById(parentId);
+    if (!parent) {
+        throw new CustomServerException("catalog", "unknownCategory", undefined, HttpStatus.UNPROCESSABLE_ENTITY);
+    }
+    return parent;
+}
+
+export async function getCategory(categoryId: string) {
+    const category = await CategoryModel.findById(categoryId);
+    if (!category) {
+        throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+    }
+    return category;
+}
+
+/**
+ * Returns the whole category tree, roots first, each node carrying its children.
+ */
+export async function getCategoryTree(): Promise<CategoryTreeNode[]> {
+    // sorting by path puts every parent before its children
+    const categories = await CategoryModel.find().sort({ path: 1 }).lean();
+    const nodes = new Map<string, CategoryTreeNode>();
+    const roots: CategoryTreeNode[] = [];
+    for (let category of categories) {
+        const node: CategoryTreeNode = { ...category, children: [] };
+        nodes.set(category._id.toString(), node);
+        const parent = category.parent ? nodes.get(category.parent.toString()) : undefined;
+        if (parent) {
+            parent.children.push(node);
+        }
+        else {
+            roots.push(node);
+        }
+    }
+    return roots;
+}
+
+/**
+ * The category together with every category below it, e.g. to list the products of a whole branch.
+ */
+export async function getCategoryBranchIds(categoryId: string): Promise<Types.ObjectId[]> {
+    const category = await getCategory(categoryId);
+    const descendants = await CategoryModel.find(descendantsFilter(category.path)).select("_id");
+    return [category._id as Types.ObjectId, ...descendants.map(descendant => descendant._id as Types.ObjectId)];
+}
+
+export async function createCategory(data: CategoryData) {
+    assertSchema(categorySchema, data);
+    const parent = await findParent(data.parent);
+    const _id = new Types.ObjectId();
+    try {
+        return await CategoryModel.create({
+            _id,
+            name: data.name,
+            slug: data.slug,
+            description: data.description,
+            parent: parent?._id || null,
+            path: buildPath(parent, _id),
+            depth: parent ? parent.depth + 1 : 0
+        });
+    } catch (error) {
+        rethrowDuplicate(error);
+    }
+}
+
+/**
+ * Updates the category. Changing the parent moves the whole subtree, rewriting the paths below it in the same transaction.
+ */
+export async function updateCategory(categoryId: string, data: Partial<CategoryData>, expectedVersion?: number) {
+    assertSchema(categoryUpdateSchema, data);
+    const category = await getCategory(categoryId);
+    const update: Record<string, any> = {};
+    for (let key of ["name", "slug", "description"] as const) {
+        if (data[key] !== undefined) {
+            update[key] = data[key];
+        }
+    }
+
+    const moves = data.parent !== undefined && (data.parent || null) !== (category.parent?.toString() || null);
+    const parent = moves ? await findParent(data.parent) : null;
+    if (moves) {
+        if (parent && parent.path.startsWith(category.path)) {
+            throw new CustomServerException("catalog", "categoryCycle", undefined, HttpStatus.UNPROCESSABLE_ENTITY);
+        }
+        update.parent = parent?._id || null;
+        update.path = buildPath(parent, category._id as Types.ObjectId);
+        update.depth = parent ? parent.depth + 1 : 0;
+    }
+
+    try {
+        return await runInTransaction(null, async (session) => {
+            const updated = await CategoryModel.findOneAndUpdate({ _id: categoryId }, { $set: update }, { new: true, expectedVersion, session });
+            if (!updated) {
+                throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+            }
+            if (moves) {
+                const descendants = await CategoryModel.find(descendantsFilter(category.path)).select("_id path").session(session);
+                const depthChange = updated.depth - category.depth;
+                if (descendants.length > 0) {
+                    await CategoryModel.bulkWrite(descendants.map(descendant => ({
+                        updateOne: {
+                            filter: { _id: descendant._id },
+                            update: {
+                                $set: { path: updated.path + descendant.path.slice(category.path.length), updatedAt: new Date() },
+                                $inc: { depth: depthChange, version: 1 }
+                            }
+                        }
+                    })), { session });
+                }
+            }
+            return updated;
+        });
+    } catch (error) {
+        rethrowDuplicate(error);
+    }
+}
+
+export async function deleteCategory(categoryId: string): Promise<void> {
+    const category = await getCategory(categoryId);
+    await category.softDelete();
+}
@@ -0,0 +1,290 @@
+import {ClientSession, Types} from "mongoose";
+import {CATALOG} from "@environment";
+import {Product, ProductModel, ProductStatus} from "@dbModels/catalog/Product";
+import {ProductVariantModel} from "@dbModels/catalog/ProductVariant";
+import {CategoryModel} from "@dbModels/catalog/Category";
+import {runInTransaction} from "@dbModels/shared/Cascade";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {arrayOf, assertSchema, field, object, optional, rules} from "@_shared/exceptions/schema";
+import {HttpStatus} from "@_shared/types/general.types";
+import {ProductData, ProductEvent, ProductListFilter, ProductVariantData} from "@_shared/types/catalog.types";
+import {TopicDefinition} from "@_shared/types/kafka.types";
+import {EVENT_TOPICS} from "@_shared/kafka/topics";
+import {assertAttributeValues} from "@services/catalog/attribute.service";
+import {getCategoryBranchIds} from "@services/catalog/category.service";
+import {isProductDeletion, productEventMessage} from "@services/catalog/catalog.events";
+import {addToOutbox} from "@services/outbox/outbox.service";
+
+// The value is checked against the type of its attribute by assertAttributeValues
+const attributeValueSchema = object({
+    attribute: field(rules.isObjectId()),
+    value: field()
+});
+
+const variantOptionSchema = object({
+    attribute: field(rules.isObjectId()),
+    value: field(rules.notEmpty())
+});
+
+export const productSchema = object({
+    name: field(rules.notEmpty(), rules.stringLength(1, 200)),
+    slug: field(rules.notEmpty(), rules.stringLength(1, 200)),
+    description: optional(field(rules.stringLength(0, 10000))),
+    status: optional(field(rules.mustBe(Object.values(ProductStatus)))),
+    categories: optional(arrayOf(field(rules.isObjectId()))),
+    attributes: optional(arrayOf(attributeValueSchema))
+});
+
+export const productUpdateSchema = object({
+    name: optional(field(rules.notEmpty(), rules.stringLength(1, 200))),
+    slug: optional(field(rules.notEmpty(), rules.stringLength(1, 200))),
+    description: optional(field(rules.stringLength(0, 10000))),
+    status: optional(field(rules.mustBe(Object.values(ProductStatus)))),
+    categories: optional(arrayOf(field(rules.isObjectId()))),
+    attributes: optional(arrayOf(attributeValueSchema))
+});
+
+const priceSchema = object({
+    amount: field(rules.isInteger(), rules.greaterThanOrEqual(0)),
+    currency: field(rules.mustBe(CATALOG.CURRENCIES))
+});
+
+export const variantSchema = object({
+    sku: field(rules.notEmpty(), rules.stringLength(1, 64)),
+    options: optional(arrayOf(variantOptionSchema)),
+    price: priceSchema,
+    weight: optional(field(rules.isNumber(), rules.greaterThanOrEqual(0)))
+});
+
+export const variantUpdateSchema = object({
+    sku: optional(field(rules.notEmpty(), rules.stringLength(1, 64))),
+    options: optional(arrayOf(variantOptionSchema)),
+    price: optional(priceSchema),
+    weight: optional(field(rules.isNumber(), rules.greaterThanOrEqual(0)))
+});
+
+function rethrowDuplicate(error: any, extraMessageCode: string): never {
+    if (error?.code === 11000) {
+        throw new CustomServerException("catalog", extraMessageCode, undefined, HttpStatus.CONFLICT);
+    }
+    throw error;
+}
+
+function pick<T extends object>(data: T, keys: (keyof T)[]): Partial<T> {
+    const result: Partial<T> = {};
+    for (let key of keys) {
+        if (data[key] !== undefined) {
+            result[key] = data[key];
+        }
+    }
+    return result;
+}
+
+async function assertCategoriesExist(categoryIds: string[] | undefined): Promise<void> {
+    if (!categoryIds || categoryIds.length === 0) {
+        return;
+    }
+    const unique = Array.from(new Set(categoryIds));
+    const found = await CategoryModel.countDocuments({ _id: { $in: unique.map(id => new Types.ObjectId(id)) } });
+    if (found !== unique.length) {
+        throw new CustomServerException("catalog", "unknownCategory", undefined, HttpStatus.UNPROCESSABLE_ENTITY);
+    }
+}
+
+async function findProduct(productId: string, includeHidden: boolean = true) {
+    const filter: Record<string, any> = { _id: productId };
+    if (!includeHidden) {
+        filter.status = ProductStatus.ACTIVE;
+    }
+    const product = await ProductModel.findOne(filter);
+    if (!product) {
+        throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+    }
+    return product;
+}
+
+// ============ Events =================================================
+async function buildProductEvent(product: Product & { _id: any }, withSnapshot: boolean, session: ClientSession): Promise<ProductEvent> {
+    const event: ProductEvent = {
+        productId: product._id.toString(),
+        tenantId: product.tenantId,
+        version: product.version,
+        occurredAt: new Date().toISOString()
+    };
+    if (withSnapshot) {
+        const variants = await ProductVariantModel.find({ product: product._id }).session(session).lean();
+        event.product = { ...(product as any).toObject({ depopulate: true, virtuals: false }), variants };
+    }
+    return event;
+}
+
+// Writes the event of the change to the outbox, in the transaction of the change
+async function recordProductChange(session: ClientSession, topic: TopicDefinition<ProductEvent>, product: Product & { _id: any }): Promise<void> {
+    const event = await buildProductEvent(product, !isProductDeletion(topic), session);
+    await addToOutbox(session, [productEventMessage(topic, event)]);
+}
+
+// ============ Products ===============================================
+export async function listProducts(filter: ProductListFilter) {
+    const query: Record<string, any> = {};
+    if (filter.category) {
+        query.categories = { $in: await getCategoryBranchIds(filter.category) };
+    }
+    if (!filter.includeHidden) {
+        query.status = ProductStatus.ACTIVE;
+    }
+    else if (filter.status) {
+        query.status = filter.status;
+    }
+    const [items, total] = await Promise.all([
+        ProductModel.find(query).sort({ createdAt: -1 }).skip((filter.page - 1) * filter.limit).limit(filter.limit),
+        ProductModel.countDocuments(query)
+    ]);
+    return { items, total, page: filter.page, limit: filter.limit };
+}
+
+/**
+ * Returns the product with its variants. Without includeHidden only active products are found.
+ */
+export async function getProduct(productId: string, includeHidden: boolean) {
+    const product = await findProduct(productId, includeHidden);
+    const variants = await ProductVariantModel.find({ product: product._id }).sort({ sku: 1 });
+    return { product, variants };
+}
+
+export async function createProduct(data: ProductData) {
+    assertSchema(productSchema, data);
+    await assertCategoriesExist(data.categories);
+    await assertAttributeValues(data.attributes || []);
+    try {
+        return await runInTransaction(null, async (session) => {
+            const [product] = await ProductModel.create([{
+                name: data.name,
+                slug: data.slug,
+                description: data.description,
+                status: data.status || ProductStatus.DRAFT,
+                categories: data.categories || [],
+                attributes: data.attributes || []
+            }], { session });
+            await recordProductChange(session, EVENT_TOPICS.CATALOG_PRODUCT_CREATED, product);
+            return product;
+        });
+    } catch (error) {
+        rethrowDuplicate(error, "slugTaken");
+    }
+}
+
+export async function updateProduct(productId: string, data: Partial<ProductData>, expectedVersion?: number) {
+    assertSchema(productUpdateSchema, data);
+    await assertCategoriesExist(data.categories);
+    await assertAttributeValues(data.attributes || []);
+    try {
+        return await runInTransaction(null, async (session) => {
+            const product = await ProductModel.findOneAndUpdate(
+                { _id: productId },
+                { $set: pick(data, ["name", "slug", "description", "status", "categories", "attributes"]) },
+                { new: true, expectedVersion, session }
+            );
+            if (!product) {
+                throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+            }
+            await recordProductChange(session, EVENT_TOPICS.CATALOG_PRODUCT_UPDATED, product);
+            return product;
+        });
+    } catch (error) {
+        rethrowDuplicate(error, "slugTaken");
+    }
+}
+
+// The variants go along with the product through its cascade rule
+export async function deleteProduct(productId: string): Promise<void> {
+    const product = await findProduct(productId);
+    await runInTransaction(null, async (session) => {
+        // softDelete joins the transaction of the document's session
+        product.$session(session);
+        await product.softDelete();
+        await recordProductChange(session, EVENT_TOPICS.CATALOG_PRODUCT_DELETED, product);
+    });
+}
+
+// ============ History ================================================
+// The changes of the product, oldest first; deleted products keep theirs
+export async function getProductHistory(productId: string) {
+    const product = await ProductModel.findOne({ _id: productId }).setOptions({ includeDeleted: true });
+    if (!product) {
+        throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+    }
+    return await ProductModel.getHistory(product._id);
+}
+
+// The product as it was at the given version, rebuilt from its history
+export async function getProductVersion(productId: string, version: number) {
+    const product = Number.isInteger(version) && version >= 0 ? await ProductModel.reconstructVersion(productId, version) : null;
+    if (!product) {
+        throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+    }
+    return product;
+}
+
+// ============ Variants ===============================================
+// Variants are part of their product: a variant change makes a new version of the product,
+// so its ETag and events move on too, and is published as an update of it
+async function bumpProductVersion(product: Product & { _id: any }, session: ClientSession) {
+    return await ProductModel.findOneAndUpdate({ _id: product._id }, {}, { new: true, session });
+}
+
+export async function createVariant(productId: string, data: ProductVariantData) {
+    assertSchema(variantSchema, data);
+    const product = await findProduct(productId);
+    await assertAttributeValues(data.options || []);
+    try {
+        return await runInTransaction(null, async (session) => {
+            const [variant] = await ProductVariantModel.create([{
+                product: product._id,
+                sku: data.sku,
+                options: data.options || [],
+                price: { amount: data.price.amount, currency: data.price.currency },
+                weight: data.weight
+            }], { session });
+            await recordProductChange(session, EVENT_TOPICS.CATALOG_PRODUCT_UPDATED, await bumpProductVersion(product, session));
+            return variant;
+        });
+    } catch (error) {
+        rethrowDuplicate(error, "skuTaken");
+    }
+}
+
+export async function updateVariant(productId: string, variantId: string, data: Partial<ProductVariantData>, expectedVersion?: number) {
+    assertSchema(variantUpdateSchema, data);
+    const product = await findProduct(productId);
+    await assertAttributeValues(data.options || []);
+    try {
+        return await runInTransaction(null, async (session) => {
+            const variant = await ProductVariantModel.findOneAndUpdate(
+                { _id: variantId, product: product._id },
+                { $set: pick(data, ["sku", "options", "price", "weight"]) },
+                { new: true, expectedVersion, session }
+            );
+            if (!variant) {
+                throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+            }
+            await recordProductChange(session, EVENT_TOPICS.CATALOG_PRODUCT_UPDATED, await bumpProductVersion(product, session));
+            return variant;
+        });
+    } catch (error) {
+        rethrowDuplicate(error, "skuTaken");
+    }
+}
+
+export async function deleteVariant(productId: string, variantId: string): Promise<void> {
+    const product = await findProduct(productId);
+    const variant = await ProductVariantModel.findOne({ _id: variantId, product: product._id });
+    if (!variant) {
+        throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+    }
+    await runInTransaction(null, async (session) => {
+        variant.$session(session);
+        await variant.softDelete();
+        await recordProductChange(session, EVENT_TOPICS.CATALOG_PRODUCT_UPDATED, await bumpProductVersion(product, session));
+    });
+}
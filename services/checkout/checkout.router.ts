@@ -0,0 +1,28 @@
+import {Router} from "express";
+import {HttpStatus} from "@_shared/types/general.types";
+import {arrayOf, field, object, optional, rules} from "@_shared/exceptions/schema";
+import {validateRequest} from "@_shared/middlewares/validateRequest";
+import {authenticate} from "@_shared/middlewares/authenticate";
+import {requirePermission} from "@_shared/middlewares/authorize";
+import {getUserPermissions, hasPermission} from "@services/auth/authorization.service";
+import {getCheckout, startCheckout} from "@services/checkout/checkout.service";
+
+export const router = Router();
+
+router.use(authenticate());
+
+// The checkout goes on in the background; its progress is read from GET /:id
+router.post("/", requirePermission("orders:create"), validateRequest({
+    body: object({
+        paymentMethod: field(rules.notEmpty(), rules.stringLength(1, 200)),
+        couponCodes: optional(arrayOf(field(rules.notEmpty(), rules.stringLength(1, 50)), rules.arrayLength(0, 5)))
+    })
+}), async (req, res) => {
+    res.status(HttpStatus.ACCEPTED).json(await startCheckout(req.user.id, req.body.paymentMethod, req.body.couponCodes));
+});
+
+// Users allowed to read every order see every checkout, everyone else only their own
+router.get("/:id", validateRequest({ params: object({ id: field(rules.isObjectId()) }) }), async (req, res) => {
+    const ownOnly = !hasPermission(await getUserPermissions(req.user.id), "orders:read");
+    res.status(HttpStatus.OK).json(await getCheckout(req.params.id as string, ownOnly ? req.user.id : undefined));
+});
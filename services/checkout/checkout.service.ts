@@ -0,0 +1,120 @@
+import {HydratedDocument, Types} from "mongoose";
+import {getLogger, Logger} from "@loggers/serverLogger";
+import {OrderStatus} from "@dbModels/order/Order";
+import {Saga} from "@dbModels/saga/Saga";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus} from "@_shared/types/general.types";
+import {EVENT_TOPICS} from "@_shared/kafka/topics";
+import {clearCart, getCart} from "@services/cart/cart.service";
+import {createOrder, getOrder, transitionOrder} from "@services/order/order.service";
+import {canTransition} from "@services/order/order.stateMachine";
+import {defineSaga, getSaga, startSaga} from "@services/saga/saga.service";
+import {normalizeCouponCodes, redeemCoupons, releaseCoupons} from "@services/pricing/coupon.service";
+
+export const CHECKOUT_SAGA = "checkout";
+
+/**
+ * Checkout runs as a saga: reserve the stock, authorize the payment, confirm the order.
+ * When a step fails or times out, the stock is released and the payment voided, the order is cancelled and its coupons
+ * can be used again, also when the order was cancelled in the meantime. Confirming the order cannot be undone,
+ * so it is never timed out but sent again until the order service answers.
+ */
+export function registerCheckoutSaga(): void {
+    defineSaga({
+        type: CHECKOUT_SAGA,
+        steps: [
+            { name: "reserveInventory", command: EVENT_TOPICS.CHECKOUT_RESERVE_INVENTORY, compensation: EVENT_TOPICS.CHECKOUT_RELEASE_INVENTORY },
+            { name: "authorizePayment", command: EVENT_TOPICS.CHECKOUT_AUTHORIZE_PAYMENT, compensation: EVENT_TOPICS.CHECKOUT_VOID_PAYMENT },
+            { name: "confirmOrder", command: EVENT_TOPICS.CHECKOUT_CONFIRM_ORDER }
+        ],
+        onCompleted: async (saga) => {
+            await clearCart({ userId: saga.context.userId });
+        },
+        onCompensated: cancelCheckoutOrder
+    });
+}
+
+/**
+ * Cancels the order of a compensated checkout and gives its coupons back, also when the order was cancelled in the meantime.
+ * An order that went through after all keeps its coupons.
+ */
+export async function cancelCheckoutOrder(saga: HydratedDocument<Saga>): Promise<void> {
+    const order = await getOrder(saga.context.orderId);
+    if (canTransition(order.status, OrderStatus.CANCELLED)) {
+        await transitionOrder(saga.context.orderId, OrderStatus.CANCELLED, { reason: saga.failureReason });
+    }
+    else if (order.status !== OrderStatus.CANCELLED) {
+        let logger = getLogger("checkoutCompensation", Logger.CHECKOUT, Logger.CHECKOUT);
+        logger.warn(`Checkout [${saga._id}] was compensated but its order [${order._id}] is [${order.status}]`);
+        return;
+    }
+    await releaseCoupons(saga.context.couponCodes || [], saga.context.userId);
+}
+
+/**
+ * Turns the cart of the user into a pending order and starts the checkout saga for it, paid with the payment method
+ * (a token of the payment provider). The cart must not be empty, have flagged lines or mix currencies.
+ * The coupons are priced in and redeemed before the order is created, so a coupon that was used up meanwhile rejects the checkout.
+ */
+export async function startCheckout(userId: string, paymentMethod: string, couponCodes: string[] = []) {
+    let logger = getLogger("checkoutStarter", Logger.CHECKOUT, Logger.CHECKOUT);
+    logger.start();
+    const codes = normalizeCouponCodes(couponCodes);
+    const cart = await getCart({ userId }, codes);
+    if (cart.lines.length === 0) {
+        throw new CustomServerException("checkout", "emptyCart", undefined, HttpStatus.UNPROCESSABLE_ENTITY);
+    }
+    if (cart.hasIssues) {
+        throw new CustomServerException("checkout", "cartHasIssues", undefined, HttpStatus.CONFLICT);
+    }
+    if (cart.subtotals.length > 1) {
+        throw new CustomServerException("checkout", "mixedCurrencies", undefined, HttpStatus.UNPROCESSABLE_ENTITY);
+    }
+
+    await redeemCoupons(codes, userId);
+    let order;
+    try {
+        order = await createOrder(userId, cart.lines.map(line => {
+            const priced = cart.pricing.lines.find(candidate => candidate.variantId === line.variantId);
+            return {
+                variant: new Types.ObjectId(line.variantId),
+                product: new Types.ObjectId(line.productId),
+                sku: line.sku,
+                name: line.name,
+                quantity: line.quantity,
+                unitPrice: line.unitPrice,
+                lineTotal: line.lineTotal,
+                discounts: (priced?.discounts || []).map(discount => ({
+                    promotion: new Types.ObjectId(discount.promotionId),
+                    name: discount.name,
+                    couponCode: discount.couponCode,
+                    amount: discount.amount
+                })),
+                total: priced?.total || line.lineTotal
+            };
+        }), codes);
+    } catch (error) {
+        await releaseCoupons(codes, userId);
+        throw error;
+    }
+    const saga = await startSaga(CHECKOUT_SAGA, {
+        userId,
+        orderId: order._id.toString(),
+        items: cart.lines.map(line => ({ variantId: line.variantId, quantity: line.quantity })),
+        amount: { amount: order.total.amount, currency: order.total.currency },
+        paymentMethod,
+        couponCodes: codes
+    });
+    logger.info(`Checkout [${saga._id}] started for order [${order._id}]`);
+    logger.finish();
+    return saga;
+}
+
+// The checkout saga, only when it belongs to the user if one is given
+export async function getCheckout(sagaId: string, userId?: string) {
+    const filter: Record<string, any> = { type: CHECKOUT_SAGA };
+    if (userId) {
+        filter["context.userId"] = userId;
+    }
+    return getSaga(sagaId, filter);
+}
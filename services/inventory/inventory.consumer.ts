@@ -0,0 +1,48 @@
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {OrderEvent} from "@_shared/types/order.types";
+import {SagaCommand} from "@_shared/types/saga.types";
+import {registerEventHandler} from "@_shared/kafka/events";
+import {EVENT_TOPICS} from "@_shared/kafka/topics";
+import {registerSagaParticipant} from "@services/saga/saga.service";
+import {findHeldReservation, releaseReservation, reserveStock} from "@services/inventory/inventory.service";
+
+// Gives the stock held for the reference back; a reservation that expired, was committed or released already has nothing left to give
+async function releaseHeldStock(reference: string): Promise<void> {
+    const reservation = await findHeldReservation(reference);
+    if (!reservation) {
+        return;
+    }
+    try {
+        await releaseReservation(reservation._id.toString());
+    } catch (error) {
+        if (!(error instanceof CustomServerException && error.extraMessageCode === "reservationNotHeld")) {
+            throw error;
+        }
+    }
+}
+
+// Holds the stock of the checkout for its order; a redelivered command finds the reservation it already made
+export async function handleReserveInventory(command: SagaCommand): Promise<Record<string, any>> {
+    const reference = command.context.orderId;
+    const reservation = await findHeldReservation(reference) || await reserveStock(reference, command.context.items);
+    return { reservationId: reservation._id.toString() };
+}
+
+export async function handleReleaseInventory(command: SagaCommand): Promise<void> {
+    await releaseHeldStock(command.context.orderId);
+}
+
+/**
+ * An order cancelled while its checkout still holds stock, e.g. through the API, gives the stock back right away instead
+ * of when the hold expires. Only unpaid orders can be cancelled, so there is never committed stock to put back.
+ */
+export async function handleOrderCancelled(event: OrderEvent): Promise<void> {
+    await releaseHeldStock(event.orderId);
+}
+
+export function registerInventoryConsumer(): void {
+    registerSagaParticipant(EVENT_TOPICS.CHECKOUT_RESERVE_INVENTORY, handleReserveInventory);
+    registerSagaParticipant(EVENT_TOPICS.CHECKOUT_RELEASE_INVENTORY, handleReleaseInventory);
+    // runs through the event ledger like every event handler, so a redelivered cancellation is skipped
+    registerEventHandler(EVENT_TOPICS.ORDER_CANCELLED, handleOrderCancelled);
+}
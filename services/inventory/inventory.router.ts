@@ -0,0 +1,43 @@
+import {Router} from "express";
+import {HttpStatus} from "@_shared/types/general.types";
+import {field, object, optional, rules} from "@_shared/exceptions/schema";
+import {validateRequest} from "@_shared/middlewares/validateRequest";
+import {authenticate} from "@_shared/middlewares/authenticate";
+import {requirePermission} from "@_shared/middlewares/authorize";
+import {sendWithETag} from "@_shared/middlewares/concurrency";
+import {getReservation, getVariantStock, releaseReservation, setStockLevel} from "@services/inventory/inventory.service";
+
+const idParams = object({ id: field(rules.isObjectId()) });
+const variantParams = object({ variantId: field(rules.isObjectId()) });
+
+export const router = Router();
+
+router.use(authenticate());
+
+// ============ Stock ==================================================
+router.get("/variants/:variantId", requirePermission("inventory:read"), validateRequest({ params: variantParams }), async (req, res) => {
+    res.status(HttpStatus.OK).json(await getVariantStock(req.params.variantId as string));
+});
+
+router.put("/variants/:variantId/warehouses/:warehouse", requirePermission("inventory:update"), validateRequest({
+    params: object({ variantId: field(rules.isObjectId()), warehouse: field(rules.stringLength(1, 50)) }),
+    body: object({
+        onHand: field(rules.isInteger(), rules.greaterThanOrEqual(0)),
+        lowStockThreshold: optional(field(rules.isInteger(), rules.greaterThanOrEqual(0)))
+    })
+}), async (req, res) => {
+    const stockItem = await setStockLevel(req.params.variantId as string, (req.params.warehouse as string).toLowerCase(), {
+        onHand: req.body.onHand,
+        lowStockThreshold: req.body.lowStockThreshold
+    });
+    sendWithETag(req, res, stockItem);
+});
+
+// ============ Reservations ===========================================
+router.get("/reservations/:id", requirePermission("inventory:read"), validateRequest({ params: idParams }), async (req, res) => {
+    sendWithETag(req, res, await getReservation(req.params.id as string));
+});
+
+router.post("/reservations/:id/release", requirePermission("inventory:update"), validateRequest({ params: idParams }), async (req, res) => {
+    sendWithETag(req, res, await releaseReservation(req.params.id as string));
+});
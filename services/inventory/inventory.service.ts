@@ -0,0 +1,287 @@
+import {ClientSession, HydratedDocument, Types} from "mongoose";
+import {INVENTORY} from "@environment";
+import {getLogger, Logger} from "@loggers/serverLogger";
+import {buildRedisKey, getRedisClient} from "@connections/connectToRedis";
+import {StockItem, StockItemModel} from "@dbModels/inventory/StockItem";
+import {Reservation, ReservationModel, ReservationStatus} from "@dbModels/inventory/Reservation";
+import {ProductVariantModel} from "@dbModels/catalog/ProductVariant";
+import {runInTransaction} from "@dbModels/shared/Cascade";
+import {runAsSystem} from "@_shared/context/requestContext";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {arrayOf, assertSchema, field, object, optional, rules} from "@_shared/exceptions/schema";
+import {HttpStatus} from "@_shared/types/general.types";
+import {LowStockEvent, ReservationRequestItem, StockLevelData} from "@_shared/types/inventory.types";
+import {EVENT_TOPICS} from "@_shared/kafka/topics";
+import {addToOutbox, OutboxMessage, outboxEvent} from "@services/outbox/outbox.service";
+
+type StockChange = {
+    stockItem: HydratedDocument<StockItem>,
+    availableBefore: number
+}
+
+export const stockLevelSchema = object({
+    onHand: field(rules.isInteger(), rules.greaterThanOrEqual(0)),
+    lowStockThreshold: optional(field(rules.isInteger(), rules.greaterThanOrEqual(0)))
+});
+
+export const reservationSchema = object({
+    reference: field(rules.notEmpty(), rules.stringLength(1, 100)),
+    items: arrayOf(object({
+        variantId: field(rules.isObjectId()),
+        quantity: field(rules.isInteger(), rules.greaterThanOrEqual(1))
+    }), rules.arrayNotEmpty())
+});
+
+const EXPIRY_LOCK_KEY = buildRedisKey("jobs", "reservationExpiry", "lock");
+const EXPIRY_BATCH_SIZE = 100;
+let expiryTimer: NodeJS.Timeout | null = null;
+
+function available(stockItem: StockItem): number {
+    return stockItem.onHand - stockItem.reserved;
+}
+
+function insufficientStock(): CustomServerException {
+    return new CustomServerException("inventory", "insufficientStock", undefined, HttpStatus.CONFLICT);
+}
+
+// ============ Low stock ==============================================
+/**
+ * inventory.low_stock messages for every stock item whose available stock dropped to its threshold or below with this change.
+ * Items that were already below stay quiet, so one crossing sends one event. They go through the outbox, in the transaction of the change.
+ */
+function lowStockMessages(changes: StockChange[]): OutboxMessage[] {
+    const messages: OutboxMessage[] = [];
+    for (let { stockItem, availableBefore } of changes) {
+        const availableAfter = available(stockItem);
+        if (availableBefore <= stockItem.lowStockThreshold || availableAfter > stockItem.lowStockThreshold) {
+            continue;
+        }
+        const event: LowStockEvent = {
+            tenantId: stockItem.tenantId,
+            variantId: stockItem.variant.toString(),
+            sku: stockItem.sku,
+            warehouse: stockItem.warehouse,
+            available: availableAfter,
+            threshold: stockItem.lowStockThreshold,
+            occurredAt: new Date().toISOString()
+        };
+        messages.push(outboxEvent(EVENT_TOPICS.INVENTORY_LOW_STOCK, `${event.variantId}:${event.warehouse}`, event, { tenantId: event.tenantId }));
+    }
+    return messages;
+}
+
+function logLowStock(messages: OutboxMessage[]): void {
+    let logger = getLogger("inventoryLowStock", Logger.INVENTORY, Logger.INVENTORY);
+    for (let { envelope: { payload } } of messages) {
+        logger.info(`[${payload.sku}] in [${payload.warehouse}] is low on stock: [${payload.available}] left`);
+    }
+}
+
+// ============ Stock ==================================================
+/**
+ * Available stock of every variant over all warehouses, for the cart. Variants without stock items have 0.
+ */
+export async function getAvailableStock(variantIds: string[]): Promise<Record<string, number>> {
+    const stockItems = await StockItemModel.find({ variant: { $in: variantIds.map(id => new Types.ObjectId(id)) } }).lean();
+    const result: Record<string, number> = {};
+    for (let variantId of variantIds) {
+        result[variantId] = stockItems
+            .filter(stockItem => stockItem.variant.toString() === variantId)
+            .reduce((sum, stockItem) => sum + Math.max(available(stockItem), 0), 0);
+    }
+    return result;
+}
+
+export async function getVariantStock(variantId: string) {
+    return StockItemModel.find({ variant: variantId }).sort({ warehouse: 1 });
+}
+
+/**
+ * Sets the counted stock of a variant in a warehouse, creating the stock item on first use.
+ * The stock cannot go below what reservations already hold ("inventory"/"belowReserved").
+ */
+export async function setStockLevel(variantId: string, warehouse: string, data: StockLevelData) {
+    assertSchema(stockLevelSchema, data);
+    const variant = await ProductVariantModel.findById(variantId);
+    if (!variant) {
+        throw new CustomServerException("inventory", "unknownVariant", undefined, HttpStatus.NOT_FOUND);
+    }
+    const existing = await StockItemModel.findOne({ variant: variant._id, warehouse });
+    if (!existing) {
+        return StockItemModel.create({
+            variant: variant._id,
+            sku: variant.sku,
+            warehouse,
+            onHand: data.onHand,
+            reserved: 0,
+            lowStockThreshold: data.lowStockThreshold ?? 0
+        });
+    }
+    const update: Partial<StockItem> = { onHand: data.onHand };
+    if (data.lowStockThreshold !== undefined) {
+        update.lowStockThreshold = data.lowStockThreshold;
+    }
+    let messages: OutboxMessage[] = [];
+    const updated = await runInTransaction(null, async (session) => {
+        const stockItem = await StockItemModel.findOneAndUpdate({ _id: existing._id, reserved: { $lte: data.onHand } }, { $set: update }, { new: true, session });
+        if (!stockItem) {
+            throw new CustomServerException("inventory", "belowReserved", undefined, HttpStatus.CONFLICT);
+        }
+        messages = lowStockMessages([{ stockItem, availableBefore: available(existing) }]);
+        await addToOutbox(session, messages);
+        return stockItem;
+    });
+    logLowStock(messages);
+    return updated;
+}
+
+// ============ Reservations ===========================================
+export async function getReservation(reservationId: string) {
+    const reservation = await ReservationModel.findById(reservationId);
+    if (!reservation) {
+        throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+    }
+    return reservation;
+}
+
+// The reservation still holding stock for the reference, if any
+export async function findHeldReservation(reference: string) {
+    return ReservationModel.findOne({ reference, status: ReservationStatus.HELD });
+}
+
+/**
+ * Holds the stock of every item for INVENTORY.HOLD_TTL seconds. Each item is held in one warehouse, the one with the most
+ * available stock. Every hold is an $inc of "reserved" guarded by the available stock, and all holds run in one transaction:
+ * either every item is held or none is ("inventory"/"insufficientStock").
+ */
+export async function reserveStock(reference: string, items: ReservationRequestItem[]): Promise<HydratedDocument<Reservation>> {
+    assertSchema(reservationSchema, { reference, items });
+    const quantities = new Map<string, number>();
+    for (let item of items) {
+        quantities.set(item.variantId, (quantities.get(item.variantId) || 0) + item.quantity);
+    }
+
+    let messages: OutboxMessage[] = [];
+    const reservation = await runInTransaction(null, async (session) => {
+        const changes: StockChange[] = [];
+        const reservationItems = [];
+        for (let [variantId, quantity] of quantities) {
+            const candidates = (await StockItemModel.find({ variant: variantId }).session(session))
+                .filter(stockItem => available(stockItem) >= quantity)
+                .sort((first, second) => available(second) - available(first));
+            let held: HydratedDocument<StockItem> | null = null;
+            for (let candidate of candidates) {
+                held = await StockItemModel.findOneAndUpdate(
+                    { _id: candidate._id, $expr: { $gte: [{ $subtract: ["$onHand", "$reserved"] }, quantity] } },
+                    { $inc: { reserved: quantity } },
+                    { new: true, session }
+                );
+                if (held) {
+                    break;
+                }
+            }
+            if (!held) {
+                throw insufficientStock();
+            }
+            changes.push({ stockItem: held, availableBefore: available(held) + quantity });
+            reservationItems.push({ stockItem: held._id, variant: held.variant, sku: held.sku, warehouse: held.warehouse, quantity });
+        }
+        const [created] = await ReservationModel.create([{
+            reference,
+            status: ReservationStatus.HELD,
+            items: reservationItems,
+            expiresAt: new Date(Date.now() + INVENTORY.HOLD_TTL * 1000)
+        }], { session });
+        // the transaction may be retried, so only the messages of the last attempt count
+        messages = lowStockMessages(changes);
+        await addToOutbox(session, messages);
+        return created;
+    });
+    logLowStock(messages);
+    return reservation;
+}
+
+// Ends a held reservation; the stock updates run in the same transaction as the status change, or in the one of the session
+async function closeReservation(reservationId: string, status: ReservationStatus, stockUpdate: (quantity: number) => Record<string, number>,
+                                session?: ClientSession) {
+    return runInTransaction(session, async (session) => {
+        const reservation = await ReservationModel.findOneAndUpdate(
+            { _id: reservationId, status: ReservationStatus.HELD },
+            { $set: { status } },
+            { new: true, session }
+        );
+        if (!reservation) {
+            throw new CustomServerException("inventory", "reservationNotHeld", undefined, HttpStatus.CONFLICT);
+        }
+        for (let item of reservation.items) {
+            await StockItemModel.updateOne({ _id: item.stockItem }, { $inc: stockUpdate(item.quantity) }, { session });
+        }
+        return reservation;
+    });
+}
+
+/**
+ * Turns the hold into a sale once the order is paid: the stock leaves the warehouse.
+ * Joins the transaction of the session when given, so the sale is kept only with the payment of the order.
+ */
+export async function commitReservation(reservationId: string, session?: ClientSession) {
+    return closeReservation(reservationId, ReservationStatus.COMMITTED, quantity => ({ onHand: -quantity, reserved: -quantity }), session);
+}
+
+/**
+ * Gives the held stock back, e.g. when the checkout or the order is cancelled.
+ */
+export async function releaseReservation(reservationId: string, status: ReservationStatus.RELEASED | ReservationStatus.EXPIRED = ReservationStatus.RELEASED) {
+    return closeReservation(reservationId, status, quantity => ({ reserved: -quantity }));
+}
+
+/**
+ * Releases the held reservations whose TTL passed, across all tenants.
+ */
+export async function expireReservations(parentAction?: number): Promise<number> {
+    let logger = getLogger("reservationExpiry", Logger.INVENTORY, Logger.INVENTORY, parentAction);
+    logger.start();
+    let expired = 0;
+    const reservations = await ReservationModel.find({ status: ReservationStatus.HELD, expiresAt: { $lt: new Date() } })
+        .setOptions({ allTenants: true })
+        .select("_id tenantId")
+        .limit(EXPIRY_BATCH_SIZE)
+        .lean();
+    for (let reservation of reservations) {
+        try {
+            await runAsSystem(() => releaseReservation(reservation._id.toString(), ReservationStatus.EXPIRED), reservation.tenantId);
+            expired++;
+        } catch (error) {
+            // committed or released in the meantime
+            logger.warn(`Reservation [${reservation._id}] could not expire: ${error.message}`);
+        }
+    }
+    logger.info(`Expired [${expired}] reservation(s)`);
+    logger.finish();
+    return expired;
+}
+
+/**
+ * Runs the expiry every INVENTORY.EXPIRY_INTERVAL ms. A Redis lock makes sure only one server instance runs it at a time.
+ */
+export function startReservationExpiryScheduler(parentAction?: number): void {
+    let logger = getLogger("reservationExpiryScheduler", Logger.INVENTORY, Logger.INVENTORY, parentAction);
+    logger.updateSpace();
+    logger.start();
+    if (expiryTimer) {
+        clearInterval(expiryTimer);
+    }
+    expiryTimer = setInterval(async () => {
+        try {
+            const locked = await getRedisClient().set(EXPIRY_LOCK_KEY, process.pid.toString(), { NX: true, PX: INVENTORY.EXPIRY_INTERVAL });
+            if (locked) {
+                await runAsSystem(() => expireReservations());
+            }
+        } catch (error) {
+            logger.err(`Reservation expiry could not run: ${error.message}`);
+        }
+    }, INVENTORY.EXPIRY_INTERVAL);
+    logger.debug(`Reservation expiry scheduled every [${INVENTORY.EXPIRY_INTERVAL}] ms, holds last [${INVENTORY.HOLD_TTL}] s`);
+    logger.finish();
+    logger.updateSpace(-1);
+}
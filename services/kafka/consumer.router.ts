@@ -0,0 +1,14 @@
+import {Router} from "express";
+import {HttpStatus} from "@_shared/types/general.types";
+import {authenticate} from "@_shared/middlewares/authenticate";
+import {requirePermission} from "@_shared/middlewares/authorize";
+import {getDuplicateCounts} from "@services/kafka/eventLedger.service";
+
+export const router = Router();
+
+router.use(authenticate(), requirePermission("consumers:read"));
+
+// Redelivered events the handlers skipped because they had processed them already
+router.get("/metrics/duplicates", async (req, res) => {
+    res.status(HttpStatus.OK).json(await getDuplicateCounts());
+});
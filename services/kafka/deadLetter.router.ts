@@ -0,0 +1,42 @@
+import {Router} from "express";
+import {HttpStatus} from "@_shared/types/general.types";
+import {field, object, optional, rules} from "@_shared/exceptions/schema";
+import {DeadLetterStatus} from "@dbModels/kafka/DeadLetter";
+import {validateRequest} from "@_shared/middlewares/validateRequest";
+import {authenticate} from "@_shared/middlewares/authenticate";
+import {requirePermission} from "@_shared/middlewares/authorize";
+import {getDeadLetter, listDeadLetters, replayDeadLetter} from "@services/kafka/deadLetter.service";
+
+const idParams = object({ id: field(rules.isObjectId()) });
+
+export const router = Router();
+
+// Messages whose handler kept failing, with the reason and stack, to look at and replay once the cause is fixed.
+// Dead letters of the storefront named in X-Tenant-ID; without the header, those that belong to no storefront
+router.use(authenticate());
+
+router.get("/", requirePermission("deadLetters:read"), validateRequest({
+    query: object({
+        handler: optional(field(rules.stringLength(1, 200))),
+        topic: optional(field(rules.stringLength(1, 200))),
+        status: optional(field(rules.mustBe(Object.values(DeadLetterStatus)))),
+        page: optional(field(rules.stringLength(1, 6))),
+        limit: optional(field(rules.stringLength(1, 3)))
+    })
+}), async (req, res) => {
+    res.status(HttpStatus.OK).json(await listDeadLetters({
+        handler: req.query.handler as string,
+        topic: req.query.topic as string,
+        status: req.query.status as string,
+        page: Math.max(parseInt(req.query.page as string) || 1, 1),
+        limit: Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100)
+    }));
+});
+
+router.get("/:id", requirePermission("deadLetters:read"), validateRequest({ params: idParams }), async (req, res) => {
+    res.status(HttpStatus.OK).json(await getDeadLetter(req.params.id as string));
+});
+
+router.post("/:id/replay", requirePermission("deadLetters:replay"), validateRequest({ params: idParams }), async (req, res) => {
+    res.status(HttpStatus.OK).json(await replayDeadLetter(req.params.id as string));
+});
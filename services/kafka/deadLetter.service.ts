@@ -0,0 +1,135 @@
+import {EachMessagePayload, IHeaders} from "kafkajs";
+import {KAFKA} from "@environment";
+import {getLogger, Logger} from "@loggers/serverLogger";
+import {getKafkaProducer} from "@connections/connectToKafka";
+import {DeadLetterModel, DeadLetterStatus} from "@dbModels/kafka/DeadLetter";
+import {getCurrentTenant} from "@_shared/context/requestContext";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus} from "@_shared/types/general.types";
+import {FRAMEWORK_HEADERS, listRetryingGroups, registerKafkaHandler, retryTopicName} from "@_shared/kafka/consumers";
+
+function readHeaders(headers: IHeaders | undefined): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (let [name, value] of Object.entries(headers || {})) {
+        if (value !== undefined) {
+            values[name] = value.toString();
+        }
+    }
+    return values;
+}
+
+/**
+ * Keeps the dead-lettered message. A message that fails again after a replay updates the dead letter it was replayed from.
+ */
+export async function handleDeadLetter({ message }: EachMessagePayload): Promise<void> {
+    let logger = getLogger("deadLetterRecorder", Logger.KAFKA, Logger.KAFKA);
+    const headers = readHeaders(message.headers);
+    const own: Record<string, string> = {};
+    for (let [name, value] of Object.entries(headers)) {
+        if (!FRAMEWORK_HEADERS.includes(name)) {
+            own[name] = value;
+        }
+    }
+    await DeadLetterModel.updateOne({
+        handler: headers.handler,
+        topic: headers.originalTopic,
+        partition: parseInt(headers.originalPartition),
+        offset: headers.originalOffset
+    }, {
+        $set: {
+            key: message.key?.toString(),
+            value: message.value?.toString(),
+            headers: own,
+            tenantId: headers.tenantId,
+            error: headers.error,
+            stack: headers.stack,
+            attempts: parseInt(headers.retryAttempt) || 0,
+            status: DeadLetterStatus.PENDING,
+            failedAt: headers.failedAt ? new Date(headers.failedAt) : new Date()
+        },
+        $inc: { failures: 1 },
+        $unset: { replayedAt: "" }
+    }, { upsert: true });
+    logger.info(`Dead letter of [${headers.handler}] from [${headers.originalTopic}] recorded: ${headers.error}`);
+}
+
+/**
+ * The dead letters of the current tenant. Messages read outside of any storefront (e.g. "user.signup.request") are
+ * dead-lettered without one; a request sent without an X-Tenant-ID header sees those instead.
+ */
+function deadLetterTenant(): string | null {
+    return getCurrentTenant() || null;
+}
+
+export async function listDeadLetters(filter: { handler?: string, topic?: string, status?: string, page: number, limit: number }) {
+    const query: Record<string, any> = { tenantId: deadLetterTenant() };
+    if (filter.handler) {
+        query.handler = filter.handler;
+    }
+    if (filter.topic) {
+        query.topic = filter.topic;
+    }
+    if (filter.status) {
+        query.status = filter.status;
+    }
+    const [items, total] = await Promise.all([
+        DeadLetterModel.find(query).sort({ failedAt: -1 }).skip((filter.page - 1) * filter.limit).limit(filter.limit),
+        DeadLetterModel.countDocuments(query)
+    ]);
+    return { items, total, page: filter.page, limit: filter.limit };
+}
+
+export async function getDeadLetter(deadLetterId: string) {
+    const deadLetter = await DeadLetterModel.findOne({ _id: deadLetterId, tenantId: deadLetterTenant() });
+    if (!deadLetter) {
+        throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+    }
+    return deadLetter;
+}
+
+/**
+ * Hands the message back to the handler that failed on it, through its first retry topic with no delay,
+ * so only that handler sees it again and it gets every retry once more. Only pending dead letters can be replayed;
+ * others fail with "kafka"/"alreadyReplayed" (CONFLICT), and those of handlers that are gone with "kafka"/"unknownHandler".
+ */
+export async function replayDeadLetter(deadLetterId: string) {
+    const existing = await getDeadLetter(deadLetterId);
+    if (!listRetryingGroups().includes(existing.handler)) {
+        throw new CustomServerException("kafka", "unknownHandler", undefined, HttpStatus.CONFLICT);
+    }
+    const deadLetter = await DeadLetterModel.findOneAndUpdate(
+        { _id: existing._id, status: DeadLetterStatus.PENDING },
+        { $set: { status: DeadLetterStatus.REPLAYED, replayedAt: new Date() } },
+        { new: true }
+    );
+    if (!deadLetter) {
+        throw new CustomServerException("kafka", "alreadyReplayed", undefined, HttpStatus.CONFLICT);
+    }
+    try {
+        await getKafkaProducer().send({
+            topic: retryTopicName(deadLetter.handler, 0),
+            messages: [{
+                key: deadLetter.key,
+                value: deadLetter.value,
+                headers: {
+                    ...deadLetter.headers,
+                    handler: deadLetter.handler,
+                    originalTopic: deadLetter.topic,
+                    originalPartition: deadLetter.partition.toString(),
+                    originalOffset: deadLetter.offset,
+                    retryAttempt: "0",
+                    retryAt: Date.now().toString()
+                }
+            }]
+        });
+    } catch (error) {
+        await DeadLetterModel.updateOne({ _id: deadLetter._id }, { $set: { status: DeadLetterStatus.PENDING }, $unset: { replayedAt: "" } });
+        throw error;
+    }
+    return deadLetter;
+}
+
+// Failures to record a dead letter are left to Kafka to deliver again, rather than dead-lettered themselves
+export function registerDeadLetterConsumer(): void {
+    registerKafkaHandler(KAFKA.TOPICS.DEAD_LETTER, handleDeadLetter, { retry: false });
+}
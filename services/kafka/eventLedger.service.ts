@@ -0,0 +1,93 @@
+import {EVENT_LEDGER} from "@environment";
+import {getLogger, Logger} from "@loggers/serverLogger";
+import {buildRedisKey, deleteKey, getAllHash, getKey, getRedisClient, setKey, setKeyIfAbsent} from "@connections/connectToRedis";
+import {ProcessedEventModel} from "@dbModels/kafka/ProcessedEvent";
+import {EventLedger, EventLedgerStore} from "@_shared/types/kafka.types";
+
+const PROCESSING = "processing";
+const PROCESSED = "processed";
+// duplicates dropped, by handler
+const DUPLICATES_KEY = buildRedisKey("kafka", "duplicates");
+
+function ledgerKey(handler: string, eventId: string): string {
+    return buildRedisKey("kafka", "processed", handler, eventId);
+}
+
+// Claims in Redis, processed events remembered in Mongo
+const redisMongoStore: EventLedgerStore = {
+    claim: (key, value, ttl) => setKeyIfAbsent(key, value, ttl),
+    get: (key) => getKey(key),
+    set: (key, value, ttl) => setKey(key, value, ttl),
+    release: async (key) => {
+        await deleteKey(key);
+    },
+    wasProcessed: async (handler, eventId) => !!(await ProcessedEventModel.exists({ handler, eventId })),
+    markProcessed: async (handler, eventId) => {
+        await ProcessedEventModel.updateOne({ handler, eventId }, { $setOnInsert: { processedAt: new Date() } }, { upsert: true });
+    },
+    countDuplicate: async (handler) => {
+        await getRedisClient().hIncrBy(DUPLICATES_KEY, handler, 1);
+    }
+};
+
+/**
+ * An event ledger keeping its claims and processed events in the store. The ledger runs the work for the first delivery
+ * of the event to the handler and returns false, without running it, for every later one.
+ * The event is claimed while the work runs and remembered for EVENT_LEDGER.CACHE_TTL seconds once it is done;
+ * the long-lived memory of the store keeps it for copies arriving after that.
+ * A copy arriving while another consumer still works on the event fails, so it is retried later instead of being dropped
+ * for work that may yet fail. Whatever fails after the claim, the work or the lookup, releases the event for the next delivery.
+ */
+export function createEventLedger(store: EventLedgerStore): EventLedger {
+    async function dropDuplicate(handler: string, eventId: string): Promise<false> {
+        let logger = getLogger("eventLedgerDuplicate", Logger.KAFKA, Logger.KAFKA);
+        await store.countDuplicate(handler);
+        logger.debug(`[${handler}] already processed event [${eventId}], dropping the duplicate`);
+        return false;
+    }
+
+    return async (handler, eventId, work) => {
+        let logger = getLogger("eventLedger", Logger.KAFKA, Logger.KAFKA);
+        const key = ledgerKey(handler, eventId);
+        if (!(await store.claim(key, PROCESSING, EVENT_LEDGER.CLAIM_TTL))) {
+            if ((await store.get(key)) === PROCESSED) {
+                return dropDuplicate(handler, eventId);
+            }
+            throw new Error(`Event [${eventId}] is being processed by another consumer of [${handler}]`);
+        }
+
+        try {
+            if (await store.wasProcessed(handler, eventId)) {
+                await store.set(key, PROCESSED, EVENT_LEDGER.CACHE_TTL);
+                return dropDuplicate(handler, eventId);
+            }
+            await work();
+        } catch (error) {
+            await store.release(key);
+            throw error;
+        }
+        await store.set(key, PROCESSED, EVENT_LEDGER.CACHE_TTL);
+        try {
+            await store.markProcessed(handler, eventId);
+        } catch (error) {
+            // the work is done, so it is not failed for this; only a copy arriving after Redis forgot it would run again
+            logger.err(`Could not remember event [${eventId}] of [${handler}] in Mongo: ${error.message}`);
+        }
+        return true;
+    };
+}
+
+// The ledger of the service: claims in Redis, for EVENT_LEDGER.CLAIM_TTL seconds, and processed events in Mongo, for EVENT_LEDGER.RETENTION seconds
+export const handleOnce: EventLedger = createEventLedger(redisMongoStore);
+
+// Duplicates dropped so far, by handler, with their total
+export async function getDuplicateCounts(): Promise<{ total: number, handlers: Record<string, number> }> {
+    const counts = await getAllHash(DUPLICATES_KEY);
+    const handlers: Record<string, number> = {};
+    let total = 0;
+    for (let [handler, count] of Object.entries(counts)) {
+        handlers[handler] = parseInt(count);
+        total += handlers[handler];
+    }
+    return { total, handlers };
+}
@@ -0,0 +1,51 @@
+import {getLogger, Logger} from "@loggers/serverLogger";
+import {OrderStatus} from "@dbModels/order/Order";
+import {PaymentStatus} from "@dbModels/payment/Payment";
+import {runInTransaction} from "@dbModels/shared/Cascade";
+import {PaymentEvent} from "@_shared/types/payment.types";
+import {SagaCommand} from "@_shared/types/saga.types";
+import {registerEventHandler} from "@_shared/kafka/events";
+import {EVENT_TOPICS} from "@_shared/kafka/topics";
+import {registerSagaParticipant} from "@services/saga/saga.service";
+import {commitReservation} from "@services/inventory/inventory.service";
+import {getOrder, transitionOrder} from "@services/order/order.service";
+import {assertTransition, canTransition} from "@services/order/order.stateMachine";
+
+/**
+ * Confirms the checkout: the held stock becomes a sale and the order moves to paid, in one transaction, so an order is
+ * never paid without its stock and stock is never sold for an order that is not paid. An order that can no longer be paid,
+ * e.g. one cancelled in the meantime, fails the step before its stock is touched. A redelivered command finds the order paid.
+ */
+export async function handleConfirmOrder(command: SagaCommand): Promise<void> {
+    const { orderId, reservationId } = command.context;
+    const order = await getOrder(orderId);
+    if (order.status === OrderStatus.PAID) {
+        return;
+    }
+    assertTransition(order.status, OrderStatus.PAID);
+    await runInTransaction(null, async (session) => {
+        await commitReservation(reservationId, session);
+        await transitionOrder(orderId, OrderStatus.PAID, { reason: `Checkout [${command.sagaId}]`, expectedVersion: order.version, session });
+    });
+}
+
+// A payment refunded in full, through the API or at the provider, refunds its order
+export async function handlePaymentRefunded(event: PaymentEvent): Promise<void> {
+    let logger = getLogger("orderPaymentRefundedHandler", Logger.ORDER, Logger.ORDER);
+    logger.start();
+    if (event.status !== PaymentStatus.REFUNDED) {
+        logger.info(`Payment [${event.paymentId}] of order [${event.orderId}] was refunded in part`, { refundedAmount: event.refundedAmount });
+        logger.finish();
+        return;
+    }
+    const order = await getOrder(event.orderId);
+    if (canTransition(order.status, OrderStatus.REFUNDED)) {
+        await transitionOrder(event.orderId, OrderStatus.REFUNDED, { reason: `Payment [${event.paymentId}] refunded` });
+    }
+    logger.finish();
+}
+
+export function registerOrderConsumer(): void {
+    registerSagaParticipant(EVENT_TOPICS.CHECKOUT_CONFIRM_ORDER, handleConfirmOrder);
+    registerEventHandler(EVENT_TOPICS.PAYMENT_REFUNDED, handlePaymentRefunded);
+}
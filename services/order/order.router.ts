@@ -0,0 +1,77 @@
+import {Request, Router} from "express";
+import {HttpStatus} from "@_shared/types/general.types";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {field, object, optional, rules} from "@_shared/exceptions/schema";
+import {OrderStatus} from "@dbModels/order/Order";
+import {validateRequest} from "@_shared/middlewares/validateRequest";
+import {authenticate} from "@_shared/middlewares/authenticate";
+import {getExpectedVersion, sendWithETag} from "@_shared/middlewares/concurrency";
+import {getUserPermissions, hasPermission} from "@services/auth/authorization.service";
+import {getOrder, listOrders, transitionOrder} from "@services/order/order.service";
+
+const idParams = object({ id: field(rules.isObjectId()) });
+
+// Permission needed to move an order into each status
+const TRANSITION_PERMISSIONS: Partial<Record<OrderStatus, string>> = {
+    [OrderStatus.PAID]: "orders:update",
+    [OrderStatus.FULFILLED]: "orders:update",
+    [OrderStatus.SHIPPED]: "orders:update",
+    [OrderStatus.DELIVERED]: "orders:update",
+    [OrderStatus.CANCELLED]: "orders:cancel",
+    [OrderStatus.REFUNDED]: "orders:refund"
+};
+
+function forbidden(): CustomServerException {
+    return new CustomServerException("authorization", "missingPermission", undefined, HttpStatus.FORBIDDEN);
+}
+
+// "orders:read" sees every order, "orders:read:own" only the orders of the user; returns the user to filter on
+async function getReadScope(req: Request): Promise<string | undefined> {
+    const granted = await getUserPermissions(req.user.id);
+    if (hasPermission(granted, "orders:read")) {
+        return undefined;
+    }
+    if (hasPermission(granted, "orders:read:own")) {
+        return req.user.id;
+    }
+    throw forbidden();
+}
+
+export const router = Router();
+
+router.use(authenticate());
+
+router.get("/", validateRequest({
+    query: object({
+        status: optional(field(rules.mustBe(Object.values(OrderStatus)))),
+        page: optional(field(rules.stringLength(1, 6))),
+        limit: optional(field(rules.stringLength(1, 3)))
+    })
+}), async (req, res) => {
+    res.status(HttpStatus.OK).json(await listOrders({
+        userId: await getReadScope(req),
+        status: req.query.status as string,
+        page: Math.max(parseInt(req.query.page as string) || 1, 1),
+        limit: Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100)
+    }));
+});
+
+router.get("/:id", validateRequest({ params: idParams }), async (req, res) => {
+    sendWithETag(req, res, await getOrder(req.params.id as string, await getReadScope(req)));
+});
+
+router.post("/:id/transitions", validateRequest({
+    params: idParams,
+    body: object({
+        status: field(rules.mustBe(Object.keys(TRANSITION_PERMISSIONS))),
+        reason: optional(field(rules.stringLength(1, 500)))
+    })
+}), async (req, res) => {
+    const orderId = req.params.id as string;
+    const status = req.body.status as OrderStatus;
+    if (!hasPermission(await getUserPermissions(req.user.id), TRANSITION_PERMISSIONS[status])) {
+        throw forbidden();
+    }
+    const order = await transitionOrder(orderId, status, { reason: req.body.reason, expectedVersion: getExpectedVersion(req, orderId) });
+    sendWithETag(req, res, order);
+});
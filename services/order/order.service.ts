@@ -0,0 +1,117 @@
+import {ClientSession, HydratedDocument, Types} from "mongoose";
+import {Order, OrderItem, OrderModel, OrderStatus, OrderTransition} from "@dbModels/order/Order";
+import {runInTransaction} from "@dbModels/shared/Cascade";
+import {getCurrentActor} from "@_shared/context/requestContext";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus} from "@_shared/types/general.types";
+import {OrderEvent, OrderListFilter} from "@_shared/types/order.types";
+import {TopicDefinition} from "@_shared/types/kafka.types";
+import {EVENT_TOPICS} from "@_shared/kafka/topics";
+import {assertTransition} from "@services/order/order.stateMachine";
+import {addToOutbox, OutboxMessage, outboxEvent} from "@services/outbox/outbox.service";
+
+export const ORDER_STATUS_TOPICS: Record<OrderStatus, TopicDefinition<OrderEvent>> = {
+    [OrderStatus.PENDING]: EVENT_TOPICS.ORDER_CREATED,
+    [OrderStatus.PAID]: EVENT_TOPICS.ORDER_PAID,
+    [OrderStatus.FULFILLED]: EVENT_TOPICS.ORDER_FULFILLED,
+    [OrderStatus.SHIPPED]: EVENT_TOPICS.ORDER_SHIPPED,
+    [OrderStatus.DELIVERED]: EVENT_TOPICS.ORDER_DELIVERED,
+    [OrderStatus.CANCELLED]: EVENT_TOPICS.ORDER_CANCELLED,
+    [OrderStatus.REFUNDED]: EVENT_TOPICS.ORDER_REFUNDED
+};
+
+/**
+ * The message announcing the transition on the topic of the status the order moved to, keyed by the order id
+ * so the events of one order stay in order. It goes through the outbox, in the transaction storing the transition.
+ */
+function transitionMessage(order: HydratedDocument<Order>, transition: OrderTransition): OutboxMessage {
+    const event: OrderEvent = {
+        orderId: order._id.toString(),
+        tenantId: order.tenantId,
+        userId: order.user.toString(),
+        from: transition.from,
+        to: transition.to,
+        version: order.version,
+        reason: transition.reason,
+        occurredAt: transition.at.toISOString(),
+        total: { amount: order.total.amount, currency: order.total.currency }
+    };
+    return outboxEvent(ORDER_STATUS_TOPICS[transition.to], event.orderId, event, { tenantId: event.tenantId });
+}
+
+export async function getOrder(orderId: string, userId?: string) {
+    const filter: Record<string, any> = { _id: orderId };
+    if (userId) {
+        filter.user = userId;
+    }
+    const order = await OrderModel.findOne(filter);
+    if (!order) {
+        throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+    }
+    return order;
+}
+
+export async function listOrders(filter: OrderListFilter) {
+    const query: Record<string, any> = {};
+    if (filter.userId) {
+        query.user = filter.userId;
+    }
+    if (filter.status) {
+        query.status = filter.status;
+    }
+    const [items, total] = await Promise.all([
+        OrderModel.find(query).sort({ createdAt: -1 }).skip((filter.page - 1) * filter.limit).limit(filter.limit),
+        OrderModel.countDocuments(query)
+    ]);
+    return { items, total, page: filter.page, limit: filter.limit };
+}
+
+/**
+ * Creates a pending order from already priced items, all in one currency. Items carry the discounts they were priced with;
+ * the total of the order is the subtotal less those discounts.
+ */
+export async function createOrder(userId: string, items: OrderItem[], couponCodes: string[] = []) {
+    if (items.length === 0) {
+        throw new CustomServerException("order", "emptyOrder", undefined, HttpStatus.UNPROCESSABLE_ENTITY);
+    }
+    const currency = items[0].lineTotal.currency;
+    const subtotal = items.reduce((sum, item) => sum + item.lineTotal.amount, 0);
+    const discount = items.reduce((sum, item) => sum + (item.discounts || []).reduce((itemSum, entry) => itemSum + entry.amount, 0), 0);
+    const transition: OrderTransition = { from: null, to: OrderStatus.PENDING, actor: getCurrentActor(), at: new Date() };
+    return runInTransaction(null, async (session) => {
+        const [order] = await OrderModel.create([{
+            user: new Types.ObjectId(userId),
+            status: OrderStatus.PENDING,
+            items: items.map(item => ({ ...item, total: item.total || { ...item.lineTotal } })),
+            subtotal: { amount: subtotal, currency },
+            discount: { amount: discount, currency },
+            total: { amount: subtotal - discount, currency },
+            couponCodes,
+            transitions: [transition]
+        }], { session });
+        await addToOutbox(session, [transitionMessage(order, transition)]);
+        return order;
+    });
+}
+
+/**
+ * Moves the order to the given status and appends the move to its transition log.
+ * Illegal moves fail with "order"/"illegalTransition" (CONFLICT). The write is conditional on the version that was checked,
+ * or on expectedVersion when the client sent one, so a concurrent transition fails with "mongoDb"/"versionConflict".
+ * The move joins the transaction of the session when one is given.
+ */
+export async function transitionOrder(orderId: string, to: OrderStatus,
+                                      options: { reason?: string, expectedVersion?: number, userId?: string, session?: ClientSession } = {}) {
+    const order = await getOrder(orderId, options.userId);
+    assertTransition(order.status, to);
+    const transition: OrderTransition = { from: order.status, to, actor: getCurrentActor(), reason: options.reason, at: new Date() };
+    return runInTransaction(options.session, async (session) => {
+        const updated = await OrderModel.findOneAndUpdate(
+            { _id: order._id },
+            { $set: { status: to }, $push: { transitions: transition } },
+            { new: true, expectedVersion: options.expectedVersion ?? order.version, session }
+        );
+        await addToOutbox(session, [transitionMessage(updated, transition)]);
+        return updated;
+    });
+}
@@ -0,0 +1,35 @@
+import {OrderStatus} from "@dbModels/order/Order";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus} from "@_shared/types/general.types";
+
+/**
+ * Legal moves of an order. The happy path is pending -> paid -> fulfilled -> shipped -> delivered;
+ * an unpaid order can be cancelled, a paid one is refunded instead, also while it is on its way (e.g. lost in transit).
+ * Cancelled and refunded are final.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    [OrderStatus.PENDING]: [OrderStatus.PAID, OrderStatus.CANCELLED],
+    [OrderStatus.PAID]: [OrderStatus.FULFILLED, OrderStatus.REFUNDED],
+    [OrderStatus.FULFILLED]: [OrderStatus.SHIPPED, OrderStatus.REFUNDED],
+    [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED, OrderStatus.REFUNDED],
+    [OrderStatus.DELIVERED]: [OrderStatus.REFUNDED],
+    [OrderStatus.CANCELLED]: [],
+    [OrderStatus.REFUNDED]: []
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return ORDER_TRANSITIONS[from]?.includes(to) || false;
+}
+
+export function isFinalStatus(status: OrderStatus): boolean {
+    return ORDER_TRANSITIONS[status]?.length === 0;
+}
+
+/**
+ * Throws "order"/"illegalTransition" (CONFLICT) when the order may not move from one status to the other.
+ */
+export function assertTransition(from: OrderStatus, to: OrderStatus): void {
+    if (!canTransition(from, to)) {
+        throw new CustomServerException("order", "illegalTransition", undefined, HttpStatus.CONFLICT);
+    }
+}
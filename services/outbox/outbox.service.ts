@@ -0,0 +1,210 @@
+import {randomUUID} from "crypto";
+import {ClientSession} from "mongoose";
+import {OUTBOX} from "@environment";
+import {getLogger, Logger} from "@loggers/serverLogger";
+import {getKafkaProducer} from "@connections/connectToKafka";
+import {buildRedisKey, getRedisClient} from "@connections/connectToRedis";
+import {OutboxEvent, OutboxEventModel, OutboxStatus} from "@dbModels/outbox/OutboxEvent";
+import {createEnvelope, envelopeHeaders} from "@_shared/kafka/events";
+import {EnvelopeOptions, EventEnvelope, TopicDefinition} from "@_shared/types/kafka.types";
+
+// A Kafka message to publish once the transaction writing it commits
+export type OutboxMessage = {
+    topic: string,
+    // the message key; messages with the same key are published in the order they were written
+    key: string,
+    envelope: EventEnvelope<any>
+}
+
+// What the relay does with the events of a key: Kafka and the outbox collection outside of tests
+export type OutboxRelayTarget = {
+    publish(event: OutboxEvent): Promise<void>,
+    markDispatched(event: OutboxEvent): Promise<void>,
+    markFailed(event: OutboxEvent, attempts: number, nextAttemptAt: Date, error: Error): Promise<void>,
+    // false once the relay lost its lock to another instance; it publishes nothing more then
+    holdsLock(): Promise<boolean>
+}
+
+const RELAY_LOCK_KEY = buildRedisKey("jobs", "outboxRelay", "lock");
+const RELAY_LOCK_TTL = OUTBOX.RELAY_INTERVAL * 5;
+// Frees the lock only when this run still holds it
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+// Extends the lock only when this run still holds it
+const RENEW_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+let relayTimer: NodeJS.Timeout | null = null;
+let relaying = false;
+
+/**
+ * Writes the messages to the outbox in the transaction of the session, so they are stored if and only if the change they announce is.
+ * The outbox relay publishes them afterwards.
+ */
+export async function addToOutbox(session: ClientSession, messages: OutboxMessage[]): Promise<void> {
+    if (!session.inTransaction()) {
+        throw new Error("Outbox messages must be written inside the transaction of the change they announce");
+    }
+    if (messages.length === 0) {
+        return;
+    }
+    await OutboxEventModel.insertMany(messages.map(message => ({
+        topic: message.topic,
+        key: message.key,
+        payload: message.envelope,
+        headers: envelopeHeaders(message.envelope)
+    })), { session });
+}
+
+/**
+ * The outbox message carrying the payload on the topic. The envelope is made, and the payload checked, when the message is written.
+ */
+export function outboxEvent<T>(topic: TopicDefinition<T>, key: string, payload: T, options: EnvelopeOptions = {}): OutboxMessage {
+    return { topic: topic.name, key, envelope: createEnvelope(topic, payload, options) };
+}
+
+// ms to wait before the next publish of an event that failed the given number of times
+export function outboxRetryDelay(attempts: number): number {
+    return Math.min(OUTBOX.RETRY_BASE_DELAY * 2 ** Math.max(attempts - 1, 0), OUTBOX.RETRY_MAX_DELAY);
+}
+
+// Publishes to Kafka while the run holding the lock with the token keeps it, renewing it on every check
+function kafkaTarget(lockToken: string): OutboxRelayTarget {
+    return {
+        publish: async (event) => {
+            await getKafkaProducer().send({
+                topic: event.topic,
+                messages: [{
+                    key: event.key,
+                    value: JSON.stringify(event.payload),
+                    headers: event.headers
+                }]
+            });
+        },
+        markDispatched: async (event) => {
+            await OutboxEventModel.updateOne({ _id: event._id }, {
+                $set: { status: OutboxStatus.DISPATCHED, dispatchedAt: new Date() },
+                $inc: { attempts: 1 },
+                $unset: { lastError: "" }
+            });
+        },
+        markFailed: async (event, attempts, nextAttemptAt, error) => {
+            await OutboxEventModel.updateOne({ _id: event._id }, {
+                $set: { attempts, nextAttemptAt, lastError: error.message }
+            });
+        },
+        holdsLock: async () => {
+            const renewed = await getRedisClient().eval(RENEW_LOCK_SCRIPT, { keys: [RELAY_LOCK_KEY], arguments: [lockToken, RELAY_LOCK_TTL.toString()] });
+            return renewed === 1;
+        }
+    };
+}
+
+/**
+ * Publishes the pending events of one key, oldest first, and stops at the first one that fails or is still backing off,
+ * so a later event never overtakes an earlier one, or once the relay lost its lock. Returns how many were dispatched.
+ */
+export async function relayEvents(events: OutboxEvent[], now: Date, target: OutboxRelayTarget): Promise<number> {
+    let logger = getLogger("outboxKeyRelay", Logger.KAFKA, Logger.KAFKA);
+    let dispatched = 0;
+    for (let event of events) {
+        if (event.nextAttemptAt > now) {
+            break;
+        }
+        if (!(await target.holdsLock())) {
+            logger.warn(`Stopped relaying [${event.key}]: the relay lock was lost`);
+            break;
+        }
+        try {
+            await target.publish(event);
+        } catch (error) {
+            const attempts = event.attempts + 1;
+            const delay = outboxRetryDelay(attempts);
+            await target.markFailed(event, attempts, new Date(Date.now() + delay), error);
+            logger.err(`Could not publish outbox event [${event._id}] to [${event.topic}], attempt [${attempts}], retrying in [${delay}] ms: ${error.message}`);
+            break;
+        }
+        await target.markDispatched(event);
+        dispatched++;
+    }
+    return dispatched;
+}
+
+async function relayKey(key: string, now: Date, target: OutboxRelayTarget): Promise<number> {
+    const events = await OutboxEventModel.find({ key, status: OutboxStatus.PENDING }).sort({ createdAt: 1, _id: 1 }).limit(OUTBOX.BATCH_SIZE).lean();
+    return relayEvents(events, now, target);
+}
+
+/**
+ * Publishes the events that are due, key by key. A message may go out twice when the relay stops between publishing it
+ * and marking it dispatched; consumers are expected to tolerate that, as they do any Kafka redelivery.
+ * Runs while the relay lock is held with the token, and stops as soon as it is not.
+ */
+export async function relayOutbox(lockToken: string, parentAction?: number): Promise<number> {
+    let logger = getLogger("outboxRelay", Logger.KAFKA, Logger.KAFKA, parentAction);
+    const now = new Date();
+    const due = await OutboxEventModel.find({ status: OutboxStatus.PENDING, nextAttemptAt: { $lte: now } })
+        .sort({ createdAt: 1, _id: 1 })
+        .limit(OUTBOX.BATCH_SIZE)
+        .select("key")
+        .lean();
+    const target = kafkaTarget(lockToken);
+    let dispatched = 0;
+    for (let key of new Set(due.map(event => event.key))) {
+        if (!(await target.holdsLock())) {
+            logger.warn(`Stopped the outbox relay: the relay lock was lost`);
+            break;
+        }
+        dispatched += await relayKey(key, now, target);
+    }
+    if (dispatched > 0) {
+        logger.debug(`Dispatched [${dispatched}] outbox event(s)`);
+    }
+    return dispatched;
+}
+
+/**
+ * Runs the relay every OUTBOX.RELAY_INTERVAL ms. The Redis lock lets one instance relay at a time,
+ * which keeps the events of a key in order across instances. Every run holds it with a token of its own, since instances
+ * in containers all tend to run as the same pid, and renews it while it relays.
+ */
+export function startOutboxRelay(parentAction?: number): void {
+    let logger = getLogger("outboxRelayScheduler", Logger.KAFKA, Logger.KAFKA, parentAction);
+    logger.updateSpace();
+    logger.start();
+    if (relayTimer) {
+        clearInterval(relayTimer);
+    }
+    relayTimer = setInterval(async () => {
+        // a relay that outlasts the interval is not run twice by this instance
+        if (relaying) {
+            return;
+        }
+        relaying = true;
+        try {
+            const lockToken = randomUUID();
+            const locked = await getRedisClient().set(RELAY_LOCK_KEY, lockToken, { NX: true, PX: RELAY_LOCK_TTL });
+            if (locked) {
+                try {
+                    await relayOutbox(lockToken);
+                } finally {
+                    await getRedisClient().eval(RELEASE_LOCK_SCRIPT, { keys: [RELAY_LOCK_KEY], arguments: [lockToken] });
+                }
+            }
+        } catch (error) {
+            logger.err(`Outbox relay could not run: ${error.message}`);
+        } finally {
+            relaying = false;
+        }
+    }, OUTBOX.RELAY_INTERVAL);
+    logger.debug(`Outbox relay scheduled every [${OUTBOX.RELAY_INTERVAL}] ms, retries back off from [${OUTBOX.RETRY_BASE_DELAY}] to [${OUTBOX.RETRY_MAX_DELAY}] ms`);
+    logger.finish();
+    logger.updateSpace(-1);
+}
@@ -0,0 +1,41 @@
+import {getLogger, Logger} from "@loggers/serverLogger";
+import {PaymentModel, PaymentStatus} from "@dbModels/payment/Payment";
+import {OrderEvent} from "@_shared/types/order.types";
+import {SagaCommand} from "@_shared/types/saga.types";
+import {registerEventHandler} from "@_shared/kafka/events";
+import {EVENT_TOPICS} from "@_shared/kafka/topics";
+import {registerSagaParticipant} from "@services/saga/saga.service";
+import {authorizePayment, capturePayment, findPaymentByReference, voidPayment} from "@services/payment/payment.service";
+
+export async function handleAuthorizePayment(command: SagaCommand): Promise<Record<string, any>> {
+    const { orderId, amount, paymentMethod } = command.context;
+    const payment = await authorizePayment(orderId, command.sagaId, amount, paymentMethod);
+    return { paymentId: payment._id.toString() };
+}
+
+export async function handleVoidPayment(command: SagaCommand): Promise<void> {
+    const payment = await findPaymentByReference(command.sagaId);
+    if (payment) {
+        await voidPayment(payment._id.toString());
+    }
+}
+
+// The money is taken once the order is paid, i.e. its stock was committed
+export async function handleOrderPaid(event: OrderEvent): Promise<void> {
+    let logger = getLogger("paymentOrderPaidHandler", Logger.PAYMENT, Logger.PAYMENT);
+    logger.start();
+    const payment = await PaymentModel.findOne({ order: event.orderId, status: PaymentStatus.AUTHORIZED });
+    if (!payment) {
+        logger.info(`Order [${event.orderId}] has no authorized payment to capture`);
+        logger.finish();
+        return;
+    }
+    await capturePayment(payment._id.toString());
+    logger.finish();
+}
+
+export function registerPaymentConsumer(): void {
+    registerSagaParticipant(EVENT_TOPICS.CHECKOUT_AUTHORIZE_PAYMENT, handleAuthorizePayment);
+    registerSagaParticipant(EVENT_TOPICS.CHECKOUT_VOID_PAYMENT, handleVoidPayment);
+    registerEventHandler(EVENT_TOPICS.ORDER_PAID, handleOrderPaid);
+}
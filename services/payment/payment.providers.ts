@@ -0,0 +1,30 @@
+import {PAYMENT, SERVER} from "@environment";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus} from "@_shared/types/general.types";
+import {PaymentProvider} from "@_shared/types/payment.types";
+import {createFakeProvider} from "@services/payment/providers/fake.provider";
+
+const providers: Record<string, PaymentProvider> = {};
+
+export function registerPaymentProvider(provider: PaymentProvider): void {
+    if (providers[provider.name]) {
+        throw new Error(`A payment provider is already registered as [${provider.name}]`);
+    }
+    providers[provider.name] = provider;
+}
+
+// The provider with the given name, PAYMENT.PROVIDER by default
+export function getPaymentProvider(name: string = PAYMENT.PROVIDER): PaymentProvider {
+    const provider = providers[name];
+    if (!provider) {
+        throw new CustomServerException("payment", "unknownProvider", undefined, HttpStatus.NOT_FOUND);
+    }
+    return provider;
+}
+
+// The fake gateway approves payments without moving any money, so it is never registered in production
+export function registerPaymentProviders(): void {
+    if (SERVER.NODE_ENV !== "production") {
+        registerPaymentProvider(createFakeProvider(PAYMENT.FAKE_WEBHOOK_SECRET));
+    }
+}
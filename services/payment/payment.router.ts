@@ -0,0 +1,39 @@
+import {Router} from "express";
+import {HttpStatus} from "@_shared/types/general.types";
+import {field, object, optional, rules} from "@_shared/exceptions/schema";
+import {validateRequest} from "@_shared/middlewares/validateRequest";
+import {authenticate} from "@_shared/middlewares/authenticate";
+import {requirePermission} from "@_shared/middlewares/authorize";
+import {capturePayment, getPayment, handlePaymentWebhook, listPayments, refundPayment} from "@services/payment/payment.service";
+
+const idParams = object({ id: field(rules.isObjectId()) });
+
+export const router = Router();
+
+// Called by the providers, who sign their webhooks instead of logging in
+router.post("/webhooks/:provider", validateRequest({ params: object({ provider: field(rules.stringLength(1, 50)) }) }), async (req, res) => {
+    await handlePaymentWebhook(req.params.provider as string, req.rawBody, req.headers);
+    res.status(HttpStatus.NO_CONTENT).send();
+});
+
+router.get("/", authenticate(), requirePermission("orders:read"), validateRequest({
+    query: object({ order: optional(field(rules.isObjectId())) })
+}), async (req, res) => {
+    res.status(HttpStatus.OK).json(await listPayments(req.query.order as string));
+});
+
+router.get("/:id", authenticate(), requirePermission("orders:read"), validateRequest({ params: idParams }), async (req, res) => {
+    res.status(HttpStatus.OK).json(await getPayment(req.params.id as string));
+});
+
+// Captures are normally taken when the order is paid; this retries one that failed
+router.post("/:id/capture", authenticate(), requirePermission("orders:update"), validateRequest({ params: idParams }), async (req, res) => {
+    res.status(HttpStatus.OK).json(await capturePayment(req.params.id as string));
+});
+
+router.post("/:id/refunds", authenticate(), requirePermission("orders:refund"), validateRequest({
+    params: idParams,
+    body: object({ amount: optional(field(rules.isInteger(), rules.greaterThanOrEqual(1))) })
+}), async (req, res) => {
+    res.status(HttpStatus.OK).json(await refundPayment(req.params.id as string, req.body.amount));
+});
@@ -0,0 +1,312 @@
+import {HydratedDocument, Types} from "mongoose";
+import {PAYMENT} from "@environment";
+import {getLogger, Logger} from "@loggers/serverLogger";
+import {buildRedisKey, deleteKey, setKeyIfAbsent} from "@connections/connectToRedis";
+import {Payment, PaymentModel, PaymentStatus} from "@dbModels/payment/Payment";
+import {runInTransaction} from "@dbModels/shared/Cascade";
+import {runAsSystem} from "@_shared/context/requestContext";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {field, object, rules, validateSchema} from "@_shared/exceptions/schema";
+import {HttpStatus, Money} from "@_shared/types/general.types";
+import {PaymentEvent, PaymentOperation, PaymentProvider, ProviderResult, ProviderWebhookEvent} from "@_shared/types/payment.types";
+import {TopicDefinition} from "@_shared/types/kafka.types";
+import {EVENT_TOPICS} from "@_shared/kafka/topics";
+import {getPaymentProvider} from "@services/payment/payment.providers";
+import {addToOutbox, OutboxMessage, outboxEvent} from "@services/outbox/outbox.service";
+
+type PaymentDocument = HydratedDocument<Payment>;
+
+const OPERATION_TOPICS: Record<PaymentOperation, TopicDefinition<PaymentEvent>> = {
+    authorize: EVENT_TOPICS.PAYMENT_AUTHORIZED,
+    capture: EVENT_TOPICS.PAYMENT_CAPTURED,
+    void: EVENT_TOPICS.PAYMENT_VOIDED,
+    refund: EVENT_TOPICS.PAYMENT_REFUNDED
+};
+
+// The parts of a webhook the handler relies on, checked before the webhook is claimed
+const webhookEventSchema = object({
+    id: field(rules.notEmpty(), rules.stringLength(1, 200)),
+    reference: field(rules.notEmpty(), rules.stringLength(1, 200)),
+    operation: field(rules.mustBe(Object.keys(OPERATION_TOPICS)))
+});
+
+function invalidState(): CustomServerException {
+    return new CustomServerException("payment", "invalidState", undefined, HttpStatus.CONFLICT);
+}
+
+/**
+ * The message announcing the operation on its topic, or a declined authorization on EVENT_TOPICS.PAYMENT_DECLINED, keyed by the order id.
+ */
+function paymentMessage(payment: PaymentDocument, operation: PaymentOperation, amount: Money): OutboxMessage {
+    const event: PaymentEvent = {
+        paymentId: payment._id.toString(),
+        orderId: payment.order.toString(),
+        tenantId: payment.tenantId,
+        operation,
+        status: payment.status,
+        amount: { amount: amount.amount, currency: amount.currency },
+        capturedAmount: payment.capturedAmount,
+        refundedAmount: payment.refundedAmount,
+        occurredAt: new Date().toISOString()
+    };
+    const topic = payment.status === PaymentStatus.DECLINED ? EVENT_TOPICS.PAYMENT_DECLINED : OPERATION_TOPICS[operation];
+    return outboxEvent(topic, event.orderId, event, { tenantId: event.tenantId });
+}
+
+// Stores the payment, together with the message announcing the operation when there is one
+async function savePayment(payment: PaymentDocument, message: OutboxMessage | null): Promise<void> {
+    await runInTransaction(null, async (session) => {
+        await payment.save({ session });
+        if (message) {
+            await addToOutbox(session, [message]);
+        }
+    });
+}
+
+/**
+ * Calls the provider and records the call as an attempt of the payment, whatever its outcome.
+ * "apply" updates the payment with the answer of the provider; a provider that could not be reached fails with "payment"/"operationFailed".
+ * Approved operations are published, and so are declined authorizations.
+ */
+async function runOperation(payment: PaymentDocument, operation: PaymentOperation, amount: Money,
+                            call: (provider: PaymentProvider) => Promise<ProviderResult>,
+                            apply: (result: ProviderResult) => void): Promise<ProviderResult> {
+    let logger = getLogger("paymentOperation", Logger.PAYMENT, Logger.PAYMENT);
+    logger.start();
+    let result: ProviderResult | null = null;
+    let error: string | undefined;
+    try {
+        result = await call(getPaymentProvider(payment.provider));
+    } catch (providerError) {
+        error = providerError.message;
+    }
+    payment.attempts.push({ operation, success: !!result?.success, amount: { amount: amount.amount, currency: amount.currency }, declineCode: result?.declineCode, error, at: new Date() });
+    if (result) {
+        apply(result);
+    }
+    const announced = !!result && (result.success || payment.status === PaymentStatus.DECLINED);
+    await savePayment(payment, announced ? paymentMessage(payment, operation, amount) : null);
+    if (!result) {
+        logger.fail(`[${operation}] of payment [${payment._id}] could not reach [${payment.provider}]: ${error}`);
+        throw new CustomServerException("payment", "operationFailed", undefined, HttpStatus.SERVICE_UNAVAILABLE);
+    }
+    logger.info(`[${operation}] of payment [${payment._id}] was ${result.success ? "approved" : `declined with [${result.declineCode}]`}`);
+    logger.finish();
+    return result;
+}
+
+// ============ Payments ===============================================
+export async function getPayment(paymentId: string) {
+    const payment = await PaymentModel.findById(paymentId);
+    if (!payment) {
+        throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+    }
+    return payment;
+}
+
+export async function findPaymentByReference(reference: string) {
+    return PaymentModel.findOne({ reference });
+}
+
+export async function listPayments(orderId?: string) {
+    return PaymentModel.find(orderId ? { order: orderId } : {}).sort({ createdAt: -1 });
+}
+
+/**
+ * Authorizes the amount on the payment method with PAYMENT.PROVIDER. The reference is the idempotency key:
+ * authorizing the same reference again returns the stored payment, or fails again when it was declined ("payment"/"declined").
+ */
+export async function authorizePayment(orderId: string, reference: string, amount: Money, paymentMethod: string) {
+    let payment = await findPaymentByReference(reference);
+    if (payment?.status === PaymentStatus.DECLINED) {
+        throw new CustomServerException("payment", "declined", undefined, HttpStatus.PAYMENT_REQUIRED);
+    }
+    if (payment && payment.status !== PaymentStatus.PENDING) {
+        return payment;
+    }
+    if (!payment) {
+        payment = new PaymentModel({
+            order: new Types.ObjectId(orderId),
+            reference,
+            provider: getPaymentProvider().name,
+            status: PaymentStatus.PENDING,
+            amount: { amount: amount.amount, currency: amount.currency },
+            attempts: []
+        });
+    }
+    const result = await runOperation(payment, "authorize", amount,
+        provider => provider.authorize(amount, paymentMethod, reference),
+        answer => {
+            payment.status = answer.success ? PaymentStatus.AUTHORIZED : PaymentStatus.DECLINED;
+            payment.providerReference = answer.reference;
+        });
+    if (!result.success) {
+        throw new CustomServerException("payment", "declined", undefined, HttpStatus.PAYMENT_REQUIRED);
+    }
+    return payment;
+}
+
+export async function capturePayment(paymentId: string) {
+    const payment = await getPayment(paymentId);
+    if (payment.status === PaymentStatus.CAPTURED) {
+        return payment;
+    }
+    if (payment.status !== PaymentStatus.AUTHORIZED) {
+        throw invalidState();
+    }
+    const result = await runOperation(payment, "capture", payment.amount,
+        provider => provider.capture(payment.providerReference, payment.amount),
+        answer => {
+            if (!answer.success) {
+                return;
+            }
+            payment.status = PaymentStatus.CAPTURED;
+            payment.capturedAmount = payment.amount.amount;
+        });
+    if (!result.success) {
+        throw new CustomServerException("payment", "operationFailed", undefined, HttpStatus.UNPROCESSABLE_ENTITY);
+    }
+    return payment;
+}
+
+/**
+ * Lets go of an authorization that will not be captured. Payments that hold nothing are returned as they are.
+ */
+export async function voidPayment(paymentId: string) {
+    const payment = await getPayment(paymentId);
+    if ([PaymentStatus.PENDING, PaymentStatus.DECLINED, PaymentStatus.VOIDED].includes(payment.status)) {
+        return payment;
+    }
+    if (payment.status !== PaymentStatus.AUTHORIZED) {
+        throw invalidState();
+    }
+    const result = await runOperation(payment, "void", payment.amount,
+        provider => provider.void(payment.providerReference),
+        answer => {
+            if (!answer.success) {
+                return;
+            }
+            payment.status = PaymentStatus.VOIDED;
+        });
+    if (!result.success) {
+        throw new CustomServerException("payment", "operationFailed", undefined, HttpStatus.UNPROCESSABLE_ENTITY);
+    }
+    return payment;
+}
+
+/**
+ * Refunds the amount, everything that is left of the captured amount by default.
+ * The payment is refunded once nothing is left; partial refunds leave it captured.
+ */
+export async function refundPayment(paymentId: string, amount?: number) {
+    const payment = await getPayment(paymentId);
+    if (payment.status !== PaymentStatus.CAPTURED) {
+        throw invalidState();
+    }
+    const left = payment.capturedAmount - payment.refundedAmount;
+    const refund: Money = { amount: amount ?? left, currency: payment.amount.currency };
+    if (refund.amount <= 0 || refund.amount > left) {
+        throw new CustomServerException("payment", "refundExceedsCapture", undefined, HttpStatus.UNPROCESSABLE_ENTITY);
+    }
+    const result = await runOperation(payment, "refund", refund,
+        provider => provider.refund(payment.providerReference, refund),
+        answer => {
+            if (!answer.success) {
+                return;
+            }
+            payment.refundedAmount += refund.amount;
+            if (payment.refundedAmount >= payment.capturedAmount) {
+                payment.status = PaymentStatus.REFUNDED;
+            }
+        });
+    if (!result.success) {
+        throw new CustomServerException("payment", "operationFailed", undefined, HttpStatus.UNPROCESSABLE_ENTITY);
+    }
+    return payment;
+}
+
+// ============ Webhooks ===============================================
+// Moves the payment to what the provider reports; returns false when the payment already was there
+function applyWebhookEvent(payment: PaymentDocument, event: ProviderWebhookEvent): boolean {
+    const total = event.amount?.amount;
+    switch (event.operation) {
+        case "authorize":
+            if (payment.status !== PaymentStatus.PENDING) {
+                return false;
+            }
+            payment.status = event.success ? PaymentStatus.AUTHORIZED : PaymentStatus.DECLINED;
+            return true;
+        case "capture":
+            if (!event.success || payment.status !== PaymentStatus.AUTHORIZED) {
+                return false;
+            }
+            payment.status = PaymentStatus.CAPTURED;
+            payment.capturedAmount = total ?? payment.amount.amount;
+            return true;
+        case "void":
+            if (!event.success || payment.status !== PaymentStatus.AUTHORIZED) {
+                return false;
+            }
+            payment.status = PaymentStatus.VOIDED;
+            return true;
+        case "refund":
+            if (!event.success || payment.status !== PaymentStatus.CAPTURED || total === undefined || total <= payment.refundedAmount) {
+                return false;
+            }
+            payment.refundedAmount = Math.min(total, payment.capturedAmount);
+            if (payment.refundedAmount >= payment.capturedAmount) {
+                payment.status = PaymentStatus.REFUNDED;
+            }
+            return true;
+    }
+}
+
+/**
+ * Handles a webhook of the provider. Providers deliver webhooks at least once, so the event id is remembered in Redis
+ * for PAYMENT.WEBHOOK_TTL seconds and redeliveries are dropped; returns false for them.
+ * Amounts in webhooks are totals at the provider (e.g. everything refunded so far), so operations made through
+ * this service and reported again by webhook are not counted twice.
+ */
+export async function handlePaymentWebhook(providerName: string, rawBody: Buffer, headers: Record<string, string | string[] | undefined>): Promise<boolean> {
+    let logger = getLogger("paymentWebhookHandler", Logger.PAYMENT, Logger.PAYMENT);
+    logger.start();
+    const provider = getPaymentProvider(providerName);
+    const event = provider.verifyWebhook(rawBody, headers);
+    const errors = validateSchema(webhookEventSchema, event);
+    if (errors.length > 0) {
+        logger.fail(`Webhook of [${provider.name}] is malformed`);
+        throw new CustomServerException("formNotCorrect", null, errors, HttpStatus.BAD_REQUEST);
+    }
+    const key = buildRedisKey("payment", "webhook", provider.name, event.id);
+    if (!(await setKeyIfAbsent(key, new Date().toISOString(), PAYMENT.WEBHOOK_TTL))) {
+        logger.info(`Dropping redelivered webhook [${event.id}] of [${provider.name}]`);
+        logger.finish();
+        return false;
+    }
+
+    try {
+        // webhooks name no storefront, the payment does
+        const found = await PaymentModel.findOne({ provider: provider.name, providerReference: event.reference })
+            .setOptions({ allTenants: true })
+            .select("_id tenantId")
+            .lean();
+        if (!found) {
+            logger.warn(`Webhook [${event.id}] of [${provider.name}] is for unknown payment [${event.reference}]`);
+            logger.finish();
+            return true;
+        }
+        await runAsSystem(async () => {
+            const payment = await getPayment(found._id.toString());
+            const changed = applyWebhookEvent(payment, event);
+            payment.attempts.push({ operation: event.operation, success: event.success, amount: event.amount, webhookId: event.id, at: new Date() });
+            await savePayment(payment, changed ? paymentMessage(payment, event.operation, event.amount || payment.amount) : null);
+        }, found.tenantId);
+    } catch (error) {
+        // the provider retries what it did not get an answer for
+        await deleteKey(key);
+        logger.fail(`Webhook [${event.id}] of [${provider.name}] failed: ${error.message}`);
+        throw error;
+    }
+    logger.finish();
+    return true;
+}
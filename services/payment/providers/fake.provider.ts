@@ -0,0 +1,90 @@
+import {createHmac, randomUUID, timingSafeEqual} from "crypto";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus, Money} from "@_shared/types/general.types";
+import {PaymentProvider, ProviderResult, ProviderWebhookEvent} from "@_shared/types/payment.types";
+
+export const FAKE_PROVIDER = "fake";
+// Payment methods the fake gateway declines, to try out failed checkouts
+export const FAKE_DECLINED_METHOD = "fake_declined";
+export const FAKE_SIGNATURE_HEADER = "x-fake-signature";
+
+type FakeCharge = {
+    amount: Money,
+    captured: number,
+    refunded: number,
+    voided: boolean
+}
+
+function declined(declineCode: string): ProviderResult {
+    return { success: false, declineCode };
+}
+
+/**
+ * In-process payment gateway for development and tests. Charges live in memory, every payment method except
+ * FAKE_DECLINED_METHOD is approved, and webhooks are JSON bodies signed with an HMAC-SHA256 of the secret.
+ */
+export function createFakeProvider(secret: string): PaymentProvider & { signWebhook(rawBody: string): string } {
+    const charges = new Map<string, FakeCharge>();
+    const authorizations = new Map<string, string>();
+
+    const signWebhook = (rawBody: string | Buffer) => createHmac("sha256", secret).update(rawBody).digest("hex");
+
+    return {
+        name: FAKE_PROVIDER,
+
+        async authorize(amount, paymentMethod, idempotencyKey) {
+            if (authorizations.has(idempotencyKey)) {
+                return { success: true, reference: authorizations.get(idempotencyKey) };
+            }
+            if (paymentMethod === FAKE_DECLINED_METHOD) {
+                return declined("card_declined");
+            }
+            const reference = `fake_${randomUUID()}`;
+            charges.set(reference, { amount: { ...amount }, captured: 0, refunded: 0, voided: false });
+            authorizations.set(idempotencyKey, reference);
+            return { success: true, reference };
+        },
+
+        async capture(reference, amount) {
+            const charge = charges.get(reference);
+            if (!charge || charge.voided || charge.captured > 0 || amount.amount > charge.amount.amount) {
+                return declined("capture_not_allowed");
+            }
+            charge.captured = amount.amount;
+            return { success: true, reference };
+        },
+
+        async void(reference) {
+            const charge = charges.get(reference);
+            if (!charge || charge.captured > 0) {
+                return declined("void_not_allowed");
+            }
+            charge.voided = true;
+            return { success: true, reference };
+        },
+
+        async refund(reference, amount) {
+            const charge = charges.get(reference);
+            if (!charge || charge.refunded + amount.amount > charge.captured) {
+                return declined("refund_not_allowed");
+            }
+            charge.refunded += amount.amount;
+            return { success: true, reference };
+        },
+
+        verifyWebhook(rawBody, headers): ProviderWebhookEvent {
+            const signature = Buffer.from(String(headers[FAKE_SIGNATURE_HEADER] || ""));
+            const expected = Buffer.from(signWebhook(rawBody || ""));
+            if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+                throw new CustomServerException("payment", "invalidSignature", undefined, HttpStatus.UNAUTHORIZED);
+            }
+            try {
+                return JSON.parse(rawBody.toString());
+            } catch (error) {
+                throw new CustomServerException("formNotCorrect", null, undefined, HttpStatus.BAD_REQUEST);
+            }
+        },
+
+        signWebhook
+    };
+}
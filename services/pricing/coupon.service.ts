@@ -0,0 +1,126 @@
+import {Types} from "mongoose";
+import {buildRedisKey, getKey, getRedisClient} from "@connections/connectToRedis";
+import {Promotion, PromotionModel} from "@dbModels/pricing/Promotion";
+import {requireTenant} from "@dbModels/shared/Tenant";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {joinPath} from "@_shared/exceptions/schema";
+import {CustomValidationException, HttpStatus} from "@_shared/types/general.types";
+
+type CouponPromotion = Promotion & { _id: Types.ObjectId };
+
+// Counts a redemption of the coupon only while it is under both limits (0 for no limit).
+// Returns 0 when counted, 1 when the coupon is used up and 2 when the customer reached their limit.
+const REDEEM_COUPON_SCRIPT = `
+local total = tonumber(redis.call('GET', KEYS[1]) or '0')
+local own = tonumber(redis.call('GET', KEYS[2]) or '0')
+if tonumber(ARGV[1]) > 0 and total >= tonumber(ARGV[1]) then
+    return 1
+end
+if tonumber(ARGV[2]) > 0 and own >= tonumber(ARGV[2]) then
+    return 2
+end
+redis.call('INCR', KEYS[1])
+redis.call('INCR', KEYS[2])
+return 0
+`;
+
+// Takes a redemption back, never below zero
+const RELEASE_COUPON_SCRIPT = `
+for _, key in ipairs(KEYS) do
+    if tonumber(redis.call('GET', key) or '0') > 0 then
+        redis.call('DECR', key)
+    end
+end
+return 0
+`;
+
+function usesKey(code: string): string {
+    return buildRedisKey("coupon", requireTenant(), code, "uses");
+}
+
+function customerUsesKey(code: string, userId: string): string {
+    return buildRedisKey("coupon", requireTenant(), code, "user", userId);
+}
+
+export function normalizeCouponCodes(codes: string[] = []): string[] {
+    return Array.from(new Set(codes.map(code => code.trim().toUpperCase()).filter(code => code.length > 0)));
+}
+
+export function couponException(error: string, code: string, index: number, values: Record<string, any> = {}): CustomValidationException {
+    const formEntry = joinPath("couponCodes", index);
+    return { error, type: "coupon", insertThese: [], values: { field: formEntry, code, ...values }, formEntry };
+}
+
+// Coupon rejections are validation errors, so the client shows them next to the code that was entered
+export function couponRejected(errors: CustomValidationException[]): CustomServerException {
+    return new CustomServerException("formNotCorrect", null, errors, HttpStatus.BAD_REQUEST);
+}
+
+function isActive(promotion: CouponPromotion, now: Date): boolean {
+    return promotion.active
+        && (!promotion.startsAt || promotion.startsAt <= now)
+        && (!promotion.endsAt || promotion.endsAt > now);
+}
+
+/**
+ * Checks every entered code against its promotion: it must exist, be active, be meant for one of the customer's segments
+ * and be under its usage limits. The limits are only read here; they are counted by redeemCoupons.
+ */
+export async function checkCoupons(codes: string[], promotions: CouponPromotion[], customer: { userId?: string, segments: string[] }): Promise<CustomValidationException[]> {
+    const now = new Date();
+    const errors: CustomValidationException[] = [];
+    for (let [index, code] of codes.entries()) {
+        const promotion = promotions.find(candidate => candidate.couponCode === code);
+        if (!promotion) {
+            errors.push(couponException("unknown", code, index));
+            continue;
+        }
+        if (!isActive(promotion, now)) {
+            errors.push(couponException("notActive", code, index));
+            continue;
+        }
+        if (promotion.segments.length > 0 && !promotion.segments.some(segment => customer.segments.includes(segment))) {
+            errors.push(couponException("notEligible", code, index));
+            continue;
+        }
+        if (promotion.usageLimit && parseInt(await getKey(usesKey(code)) || "0") >= promotion.usageLimit) {
+            errors.push(couponException("usageLimitReached", code, index));
+            continue;
+        }
+        if (customer.userId && promotion.perCustomerLimit
+            && parseInt(await getKey(customerUsesKey(code, customer.userId)) || "0") >= promotion.perCustomerLimit) {
+            errors.push(couponException("customerLimitReached", code, index, { limit: promotion.perCustomerLimit }));
+        }
+    }
+    return errors;
+}
+
+/**
+ * Counts one use of every coupon for the customer, atomically against the limits of each.
+ * All or nothing: when one coupon is over its limit, the ones already counted are taken back and the rejection is thrown.
+ */
+export async function redeemCoupons(codes: string[], userId: string): Promise<void> {
+    const promotions = codes.length > 0 ? await PromotionModel.find({ couponCode: { $in: codes } }).lean() : [];
+    const redeemed: string[] = [];
+    for (let [index, code] of codes.entries()) {
+        const promotion = promotions.find(candidate => candidate.couponCode === code);
+        const result = await getRedisClient().eval(REDEEM_COUPON_SCRIPT, {
+            keys: [usesKey(code), customerUsesKey(code, userId)],
+            arguments: [(promotion?.usageLimit || 0).toString(), (promotion?.perCustomerLimit || 0).toString()]
+        });
+        if (result !== 0) {
+            await releaseCoupons(redeemed, userId);
+            throw couponRejected([result === 1
+                ? couponException("usageLimitReached", code, index)
+                : couponException("customerLimitReached", code, index, { limit: promotion?.perCustomerLimit })]);
+        }
+        redeemed.push(code);
+    }
+}
+
+// Takes back the uses counted by redeemCoupons, e.g. when the checkout fails
+export async function releaseCoupons(codes: string[], userId: string): Promise<void> {
+    for (let code of codes) {
+        await getRedisClient().eval(RELEASE_COUPON_SCRIPT, { keys: [usesKey(code), customerUsesKey(code, userId)], arguments: [] });
+    }
+}
@@ -0,0 +1,141 @@
+import {PromotionKind} from "@dbModels/pricing/Promotion";
+import {LineDiscount, PriceBreakdown, PricedLine, PriceTotal, PricingCustomer, PricingLine, PricingRule} from "@_shared/types/pricing.types";
+
+// ============ Eligibility ============================================
+export function isEligible(rule: PricingRule, customer: PricingCustomer): boolean {
+    if (rule.couponCode && !customer.couponCodes.includes(rule.couponCode)) {
+        return false;
+    }
+    return rule.segments.length === 0 || rule.segments.some(segment => customer.segments.includes(segment));
+}
+
+export function appliesToLine(rule: PricingRule, line: PricingLine): boolean {
+    if (rule.variants.length === 0 && rule.products.length === 0 && rule.categories.length === 0) {
+        return true;
+    }
+    return rule.variants.includes(line.variantId)
+        || rule.products.includes(line.productId)
+        || rule.categories.some(category => line.categoryIds.includes(category));
+}
+
+// ============ Discounts ==============================================
+function percentageOf(amount: number, percentage: number): number {
+    return Math.round(amount * percentage / 100);
+}
+
+/**
+ * Discount of the rule on a line that still costs "remaining" after the discounts applied before it.
+ * Never more than what remains, so a line cannot go below zero.
+ */
+export function calculateDiscount(rule: PricingRule, line: PricingLine, remaining: number): number {
+    let discount = 0;
+    switch (rule.kind) {
+        case PromotionKind.PERCENTAGE:
+            discount = percentageOf(remaining, rule.percentage || 0);
+            break;
+        case PromotionKind.FIXED:
+            if (rule.amount && rule.amount.currency === line.unitPrice.currency) {
+                discount = Math.min(rule.amount.amount, line.unitPrice.amount) * line.quantity;
+            }
+            break;
+        case PromotionKind.BUY_X_GET_Y: {
+            const groupSize = (rule.buyQuantity || 0) + (rule.getQuantity || 0);
+            if (rule.buyQuantity > 0 && rule.getQuantity > 0) {
+                const freeUnits = Math.floor(line.quantity / groupSize) * rule.getQuantity;
+                discount = percentageOf(freeUnits * line.unitPrice.amount, rule.percentage ?? 100);
+            }
+            break;
+        }
+        case PromotionKind.TIERED: {
+            const tier = (rule.tiers || [])
+                .filter(candidate => candidate.minQuantity <= line.quantity)
+                .sort((first, second) => second.minQuantity - first.minQuantity)[0];
+            if (tier) {
+                discount = percentageOf(remaining, tier.percentage);
+            }
+            break;
+        }
+    }
+    return Math.max(0, Math.min(discount, remaining));
+}
+
+function toLineDiscount(rule: PricingRule, amount: number): LineDiscount {
+    return { promotionId: rule.id, name: rule.name, couponCode: rule.couponCode, amount };
+}
+
+/**
+ * Discounts of one line. Stackable rules apply one after the other in priority order, each on what the previous left;
+ * a rule that is not stackable applies alone. The line gets whichever of the two saves the customer more.
+ */
+export function discountLine(line: PricingLine, rules: PricingRule[]): LineDiscount[] {
+    const subtotal = line.unitPrice.amount * line.quantity;
+    const applicable = rules
+        .filter(rule => appliesToLine(rule, line))
+        .sort((first, second) => second.priority - first.priority || first.id.localeCompare(second.id));
+
+    const stacked: LineDiscount[] = [];
+    let remaining = subtotal;
+    for (let rule of applicable.filter(candidate => candidate.stackable)) {
+        const amount = calculateDiscount(rule, line, remaining);
+        if (amount > 0) {
+            stacked.push(toLineDiscount(rule, amount));
+            remaining -= amount;
+        }
+    }
+
+    let alone: LineDiscount | null = null;
+    for (let rule of applicable.filter(candidate => !candidate.stackable)) {
+        const amount = calculateDiscount(rule, line, subtotal);
+        if (amount > 0 && (!alone || amount > alone.amount)) {
+            alone = toLineDiscount(rule, amount);
+        }
+    }
+
+    return alone && alone.amount > subtotal - remaining ? [alone] : stacked;
+}
+
+// ============ Breakdown ==============================================
+/**
+ * Prices the lines with the rules the customer is eligible for and adds them up per currency.
+ * Pure: the rules are loaded, and coupons checked, by the pricing service.
+ */
+export function calculatePrices(lines: PricingLine[], rules: PricingRule[], customer: PricingCustomer): PriceBreakdown {
+    const eligible = rules.filter(rule => isEligible(rule, customer));
+    const totals: Record<string, PriceTotal> = {};
+    const appliedPromotions = new Set<string>();
+    const appliedCoupons = new Set<string>();
+
+    const pricedLines = lines.map((line): PricedLine => {
+        const currency = line.unitPrice.currency;
+        const subtotal = line.unitPrice.amount * line.quantity;
+        const discounts = discountLine(line, eligible);
+        const discount = discounts.reduce((sum, entry) => sum + entry.amount, 0);
+        for (let entry of discounts) {
+            appliedPromotions.add(entry.promotionId);
+            if (entry.couponCode) {
+                appliedCoupons.add(entry.couponCode);
+            }
+        }
+
+        totals[currency] = totals[currency] || { currency, subtotal: 0, discount: 0, total: 0 };
+        totals[currency].subtotal += subtotal;
+        totals[currency].discount += discount;
+        totals[currency].total += subtotal - discount;
+
+        return {
+            variantId: line.variantId,
+            quantity: line.quantity,
+            unitPrice: { ...line.unitPrice },
+            subtotal: { amount: subtotal, currency },
+            discounts,
+            total: { amount: subtotal - discount, currency }
+        };
+    });
+
+    return {
+        lines: pricedLines,
+        totals: Object.values(totals),
+        appliedPromotions: Array.from(appliedPromotions),
+        appliedCoupons: Array.from(appliedCoupons)
+    };
+}
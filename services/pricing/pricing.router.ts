@@ -0,0 +1,65 @@
+import {Router} from "express";
+import {HttpStatus} from "@_shared/types/general.types";
+import {arrayOf, field, object, optional, rules} from "@_shared/exceptions/schema";
+import {validateRequest} from "@_shared/middlewares/validateRequest";
+import {authenticate} from "@_shared/middlewares/authenticate";
+import {requirePermission} from "@_shared/middlewares/authorize";
+import {getExpectedVersion, sendWithETag} from "@_shared/middlewares/concurrency";
+import {
+    createPromotion,
+    deletePromotion,
+    getPromotion,
+    listPromotions,
+    promotionSchema,
+    promotionUpdateSchema,
+    setCustomerSegments,
+    updatePromotion
+} from "@services/pricing/pricing.service";
+
+const idParams = object({ id: field(rules.isObjectId()) });
+
+export const router = Router();
+
+router.use(authenticate());
+
+// ============ Promotions =============================================
+router.get("/promotions", requirePermission("pricing:read"), validateRequest({
+    query: object({
+        active: optional(field(rules.mustBe(["true", "false"]))),
+        page: optional(field(rules.stringLength(1, 6))),
+        limit: optional(field(rules.stringLength(1, 3)))
+    })
+}), async (req, res) => {
+    res.status(HttpStatus.OK).json(await listPromotions({
+        active: req.query.active === undefined ? undefined : req.query.active === "true",
+        page: Math.max(parseInt(req.query.page as string) || 1, 1),
+        limit: Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100)
+    }));
+});
+
+router.get("/promotions/:id", requirePermission("pricing:read"), validateRequest({ params: idParams }), async (req, res) => {
+    sendWithETag(req, res, await getPromotion(req.params.id as string));
+});
+
+router.post("/promotions", requirePermission("pricing:create"), validateRequest({ body: promotionSchema }), async (req, res) => {
+    sendWithETag(req, res, await createPromotion(req.body), HttpStatus.CREATED);
+});
+
+router.patch("/promotions/:id", requirePermission("pricing:update"), validateRequest({ params: idParams, body: promotionUpdateSchema }), async (req, res) => {
+    const promotionId = req.params.id as string;
+    sendWithETag(req, res, await updatePromotion(promotionId, req.body, getExpectedVersion(req, promotionId)));
+});
+
+router.delete("/promotions/:id", requirePermission("pricing:delete"), validateRequest({ params: idParams }), async (req, res) => {
+    await deletePromotion(req.params.id as string);
+    res.status(HttpStatus.NO_CONTENT).send();
+});
+
+// ============ Segments ===============================================
+router.put("/customers/:userId/segments", requirePermission("pricing:update"), validateRequest({
+    params: object({ userId: field(rules.isObjectId()) }),
+    body: object({ segments: arrayOf(field(rules.notEmpty(), rules.stringLength(1, 50))) })
+}), async (req, res) => {
+    await setCustomerSegments(req.params.userId as string, req.body.segments);
+    res.status(HttpStatus.NO_CONTENT).send();
+});
@@ -0,0 +1,232 @@
+import {Types} from "mongoose";
+import {CATALOG} from "@environment";
+import {Promotion, PromotionKind, PromotionModel} from "@dbModels/pricing/Promotion";
+import {ProductModel} from "@dbModels/catalog/Product";
+import {CategoryModel} from "@dbModels/catalog/Category";
+import {UserModel} from "@dbModels/user/User";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {arrayOf, assertSchema, field, object, optional, rules, SchemaNode} from "@_shared/exceptions/schema";
+import {HttpStatus, Money} from "@_shared/types/general.types";
+import {PriceBreakdown, PricingLine, PricingRule, PromotionData} from "@_shared/types/pricing.types";
+import {calculatePrices} from "@services/pricing/pricing.engine";
+import {checkCoupons, couponException, couponRejected, normalizeCouponCodes} from "@services/pricing/coupon.service";
+
+// A line to price; the categories are looked up from the product
+export type PricingItem = {
+    variantId: string,
+    productId: string,
+    quantity: number,
+    unitPrice: Money
+}
+
+const tierSchema = object({
+    minQuantity: field(rules.isInteger(), rules.greaterThanOrEqual(1)),
+    percentage: field(rules.isNumber(), rules.greaterThanOrEqual(0), rules.lessThanOrEqual(100))
+});
+
+const promotionFields = {
+    name: field(rules.notEmpty(), rules.stringLength(1, 200)),
+    kind: field(rules.mustBe(Object.values(PromotionKind))),
+    active: optional(field(rules.isBoolean())),
+    startsAt: optional(field(rules.isValidDate("UTC"))),
+    endsAt: optional(field(rules.isValidDate("UTC"))),
+    priority: optional(field(rules.isInteger())),
+    stackable: optional(field(rules.isBoolean())),
+    couponCode: optional(field(rules.notEmpty(), rules.stringLength(3, 50))),
+    usageLimit: optional(field(rules.isInteger(), rules.greaterThanOrEqual(1))),
+    perCustomerLimit: optional(field(rules.isInteger(), rules.greaterThanOrEqual(1))),
+    segments: optional(arrayOf(field(rules.notEmpty(), rules.stringLength(1, 50)))),
+    variants: optional(arrayOf(field(rules.isObjectId()))),
+    products: optional(arrayOf(field(rules.isObjectId()))),
+    categories: optional(arrayOf(field(rules.isObjectId()))),
+    percentage: optional(field(rules.isNumber(), rules.greaterThanOrEqual(0), rules.lessThanOrEqual(100))),
+    amount: optional(object({
+        amount: field(rules.isInteger(), rules.greaterThanOrEqual(1)),
+        currency: field(rules.mustBe(CATALOG.CURRENCIES))
+    })),
+    buyQuantity: optional(field(rules.isInteger(), rules.greaterThanOrEqual(1))),
+    getQuantity: optional(field(rules.isInteger(), rules.greaterThanOrEqual(1))),
+    tiers: optional(arrayOf(tierSchema, rules.arrayNotEmpty()))
+};
+
+export const promotionSchema = object(promotionFields);
+
+export const promotionUpdateSchema = object(Object.fromEntries(
+    Object.entries(promotionFields).map(([key, node]) => [key, optional(node)])
+));
+
+// The parameters each kind of promotion needs, checked on top of promotionSchema
+const kindSchemas: Record<PromotionKind, SchemaNode> = {
+    [PromotionKind.PERCENTAGE]: object({ percentage: field(rules.isNumber()) }),
+    [PromotionKind.FIXED]: object({ amount: object({ amount: field(rules.isInteger()), currency: field(rules.notEmpty()) }) }),
+    [PromotionKind.BUY_X_GET_Y]: object({ buyQuantity: field(rules.isInteger()), getQuantity: field(rules.isInteger()) }),
+    [PromotionKind.TIERED]: object({ tiers: arrayOf(tierSchema, rules.arrayNotEmpty()) })
+};
+
+const PROMOTION_KEYS: (keyof PromotionData)[] = [
+    "name", "kind", "active", "startsAt", "endsAt", "priority", "stackable", "couponCode", "usageLimit", "perCustomerLimit",
+    "segments", "variants", "products", "categories", "percentage", "amount", "buyQuantity", "getQuantity", "tiers"
+];
+
+function rethrowDuplicate(error: any): never {
+    if (error?.code === 11000) {
+        throw new CustomServerException("pricing", "couponTaken", undefined, HttpStatus.CONFLICT);
+    }
+    throw error;
+}
+
+function assertPromotion(data: Partial<PromotionData>): void {
+    assertSchema(kindSchemas[data.kind as PromotionKind], data);
+    if (data.startsAt && data.endsAt && new Date(data.startsAt) >= new Date(data.endsAt)) {
+        throw new CustomServerException("pricing", "invalidWindow", undefined, HttpStatus.UNPROCESSABLE_ENTITY);
+    }
+}
+
+function pick(data: Partial<PromotionData>): Partial<PromotionData> {
+    const result: Record<string, any> = {};
+    for (let key of PROMOTION_KEYS) {
+        if (data[key] !== undefined) {
+            result[key] = data[key];
+        }
+    }
+    return result;
+}
+
+// ============ Promotions =============================================
+export async function getPromotion(promotionId: string) {
+    const promotion = await PromotionModel.findById(promotionId);
+    if (!promotion) {
+        throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+    }
+    return promotion;
+}
+
+export async function listPromotions(filter: { active?: boolean, page: number, limit: number }) {
+    const query: Record<string, any> = {};
+    if (filter.active !== undefined) {
+        query.active = filter.active;
+    }
+    const [items, total] = await Promise.all([
+        PromotionModel.find(query).sort({ priority: -1, createdAt: -1 }).skip((filter.page - 1) * filter.limit).limit(filter.limit),
+        PromotionModel.countDocuments(query)
+    ]);
+    return { items, total, page: filter.page, limit: filter.limit };
+}
+
+export async function createPromotion(data: PromotionData) {
+    assertSchema(promotionSchema, data);
+    assertPromotion(data);
+    try {
+        return await PromotionModel.create(pick(data));
+    } catch (error) {
+        rethrowDuplicate(error);
+    }
+}
+
+/**
+ * Updates the promotion. The parameters of its kind are checked on the promotion as it will be after the update,
+ * so switching the kind needs the parameters of the new kind too.
+ */
+export async function updatePromotion(promotionId: string, data: Partial<PromotionData>, expectedVersion?: number) {
+    assertSchema(promotionUpdateSchema, data);
+    const promotion = await getPromotion(promotionId);
+    assertPromotion({ ...promotion.toObject({ depopulate: true }), ...pick(data) } as Partial<PromotionData>);
+    let updated;
+    try {
+        updated = await PromotionModel.findOneAndUpdate({ _id: promotionId }, { $set: pick(data) }, { new: true, expectedVersion });
+    } catch (error) {
+        rethrowDuplicate(error);
+    }
+    if (!updated) {
+        throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+    }
+    return updated;
+}
+
+export async function deletePromotion(promotionId: string): Promise<void> {
+    const promotion = await getPromotion(promotionId);
+    await promotion.softDelete();
+}
+
+// ============ Segments ===============================================
+export async function setCustomerSegments(userId: string, segments: string[]): Promise<void> {
+    const result = await UserModel.updateOne({ _id: userId }, { $set: { segments: Array.from(new Set(segments)) } });
+    if (result.matchedCount === 0) {
+        throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+    }
+}
+
+// ============ Pricing ================================================
+export function toPricingRule(promotion: Promotion & { _id: Types.ObjectId }): PricingRule {
+    return {
+        id: promotion._id.toString(),
+        name: promotion.name,
+        kind: promotion.kind,
+        priority: promotion.priority,
+        stackable: promotion.stackable,
+        couponCode: promotion.couponCode || undefined,
+        segments: promotion.segments,
+        variants: promotion.variants.map(id => id.toString()),
+        products: promotion.products.map(id => id.toString()),
+        categories: promotion.categories.map(id => id.toString()),
+        percentage: promotion.percentage ?? undefined,
+        amount: promotion.amount?.currency ? { amount: promotion.amount.amount, currency: promotion.amount.currency } : undefined,
+        buyQuantity: promotion.buyQuantity ?? undefined,
+        getQuantity: promotion.getQuantity ?? undefined,
+        tiers: promotion.tiers.map(tier => ({ minQuantity: tier.minQuantity, percentage: tier.percentage }))
+    };
+}
+
+// The running promotions without a code, which apply on their own
+async function loadAutomaticPromotions() {
+    const now = new Date();
+    return PromotionModel.find({
+        active: true,
+        couponCode: null,
+        $and: [
+            { $or: [{ startsAt: null }, { startsAt: { $lte: now } }] },
+            { $or: [{ endsAt: null }, { endsAt: { $gt: now } }] }
+        ]
+    }).lean();
+}
+
+// The ids of the categories of every product and all their ancestors, read from the category paths
+async function loadCategoryIds(productIds: string[]): Promise<Record<string, string[]>> {
+    const products = await ProductModel.find({ _id: { $in: productIds.map(id => new Types.ObjectId(id)) } }).select("categories").lean();
+    const categories = await CategoryModel.find({ _id: { $in: products.flatMap(product => product.categories) } }).select("path").lean();
+    const ancestors = new Map(categories.map(category => [category._id.toString(), category.path.split("/").filter(id => id.length > 0)]));
+    return Object.fromEntries(products.map(product => [
+        product._id.toString(),
+        Array.from(new Set(product.categories.flatMap(categoryId => ancestors.get(categoryId.toString()) || [])))
+    ]));
+}
+
+/**
+ * Prices the items with the running promotions and the coupons entered, for the user when one is logged in.
+ * Coupons that do not exist, are not running, are not meant for the user, are used up or lower no item
+ * make it fail with "formNotCorrect", one "coupon" validation error per rejected code.
+ */
+export async function priceItems(items: PricingItem[], options: { userId?: string, couponCodes?: string[] } = {}): Promise<PriceBreakdown> {
+    const couponCodes = normalizeCouponCodes(options.couponCodes);
+    const user = options.userId ? await UserModel.findById(options.userId).select("segments").lean() : null;
+    const segments = user?.segments || [];
+
+    const couponPromotions = couponCodes.length > 0 ? await PromotionModel.find({ couponCode: { $in: couponCodes } }).lean() : [];
+    const errors = await checkCoupons(couponCodes, couponPromotions, { userId: options.userId, segments });
+    if (errors.length > 0) {
+        throw couponRejected(errors);
+    }
+
+    const categoryIds = await loadCategoryIds(Array.from(new Set(items.map(item => item.productId))));
+    const lines: PricingLine[] = items.map(item => ({ ...item, categoryIds: categoryIds[item.productId] || [] }));
+    const promotions = [...await loadAutomaticPromotions(), ...couponPromotions];
+    const breakdown = calculatePrices(lines, promotions.map(toPricingRule), { segments, couponCodes });
+
+    const notApplied = couponCodes
+        .map((code, index) => ({ code, index }))
+        .filter(entry => !breakdown.appliedCoupons.includes(entry.code));
+    if (notApplied.length > 0) {
+        throw couponRejected(notApplied.map(entry => couponException("notApplicable", entry.code, entry.index)));
+    }
+    return breakdown;
+}
@@ -0,0 +1,128 @@
+import {randomUUID} from "crypto";
+import {Model, Types} from "mongoose";
+import {RETENTION} from "@environment";
+import {getLogger, Logger} from "@loggers/serverLogger";
+import {buildRedisKey, getRedisClient} from "@connections/connectToRedis";
+import {getRetentionPolicies, getRetentionPolicy, RetentionPolicy} from "@dbModels/shared/Retention";
+import {runAsSystem} from "@_shared/context/requestContext";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus} from "@_shared/types/general.types";
+
+export type PurgeReport = {
+    model: string,
+    retentionDays: number,
+    cutoff: Date,
+    purged: number
+}
+
+const PURGE_LOCK_KEY = buildRedisKey("jobs", "retentionPurge", "lock");
+let purgeTimer: NodeJS.Timeout | null = null;
+
+export function getTrashPolicy(modelName: string): RetentionPolicy {
+    const policy = getRetentionPolicy(modelName);
+    if (!policy) {
+        throw new CustomServerException("trash", "unknownModel", undefined, HttpStatus.NOT_FOUND);
+    }
+    return policy;
+}
+
+// Hard-deletes the documents and their change history straight through the driver,
+// on purpose bypassing the audit hooks that would turn the delete into a soft delete.
+async function hardDelete(model: Model<any>, ids: Types.ObjectId[]): Promise<number> {
+    const result = await model.collection.deleteMany({ _id: { $in: ids } });
+    await model.db.collection(`${model.collection.collectionName}_history`).deleteMany({ documentId: { $in: ids } });
+    return result.deletedCount;
+}
+
+async function purgePolicy(policy: RetentionPolicy): Promise<PurgeReport> {
+    const cutoff = new Date(Date.now() - policy.retentionDays * 24 * 60 * 60 * 1000);
+    let purged = 0;
+    while (true) {
+        const expired = await policy.model.collection
+            .find({ deletedAt: { $ne: null, $lt: cutoff } }, { projection: { _id: 1 } })
+            .limit(RETENTION.PURGE_BATCH_SIZE)
+            .toArray();
+        if (expired.length === 0) {
+            break;
+        }
+        purged += await hardDelete(policy.model, expired.map(document => document._id as Types.ObjectId));
+    }
+    return { model: policy.model.modelName, retentionDays: policy.retentionDays, cutoff, purged };
+}
+
+/**
+ * Hard-deletes every soft-deleted document older than the retention window of its model.
+ */
+export async function purgeExpiredDocuments(parentAction?: number): Promise<PurgeReport[]> {
+    let logger = getLogger("retentionPurge", Logger.JOB, Logger.JOB, parentAction);
+    logger.start();
+    const reports: PurgeReport[] = [];
+    for (let policy of getRetentionPolicies()) {
+        try {
+            const report = await purgePolicy(policy);
+            reports.push(report);
+            logger.info(`[${report.model}] purged [${report.purged}] document(s) deleted before ${report.cutoff.toISOString()} (retention: ${report.retentionDays} days)`);
+        } catch (error) {
+            logger.err(`[${policy.model.modelName}] purge failed: ${error.message}`);
+        }
+    }
+    logger.info(`Purge report`, reports);
+    logger.finish();
+    return reports;
+}
+
+/**
+ * Erases a single soft-deleted document right away, e.g. for a GDPR erasure request.
+ */
+export async function purgeDocument(modelName: string, documentId: string): Promise<void> {
+    const policy = getTrashPolicy(modelName);
+    const document = await policy.model.findOne({ _id: documentId, deletedAt: { $ne: null } }).setOptions({ includeDeleted: true });
+    if (!document) {
+        throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+    }
+    await hardDelete(policy.model, [document._id as Types.ObjectId]);
+}
+
+export async function listTrash(modelName: string, page: number, limit: number) {
+    const policy = getTrashPolicy(modelName);
+    const filter = { deletedAt: { $ne: null } };
+    const [items, total] = await Promise.all([
+        policy.model.find(filter).setOptions({ includeDeleted: true }).sort({ deletedAt: -1 }).skip((page - 1) * limit).limit(limit),
+        policy.model.countDocuments(filter).setOptions({ includeDeleted: true })
+    ]);
+    return { items, total, page, limit, retentionDays: policy.retentionDays };
+}
+
+export async function restoreFromTrash(modelName: string, documentId: string): Promise<void> {
+    const policy = getTrashPolicy(modelName);
+    const document = await policy.model.findOne({ _id: documentId, deletedAt: { $ne: null } }).setOptions({ includeDeleted: true });
+    if (!document) {
+        throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+    }
+    await document.restore();
+}
+
+/**
+ * Runs the purge every RETENTION.PURGE_INTERVAL ms. A Redis lock makes sure only one server instance purges at a time.
+ */
+export function startPurgeScheduler(parentAction?: number): void {
+    let logger = getLogger("retentionPurgeScheduler", Logger.JOB, Logger.JOB, parentAction);
+    logger.updateSpace();
+    logger.start();
+    if (purgeTimer) {
+        clearInterval(purgeTimer);
+    }
+    purgeTimer = setInterval(async () => {
+        try {
+            const locked = await getRedisClient().set(PURGE_LOCK_KEY, randomUUID(), { NX: true, PX: RETENTION.PURGE_INTERVAL });
+            if (locked) {
+                await runAsSystem(() => purgeExpiredDocuments());
+            }
+        } catch (error) {
+            logger.err(`Retention purge could not run: ${error.message}`);
+        }
+    }, RETENTION.PURGE_INTERVAL);
+    logger.debug(`Retention purge scheduled every [${RETENTION.PURGE_INTERVAL}] ms for: [${getRetentionPolicies().map(policy => policy.model.modelName).join(", ")}]`);
+    logger.finish();
+    logger.updateSpace(-1);
+}
@@ -0,0 +1,38 @@
+import {Router} from "express";
+import {HttpStatus} from "@_shared/types/general.types";
+import {field, object, optional, rules} from "@_shared/exceptions/schema";
+import {validateRequest} from "@_shared/middlewares/validateRequest";
+import {authenticate} from "@_shared/middlewares/authenticate";
+import {requirePermission} from "@_shared/middlewares/authorize";
+import {listTrash, purgeDocument, restoreFromTrash} from "@services/retention/retention.service";
+
+const documentParams = object({
+    model: field(rules.notEmpty()),
+    id: field(rules.isObjectId())
+});
+
+export const router = Router();
+
+router.use(authenticate());
+
+router.get("/:model", requirePermission("trash:read"), validateRequest({
+    params: object({ model: field(rules.notEmpty()) }),
+    query: object({
+        page: optional(field(rules.stringLength(1, 6))),
+        limit: optional(field(rules.stringLength(1, 3)))
+    })
+}), async (req, res) => {
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+    res.status(HttpStatus.OK).json(await listTrash(req.params.model as string, page, limit));
+});
+
+router.post("/:model/:id/restore", requirePermission("trash:restore"), validateRequest({ params: documentParams }), async (req, res) => {
+    await restoreFromTrash(req.params.model as string, req.params.id as string);
+    res.status(HttpStatus.NO_CONTENT).send();
+});
+
+router.delete("/:model/:id", requirePermission("trash:purge"), validateRequest({ params: documentParams }), async (req, res) => {
+    await purgeDocument(req.params.model as string, req.params.id as string);
+    res.status(HttpStatus.NO_CONTENT).send();
+});
@@ -0,0 +1,33 @@
+import {Router} from "express";
+import {HttpStatus} from "@_shared/types/general.types";
+import {field, object, optional, rules} from "@_shared/exceptions/schema";
+import {SagaStatus} from "@dbModels/saga/Saga";
+import {validateRequest} from "@_shared/middlewares/validateRequest";
+import {authenticate} from "@_shared/middlewares/authenticate";
+import {requirePermission} from "@_shared/middlewares/authorize";
+import {getSaga, listSagas} from "@services/saga/saga.service";
+
+export const router = Router();
+
+// Saga state is for debugging multi-step flows, with every step, its attempts and errors
+router.use(authenticate(), requirePermission("sagas:read"));
+
+router.get("/", validateRequest({
+    query: object({
+        type: optional(field(rules.stringLength(1, 50))),
+        status: optional(field(rules.mustBe(Object.values(SagaStatus)))),
+        page: optional(field(rules.stringLength(1, 6))),
+        limit: optional(field(rules.stringLength(1, 3)))
+    })
+}), async (req, res) => {
+    res.status(HttpStatus.OK).json(await listSagas({
+        type: req.query.type as string,
+        status: req.query.status as string,
+        page: Math.max(parseInt(req.query.page as string) || 1, 1),
+        limit: Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100)
+    }));
+});
+
+router.get("/:id", validateRequest({ params: object({ id: field(rules.isObjectId()) }) }), async (req, res) => {
+    res.status(HttpStatus.OK).json(await getSaga(req.params.id as string));
+});
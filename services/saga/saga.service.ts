@@ -0,0 +1,404 @@
+import {HydratedDocument} from "mongoose";
+import {SAGA} from "@environment";
+import {getLogger, Logger} from "@loggers/serverLogger";
+import {buildRedisKey, getRedisClient} from "@connections/connectToRedis";
+import {Saga, SagaModel, SagaStatus, SagaStepStatus} from "@dbModels/saga/Saga";
+import {runAsSystem} from "@_shared/context/requestContext";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {HttpStatus} from "@_shared/types/general.types";
+import {TopicDefinition} from "@_shared/types/kafka.types";
+import {SagaCommand, SagaCommandHandler, SagaReply, SagaStepDefinition} from "@_shared/types/saga.types";
+import {publishEvent, registerEventHandler} from "@_shared/kafka/events";
+import {EVENT_TOPICS} from "@_shared/kafka/topics";
+
+type SagaDocument = HydratedDocument<Saga>;
+
+// Work to do once the new state of the saga is stored, like sending the next command
+export type SagaEffect = () => Promise<void>;
+
+export type SagaDefinition = {
+    type: string,
+    steps: SagaStepDefinition[],
+    // run once the last step succeeded
+    onCompleted?: (saga: SagaDocument) => Promise<void>,
+    // run once every finished step was undone
+    onCompensated?: (saga: SagaDocument) => Promise<void>
+}
+
+// compensations sent for a step before the saga gives up on it
+const MAX_COMPENSATION_ATTEMPTS = 3;
+const MAX_UPDATE_ATTEMPTS = 3;
+const TIMEOUT_LOCK_KEY = buildRedisKey("jobs", "sagaTimeout", "lock");
+const TIMEOUT_BATCH_SIZE = 100;
+const definitions: Record<string, SagaDefinition> = {};
+let timeoutTimer: NodeJS.Timeout | null = null;
+
+export function defineSaga(definition: SagaDefinition): void {
+    if (definitions[definition.type]) {
+        throw new Error(`A saga is already defined for type [${definition.type}]`);
+    }
+    definitions[definition.type] = definition;
+}
+
+function getDefinition(type: string): SagaDefinition {
+    const definition = definitions[type];
+    if (!definition) {
+        throw new Error(`No saga is defined for type [${type}]`);
+    }
+    return definition;
+}
+
+// ============ Commands ===============================================
+async function sendCommand(saga: SagaDocument, index: number, compensation: boolean): Promise<void> {
+    let logger = getLogger("sagaCommandPublisher", Logger.SAGA, Logger.SAGA);
+    logger.start();
+    const step = getDefinition(saga.type).steps[index];
+    const topic = compensation ? step.compensation : step.command;
+    const command: SagaCommand = { sagaId: saga._id.toString(), type: saga.type, step: step.name, compensation, context: saga.context };
+    try {
+        await publishEvent(topic, command.sagaId, command, { tenantId: saga.tenantId });
+        logger.finish();
+    } catch (error) {
+        // the step times out and the saga goes on from there
+        logger.fail(`Could not send [${topic.name}] for saga [${command.sagaId}]: ${error.message}`);
+    }
+}
+
+async function runEffects(effects: SagaEffect[]): Promise<void> {
+    let logger = getLogger("sagaEffects", Logger.SAGA, Logger.SAGA);
+    for (let effect of effects) {
+        try {
+            await effect();
+        } catch (error) {
+            logger.err(`Saga follow-up failed: ${error.message}`);
+        }
+    }
+}
+
+// ============ State ==================================================
+function runStep(saga: SagaDocument, index: number, effects: SagaEffect[]): void {
+    const step = saga.steps[index];
+    step.status = SagaStepStatus.RUNNING;
+    step.attempts++;
+    step.startedAt = new Date();
+    saga.currentStep = index;
+    saga.deadline = new Date(Date.now() + SAGA.STEP_TIMEOUT);
+    effects.push(() => sendCommand(saga, index, false));
+}
+
+function compensateStep(saga: SagaDocument, index: number, effects: SagaEffect[]): void {
+    const step = saga.steps[index];
+    step.status = SagaStepStatus.COMPENSATING;
+    step.attempts++;
+    saga.deadline = new Date(Date.now() + SAGA.STEP_TIMEOUT);
+    effects.push(() => sendCommand(saga, index, true));
+}
+
+/**
+ * Undoes the finished steps one at a time, the last one first. Once nothing is left to undo the saga is compensated.
+ */
+function continueCompensation(saga: SagaDocument, effects: SagaEffect[]): void {
+    if (saga.status !== SagaStatus.COMPENSATING || saga.steps.some(step => step.status === SagaStepStatus.COMPENSATING)) {
+        return;
+    }
+    const definition = getDefinition(saga.type);
+    for (let index = saga.steps.length - 1; index >= 0; index--) {
+        if (saga.steps[index].status === SagaStepStatus.SUCCEEDED && definition.steps[index].compensation) {
+            saga.currentStep = index;
+            compensateStep(saga, index, effects);
+            return;
+        }
+    }
+    saga.status = SagaStatus.COMPENSATED;
+    saga.deadline = undefined;
+    if (definition.onCompensated) {
+        effects.push(() => definition.onCompensated(saga));
+    }
+}
+
+function startCompensation(saga: SagaDocument, reason: string, effects: SagaEffect[]): void {
+    saga.status = SagaStatus.COMPENSATING;
+    saga.failureReason = reason;
+    continueCompensation(saga, effects);
+}
+
+// A failed compensation is sent again; after MAX_COMPENSATION_ATTEMPTS the saga is left failed for someone to look at
+function retryCompensation(saga: SagaDocument, index: number, error: string, effects: SagaEffect[]): void {
+    const step = saga.steps[index];
+    step.error = error;
+    if (step.attempts <= MAX_COMPENSATION_ATTEMPTS) {
+        compensateStep(saga, index, effects);
+        return;
+    }
+    step.status = SagaStepStatus.COMPENSATION_FAILED;
+    step.finishedAt = new Date();
+    saga.status = SagaStatus.FAILED;
+    saga.deadline = undefined;
+}
+
+/**
+ * Moves the saga on with the reply of a step or of its compensation. Only changes the document; the commands and hooks
+ * that follow are left in effects, to run once the change is stored.
+ */
+export function applyReply(saga: SagaDocument, reply: SagaReply, effects: SagaEffect[]): void {
+    const definition = getDefinition(saga.type);
+    const index = definition.steps.findIndex(step => step.name === reply.step);
+    const step = saga.steps[index];
+    if (!step) {
+        return;
+    }
+    if (reply.success && reply.data) {
+        saga.context = { ...saga.context, ...reply.data };
+    }
+
+    if (reply.compensation) {
+        // duplicate or late reply
+        if (step.status !== SagaStepStatus.COMPENSATING) {
+            return;
+        }
+        if (!reply.success) {
+            retryCompensation(saga, index, reply.error, effects);
+            return;
+        }
+        step.status = SagaStepStatus.COMPENSATED;
+        step.finishedAt = new Date();
+        if (saga.status !== SagaStatus.COMPENSATING) {
+            // a step undone on its own after the saga ended
+            saga.deadline = undefined;
+        }
+        continueCompensation(saga, effects);
+        return;
+    }
+
+    // a step that timed out may still succeed later; anything else is a duplicate or late reply
+    const lateSuccess = reply.success && step.status === SagaStepStatus.FAILED;
+    if (step.status !== SagaStepStatus.RUNNING && !lateSuccess) {
+        return;
+    }
+    step.finishedAt = new Date();
+    if (!reply.success) {
+        step.status = SagaStepStatus.FAILED;
+        step.error = reply.error;
+        startCompensation(saga, `[${step.name}] failed: ${reply.error}`, effects);
+        return;
+    }
+    step.status = SagaStepStatus.SUCCEEDED;
+    step.error = undefined;
+    if (saga.status === SagaStatus.COMPENSATING) {
+        continueCompensation(saga, effects);
+        return;
+    }
+    if (saga.status !== SagaStatus.RUNNING) {
+        // the saga already finished compensating without this step, so it is undone on its own
+        if (definition.steps[index].compensation) {
+            compensateStep(saga, index, effects);
+        }
+        return;
+    }
+    if (index === saga.steps.length - 1) {
+        saga.status = SagaStatus.COMPLETED;
+        saga.deadline = undefined;
+        if (definition.onCompleted) {
+            effects.push(() => definition.onCompleted(saga));
+        }
+        return;
+    }
+    runStep(saga, index + 1, effects);
+}
+
+/**
+ * Fails the step or retries the compensation the saga waited for past its deadline. A step without a compensation is not
+ * failed but sent again: it may still succeed after the saga gave up on it, and nothing could undo it then.
+ */
+export function applyTimeout(saga: SagaDocument, effects: SagaEffect[]): void {
+    if (!saga.deadline || saga.deadline.getTime() > Date.now()) {
+        return;
+    }
+    if (saga.status === SagaStatus.RUNNING) {
+        const step = saga.steps[saga.currentStep];
+        if (!getDefinition(saga.type).steps[saga.currentStep].compensation) {
+            step.error = "timedOut";
+            runStep(saga, saga.currentStep, effects);
+            return;
+        }
+        step.status = SagaStepStatus.FAILED;
+        step.error = "timedOut";
+        step.finishedAt = new Date();
+        startCompensation(saga, `[${step.name}] timed out`, effects);
+        return;
+    }
+    let waiting = false;
+    saga.steps.forEach((step, index) => {
+        if (step.status === SagaStepStatus.COMPENSATING) {
+            waiting = true;
+            retryCompensation(saga, index, "timedOut", effects);
+        }
+    });
+    if (!waiting) {
+        saga.deadline = undefined;
+    }
+}
+
+/**
+ * Applies the change to the stored saga. The reply handler and the timeout job may change the same saga at once,
+ * so the save is conditional on the version and the change is redone on the newer state when it lost.
+ */
+async function updateSaga(sagaId: string, change: (saga: SagaDocument, effects: SagaEffect[]) => void): Promise<SagaDocument | null> {
+    for (let attempt = 1; ; attempt++) {
+        const saga = await SagaModel.findById(sagaId);
+        if (!saga) {
+            return null;
+        }
+        const effects: SagaEffect[] = [];
+        change(saga, effects);
+        if (!saga.isModified()) {
+            return saga;
+        }
+        try {
+            await saga.saveIfVersion(saga.version);
+        } catch (error) {
+            if (error instanceof CustomServerException && error.extraMessageCode === "versionConflict" && attempt < MAX_UPDATE_ATTEMPTS) {
+                continue;
+            }
+            throw error;
+        }
+        await runEffects(effects);
+        return saga;
+    }
+}
+
+// ============ Sagas ==================================================
+/**
+ * Stores a new saga of the given type and sends the command of its first step.
+ */
+export async function startSaga(type: string, context: Record<string, any>): Promise<SagaDocument> {
+    const definition = getDefinition(type);
+    const saga = new SagaModel({
+        type,
+        status: SagaStatus.RUNNING,
+        steps: definition.steps.map(step => ({ name: step.name, status: SagaStepStatus.PENDING, attempts: 0 })),
+        context
+    });
+    const effects: SagaEffect[] = [];
+    runStep(saga, 0, effects);
+    await saga.save();
+    await runEffects(effects);
+    return saga;
+}
+
+export async function getSaga(sagaId: string, filter: Record<string, any> = {}) {
+    const saga = await SagaModel.findOne({ ...filter, _id: sagaId });
+    if (!saga) {
+        throw new CustomServerException("mongoDb", "doesNotExist", undefined, HttpStatus.NOT_FOUND);
+    }
+    return saga;
+}
+
+export async function listSagas(filter: { type?: string, status?: string, page: number, limit: number }) {
+    const query: Record<string, any> = {};
+    if (filter.type) {
+        query.type = filter.type;
+    }
+    if (filter.status) {
+        query.status = filter.status;
+    }
+    const [items, total] = await Promise.all([
+        SagaModel.find(query).sort({ createdAt: -1 }).skip((filter.page - 1) * filter.limit).limit(filter.limit),
+        SagaModel.countDocuments(query)
+    ]);
+    return { items, total, page: filter.page, limit: filter.limit };
+}
+
+// ============ Kafka ==================================================
+export async function handleSagaReply(reply: SagaReply): Promise<void> {
+    let logger = getLogger("sagaReplyHandler", Logger.SAGA, Logger.SAGA);
+    logger.start();
+    const saga = await updateSaga(reply.sagaId, (saga, effects) => applyReply(saga, reply, effects));
+    if (!saga) {
+        logger.fail(`Dropping reply of [${reply.step}] for unknown saga [${reply.sagaId}]`);
+        return;
+    }
+    logger.info(`Saga [${reply.sagaId}] is [${saga.status}] after the ${reply.compensation ? "compensation" : "reply"} of [${reply.step}]`, { success: reply.success });
+    logger.finish();
+}
+
+/**
+ * Registers the service side of a saga step: runs the handler for every command on the topic
+ * and replies on EVENT_TOPICS.SAGA_REPLY with its data, or with the error it threw.
+ * Commands can be delivered more than once, so handlers must be safe to run again.
+ */
+export function registerSagaParticipant(topic: TopicDefinition<SagaCommand>, handler: SagaCommandHandler): void {
+    registerEventHandler(topic, async (command) => {
+        let logger = getLogger("sagaParticipant", Logger.SAGA, Logger.SAGA);
+        logger.start();
+        const reply: SagaReply = { sagaId: command.sagaId, step: command.step, compensation: command.compensation, success: true };
+        try {
+            reply.data = (await handler(command)) || undefined;
+        } catch (error) {
+            reply.success = false;
+            reply.error = error instanceof CustomServerException ? `${error.errorCode}/${error.extraMessageCode}` : error.message;
+        }
+        await publishEvent(EVENT_TOPICS.SAGA_REPLY, command.sagaId, reply);
+        if (reply.success) {
+            logger.finish();
+        }
+        else {
+            logger.fail(`[${topic.name}] failed for saga [${command.sagaId}]: ${reply.error}`);
+        }
+    });
+}
+
+export function registerSagaConsumer(): void {
+    registerEventHandler(EVENT_TOPICS.SAGA_REPLY, handleSagaReply);
+}
+
+// ============ Timeouts ===============================================
+/**
+ * Fails the steps and compensations that did not get a reply in SAGA.STEP_TIMEOUT, across all tenants.
+ */
+export async function timeOutSagas(parentAction?: number): Promise<number> {
+    let logger = getLogger("sagaTimeout", Logger.SAGA, Logger.SAGA, parentAction);
+    logger.start();
+    let timedOut = 0;
+    const sagas = await SagaModel.find({ deadline: { $lt: new Date() } })
+        .setOptions({ allTenants: true })
+        .select("_id tenantId")
+        .limit(TIMEOUT_BATCH_SIZE)
+        .lean();
+    for (let saga of sagas) {
+        try {
+            await runAsSystem(() => updateSaga(saga._id.toString(), applyTimeout), saga.tenantId);
+            timedOut++;
+        } catch (error) {
+            logger.err(`Saga [${saga._id}] could not time out: ${error.message}`);
+        }
+    }
+    logger.info(`Timed out [${timedOut}] saga(s)`);
+    logger.finish();
+    return timedOut;
+}
+
+/**
+ * Checks for timed out sagas every SAGA.TIMEOUT_INTERVAL ms. A Redis lock makes sure only one server instance runs it at a time.
+ */
+export function startSagaTimeoutScheduler(parentAction?: number): void {
+    let logger = getLogger("sagaTimeoutScheduler", Logger.SAGA, Logger.SAGA, parentAction);
+    logger.updateSpace();
+    logger.start();
+    if (timeoutTimer) {
+        clearInterval(timeoutTimer);
+    }
+    timeoutTimer = setInterval(async () => {
+        try {
+            const locked = await getRedisClient().set(TIMEOUT_LOCK_KEY, process.pid.toString(), { NX: true, PX: SAGA.TIMEOUT_INTERVAL });
+            if (locked) {
+                await runAsSystem(() => timeOutSagas());
+            }
+        } catch (error) {
+            logger.err(`Saga timeouts could not run: ${error.message}`);
+        }
+    }, SAGA.TIMEOUT_INTERVAL);
+    logger.debug(`Saga timeouts checked every [${SAGA.TIMEOUT_INTERVAL}] ms, steps time out after [${SAGA.STEP_TIMEOUT}] ms`);
+    logger.finish();
+    logger.updateSpace(-1);
+}
@@ -0,0 +1,41 @@
+import {CONSTANTS} from "@environment";
+import {getLogger, Logger} from "@loggers/serverLogger";
+import {CustomServerException, customServerExceptionToCustomClientException} from "@_shared/exceptions/exceptions";
+import {HttpStatus} from "@_shared/types/general.types";
+import {SignupRequestEvent} from "@_shared/types/user.types";
+import {publishEvent, registerEventHandler} from "@_shared/kafka/events";
+import {EVENT_TOPICS} from "@_shared/kafka/topics";
+import {signupUser} from "@services/user/signup.service";
+
+export async function handleSignupRequest(request: SignupRequestEvent): Promise<void> {
+    let logger = getLogger("userSignupRequestHandler", Logger.USER, Logger.USER);
+    logger.start();
+
+    const requestId = request.requestId;
+    const languageCode = request.languageCode || CONSTANTS.DEFAULT_LANGUAGE;
+
+    try {
+        const user = await signupUser(request.data);
+        logger.info(`User [${user._id}] signed up`, { requestId });
+        await publishEvent(EVENT_TOPICS.USER_SIGNUP_COMPLETED, requestId, {
+            requestId,
+            userId: user._id.toString(),
+            email: user.email
+        });
+        logger.finish();
+    } catch (error) {
+        const exception = error instanceof CustomServerException ? error : new CustomServerException("user", "signupFailed", undefined, HttpStatus.INTERNAL_SERVER_ERROR);
+        if (!(error instanceof CustomServerException)) {
+            logger.err(`Unexpected signup failure: ${error.message}`, { requestId });
+        }
+        await publishEvent(EVENT_TOPICS.USER_SIGNUP_FAILED, requestId, {
+            requestId,
+            error: customServerExceptionToCustomClientException(exception, languageCode)
+        });
+        logger.fail(`Signup failed with [${exception.errorCode}/${exception.extraMessageCode}]`);
+    }
+}
+
+export function registerSignupConsumer(): void {
+    registerEventHandler(EVENT_TOPICS.USER_SIGNUP_REQUEST, handleSignupRequest);
+}
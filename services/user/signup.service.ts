@@ -0,0 +1,57 @@
+import bcrypt from "bcryptjs";
+import {CONSTANTS, SECURITY} from "@environment";
+import {UserModel} from "@dbModels/user/User";
+import {CustomServerException} from "@_shared/exceptions/exceptions";
+import {assertSchema, field, object, optional, rules} from "@_shared/exceptions/schema";
+import {convertDateToUTC, mustBe18} from "@_shared/exceptions/validators";
+import {HttpStatus} from "@_shared/types/general.types";
+import {SignupData} from "@_shared/types/user.types";
+
+export const signupSchema = object({
+    email: field(rules.isEmail()),
+    password: field(rules.isCorrectPassword()),
+    confirmPassword: field(rules.isMatch("password")),
+    firstName: field(rules.notEmpty(), rules.stringLength(1, 50)),
+    lastName: field(rules.notEmpty(), rules.stringLength(1, 50)),
+    phoneNumber: field(rules.isCorrectPhoneNumber()),
+    timezone: field(rules.isValidTimeZone()),
+    // the age check depends on the timezone submitted next to it
+    birthDate: field((value, path, context) => mustBe18(value, context.parent.timezone, path)),
+    languageCode: optional(field(rules.mustBe(CONSTANTS.SUPPORTED_LANGUAGES)))
+});
+
+/**
+ * Validates the signup data, hashes the password and persists the user.
+ * Throws "formNotCorrect" for invalid data and "user"/"emailTaken" when the email is already registered.
+ */
+export async function signupUser(data: SignupData) {
+    assertSchema(signupSchema, data);
+
+    const email = data.email.trim().toLowerCase();
+    const exists = await UserModel.exists({ email }).setOptions({ includeDeleted: true });
+    if (exists) {
+        throw new CustomServerException("user", "emailTaken", undefined, HttpStatus.CONFLICT);
+    }
+
+    try {
+        return await UserModel.create({
+            email,
+            password: await bcrypt.hash(data.password, SECURITY.PASSWORD_SALT_ROUNDS),
+            firstName: data.firstName,
+            lastName: data.lastName,
+            phoneNumber: {
+                prefix: data.phoneNumber.prefix,
+                number: data.phoneNumber.number
+            },
+            birthDate: convertDateToUTC(data.birthDate, data.timezone),
+            timezone: data.timezone,
+            languageCode: data.languageCode
+        });
+    } catch (error) {
+        // lost the race against a concurrent signup with the same email
+        if (error?.code === 11000) {
+            throw new CustomServerException("user", "emailTaken", undefined, HttpStatus.CONFLICT);
+        }
+        throw error;
+    }
+}